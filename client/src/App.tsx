@@ -13,8 +13,10 @@ import { LogOut, User } from "lucide-react";
 import Dashboard from "@/pages/dashboard";
 import Customers from "@/pages/customers";
 import Routes from "@/pages/routes";
+import FieldMode from "@/pages/field";
 import Messages from "@/pages/messages";
 import Invoices from "@/pages/invoices";
+import BillingRuns from "@/pages/billing-runs";
 import Reports from "@/pages/reports";
 import Import from "@/pages/import";
 import PriceBook from "@/pages/price-book";
@@ -25,6 +27,7 @@ import PortalLogin from "@/pages/portal-login";
 import Bookings from "@/pages/bookings";
 import BookNow from "@/pages/book";
 import ReviewPage from "@/pages/review";
+import QuotePage from "@/pages/quote";
 import ReviewsPage from "@/pages/reviews";
 import PortalPreview from "@/pages/portal-preview";
 import Announcements from "@/pages/announcements";
@@ -39,8 +42,10 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/customers" component={Customers} />
       <Route path="/routes" component={Routes} />
+      <Route path="/field" component={FieldMode} />
       <Route path="/messages" component={Messages} />
       <Route path="/invoices" component={Invoices} />
+      <Route path="/billing-runs" component={BillingRuns} />
       <Route path="/reports" component={Reports} />
       <Route path="/reviews" component={ReviewsPage} />
       <Route path="/import" component={Import} />
@@ -138,6 +143,7 @@ function App() {
             <Route path="/privacy-policy" component={PrivacyPolicy} />
             <Route path="/terms" component={TermsOfService} />
             <Route path="/review/:token" component={ReviewPage} />
+            <Route path="/quote/:token" component={QuotePage} />
             <Route path="/portal/login" component={PortalLogin} />
             <Route path="/portal" component={CustomerPortal} />
             <Route>
@@ -13,6 +13,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CreditCard, FileText, DollarSign, Loader2, Banknote } from "lucide-react";
+import { AccountSummary, useCustomerAccount } from "@/components/customer-account";
 import type { Customer, Invoice } from "@shared/schema";
 import { format } from "date-fns";
 
@@ -57,6 +58,7 @@ function CardPaymentForm({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       toast({ title: "Payment Successful", description: "Card payment has been processed." });
       onSuccess();
     },
@@ -117,7 +119,8 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
   const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const { data: unpaidInvoices = [] } = useQuery<Invoice[]>({
+  // Each open invoice carries what's left to pay on it after partial payments
+  const { data: unpaidInvoices = [] } = useQuery<Array<Invoice & { balance: number }>>({
     queryKey: ["/api/customers", customer.id, "unpaid-invoices"],
     queryFn: async () => {
       const response = await fetch(`/api/customers/${customer.id}/unpaid-invoices`);
@@ -126,6 +129,7 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
     },
     enabled: open,
   });
+  const { data: account } = useCustomerAccount(customer.id, open);
 
   // Reset dialog state every time it opens
   useEffect(() => {
@@ -144,7 +148,7 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
 
   const totalSelected = selectedInvoiceIds.reduce((sum, id) => {
     const invoice = unpaidInvoices.find(inv => inv.id === id);
-    return sum + (invoice ? parseFloat(invoice.amount) : 0);
+    return sum + (invoice ? invoice.balance : 0);
   }, 0);
 
   // Auto-fill amount when invoices are selected (only if amount is empty)
@@ -189,6 +193,7 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       toast({ title: "Check Payment Recorded", description: "The check payment has been recorded." });
       handleClose();
     },
@@ -210,6 +215,7 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       toast({ title: "Cash Payment Recorded", description: "The cash payment has been recorded." });
       handleClose();
     },
@@ -280,6 +286,12 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
         </DialogHeader>
 
         <div className="flex-1 overflow-auto">
+          {account && (
+            <div className="mb-4">
+              <AccountSummary account={account} />
+            </div>
+          )}
+
           {unpaidInvoices.length > 0 && (
             <Card className="mb-4">
               <CardHeader className="pb-2">
@@ -287,7 +299,7 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
                   <FileText className="h-4 w-4" />
                   Apply to Invoices (Optional)
                 </CardTitle>
-                <CardDescription>Select invoices to apply this payment to</CardDescription>
+                <CardDescription>Select invoices to apply this payment to first. Anything left over pays other open invoices, then stays on the account as credit.</CardDescription>
               </CardHeader>
               <CardContent>
                 <ScrollArea className="h-32">
@@ -309,7 +321,12 @@ export function TakePaymentDialog({ open, onOpenChange, customer, preselectedInv
                             Due: {format(new Date(invoice.dueDate), "MMM d, yyyy")}
                           </span>
                         </div>
-                        <span className="font-semibold">${parseFloat(invoice.amount).toFixed(2)}</span>
+                        <div className="text-right">
+                          <span className="font-semibold">${invoice.balance.toFixed(2)}</span>
+                          {invoice.status === "partial" && (
+                            <p className="text-xs text-muted-foreground">of ${parseFloat(invoice.amount).toFixed(2)}</p>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -1,4 +1,4 @@
-import { Home, Users, MapPin, FileText, Settings, LogOut, BarChart3, MessageSquare, Upload, CalendarCheck, DollarSign, Star, Shield, Eye, Megaphone } from "lucide-react";
+import { Home, Users, MapPin, FileText, Settings, LogOut, BarChart3, MessageSquare, Upload, CalendarCheck, DollarSign, Star, Shield, Eye, Megaphone, Smartphone, Receipt } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import {
@@ -14,6 +14,7 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
 import logoImage from "@assets/sillydog-logo.png";
 
 const menuItems = [
@@ -32,6 +33,11 @@ const menuItems = [
     url: "/routes",
     icon: MapPin,
   },
+  {
+    title: "Today's Run",
+    url: "/field",
+    icon: Smartphone,
+  },
   {
     title: "Bookings",
     url: "/bookings",
@@ -52,6 +58,11 @@ const menuItems = [
     url: "/invoices",
     icon: FileText,
   },
+  {
+    title: "Billing Runs",
+    url: "/billing-runs",
+    icon: Receipt,
+  },
   {
     title: "Reports",
     url: "/reports",
@@ -89,8 +100,15 @@ const menuItems = [
   },
 ];
 
+// Technicians only have access to their own stops
+const technicianUrls = ["/routes", "/field"];
+
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user } = useAuth();
+  const items = user?.role === "technician"
+    ? menuItems.filter(item => technicianUrls.includes(item.url))
+    : menuItems;
 
   // Fetch unread message count for badge
   const { data: unreadData } = useQuery<{ count: number }>({
@@ -121,7 +139,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {items.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Loader2, Mail, MessageSquare, Plus } from "lucide-react";
+import type { BookingRequest, Quote, QuoteFrequency, ServiceType, Settings } from "@shared/schema";
+
+const frequencyLabels: Record<QuoteFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Every other week",
+  "every-3-weeks": "Every 3 weeks",
+  "every-4-weeks": "Every 4 weeks",
+  monthly: "Monthly",
+  "one-time": "One-time",
+};
+
+const statusStyles: Record<string, string> = {
+  draft: "bg-gray-500",
+  sent: "bg-blue-600",
+  accepted: "bg-green-600",
+  declined: "bg-red-600",
+  expired: "bg-gray-400",
+};
+
+const dayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Starting point for the quote: the fixed-price service type for the number of dogs and the
+// plan picked on the booking form (a new start is quoted as weekly plus a cleanup price)
+function defaultsFor(booking: BookingRequest, serviceTypes: ServiceType[]) {
+  const dogsIn = (serviceType: ServiceType) => parseInt(serviceType.category || "");
+  const serviceType = serviceTypes
+    .filter(st => st.active && !st.isHourly && st.timesPerWeek === 1 && dogsIn(st) <= booking.numberOfDogs)
+    .sort((a, b) => dogsIn(b) - dogsIn(a))[0];
+  const plan = booking.preferredServicePlan;
+  const frequency: QuoteFrequency = plan === "biweekly" || plan === "one-time" ? plan : "weekly";
+  return { serviceTypeId: serviceType?.id ?? "", frequency };
+}
+
+// Quotes for a booking request: build one from the price book, then text or email it, or share the link
+export function BookingQuotesDialog({
+  booking,
+  open,
+  onOpenChange,
+}: {
+  booking: BookingRequest;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const { data: quotes = [], isLoading } = useQuery<Quote[]>({
+    queryKey: ["/api/booking-requests", booking.id, "quotes"],
+    enabled: open,
+  });
+  const { data: serviceTypes = [] } = useQuery<ServiceType[]>({ queryKey: ["/api/service-types"], enabled: open });
+  const { data: settings } = useQuery<Settings>({ queryKey: ["/api/settings"], enabled: open });
+  const fixedPriceTypes = serviceTypes.filter(st => st.active && !st.isHourly);
+  const addons = settings?.serviceAddons || [];
+
+  const [building, setBuilding] = useState(false);
+  const [serviceTypeId, setServiceTypeId] = useState("");
+  const [frequency, setFrequency] = useState<QuoteFrequency>("weekly");
+  const [serviceDays, setServiceDays] = useState<number[]>([]);
+  const [cleanupPrice, setCleanupPrice] = useState("");
+  const [selectedAddons, setSelectedAddons] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+
+  const startQuote = () => {
+    const defaults = defaultsFor(booking, serviceTypes);
+    setServiceTypeId(defaults.serviceTypeId);
+    setFrequency(defaults.frequency);
+    setServiceDays([]);
+    setCleanupPrice("");
+    setSelectedAddons([]);
+    setNotes("");
+    setExpiresOn("");
+    setBuilding(true);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/booking-requests", booking.id, "quotes"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/booking-requests/${booking.id}/quotes`, {
+        serviceTypeId,
+        frequency,
+        serviceDays: serviceDays.length > 0 ? serviceDays : undefined,
+        cleanupPrice: cleanupPrice ? parseFloat(cleanupPrice) : null,
+        addons: selectedAddons,
+        notes: notes || null,
+        expiresOn: expiresOn || undefined,
+      });
+      return response.json() as Promise<Quote>;
+    },
+    onSuccess: () => {
+      invalidate();
+      setBuilding(false);
+      toast({ title: "Quote created", description: "Text or email it to the customer, or share the link." });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async ({ quote, channel }: { quote: Quote; channel: "sms" | "email" | "link" }) => {
+      const response = await apiRequest("POST", `/api/quotes/${quote.id}/send`, { channel });
+      return response.json() as Promise<{ quote: Quote; url: string }>;
+    },
+    onSuccess: async ({ url }, { channel }) => {
+      invalidate();
+      if (channel === "sms") {
+        toast({ title: "Quote sent", description: `Texted to ${booking.phone}` });
+      } else if (channel === "email") {
+        toast({ title: "Quote sent", description: `Emailed to ${booking.email}` });
+      } else {
+        await navigator.clipboard.writeText(url);
+        toast({ title: "Link copied", description: "The quote is marked as sent." });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const serviceTypeName = (id: string) => serviceTypes.find(st => st.id === id)?.name || "Service";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-booking-quotes">
+        <DialogHeader>
+          <DialogTitle>Quotes for {booking.name}</DialogTitle>
+          <DialogDescription>
+            The customer accepts from the link; their customer record, schedule and first visit are created then.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : quotes.length > 0 ? (
+          <div className="space-y-2">
+            {quotes.map(quote => (
+              <div key={quote.id} className="p-3 rounded-lg border space-y-2" data-testid={`quote-${quote.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-sm">
+                      {serviceTypeName(quote.serviceTypeId)} · {frequencyLabels[quote.frequency as QuoteFrequency]} on {quote.serviceDays.map(day => dayLabels[day]).join(", ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      ${quote.pricePerVisit} per visit
+                      {quote.cleanupPrice ? ` · $${quote.cleanupPrice} first-visit cleanup` : ""}
+                      {quote.addons && quote.addons.length > 0 ? ` · ${quote.addons.length} add-on(s)` : ""}
+                      {` · valid until ${quote.expiresOn}`}
+                    </p>
+                  </div>
+                  <Badge className={statusStyles[quote.status]} data-testid={`badge-quote-status-${quote.id}`}>{quote.status}</Badge>
+                </div>
+                {(quote.status === "draft" || quote.status === "sent") && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => sendMutation.mutate({ quote, channel: "sms" })}
+                      disabled={sendMutation.isPending}
+                      data-testid={`button-quote-sms-${quote.id}`}
+                    >
+                      <MessageSquare className="w-4 h-4 mr-1" />
+                      Text
+                    </Button>
+                    {booking.email && (
+                      <Button size="sm" variant="outline" onClick={() => sendMutation.mutate({ quote, channel: "email" })} disabled={sendMutation.isPending} data-testid={`button-quote-email-${quote.id}`}>
+                        <Mail className="w-4 h-4 mr-1" />
+                        Email
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => sendMutation.mutate({ quote, channel: "link" })}
+                      disabled={sendMutation.isPending}
+                      data-testid={`button-quote-copy-${quote.id}`}
+                    >
+                      <Copy className="w-4 h-4 mr-1" />
+                      Copy link
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          !building && <p className="text-sm text-muted-foreground">No quotes yet</p>
+        )}
+
+        {building ? (
+          <div className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Service type</Label>
+                <Select value={serviceTypeId} onValueChange={setServiceTypeId}>
+                  <SelectTrigger data-testid="select-quote-service-type">
+                    <SelectValue placeholder="Choose a service type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fixedPriceTypes.map(st => (
+                      <SelectItem key={st.id} value={st.id}>{st.name} (${st.basePrice})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Frequency</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as QuoteFrequency)}>
+                  <SelectTrigger data-testid="select-quote-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(frequencyLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label>Service days</Label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {dayLabels.map((label, day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={serviceDays.includes(day) ? "default" : "outline"}
+                    onClick={() => setServiceDays(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day])}
+                    data-testid={`button-quote-day-${day}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Leave empty to use the best-fit days for the address.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="quote-cleanup">First-visit cleanup ($)</Label>
+                <Input id="quote-cleanup" type="number" min="0" step="0.01" placeholder="None" value={cleanupPrice} onChange={(e) => setCleanupPrice(e.target.value)} data-testid="input-quote-cleanup" />
+              </div>
+              <div>
+                <Label htmlFor="quote-expires">Valid until</Label>
+                <Input id="quote-expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} data-testid="input-quote-expires" />
+                <p className="text-xs text-muted-foreground mt-1">Defaults to two weeks from today.</p>
+              </div>
+            </div>
+
+            {addons.length > 0 && (
+              <div className="space-y-2">
+                <Label>Add-ons</Label>
+                {addons.map(addon => (
+                  <div key={addon.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`quote-addon-${addon.key}`}
+                      checked={selectedAddons.includes(addon.key)}
+                      onCheckedChange={(checked) => setSelectedAddons(keys => checked === true ? [...keys, addon.key] : keys.filter(key => key !== addon.key))}
+                      data-testid={`checkbox-quote-addon-${addon.key}`}
+                    />
+                    <Label htmlFor={`quote-addon-${addon.key}`} className="font-normal">{addon.name} (${addon.price} per visit)</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="quote-notes">Notes for the customer</Label>
+              <Textarea id="quote-notes" value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-quote-notes" />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setBuilding(false)} data-testid="button-cancel-quote">Cancel</Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!serviceTypeId || createMutation.isPending}
+                className="bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+                data-testid="button-create-quote"
+              >
+                {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                Create Quote
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={startQuote} data-testid="button-new-quote">
+            <Plus className="w-4 h-4 mr-2" />
+            New Quote
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, MessageSquareText, Pencil, Settings2, Trash2 } from "lucide-react";
+import type { CannedReply } from "@shared/schema";
+
+// Saved replies staff can drop into the composer, with a dialog to manage them
+export function CannedRepliesMenu({ onPick }: { onPick: (body: string) => void }) {
+  const [manageOpen, setManageOpen] = useState(false);
+  const { data: replies = [] } = useQuery<CannedReply[]>({
+    queryKey: ["/api/canned-replies"],
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" size="icon" variant="outline" className="h-11 w-11 flex-shrink-0" data-testid="button-canned-replies">
+            <MessageSquareText className="w-5 h-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Canned replies</DropdownMenuLabel>
+          {replies.length === 0 ? (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved replies yet</p>
+          ) : (
+            replies.map(reply => (
+              <DropdownMenuItem
+                key={reply.id}
+                onSelect={() => onPick(reply.body)}
+                className="flex-col items-start"
+                data-testid={`canned-reply-${reply.id}`}
+              >
+                <span className="font-medium">{reply.title}</span>
+                <span className="text-xs text-muted-foreground line-clamp-2">{reply.body}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManageOpen(true)} data-testid="button-manage-canned-replies">
+            <Settings2 className="w-4 h-4 mr-2" />
+            Manage replies
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ManageCannedReplies open={manageOpen} onOpenChange={setManageOpen} replies={replies} />
+    </>
+  );
+}
+
+function ManageCannedReplies({ open, onOpenChange, replies }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  replies: CannedReply[];
+}) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+
+  const reset = () => {
+    setEditingId(null);
+    setTitle("");
+    setBody("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { title: title.trim(), body: body.trim() };
+      return editingId
+        ? await apiRequest("PATCH", `/api/canned-replies/${editingId}`, data)
+        : await apiRequest("POST", "/api/canned-replies", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/canned-replies"] });
+      toast({ title: editingId ? "Reply Updated" : "Reply Saved" });
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/canned-replies/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/canned-replies"] });
+      if (id === editingId) reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); if (!next) reset(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Canned Replies</DialogTitle>
+          <DialogDescription>Saved texts anyone on staff can insert into a conversation</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {replies.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No saved replies yet</p>
+          )}
+          {replies.map(reply => (
+            <div key={reply.id} className="flex items-start gap-2 border rounded-md p-2" data-testid={`row-canned-reply-${reply.id}`}>
+              <div className="min-w-0 flex-1">
+                <div className="font-medium text-sm">{reply.title}</div>
+                <div className="text-xs text-muted-foreground whitespace-pre-wrap">{reply.body}</div>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => { setEditingId(reply.id); setTitle(reply.title); setBody(reply.body); }}
+                data-testid={`button-edit-canned-reply-${reply.id}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => deleteMutation.mutate(reply.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-canned-reply-${reply.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form
+          className="space-y-3 border-t pt-4"
+          onSubmit={(e) => { e.preventDefault(); saveMutation.mutate(); }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="canned-reply-title">{editingId ? "Edit reply" : "New reply"}</Label>
+            <Input
+              id="canned-reply-title"
+              placeholder="Title, e.g. Gate code"
+              value={title}
+              maxLength={60}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="input-canned-reply-title"
+            />
+          </div>
+          <Textarea
+            placeholder="Message text"
+            value={body}
+            maxLength={1600}
+            rows={3}
+            onChange={(e) => setBody(e.target.value)}
+            data-testid="input-canned-reply-body"
+          />
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={reset}>Cancel</Button>
+            )}
+            <Button
+              type="submit"
+              disabled={!title.trim() || !body.trim() || saveMutation.isPending}
+              data-testid="button-save-canned-reply"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingId ? "Save Changes" : "Add Reply"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import type { Conversation, Customer, ServiceType } from "@shared/schema";
+
+export type LeadConversion = "customer" | "booking";
+
+const planLabels = {
+  weekly: "Weekly",
+  biweekly: "Every other week",
+  "one-time": "One-time",
+} as const;
+
+// Turn a text from an unknown number into a customer, or into a booking request that goes
+// through the usual quote flow
+export function ConvertLeadDialog({ conversation, target, onOpenChange, onCustomerCreated }: {
+  conversation: Conversation;
+  target: LeadConversion | null;
+  onOpenChange: (open: boolean) => void;
+  onCustomerCreated: (customer: Customer) => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const [email, setEmail] = useState("");
+  const [numberOfDogs, setNumberOfDogs] = useState("1");
+  const [yardNotes, setYardNotes] = useState("");
+  const [serviceTypeId, setServiceTypeId] = useState("");
+  const [plan, setPlan] = useState<keyof typeof planLabels>("weekly");
+
+  const { data: serviceTypes = [] } = useQuery<ServiceType[]>({
+    queryKey: ["/api/service-types"],
+    enabled: target === "customer",
+  });
+
+  useEffect(() => {
+    if (target) setName(conversation.name ?? "");
+  }, [target, conversation.id]);
+
+  const convertMutation = useMutation({
+    mutationFn: async () => {
+      const details = { name, address, email, numberOfDogs, yardNotes };
+      const res = target === "customer"
+        ? await apiRequest("POST", `/api/conversations/${conversation.id}/convert/customer`, { ...details, serviceTypeId })
+        : await apiRequest("POST", `/api/conversations/${conversation.id}/convert/booking`, { ...details, preferredServicePlan: plan });
+      return await res.json();
+    },
+    onSuccess: (result: { customer?: Customer }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      if (result.customer) {
+        queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/all"] });
+        toast({ title: "Customer Created", description: `${result.customer.name} is now a customer.` });
+        onCustomerCreated(result.customer);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/booking-requests"] });
+        toast({ title: "Booking Request Created", description: "Find it under Booking Requests to send a quote." });
+      }
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = name.trim() && address.trim() && (target !== "customer" || serviceTypeId);
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{target === "customer" ? "Create Customer" : "Create Booking Request"}</DialogTitle>
+          <DialogDescription>
+            From texts sent by {conversation.phone}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => { e.preventDefault(); convertMutation.mutate(); }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="lead-name">Name</Label>
+            <Input id="lead-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-lead-name" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="lead-address">Address</Label>
+            <Input id="lead-address" value={address} onChange={(e) => setAddress(e.target.value)} data-testid="input-lead-address" />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="lead-email">Email (optional)</Label>
+              <Input id="lead-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} data-testid="input-lead-email" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lead-dogs">Dogs</Label>
+              <Input
+                id="lead-dogs"
+                type="number"
+                min={1}
+                max={20}
+                value={numberOfDogs}
+                onChange={(e) => setNumberOfDogs(e.target.value)}
+                data-testid="input-lead-dogs"
+              />
+            </div>
+          </div>
+          {target === "customer" ? (
+            <div className="space-y-1">
+              <Label>Service type</Label>
+              <Select value={serviceTypeId} onValueChange={setServiceTypeId}>
+                <SelectTrigger data-testid="select-lead-service-type">
+                  <SelectValue placeholder="Choose a service type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {serviceTypes.filter(st => st.active).map(st => (
+                    <SelectItem key={st.id} value={st.id}>{st.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label>Preferred plan</Label>
+              <Select value={plan} onValueChange={(value) => setPlan(value as keyof typeof planLabels)}>
+                <SelectTrigger data-testid="select-lead-plan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(planLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="lead-yard-notes">Yard notes (optional)</Label>
+            <Textarea id="lead-yard-notes" rows={2} value={yardNotes} onChange={(e) => setYardNotes(e.target.value)} data-testid="input-lead-yard-notes" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!canSubmit || convertMutation.isPending} data-testid="button-convert-lead">
+              {convertMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {target === "customer" ? "Create Customer" : "Create Booking Request"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
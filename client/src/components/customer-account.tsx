@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BookOpen, Download, Loader2, Plus, Tag, Undo2 } from "lucide-react";
+import type { Customer, PromoRedemption } from "@shared/schema";
+
+// GET /api/customers/:id/ledger (and `account` in the portal data); amounts in dollars
+export interface CustomerAccount {
+  balance: number; // negative when the customer is in credit
+  amountDue: number;
+  credit: number;
+  openInvoices: { invoiceId: string; balance: number }[];
+  entries: Array<{
+    date: string;
+    kind: "charge" | "payment" | "credit" | "refund" | "adjustment" | "void";
+    reference: string;
+    description: string;
+    amount: number;
+    balance: number;
+    invoiceId?: string;
+    paymentId?: string;
+  }>;
+}
+
+const kindStyles: Record<string, string> = {
+  charge: "bg-gray-500",
+  payment: "bg-green-600",
+  credit: "bg-blue-600",
+  refund: "bg-orange-600",
+  adjustment: "bg-purple-600",
+  void: "bg-gray-400",
+};
+
+type Entry = CustomerAccount["entries"][number];
+
+// GET /api/customers/:id/promotions
+interface CustomerPromotions {
+  referralCode: string | null; // null while referrals are turned off
+  promotions: { redemption: PromoRedemption; remaining: string | null }[];
+}
+
+function promotionRemainingLabel({ redemption, remaining }: CustomerPromotions["promotions"][number]): string {
+  if (remaining === null) return "used";
+  if (redemption.discountType === "percent") return `${parseFloat(remaining)}% off next invoice`;
+  if (redemption.discountType === "fixed") return `$${parseFloat(remaining).toFixed(2)} off next invoice`;
+  return `${parseFloat(remaining)} free visit${parseFloat(remaining) === 1 ? "" : "s"} left`;
+}
+
+function money(amount: number): string {
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+// Balance, amount due and unapplied credit side by side
+export function AccountSummary({ account }: { account: CustomerAccount }) {
+  return (
+    <div className="grid grid-cols-3 gap-3 text-sm" data-testid="account-summary">
+      <div className="rounded-lg border p-3">
+        <p className="text-muted-foreground">Balance</p>
+        <p className={`text-lg font-bold ${account.balance > 0 ? "text-orange-600" : "text-green-600"}`}>
+          {account.balance < 0 ? `${money(-account.balance)} credit` : money(account.balance)}
+        </p>
+      </div>
+      <div className="rounded-lg border p-3">
+        <p className="text-muted-foreground">Due on Invoices</p>
+        <p className="text-lg font-bold">{money(account.amountDue)}</p>
+      </div>
+      <div className="rounded-lg border p-3">
+        <p className="text-muted-foreground">Unapplied Credit</p>
+        <p className="text-lg font-bold">{money(account.credit)}</p>
+      </div>
+    </div>
+  );
+}
+
+export function useCustomerAccount(customerId: string, enabled = true) {
+  return useQuery<CustomerAccount>({
+    queryKey: ["/api/customers", customerId, "ledger"],
+    enabled,
+  });
+}
+
+// Account ledger with a form for the office to post credits and adjustments
+export function CustomerAccountDialog({ customer }: { customer: Customer }) {
+  const [open, setOpen] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<"credit" | "adjustment">("credit");
+  const [amount, setAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [refunding, setRefunding] = useState<Entry | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: account, isLoading } = useCustomerAccount(customer.id, open);
+  const { data: promotions } = useQuery<CustomerPromotions>({
+    queryKey: ["/api/customers", customer.id, "promotions"],
+    enabled: open,
+  });
+
+  const creditMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/customers/${customer.id}/credits`, { paymentMethod, amount, notes });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", customer.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      setAmount("");
+      setNotes("");
+      toast({ title: paymentMethod === "credit" ? "Credit Added" : "Adjustment Posted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const response = await apiRequest("POST", `/api/payments/${paymentId}/refund`, {
+        amount: refundAmount || undefined,
+        reason: refundReason,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", customer.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      setRefunding(null);
+      toast({ title: "Refund Recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't Refund", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const promoMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/customers/${customer.id}/promotions`, { code: promoCode });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers", customer.id, "promotions"] });
+      setPromoCode("");
+      toast({ title: "Promo Code Applied", description: "It comes off the customer's next invoice" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't Apply Code", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isAdmin = user?.role === "admin";
+  const entries = account ? [...account.entries].reverse() : []; // newest first
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-account-${customer.id}`}>
+          <BookOpen className="w-3 h-3 mr-1" />
+          Account
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Account - {customer.name}</DialogTitle>
+          <DialogDescription>Charges, payments, credits, refunds and voids with the running balance</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !account ? (
+          <p className="text-muted-foreground">Loading account...</p>
+        ) : (
+          <div className="space-y-4">
+            <AccountSummary account={account} />
+
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No activity yet</p>
+            ) : (
+              <ScrollArea className="h-72 rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      {isAdmin && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry, i) => (
+                      <TableRow key={`${entry.kind}-${entry.invoiceId ?? entry.paymentId}-${i}`} data-testid={`ledger-entry-${i}`}>
+                        <TableCell className="whitespace-nowrap">{entry.date}</TableCell>
+                        <TableCell><Badge className={kindStyles[entry.kind]}>{entry.kind}</Badge></TableCell>
+                        <TableCell>
+                          <p>{entry.description}</p>
+                          <p className="text-xs text-muted-foreground">{entry.reference}</p>
+                        </TableCell>
+                        <TableCell className="text-right">{money(entry.amount)}</TableCell>
+                        <TableCell className="text-right">{money(entry.balance)}</TableCell>
+                        {isAdmin && (
+                          <TableCell>
+                            {entry.paymentId && entry.kind !== "refund" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setRefunding(entry);
+                                  setRefundAmount("");
+                                  setRefundReason("");
+                                }}
+                                data-testid={`button-refund-${entry.paymentId}`}
+                              >
+                                <Undo2 className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+
+            {refunding && (
+              <div className="rounded-lg border border-orange-300 p-4 space-y-3" data-testid="form-refund-payment">
+                <p className="font-semibold text-sm">
+                  {refunding.description.startsWith("Card") ? "Refund" : "Reverse"} {refunding.description.toLowerCase()} ({money(-refunding.amount)})
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Card payments are refunded through Stripe. Cash, checks and credits are reversed on the account. Invoices the payment covered reopen.
+                </p>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label>Amount ($)</Label>
+                    <Input
+                      className="w-28"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                      placeholder="All"
+                      data-testid="input-refund-amount"
+                    />
+                  </div>
+                  <div className="space-y-1 flex-1 min-w-48">
+                    <Label>Reason</Label>
+                    <Input value={refundReason} onChange={(e) => setRefundReason(e.target.value)} data-testid="input-refund-reason" />
+                  </div>
+                  <Button variant="outline" onClick={() => setRefunding(null)}>Cancel</Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => refundMutation.mutate(refunding.paymentId!)}
+                    disabled={refundMutation.isPending || !refundReason.trim()}
+                    data-testid="button-confirm-refund"
+                  >
+                    {refundMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/customers/${customer.id}/statement.pdf?download=1`} data-testid="button-download-statement">
+                <Download className="w-3 h-3 mr-1" />
+                Statement PDF
+              </a>
+            </Button>
+
+            <div className="rounded-lg border p-4 space-y-3" data-testid="customer-promotions">
+              <p className="font-semibold text-sm">Promotions</p>
+              {promotions?.referralCode && (
+                <p className="text-sm">
+                  Referral code: <span className="font-mono font-semibold" data-testid="text-referral-code">{promotions.referralCode}</span>
+                </p>
+              )}
+              {promotions && promotions.promotions.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  {promotions.promotions.map((promotion) => (
+                    <div key={promotion.redemption.id} className="flex justify-between gap-3">
+                      <span>
+                        <span className="font-mono">{promotion.redemption.code}</span>
+                        {promotion.redemption.referrerCustomerId && " (referral)"}
+                      </span>
+                      <span className="text-muted-foreground">{promotionRemainingLabel(promotion)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-end gap-3">
+                <div className="space-y-1 flex-1">
+                  <Label>Promo or referral code</Label>
+                  <Input
+                    className="uppercase"
+                    value={promoCode}
+                    onChange={(e) => setPromoCode(e.target.value)}
+                    data-testid="input-apply-promo-code"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => promoMutation.mutate()}
+                  disabled={promoMutation.isPending || !promoCode.trim()}
+                  data-testid="button-apply-promo-code"
+                >
+                  {promoMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Tag className="w-4 h-4 mr-2" />}
+                  Apply
+                </Button>
+              </div>
+            </div>
+
+            {isAdmin && (
+              <div className="rounded-lg border p-4 space-y-3">
+                <p className="font-semibold text-sm">Add Credit or Adjustment</p>
+                <p className="text-xs text-muted-foreground">
+                  Pays down open invoices first; anything left is applied to the next invoice.
+                </p>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as "credit" | "adjustment")}>
+                      <SelectTrigger className="w-40" data-testid="select-credit-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="credit">Account credit</SelectItem>
+                        <SelectItem value="adjustment">Balance adjustment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Amount ($)</Label>
+                    <Input
+                      className="w-28"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      data-testid="input-credit-amount"
+                    />
+                  </div>
+                  <div className="space-y-1 flex-1 min-w-48">
+                    <Label>Description</Label>
+                    <Input
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="e.g. Missed visit on 3/14"
+                      data-testid="input-credit-notes"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => creditMutation.mutate()}
+                    disabled={creditMutation.isPending || !amount || !notes.trim()}
+                    data-testid="button-add-credit"
+                  >
+                    {creditMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                    Post
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
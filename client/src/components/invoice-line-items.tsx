@@ -0,0 +1,68 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { InvoiceLineItem } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+
+interface InvoiceLineItemsProps {
+  lineItems: InvoiceLineItem[];
+  total: string;
+  onRemove?: (line: InvoiceLineItem) => void; // shows a remove button per line when set
+  removing?: boolean;
+}
+
+function formatMoney(amount: string | number): string {
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+// Itemized invoice breakdown: dated visits, add-ons, credits, discounts and sales tax.
+// Tax lines follow the taxable lines, so they can't be removed on their own.
+export function InvoiceLineItems({ lineItems, total, onRemove, removing }: InvoiceLineItemsProps) {
+  if (lineItems.length === 0) {
+    return <p className="text-sm text-muted-foreground">No line items</p>;
+  }
+
+  return (
+    <div className="text-sm" data-testid="invoice-line-items">
+      <div className="divide-y">
+        {lineItems.map((line) => {
+          const quantity = parseFloat(line.quantity);
+          return (
+            <div key={line.id} className="flex items-center justify-between gap-4 py-2" data-testid={`line-item-${line.id}`}>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {line.serviceDate && (
+                    <span className="text-muted-foreground mr-2">{format(parseISO(line.serviceDate), "MMM d")}</span>
+                  )}
+                  {line.description}
+                </p>
+                {quantity !== 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {quantity} × {formatMoney(line.unitPrice)}
+                  </p>
+                )}
+              </div>
+              <span className={parseFloat(line.amount) < 0 ? "text-green-600" : ""}>{formatMoney(line.amount)}</span>
+              {onRemove && line.kind === "tax" && <div className="w-10" />}
+              {onRemove && line.kind !== "tax" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRemove(line)}
+                  disabled={removing}
+                  data-testid={`button-remove-line-${line.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between border-t pt-2 mt-1 font-semibold">
+        <span>Total</span>
+        <span className={onRemove ? "mr-10" : ""}>{formatMoney(total)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { History, Loader2, MessageSquare, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import {
+  countSegments,
+  renderTemplate,
+  sampleValues,
+  unknownPlaceholders,
+  type MessageTemplateKey,
+  type TemplateValues,
+  type TemplateVariableType,
+} from "@shared/messageTemplates";
+import type { Customer, MessageTemplateVersion, Settings } from "@shared/schema";
+
+// GET /api/message-templates
+interface TemplateSummary {
+  key: MessageTemplateKey;
+  name: string;
+  description: string;
+  variables: { name: string; type: TemplateVariableType; label: string; sample: string }[];
+  defaultBody: string;
+  body: string;
+  version: number;
+  updatedAt: string | null;
+}
+
+const SAMPLE_CUSTOMER = "sample";
+
+// Values for the preview: the chosen customer's own details, sample values for the rest
+function previewValues(key: MessageTemplateKey, settings: Settings, customer: Customer | undefined) {
+  return {
+    ...sampleValues(key),
+    businessName: settings.businessName,
+    ...(customer && { name: customer.name, address: customer.address, phone: customer.phone }),
+  } as TemplateValues<MessageTemplateKey>;
+}
+
+// Editable texts with placeholders, a live preview and version history
+export function MessageTemplatesCard({ settings }: { settings: Settings }) {
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [selectedKey, setSelectedKey] = useState<MessageTemplateKey>("on_my_way");
+  const [body, setBody] = useState("");
+  const [previewCustomerId, setPreviewCustomerId] = useState(SAMPLE_CUSTOMER);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: templates = [], isLoading } = useQuery<TemplateSummary[]>({
+    queryKey: ["/api/message-templates"],
+  });
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+  const { data: versions = [] } = useQuery<MessageTemplateVersion[]>({
+    queryKey: ["/api/message-templates", selectedKey, "versions"],
+    enabled: showHistory,
+  });
+
+  const template = templates.find(t => t.key === selectedKey);
+  useEffect(() => {
+    if (template) setBody(template.body);
+  }, [template?.key, template?.version]);
+
+  const activeCustomers = useMemo(
+    () => customers.filter(c => c.status === "active").sort((a, b) => a.name.localeCompare(b.name)),
+    [customers]
+  );
+  const previewCustomer = customers.find(c => c.id === previewCustomerId);
+  const unknown = unknownPlaceholders(selectedKey, body);
+  const preview = renderTemplate(selectedKey, body, previewValues(selectedKey, settings, previewCustomer));
+  const segments = countSegments(preview);
+  const changed = !!template && body !== template.body;
+
+  const onSaved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/message-templates"] });
+    toast({ title: "Saved", description: message });
+  };
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/message-templates/${selectedKey}`, { body });
+      return response.json();
+    },
+    onSuccess: () => onSaved(`${template?.name} message updated`),
+    onError,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/message-templates/${selectedKey}/versions/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (_result, version) => onSaved(`Version ${version} restored`),
+    onError,
+  });
+
+  // Insert a placeholder at the cursor
+  const insertPlaceholder = (name: string) => {
+    const placeholder = `{${name}}`;
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      setBody(body + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody(body.slice(0, selectionStart) + placeholder + body.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          SMS Message Templates
+        </CardTitle>
+        <CardDescription>
+          Customize the text messages sent to customers and staff. Click a placeholder to insert it; it's filled in when the message is sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !template ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            <div>
+              <Label>Message</Label>
+              <Select
+                value={selectedKey}
+                onValueChange={(value) => {
+                  setSelectedKey(value as MessageTemplateKey);
+                  setShowHistory(false);
+                }}
+              >
+                <SelectTrigger className="mt-1" data-testid="select-message-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(t => (
+                    <SelectItem key={t.key} value={t.key}>
+                      {t.name}{t.version > 0 ? " (edited)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+            </div>
+
+            <div>
+              <Textarea
+                ref={textareaRef}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                className="min-h-[100px]"
+                data-testid="textarea-message-template"
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {template.variables.map(variable => (
+                  <Badge
+                    key={variable.name}
+                    variant="outline"
+                    className="cursor-pointer font-mono"
+                    title={`${variable.label} (${variable.type})`}
+                    onClick={() => insertPlaceholder(variable.name)}
+                    data-testid={`badge-placeholder-${variable.name}`}
+                  >
+                    {`{${variable.name}}`}
+                  </Badge>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-sm text-destructive mt-2" data-testid="text-unknown-placeholders">
+                  Unknown placeholder{unknown.length > 1 ? "s" : ""}: {unknown.map(name => `{${name}}`).join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div className="rounded-md bg-muted p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">Preview</span>
+                <Select value={previewCustomerId} onValueChange={setPreviewCustomerId}>
+                  <SelectTrigger className="w-56 h-8" data-testid="select-preview-customer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SAMPLE_CUSTOMER}>Sample customer</SelectItem>
+                    {activeCustomers.map(c => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm whitespace-pre-wrap" data-testid="text-template-preview">{preview}</p>
+              <p className={`text-xs ${segments.segments > 1 ? "text-orange-600" : "text-muted-foreground"}`} data-testid="text-segment-count">
+                {segments.characters} characters · {segments.segments} SMS segment{segments.segments === 1 ? "" : "s"} ({segments.encoding})
+                {segments.encoding === "UCS-2" && " · emoji and special characters shorten each segment to 70 characters"}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !changed || unknown.length > 0 || !body.trim()}
+                className="flex-1 bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+                data-testid="button-save-message-template"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Message
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setBody(template.defaultBody)}
+                disabled={body === template.defaultBody}
+                data-testid="button-reset-message-template"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Default
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowHistory(!showHistory)}
+                disabled={template.version === 0}
+                data-testid="button-message-template-history"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+            </div>
+
+            {showHistory && (
+              <div className="space-y-2" data-testid="list-message-template-versions">
+                {[...versions].reverse().map(version => (
+                  <div key={version.id} className="rounded-md border p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">
+                        Version {version.version}
+                        <span className="text-muted-foreground font-normal"> · {format(new Date(version.createdAt), "MMM d, yyyy h:mm a")}</span>
+                      </span>
+                      {version.version === template.version ? (
+                        <Badge variant="secondary">Current</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => restoreMutation.mutate(version.version)}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-version-${version.version}`}
+                        >
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                    <p className="whitespace-pre-wrap text-muted-foreground">{version.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+export interface DeviceLocation {
+  lat: number;
+  lng: number;
+  accuracy: number; // meters
+}
+
+// Best-effort device position for proof of service. Resolves null instead of failing
+// when location is denied, unavailable or slow, so it never blocks a status change.
+export function getDeviceLocation(timeoutMs = 10000): Promise<DeviceLocation | null> {
+  if (!("geolocation" in navigator)) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 },
+    );
+  });
+}
@@ -0,0 +1,179 @@
+import type { Customer, Route } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+import type { DeviceLocation } from "./geolocation";
+
+// IndexedDB store for technician field mode: a cached copy of the day's run plus
+// an ordered queue of changes made while the connection was down.
+
+const DB_NAME = "sillydog-field";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+const ACTIONS_STORE = "actions";
+
+export interface CachedRun {
+  date: string; // YYYY-MM-DD
+  routes: Route[];
+  customers: Customer[];
+  cachedAt: string;
+}
+
+export type FieldActionType = "status" | "timer_start" | "timer_stop" | "photos";
+
+export interface FieldAction {
+  id?: number; // auto-incremented, so ids preserve the order changes were made
+  routeId: string;
+  type: FieldActionType;
+  at: string; // when the tech made the change (ISO)
+  status?: string;
+  expectedStatus?: string; // route status the tech saw when making a status change
+  location?: DeviceLocation | null; // where the tech was when making a status change
+  photoBefore?: string;
+  photoAfter?: string;
+  conflict?: string; // set when the server rejected the change during replay
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  offline: boolean; // replay stopped because the server couldn't be reached (or the session expired)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          db.createObjectStore(RUNS_STORE, { keyPath: "date" });
+        }
+        if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+          db.createObjectStore(ACTIONS_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveRun(run: CachedRun): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", store => store.put(run));
+}
+
+export async function loadRun(date: string): Promise<CachedRun | undefined> {
+  return withStore<CachedRun | undefined>(RUNS_STORE, "readonly", store => store.get(date));
+}
+
+export async function enqueueAction(action: Omit<FieldAction, "id">): Promise<void> {
+  await withStore(ACTIONS_STORE, "readwrite", store => store.add(action));
+}
+
+export async function listActions(): Promise<FieldAction[]> {
+  const actions = await withStore<FieldAction[]>(ACTIONS_STORE, "readonly", store => store.getAll());
+  return actions.sort((a, b) => a.id! - b.id!);
+}
+
+export async function removeAction(id: number): Promise<void> {
+  await withStore(ACTIONS_STORE, "readwrite", store => store.delete(id));
+}
+
+async function putAction(action: FieldAction): Promise<void> {
+  await withStore(ACTIONS_STORE, "readwrite", store => store.put(action));
+}
+
+function sendAction(action: FieldAction): Promise<Response> {
+  switch (action.type) {
+    case "status":
+      return apiRequest("PATCH", `/api/routes/${action.routeId}/status`, {
+        status: action.status,
+        expectedStatus: action.expectedStatus,
+        location: action.location,
+        at: action.at,
+      });
+    case "timer_start":
+      return apiRequest("POST", `/api/routes/${action.routeId}/timer/start`, { at: action.at });
+    case "timer_stop":
+      return apiRequest("POST", `/api/routes/${action.routeId}/timer/stop`, { at: action.at });
+    case "photos":
+      return apiRequest("POST", `/api/routes/${action.routeId}/photos`, {
+        photoBefore: action.photoBefore,
+        photoAfter: action.photoAfter,
+      });
+  }
+}
+
+// apiRequest throws "<status>: <body>" for HTTP errors; anything else means we never reached the server
+function parseHttpError(error: unknown): { status: number; message: string } | null {
+  const match = error instanceof Error ? error.message.match(/^(\d{3}): ([\s\S]*)$/) : null;
+  if (!match) return null;
+  try {
+    return { status: Number(match[1]), message: JSON.parse(match[2]).message || match[2] };
+  } catch {
+    return { status: Number(match[1]), message: match[2] };
+  }
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// Send queued changes to the server in the order they were made. A rejected change is kept
+// as a conflict for the tech to review, and later changes to the same stop are held back
+// with it since they were made on top of it.
+export function replayActions(): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = (async () => {
+      const result: ReplayResult = { applied: 0, conflicts: 0, offline: false };
+      const blockedRoutes = new Set<string>();
+
+      for (const action of await listActions()) {
+        if (action.conflict || blockedRoutes.has(action.routeId)) {
+          if (!action.conflict) {
+            await putAction({ ...action, conflict: "Held back by an earlier conflict on this stop" });
+            result.conflicts++;
+          }
+          blockedRoutes.add(action.routeId);
+          continue;
+        }
+
+        try {
+          await sendAction(action);
+          await removeAction(action.id!);
+          result.applied++;
+        } catch (error) {
+          const httpError = parseHttpError(error);
+          // Unreachable, or signed out - keep everything queued and try again later
+          if (!httpError || httpError.status === 401) {
+            result.offline = true;
+            break;
+          }
+          await putAction({ ...action, conflict: httpError.message });
+          blockedRoutes.add(action.routeId);
+          result.conflicts++;
+        }
+      }
+      return result;
+    })().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -20,11 +20,18 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Megaphone, Send, Loader2, Users, CheckCircle, XCircle, Clock, Search, UserCheck } from "lucide-react";
+import { Megaphone, Send, Loader2, Users, CheckCircle, XCircle, Clock, Search, UserCheck, Filter, CalendarClock, CheckCheck, Ban } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
-import type { Customer } from "@shared/schema";
+import type { AnnouncementSegment, Customer, ServiceType } from "@shared/schema";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// "Reno, Sparks" -> ["Reno", "Sparks"]
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
 
 const announcementSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -41,16 +48,26 @@ type Announcement = {
   totalRecipients: number;
   successfulSends: number;
   failedSends: number;
+  deliveredCount: number;
   status: string;
+  scheduledFor: string;
   createdAt: string;
   completedAt: string | null;
 };
 
 export default function Announcements() {
   const { toast } = useToast();
-  const [sendMode, setSendMode] = useState<"all" | "selected">("all");
+  const [sendMode, setSendMode] = useState<"all" | "segment" | "selected">("all");
   const [selectedCustomerIds, setSelectedCustomerIds] = useState<string[]>([]);
   const [customerSearch, setCustomerSearch] = useState("");
+  const [serviceDays, setServiceDays] = useState<number[]>([]);
+  const [serviceTypeIds, setServiceTypeIds] = useState<string[]>([]);
+  const [cities, setCities] = useState("");
+  const [zips, setZips] = useState("");
+  const [minBalance, setMinBalance] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState("");
   
   const form = useForm<AnnouncementFormData>({
     resolver: zodResolver(announcementSchema),
@@ -60,18 +77,50 @@ export default function Announcements() {
     },
   });
 
-  const { data: recipientCount } = useQuery<{ count: number }>({
-    queryKey: ["/api/announcements/preview/count"],
+  // The segment sent with the announcement; only the filters that are set
+  const segment = useMemo<AnnouncementSegment>(() => {
+    if (sendMode === "selected") return { customerIds: selectedCustomerIds };
+    if (sendMode === "all") return {};
+    const balance = parseFloat(minBalance);
+    return {
+      ...(serviceDays.length > 0 && { serviceDays }),
+      ...(serviceTypeIds.length > 0 && { serviceTypeIds }),
+      ...(splitList(cities).length > 0 && { cities: splitList(cities) }),
+      ...(splitList(zips).length > 0 && { zips: splitList(zips) }),
+      ...(balance > 0 && { minBalance: balance }),
+      ...(tags.length > 0 && { tags }),
+    };
+  }, [sendMode, selectedCustomerIds, serviceDays, serviceTypeIds, cities, zips, minBalance, tags]);
+
+  const { data: recipientCount, isFetching: countLoading } = useQuery<{ count: number }>({
+    queryKey: ["/api/announcements/preview", segment],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/announcements/preview", segment);
+      return response.json();
+    },
+    enabled: sendMode !== "selected",
   });
 
   const { data: customers, isLoading: customersLoading } = useQuery<Customer[]>({
     queryKey: ["/api/customers"],
   });
 
+  const { data: serviceTypes } = useQuery<ServiceType[]>({
+    queryKey: ["/api/service-types"],
+  });
+
+  // Poll while anything is waiting to go out so the counts stay current
   const { data: announcements, isLoading } = useQuery<Announcement[]>({
     queryKey: ["/api/announcements"],
+    refetchInterval: (query) =>
+      query.state.data?.some((a) => a.status === "scheduled" || a.status === "sending") ? 5000 : false,
   });
 
+  const allTags = useMemo(
+    () => Array.from(new Set((customers ?? []).flatMap((c) => c.tags))).sort((a, b) => a.localeCompare(b)),
+    [customers]
+  );
+
   // Filter customers who can receive SMS (active, opted in, has phone)
   const smsEligibleCustomers = customers?.filter(
     (c) => c.status === "active" && c.smsOptIn && c.phone
@@ -84,9 +133,12 @@ export default function Announcements() {
   );
 
   // Calculate recipient count based on mode
-  const actualRecipientCount = sendMode === "all" 
-    ? (recipientCount?.count ?? 0)
-    : selectedCustomerIds.length;
+  const actualRecipientCount = sendMode === "selected"
+    ? selectedCustomerIds.length
+    : (recipientCount?.count ?? 0);
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
 
   const toggleCustomer = (customerId: string) => {
     setSelectedCustomerIds((prev) =>
@@ -106,21 +158,23 @@ export default function Announcements() {
 
   const sendAnnouncementMutation = useMutation({
     mutationFn: async (data: AnnouncementFormData) => {
-      const payload = sendMode === "selected" 
-        ? { ...data, customerIds: selectedCustomerIds }
-        : data;
-      const response = await apiRequest("POST", "/api/announcements", payload);
+      const response = await apiRequest("POST", "/api/announcements", {
+        ...data,
+        segment,
+        ...(scheduleLater && { scheduledFor: new Date(scheduledFor).toISOString() }),
+      });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/announcements"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/announcements/preview/count"] });
       form.reset();
       setSelectedCustomerIds([]);
       setSendMode("all");
+      setScheduleLater(false);
+      setScheduledFor("");
       toast({
-        title: "Announcement Sent!",
-        description: data.message || `Message sent to ${data.successfulSends} customers.`,
+        title: scheduleLater ? "Announcement Scheduled" : "Announcement Queued",
+        description: data.message,
       });
     },
     onError: (error: any) => {
@@ -132,7 +186,33 @@ export default function Announcements() {
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/announcements/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/announcements"] });
+      toast({ title: "Announcement cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Could not cancel",
+        description: error.message,
+      });
+    },
+  });
+
   const onSubmit = (data: AnnouncementFormData) => {
+    if (scheduleLater && (!scheduledFor || new Date(scheduledFor) <= new Date())) {
+      toast({
+        variant: "destructive",
+        title: "Pick a time",
+        description: "Choose a date and time in the future to schedule the announcement.",
+      });
+      return;
+    }
     if (sendMode === "selected" && selectedCustomerIds.length === 0) {
       toast({
         variant: "destructive",
@@ -141,7 +221,8 @@ export default function Announcements() {
       });
       return;
     }
-    if (!confirm(`Are you sure you want to send this message to ${actualRecipientCount} customers?`)) {
+    const when = scheduleLater ? ` on ${format(new Date(scheduledFor), "MMM d 'at' h:mm a")}` : "";
+    if (!confirm(`Are you sure you want to send this message to ${actualRecipientCount} customers${when}?`)) {
       return;
     }
     sendAnnouncementMutation.mutate(data);
@@ -153,6 +234,10 @@ export default function Announcements() {
         return <Badge data-testid={`badge-status-completed-${announcementId}`} variant="default" className="bg-green-500"><CheckCircle className="w-3 h-3 mr-1" />Completed</Badge>;
       case "sending":
         return <Badge data-testid={`badge-status-sending-${announcementId}`} variant="secondary"><Loader2 className="w-3 h-3 mr-1 animate-spin" />Sending</Badge>;
+      case "scheduled":
+        return <Badge data-testid={`badge-status-scheduled-${announcementId}`} variant="outline"><CalendarClock className="w-3 h-3 mr-1" />Scheduled</Badge>;
+      case "cancelled":
+        return <Badge data-testid={`badge-status-cancelled-${announcementId}`} variant="outline"><Ban className="w-3 h-3 mr-1" />Cancelled</Badge>;
       case "failed":
         return <Badge data-testid={`badge-status-failed-${announcementId}`} variant="destructive"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>;
       default:
@@ -171,7 +256,7 @@ export default function Announcements() {
         <div>
           <h1 className="text-2xl font-bold">Announcements</h1>
           <p className="text-muted-foreground">
-            Send bulk SMS messages to all customers
+            Send or schedule bulk SMS messages to your customers
           </p>
         </div>
       </div>
@@ -183,7 +268,7 @@ export default function Announcements() {
             Send New Announcement
           </CardTitle>
           <CardDescription>
-            Send an SMS to your customers who have opted in to receive messages.
+            Send an SMS to your customers who have opted in to receive messages. Texts go out in the background at a steady pace and wait for quiet hours to end.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -235,14 +320,21 @@ export default function Announcements() {
                 <FormLabel>Recipients</FormLabel>
                 <RadioGroup
                   value={sendMode}
-                  onValueChange={(val) => setSendMode(val as "all" | "selected")}
+                  onValueChange={(val) => setSendMode(val as "all" | "segment" | "selected")}
                   className="flex flex-col gap-2"
                 >
                   <div className="flex items-center gap-2">
                     <RadioGroupItem value="all" id="send-all" data-testid="radio-send-all" />
                     <Label htmlFor="send-all" className="cursor-pointer flex items-center gap-2">
                       <Users className="w-4 h-4" />
-                      All SMS customers ({recipientCount?.count ?? 0})
+                      All SMS customers{sendMode === "all" && recipientCount ? ` (${recipientCount.count})` : ""}
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="segment" id="send-segment" data-testid="radio-send-segment" />
+                    <Label htmlFor="send-segment" className="cursor-pointer flex items-center gap-2">
+                      <Filter className="w-4 h-4" />
+                      Customers matching filters
                     </Label>
                   </div>
                   <div className="flex items-center gap-2">
@@ -255,6 +347,107 @@ export default function Announcements() {
                 </RadioGroup>
               </div>
 
+              {/* Segment Filters: each filter that's set narrows the audience */}
+              {sendMode === "segment" && (
+                <div className="border rounded-lg p-3 space-y-4">
+                  <div className="space-y-2">
+                    <Label>Service day</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {WEEKDAYS.map((day, index) => (
+                        <Button
+                          key={day}
+                          type="button"
+                          size="sm"
+                          variant={serviceDays.includes(index) ? "default" : "outline"}
+                          onClick={() => setServiceDays(toggle(serviceDays, index))}
+                          data-testid={`button-segment-day-${index}`}
+                        >
+                          {day}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {serviceTypes && serviceTypes.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Service type</Label>
+                      <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {serviceTypes.map((type) => (
+                          <label key={type.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={serviceTypeIds.includes(type.id)}
+                              onCheckedChange={() => setServiceTypeIds(toggle(serviceTypeIds, type.id))}
+                              data-testid={`checkbox-segment-service-type-${type.id}`}
+                            />
+                            {type.name}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="segment-cities">Cities</Label>
+                      <Input
+                        id="segment-cities"
+                        placeholder="Reno, Sparks"
+                        value={cities}
+                        onChange={(e) => setCities(e.target.value)}
+                        data-testid="input-segment-cities"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="segment-zips">ZIP codes</Label>
+                      <Input
+                        id="segment-zips"
+                        placeholder="89501, 89502"
+                        value={zips}
+                        onChange={(e) => setZips(e.target.value)}
+                        data-testid="input-segment-zips"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="segment-balance">Owes at least ($)</Label>
+                      <Input
+                        id="segment-balance"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Any balance"
+                        value={minBalance}
+                        onChange={(e) => setMinBalance(e.target.value)}
+                        data-testid="input-segment-balance"
+                      />
+                    </div>
+                  </div>
+
+                  {allTags.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Tags</Label>
+                      <div className="flex flex-wrap gap-1">
+                        {allTags.map((tag) => (
+                          <Badge
+                            key={tag}
+                            variant={tags.includes(tag) ? "default" : "outline"}
+                            className="cursor-pointer"
+                            onClick={() => setTags(toggle(tags, tag))}
+                            data-testid={`badge-segment-tag-${tag}`}
+                          >
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="text-sm text-muted-foreground flex items-center gap-2" data-testid="text-segment-count">
+                    {countLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {recipientCount?.count ?? 0} SMS customers match these filters
+                  </div>
+                </div>
+              )}
+
               {/* Customer Selection Panel */}
               {sendMode === "selected" && (
                 <div className="border rounded-lg p-3 space-y-3">
@@ -337,6 +530,26 @@ export default function Announcements() {
                 </div>
               )}
 
+              <div className="space-y-2 pt-2">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={scheduleLater}
+                    onCheckedChange={(checked) => setScheduleLater(checked === true)}
+                    data-testid="checkbox-schedule-later"
+                  />
+                  Schedule for later
+                </label>
+                {scheduleLater && (
+                  <Input
+                    type="datetime-local"
+                    className="max-w-xs"
+                    value={scheduledFor}
+                    onChange={(e) => setScheduledFor(e.target.value)}
+                    data-testid="input-scheduled-for"
+                  />
+                )}
+              </div>
+
               <div className="flex items-center gap-4 pt-4">
                 <Button
                   type="submit"
@@ -347,12 +560,12 @@ export default function Announcements() {
                   {sendAnnouncementMutation.isPending ? (
                     <>
                       <Loader2 className="w-4 h-4 animate-spin" />
-                      Sending...
+                      Queueing...
                     </>
                   ) : (
                     <>
-                      <Send className="w-4 h-4" />
-                      Send to {actualRecipientCount} Customer{actualRecipientCount !== 1 ? "s" : ""}
+                      {scheduleLater ? <CalendarClock className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                      {scheduleLater ? "Schedule for" : "Send to"} {actualRecipientCount} Customer{actualRecipientCount !== 1 ? "s" : ""}
                     </>
                   )}
                 </Button>
@@ -401,6 +614,21 @@ export default function Announcements() {
                         {announcement.messageText}
                       </p>
                     </div>
+                    {(announcement.status === "scheduled" || announcement.status === "sending") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm(announcement.status === "scheduled" ? "Cancel this scheduled announcement?" : "Stop sending this announcement? Customers already texted are not affected.")) {
+                            cancelMutation.mutate(announcement.id);
+                          }
+                        }}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-announcement-${announcement.id}`}
+                      >
+                        Cancel
+                      </Button>
+                    )}
                   </div>
                   <div className="flex items-center gap-4 text-xs text-muted-foreground pt-2 border-t">
                     <span className="flex items-center gap-1">
@@ -411,6 +639,12 @@ export default function Announcements() {
                       <CheckCircle className="w-3 h-3 text-green-500" />
                       {announcement.successfulSends} sent
                     </span>
+                    {announcement.deliveredCount > 0 && (
+                      <span className="flex items-center gap-1">
+                        <CheckCheck className="w-3 h-3 text-green-600" />
+                        {announcement.deliveredCount} delivered
+                      </span>
+                    )}
                     {announcement.failedSends > 0 && (
                       <span className="flex items-center gap-1">
                         <XCircle className="w-3 h-3 text-red-500" />
@@ -418,7 +652,9 @@ export default function Announcements() {
                       </span>
                     )}
                     <span>
-                      {format(new Date(announcement.createdAt), "MMM d, yyyy h:mm a")}
+                      {announcement.status === "scheduled"
+                        ? `Sends ${format(new Date(announcement.scheduledFor), "MMM d, yyyy h:mm a")}`
+                        : format(new Date(announcement.createdAt), "MMM d, yyyy h:mm a")}
                     </span>
                   </div>
                 </div>
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Eye, Play, RotateCcw, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { BillingRun, BillingRunOutcome } from "@shared/schema";
+
+interface BillingPreview {
+  period: string;
+  outcomes: BillingRunOutcome[];
+  errors: string[];
+  total: string;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => ({
+  value: (i + 1).toString(),
+  label: format(new Date(2000, i, 1), "MMMM"),
+}));
+
+const runStatusStyles: Record<string, string> = {
+  running: "bg-blue-600",
+  completed: "bg-green-600",
+  completed_with_errors: "bg-yellow-600",
+  failed: "bg-red-600",
+};
+
+const outcomeStatusStyles: Record<string, string> = {
+  invoiced: "bg-green-600",
+  preview: "bg-blue-600",
+  existing: "bg-gray-500",
+  skipped: "bg-gray-400",
+  failed: "bg-red-600",
+};
+
+function periodLabel(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return format(new Date(year, month - 1, 1), "MMMM yyyy");
+}
+
+function OutcomeList({ outcomes }: { outcomes: BillingRunOutcome[] }) {
+  if (outcomes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No customers processed</p>;
+  }
+
+  return (
+    <div className="divide-y text-sm">
+      {outcomes.map((outcome) => (
+        <div key={outcome.customerId} className="flex items-center justify-between gap-4 py-2" data-testid={`outcome-${outcome.customerId}`}>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{outcome.customerName}</p>
+            {outcome.message && <p className="text-xs text-muted-foreground">{outcome.message}</p>}
+          </div>
+          {outcome.visits !== undefined && (
+            <span className="text-muted-foreground">{outcome.visits} visits</span>
+          )}
+          {outcome.amount && <span>${parseFloat(outcome.amount).toFixed(2)}</span>}
+          {outcome.charged && <Badge variant="outline">Autopaid</Badge>}
+          <Badge className={outcomeStatusStyles[outcome.status]}>{outcome.status}</Badge>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function BillingRunsPage() {
+  const { toast } = useToast();
+  const now = new Date();
+  const [month, setMonth] = useState((now.getMonth() || 12).toString()); // last month by default
+  const [year, setYear] = useState((now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear()).toString());
+  const [preview, setPreview] = useState<BillingPreview | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery<BillingRun[]>({
+    queryKey: ["/api/billing/runs"],
+  });
+
+  const onRunFinished = (result: { message: string; run: BillingRun | null }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    setPreview(null);
+    if (result.run) {
+      setExpandedRunId(result.run.id);
+      toast({
+        title: result.message,
+        description: `${result.run.invoicedCount} invoiced, ${result.run.chargedCount} autopaid, ${result.run.failedCount} failed`,
+      });
+    } else {
+      toast({ title: result.message });
+    }
+  };
+
+  const onRunError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/runs"] });
+    toast({
+      title: "Billing Run Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/generate-monthly", { month, year, dryRun: true });
+      return (await response.json()).preview as BillingPreview;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: onRunError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/generate-monthly", { month, year });
+      return response.json() as Promise<{ message: string; run: BillingRun | null }>;
+    },
+    onSuccess: onRunFinished,
+    onError: onRunError,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await apiRequest("POST", `/api/billing/runs/${runId}/retry`);
+      return response.json() as Promise<{ message: string; run: BillingRun | null }>;
+    },
+    onSuccess: onRunFinished,
+    onError: onRunError,
+  });
+
+  const previewCount = preview?.outcomes.filter(o => o.status === "preview").length ?? 0;
+  const busy = runMutation.isPending || retryMutation.isPending;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Billing Runs</h1>
+        <p className="text-muted-foreground">Monthly invoicing history. Each customer is billed at most once per month.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Monthly Billing</CardTitle>
+          <CardDescription>
+            Preview what a run would invoice, then run it. Running a month again only bills customers who haven't been invoiced yet.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>Month</Label>
+              <Select value={month} onValueChange={(value) => { setMonth(value); setPreview(null); }}>
+                <SelectTrigger className="w-40" data-testid="select-billing-month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTHS.map((m) => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Year</Label>
+              <Input
+                className="w-24"
+                type="number"
+                value={year}
+                onChange={(e) => { setYear(e.target.value); setPreview(null); }}
+                data-testid="input-billing-year"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending || busy}
+              data-testid="button-preview-billing"
+            >
+              {previewMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Eye className="w-4 h-4 mr-2" />}
+              Preview
+            </Button>
+            <Button onClick={() => setConfirmOpen(true)} disabled={busy} data-testid="button-run-billing">
+              {runMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Billing
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="rounded-lg border p-4 space-y-3" data-testid="billing-preview">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold">Preview for {periodLabel(preview.period)}</p>
+                <p className="text-sm">
+                  {previewCount} invoice{previewCount === 1 ? "" : "s"} totaling <span className="font-semibold">${parseFloat(preview.total).toFixed(2)}</span>
+                </p>
+              </div>
+              {preview.errors.map((error, i) => (
+                <p key={i} className="text-sm text-yellow-700">{error}</p>
+              ))}
+              <OutcomeList outcomes={preview.outcomes} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading billing runs...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-muted-foreground">No billing runs yet</p>
+          ) : (
+            <div className="space-y-3">
+              {runs.map((run) => {
+                const expanded = expandedRunId === run.id;
+                const canRetry = run.status === "failed" || (run.status === "completed_with_errors" && run.failedCount > 0);
+                return (
+                  <div key={run.id} className="rounded-lg border p-4" data-testid={`billing-run-${run.id}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <button
+                        className="flex items-center gap-2 text-left flex-1"
+                        onClick={() => setExpandedRunId(expanded ? null : run.id)}
+                      >
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        <div>
+                          <p className="font-semibold">
+                            {periodLabel(run.period)}
+                            <span className="ml-2 text-sm font-normal text-muted-foreground">{run.trigger}</span>
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {format(new Date(run.startedAt), "MMM d, yyyy h:mm a")} · {run.invoicedCount} invoiced · {run.chargedCount} autopaid · {run.existingCount} already billed · {run.skippedCount} skipped · {run.failedCount} failed
+                          </p>
+                        </div>
+                      </button>
+                      <Badge className={runStatusStyles[run.status]}>{run.status.replace(/_/g, " ")}</Badge>
+                      {canRetry && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => retryMutation.mutate(run.id)}
+                          disabled={busy}
+                          data-testid={`button-retry-run-${run.id}`}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          {run.status === "failed" ? "Resume" : "Retry Failed"}
+                        </Button>
+                      )}
+                    </div>
+                    {expanded && (
+                      <div className="mt-4 pt-4 border-t space-y-3">
+                        {run.errors.map((error, i) => (
+                          <p key={i} className="text-sm text-yellow-700">{error}</p>
+                        ))}
+                        <OutcomeList outcomes={run.outcomes} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Run billing for {MONTHS[parseInt(month) - 1]?.label} {year}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This creates invoices for every active customer not yet billed for the month and charges autopay customers' cards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => runMutation.mutate()} data-testid="button-confirm-run-billing">
+              Run Billing
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
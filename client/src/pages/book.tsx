@@ -29,14 +29,98 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { CheckCircle2, PawPrint } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CalendarDays, CheckCircle2, CreditCard, Loader2, PawPrint } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { format, parseISO } from "date-fns";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
+
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || "");
 
 type BookingFormData = z.infer<typeof insertBookingRequestSchema>;
 
+// POST /api/public/availability
+interface OpenSlot {
+  date: string;
+  dayOfWeek: number;
+  nearbyCount: number;
+  recommended: boolean;
+}
+
+// Save a card with the booking just submitted (Stripe SetupIntent)
+function SaveCardForm({ bookingId, onDone }: { bookingId: string; onDone: (saved: boolean) => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    setErrorMessage(null);
+    const { error, setupIntent } = await stripe.confirmSetup({
+      elements,
+      confirmParams: { return_url: window.location.href },
+      redirect: "if_required",
+    });
+
+    if (error) {
+      setErrorMessage(error.message || "Setup failed");
+      setIsProcessing(false);
+      return;
+    }
+    const response = await fetch(`/api/public/booking/${bookingId}/payment-method`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ setupIntentId: setupIntent?.id }),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      setErrorMessage(result.message || "Failed to save card");
+      setIsProcessing(false);
+      return;
+    }
+    onDone(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <PaymentElement />
+      {errorMessage && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+          {errorMessage}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button
+          type="submit"
+          disabled={!stripe || isProcessing}
+          className="flex-1 bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-save-card"
+        >
+          {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CreditCard className="w-4 h-4 mr-2" />}
+          Save Card
+        </Button>
+        <Button type="button" variant="outline" onClick={() => onDone(false)} disabled={isProcessing} data-testid="button-skip-card">
+          Skip
+        </Button>
+      </div>
+    </form>
+  );
+}
+
 export default function BookNow() {
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [slots, setSlots] = useState<OpenSlot[] | null>(null);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [saveCard, setSaveCard] = useState(false);
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [setupClientSecret, setSetupClientSecret] = useState<string | null>(null);
+  const [cardSaved, setCardSaved] = useState(false);
   const addressInputRef = useRef<HTMLInputElement>(null);
   const autocompleteRef = useRef<google.maps.places.Autocomplete | null>(null);
 
@@ -50,10 +134,40 @@ export default function BookNow() {
       numberOfDogs: 1,
       preferredServicePlan: "",
       yardNotes: "",
+      promoCode: "",
+      requestedStartDate: null,
       smsOptIn: false,
     },
   });
 
+  const requestedStartDate = form.watch("requestedStartDate");
+
+  const loadSlots = async () => {
+    const address = form.getValues("address");
+    if (!address) {
+      form.setError("address", { message: "Enter your address to see open dates" });
+      return;
+    }
+    setIsLoadingSlots(true);
+    try {
+      const response = await fetch("/api/public/availability", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to load open dates");
+      }
+      setSlots(result);
+      form.setValue("requestedStartDate", null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to load open dates. Please try again.");
+    } finally {
+      setIsLoadingSlots(false);
+    }
+  };
+
   useEffect(() => {
     const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
     if (!apiKey) {
@@ -118,6 +232,14 @@ export default function BookNow() {
         throw new Error(error.message || "Failed to submit booking");
       }
 
+      const { bookingId } = await response.json();
+      setBookingId(bookingId);
+      if (saveCard) {
+        const setup = await fetch(`/api/public/booking/${bookingId}/setup-intent`, { method: "POST" });
+        if (setup.ok) {
+          setSetupClientSecret((await setup.json()).clientSecret);
+        }
+      }
       setIsSubmitted(true);
     } catch (error) {
       console.error("Booking error:", error);
@@ -141,14 +263,45 @@ export default function BookNow() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <p className="text-base">
-              We've received your booking request and will contact you shortly to schedule your service.
-              You should receive a confirmation call or text within 24 hours.
-            </p>
+            {requestedStartDate ? (
+              <p className="text-base">
+                We've received your booking request for {format(parseISO(requestedStartDate), "EEEE, MMMM d")} and will
+                confirm your schedule shortly. You should receive a confirmation call or text within 24 hours.
+              </p>
+            ) : (
+              <p className="text-base">
+                We've received your booking request and will contact you shortly to schedule your service.
+                You should receive a confirmation call or text within 24 hours.
+              </p>
+            )}
+            {setupClientSecret && bookingId && !cardSaved && (
+              <div className="pt-4 border-t space-y-3">
+                <p className="text-sm font-medium">Save a card for autopay</p>
+                <Elements stripe={stripePromise} options={{ clientSecret: setupClientSecret }}>
+                  <SaveCardForm
+                    bookingId={bookingId}
+                    onDone={(saved) => {
+                      setCardSaved(saved);
+                      setSetupClientSecret(null);
+                    }}
+                  />
+                </Elements>
+              </div>
+            )}
+            {cardSaved && (
+              <p className="text-sm text-green-700" data-testid="text-card-saved">
+                Your card is saved. It will be charged for each invoice once your service starts.
+              </p>
+            )}
             <div className="pt-6">
               <Button
                 onClick={() => {
                   setIsSubmitted(false);
+                  setSlots(null);
+                  setSaveCard(false);
+                  setBookingId(null);
+                  setSetupClientSecret(null);
+                  setCardSaved(false);
                   form.reset();
                 }}
                 variant="outline"
@@ -361,6 +514,78 @@ export default function BookNow() {
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="promoCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Promo or Referral Code (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g. FIRSTFREE"
+                            className="uppercase"
+                            data-testid="input-promo-code"
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Applied to your invoices once we confirm your booking
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Self-scheduling - open start dates for the address */}
+                <div className="space-y-4 pt-4 border-t">
+                  <h3 className="text-lg font-semibold">Start Date (Optional)</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Pick the day of your first visit. Your regular service stays on the same day of the week.
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={loadSlots}
+                    disabled={isLoadingSlots}
+                    data-testid="button-load-slots"
+                  >
+                    {isLoadingSlots ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarDays className="h-4 w-4 mr-2" />}
+                    {slots ? "Refresh Open Dates" : "See Open Dates"}
+                  </Button>
+                  {slots && slots.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No open dates in the next few weeks. Send your request and we'll find a day for you.</p>
+                  )}
+                  {slots && slots.length > 0 && (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                      {slots.map(slot => (
+                        <Button
+                          key={slot.date}
+                          type="button"
+                          variant={requestedStartDate === slot.date ? "default" : "outline"}
+                          className="h-auto flex-col py-2"
+                          onClick={() => form.setValue("requestedStartDate", requestedStartDate === slot.date ? null : slot.date)}
+                          data-testid={`button-slot-${slot.date}`}
+                        >
+                          <span>{format(parseISO(slot.date), "EEE, MMM d")}</span>
+                          {slot.recommended && <Badge variant="secondary" className="mt-1 text-xs">Neighbors serviced</Badge>}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="save-card"
+                      checked={saveCard}
+                      onCheckedChange={(checked) => setSaveCard(checked === true)}
+                      data-testid="checkbox-save-card"
+                    />
+                    <label htmlFor="save-card" className="text-sm">
+                      Save a card for autopay after sending my request (optional)
+                    </label>
+                  </div>
                 </div>
 
                 {/* SMS Consent - 10DLC Compliant Optional Opt-In */}
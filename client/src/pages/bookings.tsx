@@ -11,17 +11,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { CheckCircle2, XCircle, User, MapPin, Phone, Mail, Dog } from "lucide-react";
+import { CheckCircle2, XCircle, User, MapPin, Phone, Mail, Dog, FileText, CalendarCheck, CreditCard } from "lucide-react";
 import { useState } from "react";
 import type { BookingRequest } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import { format, parseISO } from "date-fns";
+import { BookingQuotesDialog } from "@/components/booking-quotes";
 
 export default function Bookings() {
   const [selectedBooking, setSelectedBooking] = useState<BookingRequest | null>(null);
   const [showAcceptDialog, setShowAcceptDialog] = useState(false);
   const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [quoteBooking, setQuoteBooking] = useState<BookingRequest | null>(null);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
@@ -35,11 +38,12 @@ export default function Bookings() {
 
   const acceptMutation = useMutation({
     mutationFn: async (bookingId: string) => {
-      return await apiRequest("PATCH", `/api/booking-requests/${bookingId}`, {
+      const response = await apiRequest("PATCH", `/api/booking-requests/${bookingId}`, {
         status: "accepted",
       });
+      return response.json() as Promise<{ promoMessage?: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/booking-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/booking-requests/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
@@ -48,6 +52,9 @@ export default function Bookings() {
         title: "Booking accepted",
         description: "Customer has been automatically created and added to your customer list.",
       });
+      if (result.promoMessage) {
+        toast({ title: "Promo code not applied", description: result.promoMessage, variant: "destructive" });
+      }
       setShowAcceptDialog(false);
       setSelectedBooking(null);
     },
@@ -59,6 +66,37 @@ export default function Bookings() {
     },
   });
 
+  // Self-scheduled bookings: customer, schedule from the requested start date and first visit
+  const confirmScheduleMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const response = await apiRequest("POST", `/api/booking-requests/${bookingId}/confirm-schedule`);
+      return response.json() as Promise<{ firstVisit: string | null; promoMessage?: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-requests/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/routes"] });
+      toast({
+        title: "Booking confirmed",
+        description: result.firstVisit
+          ? `Customer and schedule created. First visit: ${format(parseISO(result.firstVisit), "EEE, MMM d")}.`
+          : "Customer and schedule created.",
+      });
+      if (result.promoMessage) {
+        toast({ title: "Promo code not applied", description: result.promoMessage, variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to confirm booking",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const rejectMutation = useMutation({
     mutationFn: async (bookingId: string) => {
       return await apiRequest("PATCH", `/api/booking-requests/${bookingId}`, {
@@ -165,6 +203,28 @@ export default function Bookings() {
             </div>
           )}
 
+          {booking.requestedStartDate && (
+            <div className="p-3 bg-muted rounded-lg">
+              <p className="text-sm font-medium">Requested Start</p>
+              <p className="text-sm text-muted-foreground" data-testid={`text-requested-start-${booking.id}`}>
+                {format(parseISO(booking.requestedStartDate), "EEEE, MMM d")} · repeats every {format(parseISO(booking.requestedStartDate), "EEEE")}
+              </p>
+              {booking.stripePaymentMethodId && (
+                <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                  <CreditCard className="h-3 w-3" />
+                  Card saved for autopay
+                </p>
+              )}
+            </div>
+          )}
+
+          {booking.promoCode && (
+            <div className="p-3 bg-muted rounded-lg">
+              <p className="text-sm font-medium">Promo Code</p>
+              <p className="text-sm text-muted-foreground font-mono" data-testid={`text-promo-code-${booking.id}`}>{booking.promoCode}</p>
+            </div>
+          )}
+
           {booking.yardNotes && (
             <div className="p-3 bg-muted rounded-lg">
               <p className="text-sm font-medium">Notes</p>
@@ -179,8 +239,29 @@ export default function Bookings() {
             </div>
           )}
 
+          {booking.status === "pending" && booking.requestedStartDate && (
+            <Button
+              onClick={() => confirmScheduleMutation.mutate(booking.id)}
+              disabled={confirmScheduleMutation.isPending}
+              className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+              data-testid={`button-confirm-schedule-${booking.id}`}
+            >
+              <CalendarCheck className="h-4 w-4 mr-2" />
+              {confirmScheduleMutation.isPending ? "Confirming..." : "Confirm Schedule"}
+            </Button>
+          )}
+
           {booking.status === "pending" && (
             <div className="flex gap-2 pt-2">
+              <Button
+                onClick={() => setQuoteBooking(booking)}
+                variant="outline"
+                className="flex-1"
+                data-testid={`button-quote-${booking.id}`}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Quote
+              </Button>
               <Button
                 onClick={() => handleAccept(booking)}
                 className="flex-1"
@@ -320,6 +401,14 @@ export default function Bookings() {
         </DialogContent>
       </Dialog>
 
+      {quoteBooking && (
+        <BookingQuotesDialog
+          booking={quoteBooking}
+          open={!!quoteBooking}
+          onOpenChange={(open) => !open && setQuoteBooking(null)}
+        />
+      )}
+
       {/* Reject Dialog */}
       <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
         <DialogContent data-testid="dialog-reject-booking">
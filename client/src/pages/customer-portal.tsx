@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -36,14 +37,16 @@ import {
   MessageSquare,
   Bell,
   Loader2,
-  Camera,
   History,
   LogOut,
-  Trash2
+  Trash2,
+  Download
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Customer, Invoice, Route, JobHistory, ServiceType } from "@shared/schema";
+import type { BillingPlan, BillingTiming, Customer, InvoiceWithLineItems, NotificationChannel, Route, JobHistory, JobPhotoLink, ServiceType, ScheduleException } from "@shared/schema";
+import { InvoiceLineItems } from "@/components/invoice-line-items";
+import type { CustomerAccount } from "@/components/customer-account";
 import logoImage from "@assets/logo_1762200437346.png";
 import { format, parseISO, isFuture, isToday } from "date-fns";
 import { loadStripe } from "@stripe/stripe-js";
@@ -69,7 +72,7 @@ function PaymentForm({
   onCancel,
   amount 
 }: { 
-  onSuccess: () => void; 
+  onSuccess: (paymentIntentId: string) => void; 
   onCancel: () => void;
   amount: number;
 }) {
@@ -105,7 +108,7 @@ function PaymentForm({
         title: "Payment Successful",
         description: `Your payment of $${amount.toFixed(2)} has been processed.`,
       });
-      onSuccess();
+      onSuccess(paymentIntent.id);
     }
   };
 
@@ -227,10 +230,30 @@ function SetupForm({
 
 interface PortalData {
   customer: Customer;
-  invoices: Invoice[];
+  invoices: InvoiceWithLineItems[];
   routes: Route[];
-  jobHistory: JobHistory[];
+  jobHistory: Array<Omit<JobHistory, "photoBefore" | "photoAfter"> & { photos: JobPhotoLink[] }>;
   serviceType: ServiceType | null;
+  account: CustomerAccount;
+  billingPlan: BillingPlanSummary;
+  referral: { code: string; credit: string; discount: string } | null; // null while referrals are off
+}
+
+function referralBlurb({ credit, discount }: NonNullable<PortalData["referral"]>): string {
+  const parts = [];
+  if (parseFloat(discount) > 0) parts.push(`friends who book with your code get $${discount} off their first invoice`);
+  if (parseFloat(credit) > 0) parts.push(`you get a $${credit} credit once they pay`);
+  const text = parts.join(", and ");
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+}
+
+// billingPlanSummary on the server; price is per visit, per month or per package
+interface BillingPlanSummary {
+  plan: BillingPlan;
+  timing: BillingTiming;
+  price: string | null;
+  packageVisits: number | null;
+  visitsRemaining: number | null;
 }
 
 export default function CustomerPortal() {
@@ -238,6 +261,7 @@ export default function CustomerPortal() {
   const searchString = useSearch();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("dashboard");
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<string | null>(null);
   
   // Edit mode states
   const [isEditing, setIsEditing] = useState(false);
@@ -247,6 +271,7 @@ export default function CustomerPortal() {
     gateCode: "",
     yardNotes: "",
     smsOptIn: true,
+    notificationChannel: "sms" as NotificationChannel,
     autopayEnabled: false,
   });
 
@@ -261,6 +286,9 @@ export default function CustomerPortal() {
   const [isSettingUpCard, setIsSettingUpCard] = useState(false);
   const [isRemovingCard, setIsRemovingCard] = useState(false);
 
+  // Vacation hold request state
+  const [holdForm, setHoldForm] = useState({ startDate: "", endDate: "", notes: "" });
+
   // Check authentication
   const { data: authData, isLoading: authLoading, isError: authError } = useQuery<{ customer: Customer }>({
     queryKey: ["/api/portal/me"],
@@ -274,6 +302,13 @@ export default function CustomerPortal() {
     retry: false,
   });
 
+  // Get vacation holds
+  const { data: holds = [] } = useQuery<ScheduleException[]>({
+    queryKey: ["/api/portal/holds"],
+    enabled: !!authData?.customer,
+    retry: false,
+  });
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!authLoading && (authError || !authData?.customer)) {
@@ -344,10 +379,16 @@ export default function CustomerPortal() {
     [portalData?.jobHistory]
   );
 
-  const unpaidInvoices = customerInvoices?.filter(inv => inv.status === "unpaid" || inv.status === "overdue");
-  const outstandingBalance = unpaidInvoices?.reduce((sum, inv) => sum + parseFloat(inv.amount), 0) || 0;
+  const unpaidInvoices = customerInvoices?.filter(inv => ["unpaid", "partial", "overdue"].includes(inv.status));
+  // What's left on open invoices after partial payments and credits, from the account ledger
+  const outstandingBalance = portalData?.account.amountDue ?? 0;
+  const accountCredit = portalData?.account.credit ?? 0;
+  const invoiceBalance = (invoiceId: string) =>
+    portalData?.account.openInvoices.find(open => open.invoiceId === invoiceId)?.balance ?? 0;
 
   const customerServiceType = portalData?.serviceType;
+  const billingPlan = portalData?.billingPlan;
+  const referral = portalData?.referral;
 
   // Logout mutation
   const logoutMutation = useMutation({
@@ -384,6 +425,33 @@ export default function CustomerPortal() {
     },
   });
 
+  // Vacation hold request mutation
+  const requestHoldMutation = useMutation({
+    mutationFn: async (data: { startDate: string; endDate: string; notes: string }) => {
+      return await apiRequest("POST", "/api/portal/holds", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portal/holds"] });
+      setHoldForm({ startDate: "", endDate: "", notes: "" });
+      toast({
+        title: "Hold Requested",
+        description: "We'll confirm your vacation hold shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleHolds = holds.filter(h =>
+    (h.status === "pending" || h.status === "approved") &&
+    (isFuture(parseISO(h.endDate)) || isToday(parseISO(h.endDate)))
+  );
+
   const handleEditClick = () => {
     if (customer) {
       setEditForm({
@@ -392,6 +460,7 @@ export default function CustomerPortal() {
         gateCode: customer.gateCode || "",
         yardNotes: customer.yardNotes || "",
         smsOptIn: customer.smsOptIn ?? true,
+        notificationChannel: customer.notificationChannel as NotificationChannel,
         autopayEnabled: customer.autopayEnabled ?? false,
       });
       setIsEditing(true);
@@ -405,6 +474,7 @@ export default function CustomerPortal() {
       gateCode: editForm.gateCode || null,
       yardNotes: editForm.yardNotes || null,
       smsOptIn: editForm.smsOptIn,
+      notificationChannel: editForm.notificationChannel,
       autopayEnabled: editForm.autopayEnabled,
     });
   };
@@ -504,16 +574,13 @@ export default function CustomerPortal() {
     }
   };
 
-  const handlePaymentSuccess = async () => {
-    if (unpaidInvoices) {
-      for (const invoice of unpaidInvoices) {
-        try {
-          await apiRequest("POST", `/api/invoices/${invoice.id}/pay`, {
-            paymentIntentId: "stripe_payment",
-          });
-        } catch (error) {
-          console.error("Failed to mark invoice as paid:", error);
-        }
+  const handlePaymentSuccess = async (paymentIntentId: string) => {
+    // One payment intent covers all the invoices; the server applies it to them together
+    if (unpaidInvoices && unpaidInvoices.length > 0) {
+      try {
+        await apiRequest("POST", `/api/invoices/${unpaidInvoices[0].id}/pay`, { paymentIntentId });
+      } catch (error) {
+        console.error("Failed to record payment:", error);
       }
     }
     
@@ -653,6 +720,11 @@ export default function CustomerPortal() {
                       <p className={`text-xl font-bold mt-1 ${outstandingBalance > 0 ? "text-orange-600" : "text-green-600"}`}>
                         ${outstandingBalance.toFixed(2)}
                       </p>
+                      {accountCredit > 0 && (
+                        <p className="text-xs text-green-600" data-testid="text-account-credit">
+                          ${accountCredit.toFixed(2)} credit on account
+                        </p>
+                      )}
                     </div>
                     <div className="w-12 h-12 rounded-lg bg-gradient-to-r from-[#FF6F00] to-[#00BCD4] flex items-center justify-center">
                       <DollarSign className="w-6 h-6 text-white" />
@@ -713,10 +785,38 @@ export default function CustomerPortal() {
                   <div className="flex items-center justify-between py-3 border-b">
                     <span className="text-muted-foreground flex items-center gap-2">
                       <DollarSign className="w-4 h-4" />
-                      Price per Visit
+                      {billingPlan?.plan === "flat_monthly" ? "Monthly Price" : billingPlan?.plan === "prepaid_package" ? "Prepaid Package" : "Price per Visit"}
+                    </span>
+                    <span className="font-medium text-right" data-testid="text-billing-plan">
+                      {billingPlan?.plan === "flat_monthly" ? (
+                        <>
+                          ${billingPlan.price}/month
+                          <span className="block text-xs text-muted-foreground">
+                            {billingPlan.timing === "advance" ? "Billed before each month" : "Billed at the end of each month"}
+                          </span>
+                        </>
+                      ) : billingPlan?.plan === "prepaid_package" ? (
+                        `${billingPlan.packageVisits} visits for $${billingPlan.price}`
+                      ) : (
+                        `$${billingPlan?.price || customerServiceType?.basePrice || "0.00"}`
+                      )}
                     </span>
-                    <span className="font-medium">${customerServiceType?.basePrice || "0.00"}</span>
                   </div>
+                  {billingPlan?.plan === "prepaid_package" && (
+                    <div className="flex items-center justify-between py-3 border-b">
+                      <span className="text-muted-foreground">Prepaid Visits Left</span>
+                      <span className="font-medium" data-testid="text-visits-remaining">{Math.max(billingPlan.visitsRemaining ?? 0, 0)}</span>
+                    </div>
+                  )}
+                  {referral && (
+                    <div className="py-3 border-b">
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">Refer a Friend</span>
+                        <span className="font-mono font-semibold" data-testid="text-referral-code">{referral.code}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">{referralBlurb(referral)}</p>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between py-3">
                     <span className="text-muted-foreground">Status</span>
                     <Badge variant={customer.status === "active" ? "default" : "secondary"}>
@@ -818,6 +918,73 @@ export default function CustomerPortal() {
                 )}
               </CardContent>
             </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  Vacation Hold
+                </CardTitle>
+                <CardDescription>Going away? Pause your service for a date range and it will resume automatically.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {visibleHolds.length > 0 && (
+                  <div className="space-y-2">
+                    {visibleHolds.map((hold) => (
+                      <div key={hold.id} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`portal-hold-${hold.id}`}>
+                        <p className="font-medium">
+                          {format(parseISO(hold.startDate), "MMM d")} – {format(parseISO(hold.endDate), "MMM d, yyyy")}
+                        </p>
+                        <Badge variant={hold.status === "approved" ? "default" : "secondary"}>
+                          {hold.status === "approved" ? "Confirmed" : "Awaiting Approval"}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="hold-start">First day away</Label>
+                    <Input
+                      id="hold-start"
+                      type="date"
+                      value={holdForm.startDate}
+                      onChange={(e) => setHoldForm({ ...holdForm, startDate: e.target.value })}
+                      data-testid="input-portal-hold-start"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hold-end">Last day away</Label>
+                    <Input
+                      id="hold-end"
+                      type="date"
+                      value={holdForm.endDate}
+                      onChange={(e) => setHoldForm({ ...holdForm, endDate: e.target.value })}
+                      data-testid="input-portal-hold-end"
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  placeholder="Anything we should know? (optional)"
+                  value={holdForm.notes}
+                  onChange={(e) => setHoldForm({ ...holdForm, notes: e.target.value })}
+                  data-testid="input-portal-hold-notes"
+                />
+                <Button
+                  onClick={() => requestHoldMutation.mutate(holdForm)}
+                  disabled={!holdForm.startDate || !holdForm.endDate || requestHoldMutation.isPending}
+                  className="bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+                  data-testid="button-request-hold"
+                >
+                  {requestHoldMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Calendar className="w-4 h-4 mr-2" />
+                  )}
+                  Request Hold
+                </Button>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Billing Tab */}
@@ -948,42 +1115,72 @@ export default function CustomerPortal() {
                   <FileText className="w-5 h-5" />
                   Invoice History
                 </CardTitle>
-                <CardDescription>Your billing history and invoices</CardDescription>
+                <CardDescription className="flex items-center justify-between gap-2">
+                  <span>Your billing history and invoices</span>
+                  {customer && (
+                    <Button variant="outline" size="sm" asChild data-testid="button-download-statement">
+                      <a href={`/api/customers/${customer.id}/statement.pdf?download=1`}>
+                        <Download className="w-3 h-3 mr-1" />
+                        Statement
+                      </a>
+                    </Button>
+                  )}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 {customerInvoices.length > 0 ? (
                   <ScrollArea className="h-[400px]">
                     <div className="space-y-3">
                       {customerInvoices.map((invoice) => (
-                        <div key={invoice.id} className="flex items-center justify-between p-4 rounded-lg border">
-                          <div className="flex items-center gap-4">
-                            <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                              invoice.status === "paid" 
-                                ? "bg-green-100 dark:bg-green-900" 
-                                : "bg-orange-100 dark:bg-orange-900"
-                            }`}>
-                              {invoice.status === "paid" ? (
-                                <CheckCircle className="w-5 h-5 text-green-600" />
-                              ) : (
-                                <Clock className="w-5 h-5 text-orange-600" />
-                              )}
+                        <div key={invoice.id} className="p-4 rounded-lg border">
+                          <div
+                            className="flex items-center justify-between cursor-pointer"
+                            onClick={() => setExpandedInvoiceId(expandedInvoiceId === invoice.id ? null : invoice.id)}
+                            data-testid={`invoice-row-${invoice.id}`}
+                          >
+                            <div className="flex items-center gap-4">
+                              <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
+                                invoice.status === "paid" 
+                                  ? "bg-green-100 dark:bg-green-900" 
+                                  : "bg-orange-100 dark:bg-orange-900"
+                              }`}>
+                                {invoice.status === "paid" ? (
+                                  <CheckCircle className="w-5 h-5 text-green-600" />
+                                ) : (
+                                  <Clock className="w-5 h-5 text-orange-600" />
+                                )}
+                              </div>
+                              <div>
+                                <p className="font-semibold">Invoice #{invoice.id.slice(-6)}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {format(new Date(invoice.createdAt), "MMM d, yyyy")}
+                                </p>
+                              </div>
                             </div>
-                            <div>
-                              <p className="font-semibold">Invoice #{invoice.id.slice(-6)}</p>
-                              <p className="text-sm text-muted-foreground">
-                                {format(new Date(invoice.createdAt), "MMM d, yyyy")}
-                              </p>
+                            <div className="text-right">
+                              <p className="font-bold">${parseFloat(invoice.amount).toFixed(2)}</p>
+                              {invoice.status === "partial" && (
+                                <p className="text-xs text-muted-foreground">${invoiceBalance(invoice.id).toFixed(2)} left to pay</p>
+                              )}
+                              <Badge 
+                                variant={invoice.status === "paid" ? "default" : "secondary"}
+                                className={invoice.status === "paid" ? "bg-green-600" : ""}
+                              >
+                                {invoice.status}
+                              </Badge>
                             </div>
                           </div>
-                          <div className="text-right">
-                            <p className="font-bold">${parseFloat(invoice.amount).toFixed(2)}</p>
-                            <Badge 
-                              variant={invoice.status === "paid" ? "default" : "secondary"}
-                              className={invoice.status === "paid" ? "bg-green-600" : ""}
-                            >
-                              {invoice.status}
-                            </Badge>
-                          </div>
+                          {expandedInvoiceId === invoice.id && (
+                            <div className="mt-4 pt-4 border-t">
+                              <InvoiceLineItems lineItems={invoice.lineItems} total={invoice.amount} />
+                              <Button variant="outline" size="sm" className="mt-3" asChild data-testid={`button-download-invoice-${invoice.id}`}>
+                                <a href={`/api/invoices/${invoice.id}/pdf?download=1`}>
+                                  <Download className="w-3 h-3 mr-1" />
+                                  Download PDF
+                                </a>
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -1032,11 +1229,20 @@ export default function CustomerPortal() {
                             {job.duration && (
                               <p className="text-sm text-muted-foreground">{job.duration} min</p>
                             )}
-                            {(job.photoBefore || job.photoAfter) && (
-                              <Badge variant="outline" className="mt-1">
-                                <Camera className="w-3 h-3 mr-1" />
-                                Photos
-                              </Badge>
+                            {job.photos.length > 0 && (
+                              <div className="flex justify-end gap-1 mt-1" data-testid={`photos-${job.id}`}>
+                                {job.photos.map(photo => (
+                                  <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                                    <img
+                                      src={photo.thumbnailUrl}
+                                      alt={photo.caption || `${photo.kind} photo`}
+                                      title={photo.caption || undefined}
+                                      loading="lazy"
+                                      className="w-12 h-12 object-cover rounded-md border"
+                                    />
+                                  </a>
+                                ))}
+                              </div>
                             )}
                           </div>
                         </div>
@@ -1140,6 +1346,28 @@ export default function CustomerPortal() {
                         data-testid="switch-sms"
                       />
                     </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <Mail className="w-5 h-5 text-muted-foreground" />
+                        <div>
+                          <p className="font-medium">Send Updates By</p>
+                          <p className="text-sm text-muted-foreground">Reminders, invoices and receipts</p>
+                        </div>
+                      </div>
+                      <Select
+                        value={editForm.notificationChannel}
+                        onValueChange={(value) => setEditForm({ ...editForm, notificationChannel: value as NotificationChannel })}
+                      >
+                        <SelectTrigger className="w-36" data-testid="select-notification-channel">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sms">Text</SelectItem>
+                          <SelectItem value="email">Email</SelectItem>
+                          <SelectItem value="both">Text & email</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
                         <CreditCard className="w-5 h-5 text-muted-foreground" />
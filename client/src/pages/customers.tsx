@@ -2,6 +2,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Plus, Search, Phone, Mail, MapPin, DollarSign, Calendar, Trash2, Navigation, Edit, Archive, CheckCircle, AlertTriangle, AlertCircle, Dog, Key, CreditCard, X, Send, ExternalLink, MessageSquare, MessageSquareOff, Banknote } from "lucide-react";
 import { TakePaymentDialog } from "@/components/TakePaymentDialog";
+import { CustomerAccountDialog } from "@/components/customer-account";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -20,12 +21,18 @@ import { z } from "zod";
 import { 
   insertCustomerSchema, 
   insertScheduleRuleSchema,
+  type BillingPlan,
+  type BillingTiming,
+  type NotificationChannel,
   type Customer, 
   type InsertCustomer,
   type ScheduleRule,
   type InsertScheduleRule,
   type ServiceType,
+  type ScheduleException,
+  type Settings,
 } from "@shared/schema";
+import { DEFAULT_TIMEZONE, addDays, dayOfWeek, describeRule, nextOccurrences, todayInTimeZone } from "@shared/recurrence";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 // Utility function to check for missing critical customer information
@@ -41,10 +48,27 @@ function getIncompleteFields(customer: Customer): string[] {
   return missing;
 }
 
+// Whether notifications can reach the customer by SMS or email (see server/services/customerNotifications.ts)
+function canReach(customer: Customer): boolean {
+  const canText = customer.smsOptIn && !!customer.phone;
+  return customer.notificationChannel === "email" ? !!customer.email : canText || !!customer.email;
+}
+
 function hasIncompleteData(customer: Customer): boolean {
   return getIncompleteFields(customer).length > 0;
 }
 
+// "$120.00/month in advance", "10-visit package for $250.00" or "$25.00/visit"
+function billingPlanLabel(customer: Customer, serviceType?: ServiceType): string {
+  if (customer.billingPlan === "flat_monthly") {
+    return `$${customer.planPrice}/month${customer.billingTiming === "advance" ? " in advance" : ""}`;
+  }
+  if (customer.billingPlan === "prepaid_package") {
+    return `${customer.packageVisits}-visit package for $${customer.planPrice}`;
+  }
+  return `$${serviceType?.basePrice}/visit`;
+}
+
 // Type for nearby customer with coordinates
 interface NearbyCustomer {
   lat: number;
@@ -184,6 +208,155 @@ function NearbyCustomersMap({
   );
 }
 
+// Vacation holds (schedule exceptions) for a customer - staff can add, approve, reject and cancel
+function VacationHolds({ customer }: { customer: Customer }) {
+  const [holdStart, setHoldStart] = useState("");
+  const [holdEnd, setHoldEnd] = useState("");
+  const [holdNotes, setHoldNotes] = useState("");
+  const { toast } = useToast();
+
+  const { data: holds } = useQuery<ScheduleException[]>({
+    queryKey: ["/api/schedule-exceptions", customer.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/schedule-exceptions?customerId=${customer.id}`);
+      if (!response.ok) throw new Error("Failed to fetch vacation holds");
+      return response.json();
+    },
+  });
+
+  const invalidateHolds = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule-exceptions", customer.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/routes"] });
+  };
+
+  const createHoldMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/schedule-exceptions", {
+        customerId: customer.id,
+        startDate: holdStart,
+        endDate: holdEnd,
+        notes: holdNotes || null,
+        reason: "vacation",
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      invalidateHolds();
+      setHoldStart("");
+      setHoldEnd("");
+      setHoldNotes("");
+      toast({
+        title: "Vacation Hold Added",
+        description: `${data.routesSkipped || 0} scheduled visit(s) skipped. Service resumes after ${data.endDate}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const holdActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "approve" | "reject" | "cancel" }) => {
+      const response = await apiRequest("POST", `/api/schedule-exceptions/${id}/${action}`, {});
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateHolds();
+      const titles = { approve: "Hold Approved", reject: "Hold Rejected", cancel: "Hold Cancelled" };
+      toast({ title: titles[variables.action] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activeHolds = holds?.filter(h => h.status === "pending" || h.status === "approved") || [];
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium">Vacation Holds</h3>
+      {activeHolds.length > 0 ? (
+        activeHolds.map((hold) => (
+          <Card key={hold.id} className="p-3" data-testid={`hold-${hold.id}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1">
+                <div className="font-medium text-sm">
+                  {hold.startDate} → {hold.endDate}
+                </div>
+                {hold.notes && <div className="text-xs text-muted-foreground">{hold.notes}</div>}
+                <Badge variant={hold.status === "approved" ? "secondary" : "outline"} className="text-xs">
+                  {hold.status === "pending" ? "Requested by customer" : `Approved • ${hold.routesSkipped} visit(s) skipped`}
+                </Badge>
+              </div>
+              <div className="flex gap-1">
+                {hold.status === "pending" && (
+                  <>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => holdActionMutation.mutate({ id: hold.id, action: "approve" })}
+                      disabled={holdActionMutation.isPending}
+                      data-testid={`button-approve-hold-${hold.id}`}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => holdActionMutation.mutate({ id: hold.id, action: "reject" })}
+                      disabled={holdActionMutation.isPending}
+                      data-testid={`button-reject-hold-${hold.id}`}
+                    >
+                      Reject
+                    </Button>
+                  </>
+                )}
+                {hold.status === "approved" && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => holdActionMutation.mutate({ id: hold.id, action: "cancel" })}
+                    disabled={holdActionMutation.isPending}
+                    data-testid={`button-cancel-hold-${hold.id}`}
+                  >
+                    Cancel Hold
+                  </Button>
+                )}
+              </div>
+            </div>
+          </Card>
+        ))
+      ) : (
+        <div className="text-sm text-muted-foreground">No upcoming vacation holds</div>
+      )}
+      <div className="grid grid-cols-2 gap-2 pt-2">
+        <Input type="date" value={holdStart} onChange={(e) => setHoldStart(e.target.value)} data-testid="input-hold-start" />
+        <Input type="date" value={holdEnd} onChange={(e) => setHoldEnd(e.target.value)} data-testid="input-hold-end" />
+        <Input
+          className="col-span-2"
+          placeholder="Reason / notes (optional)"
+          value={holdNotes}
+          onChange={(e) => setHoldNotes(e.target.value)}
+          data-testid="input-hold-notes"
+        />
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => createHoldMutation.mutate()}
+        disabled={!holdStart || !holdEnd || createHoldMutation.isPending}
+        data-testid="button-add-hold"
+      >
+        {createHoldMutation.isPending ? "Adding..." : "Add Vacation Hold"}
+      </Button>
+    </div>
+  );
+}
+
 // Schedule Management Dialog Component
 function ScheduleDialog({ customer }: { customer: Customer }) {
   const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
@@ -209,6 +382,12 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
   // Find the customer's service type
   const customerServiceType = serviceTypes?.find(st => st.id === customer.serviceTypeId);
 
+  // Priced add-ons that can be attached to a schedule
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+  });
+  const serviceAddons = settings?.serviceAddons || [];
+
   const deleteRuleMutation = useMutation({
     mutationFn: async (ruleId: string) => {
       await apiRequest("DELETE", `/api/schedule-rules/${ruleId}`);
@@ -239,6 +418,8 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
     },
   });
 
+  const scheduleFrequencyValue = scheduleForm.watch("frequency");
+
   // Reset form when dialog opens to use latest customer preferred days
   useEffect(() => {
     if (scheduleDialogOpen) {
@@ -263,17 +444,23 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
       console.log("📅 Selected days (byDay):", data.byDay);
       
       // Validate and adjust dtStart to match the first selected weekday
-      const startDate = new Date(data.dtStart);
-      const targetDay = data.byDay && data.byDay.length > 0 ? data.byDay[0] : 1;
-      
-      // Advance the start date until it matches the first selected weekday
-      while (startDate.getDay() !== targetDay) {
-        startDate.setDate(startDate.getDate() + 1);
+      // (weekly-interval schedules only - monthly and specific-date rules keep their start date)
+      let dtStart = data.dtStart;
+      const isWeekInterval = ["weekly", "biweekly", "every-3-weeks", "every-4-weeks"].includes(data.frequency);
+      if (isWeekInterval) {
+        const targetDay = data.byDay && data.byDay.length > 0 ? data.byDay[0] : 1;
+        
+        // Advance the start date until it matches the first selected weekday
+        while (dayOfWeek(dtStart) !== targetDay) {
+          dtStart = addDays(dtStart, 1);
+        }
       }
       
       const adjustedData = {
         ...data,
-        dtStart: startDate.toISOString().split("T")[0],
+        dtStart,
+        rDates: data.frequency === "specific-dates" ? data.rDates : null,
+        bySetPos: data.frequency === "monthly" ? (data.bySetPos ?? 1) : null,
       };
       
       console.log("📅 Adjusted data being sent to API:", adjustedData);
@@ -384,7 +571,7 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
                   <div className="text-xs text-muted-foreground font-medium uppercase tracking-wide">Service Plan</div>
                   {customerServiceType ? (
                     <div className="font-semibold text-lg">
-                      {customerServiceType.name} – ${customerServiceType.basePrice}/visit
+                      {customerServiceType.name} – {billingPlanLabel(customer, customerServiceType)}
                     </div>
                   ) : (
                     <div className="text-muted-foreground italic">No service plan assigned</div>
@@ -408,16 +595,23 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
                 <Card key={rule.id} className="p-4">
                   <div className="flex items-start justify-between">
                     <div className="space-y-1">
-                      <div className="font-medium capitalize">{rule.frequency}</div>
+                      <div className="font-medium">{describeRule(rule)}</div>
                       <div className="text-sm text-muted-foreground">
-                        {rule.byDay && rule.byDay.length > 0 
-                          ? rule.byDay.map(day => dayNames[day]).join(", ")
-                          : "No days selected"
+                        {rule.frequency === "specific-dates"
+                          ? (rule.rDates || []).join(", ")
+                          : rule.byDay && rule.byDay.length > 0 
+                            ? rule.byDay.map(day => dayNames[day]).join(", ")
+                            : "No days selected"
                         } • {rule.windowStart} - {rule.windowEnd}
                       </div>
                       <div className="text-xs text-muted-foreground">
                         Starts: {rule.dtStart}
                       </div>
+                      {rule.addons && rule.addons.length > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          Add-ons: {rule.addons.map(key => serviceAddons.find(addon => addon.key === key)?.name || key).join(", ")}
+                        </div>
+                      )}
                       {rule.paused && (
                         <div className="text-xs text-orange-600 font-medium">Paused</div>
                       )}
@@ -440,6 +634,9 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
             </div>
           )}
 
+          {/* Vacation Holds */}
+          <VacationHolds customer={customer} />
+
           {/* Add New Schedule Form */}
           <div className="border-t pt-6">
             <h3 className="font-medium mb-4">Add New Schedule</h3>
@@ -461,6 +658,10 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
                           <SelectContent>
                             <SelectItem value="weekly">Weekly</SelectItem>
                             <SelectItem value="biweekly">Biweekly</SelectItem>
+                            <SelectItem value="every-3-weeks">Every 3 Weeks</SelectItem>
+                            <SelectItem value="every-4-weeks">Every 4 Weeks</SelectItem>
+                            <SelectItem value="monthly">Monthly (e.g. First Tuesday)</SelectItem>
+                            <SelectItem value="specific-dates">Specific Dates</SelectItem>
                             <SelectItem value="one-time">One-Time (Timer Billing)</SelectItem>
                             <SelectItem value="new-start">New Start (Timer Billing)</SelectItem>
                           </SelectContent>
@@ -585,6 +786,59 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
                   />
                 </div>
 
+                {scheduleFrequencyValue === "monthly" && (
+                  <FormField
+                    control={scheduleForm.control}
+                    name="bySetPos"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Week of Month</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(parseInt(value))}
+                          value={String(field.value ?? 1)}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-by-set-pos">
+                              <SelectValue placeholder="Select week" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="1">First</SelectItem>
+                            <SelectItem value="2">Second</SelectItem>
+                            <SelectItem value="3">Third</SelectItem>
+                            <SelectItem value="4">Fourth</SelectItem>
+                            <SelectItem value="-1">Last</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {scheduleFrequencyValue === "specific-dates" && (
+                  <FormField
+                    control={scheduleForm.control}
+                    name="rDates"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Service Dates</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="2025-03-04, 2025-03-18, 2025-04-01"
+                            value={(field.value || []).join(", ")}
+                            onChange={(e) => field.onChange(
+                              e.target.value.split(",").map(d => d.trim()).filter(Boolean)
+                            )}
+                            data-testid="input-specific-dates"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={scheduleForm.control}
                   name="dtStart"
@@ -628,6 +882,37 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
                   />
                 </div>
 
+                {serviceAddons.length > 0 && (
+                  <FormField
+                    control={scheduleForm.control}
+                    name="addons"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Add-ons (billed per visit)</FormLabel>
+                        <div className="flex flex-wrap gap-4">
+                          {serviceAddons.map((addon) => (
+                            <div key={addon.key} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`addon-${addon.key}`}
+                                checked={field.value?.includes(addon.key) || false}
+                                onCheckedChange={(checked) => {
+                                  const current = field.value || [];
+                                  field.onChange(checked ? [...current, addon.key] : current.filter(key => key !== addon.key));
+                                }}
+                                data-testid={`checkbox-addon-${addon.key}`}
+                              />
+                              <label htmlFor={`addon-${addon.key}`} className="text-sm">
+                                {addon.name} (${addon.price})
+                              </label>
+                            </div>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={scheduleForm.control}
                   name="paused"
@@ -666,34 +951,19 @@ function ScheduleDialog({ customer }: { customer: Customer }) {
   );
 }
 
-// Calculate next visit date from schedule rule - returns the Date object
-function calculateNextVisitDate(rule: ScheduleRule): Date {
-  // Use date-only comparison (set time to midnight)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const startDate = new Date(rule.dtStart);
-  startDate.setHours(0, 0, 0, 0);
-  
-  const period = rule.frequency === "weekly" ? 7 : 14;
-
-  // Start from the dtStart date (first service date)
-  let nextDate = new Date(startDate);
-  
-  // Advance by the period until we reach or pass today
-  while (nextDate < today) {
-    nextDate.setDate(nextDate.getDate() + period);
-  }
-
-  return nextDate;
+// Calculate next visit date (YYYY-MM-DD) from schedule rule, or null if none upcoming
+function calculateNextVisitDate(rule: ScheduleRule): string | null {
+  const today = todayInTimeZone(rule.timezone || DEFAULT_TIMEZONE);
+  return nextOccurrences(rule, today, 1)[0] ?? null;
 }
 
 // Format a visit date as a readable string
-function formatNextVisit(date: Date, windowStart: string): string {
+function formatNextVisit(date: string, windowStart: string): string {
   const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
   const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  const [, month, day] = date.split("-").map(Number);
   
-  return `${dayNames[date.getDay()]}, ${monthNames[date.getMonth()]} ${date.getDate()} • ${windowStart}`;
+  return `${dayNames[dayOfWeek(date)]}, ${monthNames[month - 1]} ${day} • ${windowStart}`;
 }
 
 export default function Customers() {
@@ -1038,7 +1308,13 @@ export default function Customers() {
       yardNotes: "",
       status: "active",
       billingMethod: "invoice",
+      billingPlan: "per_visit",
+      billingTiming: "arrears",
+      planPrice: null,
+      packageVisits: null,
       smsOptIn: true,
+      notificationChannel: "sms",
+      tags: [],
     },
   });
 
@@ -1238,7 +1514,13 @@ export default function Customers() {
                   yardNotes: "",
                   status: "active",
                   billingMethod: "invoice",
+                  billingPlan: "per_visit",
+                  billingTiming: "arrears",
+                  planPrice: null,
+                  packageVisits: null,
                   smsOptIn: true,
+                  notificationChannel: "sms",
+                  tags: [],
                 });
               }}
             >
@@ -1578,6 +1860,27 @@ export default function Customers() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags (Optional)</FormLabel>
+                      <FormControl>
+                        {/* Uncontrolled so typing a comma isn't undone; the dialog remounts for each customer */}
+                        <Input
+                          placeholder="e.g. vip, north side"
+                          defaultValue={(field.value ?? []).join(", ")}
+                          onChange={(e) => field.onChange(e.target.value.split(",").map(tag => tag.trim()).filter(Boolean))}
+                          onBlur={field.onBlur}
+                          data-testid="input-tags"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Comma-separated. Used to target announcements.</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -1622,6 +1925,111 @@ export default function Customers() {
                     )}
                   />
                 </div>
+                <div className="space-y-4 p-4 border rounded-md bg-muted/30">
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="billingPlan"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Billing Plan</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-billing-plan">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="per_visit">Per visit</SelectItem>
+                              <SelectItem value="flat_monthly">Flat monthly</SelectItem>
+                              <SelectItem value="prepaid_package">Prepaid package</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch("billingPlan") !== "per_visit" && (
+                      <FormField
+                        control={form.control}
+                        name="billingTiming"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bill</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-billing-timing">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="arrears">In arrears</SelectItem>
+                                <SelectItem value="advance">In advance</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                  {form.watch("billingPlan") !== "per_visit" && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="planPrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{form.watch("billingPlan") === "flat_monthly" ? "Monthly Price ($)" : "Package Price ($)"}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                data-testid="input-plan-price"
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value || null)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {form.watch("billingPlan") === "prepaid_package" && (
+                        <FormField
+                          control={form.control}
+                          name="packageVisits"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Visits per Package</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  data-testid="input-package-visits"
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {form.watch("billingPlan") === "flat_monthly"
+                      ? form.watch("billingTiming") === "advance"
+                        ? "Each month's billing run bills next month's price."
+                        : "Billed the monthly price for each month with service, however many visits it had."
+                      : form.watch("billingPlan") === "prepaid_package"
+                        ? form.watch("billingTiming") === "advance"
+                          ? "A new package is billed as soon as the last prepaid visit is used."
+                          : "A new package is billed once visits go past the last prepaid one."
+                        : "Billed the service type's price for each completed visit."}
+                  </p>
+                </div>
                 <FormField
                   control={form.control}
                   name="smsOptIn"
@@ -1645,6 +2053,28 @@ export default function Customers() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="notificationChannel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Send Reminders, Invoices & Receipts By</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-notification-channel">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="sms">SMS (email if they can't be texted)</SelectItem>
+                          <SelectItem value="email">Email</SelectItem>
+                          <SelectItem value="both">SMS and email</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="flex justify-end gap-2 pt-4">
                   <Button 
                     type="button" 
@@ -1777,15 +2207,19 @@ export default function Customers() {
             // Calculate the earliest upcoming visit across all active schedules
             let nextVisit: string | null = null;
             if (customerRules.length > 0) {
-              const upcomingVisits = customerRules.map(rule => ({
-                date: calculateNextVisitDate(rule),
-                windowStart: rule.windowStart
-              }));
+              const upcomingVisits = customerRules
+                .map(rule => ({
+                  date: calculateNextVisitDate(rule),
+                  windowStart: rule.windowStart
+                }))
+                .filter((visit): visit is { date: string; windowStart: string } => visit.date !== null);
               
               // Sort by date and pick the earliest
-              upcomingVisits.sort((a, b) => a.date.getTime() - b.date.getTime());
+              upcomingVisits.sort((a, b) => a.date.localeCompare(b.date));
               const earliest = upcomingVisits[0];
-              nextVisit = formatNextVisit(earliest.date, earliest.windowStart);
+              if (earliest) {
+                nextVisit = formatNextVisit(earliest.date, earliest.windowStart);
+              }
             }
 
             const incompleteFields = getIncompleteFields(customer);
@@ -1867,6 +2301,14 @@ export default function Customers() {
                   )}
                 </div>
 
+                {customer.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1" data-testid={`tags-${customer.id}`}>
+                    {customer.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+
                 {customer.yardNotes && (
                   <div className="p-3 bg-muted/50 rounded-lg">
                     <p className="text-xs text-muted-foreground line-clamp-2">{customer.yardNotes}</p>
@@ -1902,6 +2344,7 @@ export default function Customers() {
                     <Banknote className="w-3 h-3 mr-1" />
                     Take Payment
                   </Button>
+                  <CustomerAccountDialog customer={customer} />
                   <Button
                     variant="outline"
                     size="sm"
@@ -1923,7 +2366,13 @@ export default function Customers() {
                         yardNotes: customer.yardNotes || "",
                         status: customer.status,
                         billingMethod: customer.billingMethod,
+                        billingPlan: customer.billingPlan as BillingPlan,
+                        billingTiming: customer.billingTiming as BillingTiming,
+                        planPrice: customer.planPrice,
+                        packageVisits: customer.packageVisits,
                         smsOptIn: customer.smsOptIn,
+                        notificationChannel: customer.notificationChannel as NotificationChannel,
+                        tags: customer.tags,
                         lat: customer.lat?.toString() || "",
                         lng: customer.lng?.toString() || "",
                       });
@@ -1985,18 +2434,18 @@ export default function Customers() {
                           variant="ghost"
                           size="icon"
                           onClick={() => {
-                            if (confirm(`Send portal invite SMS to ${customer.name}?`)) {
+                            if (confirm(`Send portal invite to ${customer.name}?`)) {
                               sendPortalInviteMutation.mutate(customer.id);
                             }
                           }}
-                          disabled={sendPortalInviteMutation.isPending || !customer.smsOptIn || !customer.phone}
+                          disabled={sendPortalInviteMutation.isPending || !canReach(customer)}
                           data-testid={`button-send-invite-${customer.id}`}
                         >
                           <Send className="w-4 h-4" />
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        {!customer.phone ? "No phone number" : !customer.smsOptIn ? "SMS not enabled" : "Send Portal Invite SMS"}
+                        {!canReach(customer) ? "No SMS opt-in or email" : "Send Portal Invite"}
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
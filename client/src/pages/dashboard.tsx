@@ -21,7 +21,7 @@ export default function Dashboard() {
 
   const activeCustomers = customers?.filter(c => c.status === "active").length || 0;
   const todayRoutes = routes?.length || 0;
-  const unpaidInvoices = invoices?.filter(inv => inv.status === "unpaid").length || 0;
+  const unpaidInvoices = invoices?.filter(inv => ["unpaid", "partial", "overdue"].includes(inv.status)).length || 0;
   const totalRevenue = invoices
     ?.filter(inv => inv.status === "paid")
     .reduce((sum, inv) => sum + parseFloat(inv.amount), 0) || 0;
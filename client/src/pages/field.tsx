@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { format } from "date-fns";
+import { MapPin, Check, Camera, StickyNote, Wifi, WifiOff, RefreshCw, AlertTriangle, X, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Stopwatch } from "@/components/stopwatch";
+import { useToast } from "@/hooks/use-toast";
+import { getDeviceLocation } from "@/lib/geolocation";
+import type { Customer, Route } from "@shared/schema";
+import {
+  saveRun,
+  loadRun,
+  enqueueAction,
+  listActions,
+  removeAction,
+  replayActions,
+  type CachedRun,
+  type FieldAction,
+} from "@/lib/offline-queue";
+
+const actionLabels: Record<FieldAction["type"], string> = {
+  status: "Status change",
+  timer_start: "Timer start",
+  timer_stop: "Timer stop",
+  photos: "Photos",
+};
+
+// Show queued changes on top of what the server last told us
+function applyQueuedActions(routes: Route[], actions: FieldAction[]): Route[] {
+  return routes.map(route => {
+    let updated = route;
+    for (const action of actions) {
+      if (action.routeId !== route.id || action.conflict) continue;
+      if (action.type === "status" && action.status) updated = { ...updated, status: action.status };
+      if (action.type === "timer_start") updated = { ...updated, timerStartedAt: new Date(action.at) };
+      if (action.type === "timer_stop") updated = { ...updated, timerStoppedAt: new Date(action.at) };
+    }
+    return updated;
+  });
+}
+
+function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function FieldMode() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [run, setRun] = useState<CachedRun | null>(null);
+  const [actions, setActions] = useState<FieldAction[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [photoTarget, setPhotoTarget] = useState<{ routeId: string; kind: "before" | "after" } | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Fetch today's run from the server and cache it; fall back to the cached copy when offline
+  const refreshRun = useCallback(async () => {
+    const queued = await listActions();
+    setActions(queued);
+    try {
+      const [routesResponse, customersResponse] = await Promise.all([
+        fetch(`/api/routes?date=${today}`, { credentials: "include" }),
+        fetch("/api/customers", { credentials: "include" }),
+      ]);
+      if (!routesResponse.ok || !customersResponse.ok) throw new Error("Failed to fetch today's run");
+
+      const routes: Route[] = await routesResponse.json();
+      const customers: Customer[] = await customersResponse.json();
+      const customerIds = new Set(routes.map(r => r.customerId));
+      const fresh: CachedRun = {
+        date: today,
+        routes: applyQueuedActions(routes, queued),
+        customers: customers.filter(c => customerIds.has(c.id)),
+        cachedAt: new Date().toISOString(),
+      };
+      await saveRun(fresh);
+      setRun(fresh);
+    } catch {
+      setRun((await loadRun(today)) ?? null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [today]);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const result = await replayActions();
+      if (result.applied > 0 || result.conflicts > 0) {
+        toast({
+          title: result.conflicts > 0 ? "Synced With Conflicts" : "Changes Synced",
+          description: `${result.applied} change(s) sent${result.conflicts > 0 ? `, ${result.conflicts} need review` : ""}.`,
+          variant: result.conflicts > 0 ? "destructive" : "default",
+        });
+      }
+      if (!result.offline) await refreshRun();
+      else setActions(await listActions());
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [refreshRun, toast]);
+
+  useEffect(() => {
+    refreshRun().then(() => {
+      if (navigator.onLine) sync();
+    });
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refreshRun, sync]);
+
+  // Apply a change locally right away, queue it, and send it if we have signal
+  const record = async (route: Route, action: Omit<FieldAction, "id" | "routeId" | "at">, changes: Partial<Route> = {}) => {
+    await enqueueAction({ ...action, routeId: route.id, at: new Date().toISOString() });
+    if (run) {
+      const updated = { ...run, routes: run.routes.map(r => (r.id === route.id ? { ...r, ...changes } : r)) };
+      await saveRun(updated);
+      setRun(updated);
+    }
+    setActions(await listActions());
+    if (navigator.onLine) sync();
+  };
+
+  const updateStatus = async (route: Route, status: string) => {
+    const location = await getDeviceLocation();
+    await record(route, { type: "status", status, expectedStatus: route.status, location }, { status });
+  };
+
+  const handlePhotoSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    const route = run?.routes.find(r => r.id === photoTarget?.routeId);
+    if (!file || !route || !photoTarget) return;
+
+    if (!file.type.startsWith("image/") || file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "Invalid Photo",
+        description: "Please choose an image under 5MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const photo = await readPhoto(file);
+    await record(route, photoTarget.kind === "before" ? { type: "photos", photoBefore: photo } : { type: "photos", photoAfter: photo });
+    toast({
+      title: "Photo Saved",
+      description: navigator.onLine ? "Uploading now." : "It will upload when you're back in signal.",
+    });
+  };
+
+  const dismissConflict = async (action: FieldAction) => {
+    await removeAction(action.id!);
+    await refreshRun();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" aria-label="Loading" />
+      </div>
+    );
+  }
+
+  const pending = actions.filter(a => !a.conflict);
+  const conflicts = actions.filter(a => a.conflict);
+  const stops = [...(run?.routes || [])].sort((a, b) => a.orderIndex - b.orderIndex);
+  const customerFor = (route: Route) => run?.customers.find(c => c.id === route.customerId);
+
+  return (
+    <div className="p-4 space-y-4 max-w-xl mx-auto">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-serif font-semibold bg-gradient-to-r from-[#00BCD4] to-[#FF6F00] bg-clip-text text-transparent" data-testid="title-field">
+            Today's Run
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {format(new Date(), "EEEE, MMM d")}
+            {run && ` • saved ${format(new Date(run.cachedAt), "h:mm a")}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={isOnline ? "secondary" : "destructive"} data-testid="badge-connection">
+            {isOnline ? <Wifi className="w-3 h-3 mr-1" /> : <WifiOff className="w-3 h-3 mr-1" />}
+            {isOnline ? "Online" : "Offline"}
+          </Badge>
+          <Button size="sm" variant="outline" onClick={sync} disabled={!isOnline || isSyncing} data-testid="button-sync">
+            <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {pending.length > 0 && (
+        <p className="text-sm px-3 py-2 rounded-lg bg-muted" data-testid="text-pending-count">
+          {pending.length} change(s) waiting to sync
+        </p>
+      )}
+
+      {conflicts.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+              Changes the office needs to know about
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {conflicts.map((action) => {
+              const route = run?.routes.find(r => r.id === action.routeId);
+              return (
+                <div key={action.id} className="flex items-start justify-between gap-2 text-sm" data-testid={`conflict-${action.id}`}>
+                  <div>
+                    <p className="font-medium">
+                      {(route && customerFor(route)?.name) || "Stop"} • {actionLabels[action.type]}
+                      {action.status && ` → ${action.status.replace("_", " ")}`}
+                    </p>
+                    <p className="text-muted-foreground">{action.conflict}</p>
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => dismissConflict(action)} data-testid={`button-dismiss-conflict-${action.id}`}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {!run ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No saved run for today. Open this page once with signal to download your stops.
+        </p>
+      ) : stops.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No stops assigned for today</p>
+      ) : (
+        stops.map((route, index) => {
+          const customer = customerFor(route);
+          const isTimed = route.serviceType === "one-time" || route.serviceType === "new-start";
+          return (
+            <Card key={route.id} className={route.status === "completed" || route.status === "skipped" ? "opacity-60" : ""} data-testid={`field-stop-${route.id}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start gap-3">
+                  <div className="w-9 h-9 rounded-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00] flex items-center justify-center text-white font-semibold flex-shrink-0">
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h2 className="font-semibold">{customer?.name}</h2>
+                    <p className="text-sm text-muted-foreground">{customer?.address}</p>
+                  </div>
+                  <Badge variant="outline">{route.status.replace("_", " ")}</Badge>
+                </div>
+
+                {customer?.gateCode && (
+                  <p className="text-lg font-semibold px-3 py-2 bg-muted rounded" data-testid={`text-gate-${route.id}`}>
+                    Gate: {customer.gateCode}
+                  </p>
+                )}
+                {customer?.yardNotes && (
+                  <p className="text-sm px-3 py-2 bg-accent/20 rounded flex gap-2">
+                    <StickyNote className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    {customer.yardNotes}
+                  </p>
+                )}
+
+                {isTimed && route.status === "in_route" && (
+                  <Stopwatch
+                    startTime={route.timerStartedAt ? new Date(route.timerStartedAt).toISOString() : null}
+                    onStart={() => record(route, { type: "timer_start" }, { timerStartedAt: new Date() })}
+                    onStop={() => record(route, { type: "timer_stop" }, { timerStoppedAt: new Date() })}
+                    isStarted={!!route.timerStartedAt}
+                    isStopped={!!route.timerStoppedAt}
+                  />
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  {customer?.address && (
+                    <Button variant="outline" asChild>
+                      <a
+                        href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(customer.address)}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <MapPin className="w-4 h-4 mr-1" />
+                        Directions
+                      </a>
+                    </Button>
+                  )}
+                  {route.status === "scheduled" && (
+                    <Button onClick={() => updateStatus(route, "in_route")} className="bg-blue-600 hover:bg-blue-700 text-white" data-testid={`button-field-start-${route.id}`}>
+                      <Play className="w-4 h-4 mr-1" />
+                      Start
+                    </Button>
+                  )}
+                  {route.status === "in_route" && (
+                    <>
+                      <Button onClick={() => updateStatus(route, "completed")} className="bg-gradient-to-r from-[#FF6F00] to-[#00BCD4]" data-testid={`button-field-complete-${route.id}`}>
+                        <Check className="w-4 h-4 mr-1" />
+                        Complete
+                      </Button>
+                      <Button variant="outline" onClick={() => { setPhotoTarget({ routeId: route.id, kind: "before" }); photoInputRef.current?.click(); }}>
+                        <Camera className="w-4 h-4 mr-1" />
+                        Before
+                      </Button>
+                      <Button variant="outline" onClick={() => { setPhotoTarget({ routeId: route.id, kind: "after" }); photoInputRef.current?.click(); }}>
+                        <Camera className="w-4 h-4 mr-1" />
+                        After
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <input
+        ref={photoInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={handlePhotoSelected}
+      />
+    </div>
+  );
+}
@@ -1,30 +1,46 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Search, DollarSign, Calendar, Download, Trash2, CreditCard } from "lucide-react";
+import { Plus, Search, DollarSign, Calendar, Download, Trash2, CreditCard, MessageSquare, AlertTriangle, RotateCcw, X, Undo2, Ban } from "lucide-react";
 import { TakePaymentDialog } from "@/components/TakePaymentDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Card, CardContent } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { InvoiceLineItems } from "@/components/invoice-line-items";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertInvoiceSchema, type Customer, type Invoice, type InsertInvoice, type ServiceType } from "@shared/schema";
+import { insertInvoiceSchema, type Customer, type Invoice, type InsertInvoice, type InvoiceLineItem, type InvoiceLineItemKind, type InvoiceWithLineItems, type ServiceType, type DunningCase } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
+// Still collecting payment (not paid or void)
+function isOpen(invoice: Invoice): boolean {
+  return ["unpaid", "partial", "overdue"].includes(invoice.status);
+}
+
 export default function Invoices() {
   const [searchTerm, setSearchTerm] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [invoiceToDelete, setInvoiceToDelete] = useState<Invoice | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
-  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<InvoiceWithLineItems | null>(null);
+  const [lineKind, setLineKind] = useState<InvoiceLineItemKind>("addon");
+  const [lineDescription, setLineDescription] = useState("");
+  const [lineQuantity, setLineQuantity] = useState("1");
+  const [linePrice, setLinePrice] = useState("");
+  const [lineTaxable, setLineTaxable] = useState(false);
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
   const [paymentCustomer, setPaymentCustomer] = useState<Customer | null>(null);
   const [preselectedInvoiceIds, setPreselectedInvoiceIds] = useState<string[]>([]);
+  const [adjustAction, setAdjustAction] = useState<"void" | "refund" | null>(null);
+  const [adjustReason, setAdjustReason] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
   const { toast } = useToast();
 
   const { data: customers } = useQuery<Customer[]>({
@@ -35,7 +51,7 @@ export default function Invoices() {
     queryKey: ["/api/service-types"],
   });
 
-  const { data: invoices, isLoading } = useQuery<Invoice[]>({
+  const { data: invoices, isLoading } = useQuery<InvoiceWithLineItems[]>({
     queryKey: ["/api/invoices"],
   });
 
@@ -68,8 +84,116 @@ export default function Invoices() {
       setDeleteDialogOpen(false);
       setInvoiceToDelete(null);
     },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't Delete Invoice", description: error.message, variant: "destructive" });
+      setDeleteDialogOpen(false);
+    },
+  });
+
+  const addLineMutation = useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/lines`, {
+        kind: lineKind,
+        description: lineDescription,
+        quantity: lineQuantity,
+        unitPrice: linePrice,
+        taxable: lineTaxable,
+      });
+      return response.json() as Promise<InvoiceWithLineItems>;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setSelectedInvoice(invoice);
+      setLineDescription("");
+      setLineQuantity("1");
+      setLinePrice("");
+      setLineTaxable(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Add Line",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeLineMutation = useMutation({
+    mutationFn: async (line: InvoiceLineItem) => {
+      const response = await apiRequest("DELETE", `/api/invoices/${line.invoiceId}/lines/${line.id}`);
+      return response.json() as Promise<InvoiceWithLineItems>;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setSelectedInvoice(invoice);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Remove Line",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
+  const sendLinkMutation = useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/send-link`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Link Sent",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't Send Link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onAdjusted = (invoice: Invoice, title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers", invoice.customerId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    setSelectedInvoice(selectedInvoice ? { ...selectedInvoice, ...invoice } : null);
+    setAdjustAction(null);
+    toast({ title });
+  };
+
+  const voidMutation = useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/void`, { reason: adjustReason });
+      return response.json() as Promise<Invoice>;
+    },
+    onSuccess: (invoice) => onAdjusted(invoice, "Invoice Voided"),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't Void Invoice", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/refund`, {
+        amount: refundAmount || undefined,
+        reason: adjustReason,
+      });
+      return (await response.json()).invoice as Invoice;
+    },
+    onSuccess: (invoice) => onAdjusted(invoice, "Refund Issued"),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't Refund", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const downloadPdf = (invoiceId: string) => {
+    window.open(`/api/invoices/${invoiceId}/pdf?download=1`, "_blank");
+  };
+
   const form = useForm<InsertInvoice>({
     resolver: zodResolver(insertInvoiceSchema),
     defaultValues: {
@@ -91,7 +215,10 @@ export default function Invoices() {
     const customer = customers?.find(c => c.id === customerId);
     if (customer && customer.serviceTypeId) {
       const serviceType = serviceTypes?.find(st => st.id === customer.serviceTypeId);
-      if (serviceType) {
+      if (serviceType && customer.billingPlan === "flat_monthly" && customer.planPrice) {
+        form.setValue("amount", parseFloat(customer.planPrice).toFixed(2));
+        form.setValue("description", `${serviceType.name} - monthly plan`);
+      } else if (serviceType) {
         // Calculate per-visit cost: basePrice covers first dog, pricePerExtraDog for additional dogs
         const basePrice = typeof serviceType.basePrice === 'string' ? parseFloat(serviceType.basePrice) : serviceType.basePrice;
         const pricePerExtraDog = typeof serviceType.pricePerExtraDog === 'string' ? parseFloat(serviceType.pricePerExtraDog) : serviceType.pricePerExtraDog;
@@ -123,7 +250,7 @@ export default function Invoices() {
   const stats = {
     total: invoices?.length || 0,
     paid: invoices?.filter(i => i.status === "paid").length || 0,
-    unpaid: invoices?.filter(i => i.status === "unpaid").length || 0,
+    unpaid: invoices?.filter(i => i.status === "unpaid" || i.status === "partial").length || 0,
     overdue: invoices?.filter(i => i.status === "overdue").length || 0,
   };
 
@@ -297,6 +424,8 @@ export default function Invoices() {
         </Card>
       </div>
 
+      <FailedAutopayCard invoices={invoices || []} customers={customers || []} />
+
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
         <Input
@@ -337,6 +466,8 @@ export default function Invoices() {
                               ? "bg-green-100 text-green-800" 
                               : invoice.status === "overdue"
                               ? "bg-red-100 text-red-800"
+                              : invoice.status === "void"
+                              ? "bg-gray-100 text-gray-600"
                               : "bg-yellow-100 text-yellow-800"
                           }`}>
                             {invoice.status}
@@ -368,13 +499,14 @@ export default function Invoices() {
                           size="sm" 
                           onClick={(e) => {
                             e.stopPropagation();
+                            downloadPdf(invoice.id);
                           }}
                           data-testid={`button-download-${invoice.id}`}
                         >
                           <Download className="w-3 h-3 mr-1" />
                           Download
                         </Button>
-                        {invoice.status !== "paid" && (
+                        {isOpen(invoice) && (
                           <>
                             <Button 
                               variant="outline" 
@@ -448,6 +580,8 @@ export default function Invoices() {
                         ? "bg-green-100 text-green-800" 
                         : selectedInvoice.status === "overdue"
                         ? "bg-red-100 text-red-800"
+                        : selectedInvoice.status === "void"
+                        ? "bg-gray-100 text-gray-600"
                         : "bg-yellow-100 text-yellow-800"
                     }`}>
                       {selectedInvoice.status.toUpperCase()}
@@ -490,7 +624,62 @@ export default function Invoices() {
                   {selectedInvoice.description ? (
                     <p className="text-sm text-muted-foreground mb-3">{selectedInvoice.description}</p>
                   ) : null}
-                  <div className="grid grid-cols-2 gap-4 text-sm">
+                  <InvoiceLineItems
+                    lineItems={selectedInvoice.lineItems}
+                    total={selectedInvoice.amount}
+                    onRemove={isOpen(selectedInvoice) ? (line) => removeLineMutation.mutate(line) : undefined}
+                    removing={removeLineMutation.isPending}
+                  />
+                  {isOpen(selectedInvoice) && (
+                    <div className="grid grid-cols-12 gap-2 items-end mt-4" data-testid="form-add-line">
+                      <div className="col-span-3">
+                        <Label className="text-xs">Type</Label>
+                        <Select value={lineKind} onValueChange={(value) => setLineKind(value as InvoiceLineItemKind)}>
+                          <SelectTrigger data-testid="select-line-kind">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="addon">Add-on</SelectItem>
+                            <SelectItem value="fee">Fee</SelectItem>
+                            <SelectItem value="other">Other charge</SelectItem>
+                            <SelectItem value="credit">Credit</SelectItem>
+                            <SelectItem value="discount">Discount</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-4">
+                        <Label className="text-xs">Description</Label>
+                        <Input value={lineDescription} onChange={(e) => setLineDescription(e.target.value)} placeholder="Extra yard cleanup" data-testid="input-line-description" />
+                      </div>
+                      <div className="col-span-2">
+                        <Label className="text-xs">Qty</Label>
+                        <Input type="number" min="0" step="1" value={lineQuantity} onChange={(e) => setLineQuantity(e.target.value)} data-testid="input-line-quantity" />
+                      </div>
+                      <div className="col-span-2">
+                        <Label className="text-xs">Price</Label>
+                        <Input type="number" min="0" step="0.01" value={linePrice} onChange={(e) => setLinePrice(e.target.value)} data-testid="input-line-price" />
+                      </div>
+                      <Button
+                        className="col-span-1"
+                        size="icon"
+                        onClick={() => addLineMutation.mutate(selectedInvoice.id)}
+                        disabled={!lineDescription.trim() || !linePrice || addLineMutation.isPending}
+                        data-testid="button-add-line"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                      <div className="col-span-12 flex items-center gap-2">
+                        <Checkbox
+                          id="line-taxable"
+                          checked={lineTaxable}
+                          onCheckedChange={(checked) => setLineTaxable(checked === true)}
+                          data-testid="checkbox-line-taxable"
+                        />
+                        <Label htmlFor="line-taxable" className="text-xs font-normal">Taxable</Label>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-4 text-sm mt-4">
                     <div>
                       <p className="text-muted-foreground">Service Type</p>
                       <p className="font-medium">{serviceType?.name || 'N/A'}</p>
@@ -537,6 +726,16 @@ export default function Invoices() {
                   </div>
                 </div>
 
+                {selectedInvoice.status === "void" && (
+                  <div className="border-t pt-4 text-sm" data-testid="invoice-void-details">
+                    <h4 className="font-semibold mb-3">Voided</h4>
+                    <p className="text-muted-foreground">
+                      {selectedInvoice.voidedAt && new Date(selectedInvoice.voidedAt).toLocaleDateString()}
+                      {selectedInvoice.voidReason && ` - ${selectedInvoice.voidReason}`}
+                    </p>
+                  </div>
+                )}
+
                 {/* Payment Information */}
                 {selectedInvoice.stripePaymentIntentId && (
                   <div className="border-t pt-4">
@@ -554,13 +753,50 @@ export default function Invoices() {
                     variant="outline" 
                     onClick={(e) => {
                       e.stopPropagation();
+                      downloadPdf(selectedInvoice.id);
                     }}
                     data-testid="button-download-invoice"
                   >
                     <Download className="w-4 h-4 mr-2" />
                     Download PDF
                   </Button>
-                  {selectedInvoice.status !== "paid" && (
+                  <Button 
+                    variant="outline"
+                    onClick={() => sendLinkMutation.mutate(selectedInvoice.id)}
+                    disabled={sendLinkMutation.isPending}
+                    data-testid="button-text-invoice-link"
+                  >
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Text Link
+                  </Button>
+                  {(selectedInvoice.status === "paid" || selectedInvoice.status === "partial") && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setRefundAmount("");
+                        setAdjustReason("");
+                        setAdjustAction("refund");
+                      }}
+                      data-testid="button-refund-invoice"
+                    >
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Refund
+                    </Button>
+                  )}
+                  {selectedInvoice.status !== "void" && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setAdjustReason("");
+                        setAdjustAction("void");
+                      }}
+                      data-testid="button-void-invoice"
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Void
+                    </Button>
+                  )}
+                  {isOpen(selectedInvoice) && (
                     <Button 
                       variant="destructive"
                       onClick={(e) => {
@@ -608,6 +844,57 @@ export default function Invoices() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Void / Refund Dialog */}
+      <AlertDialog open={adjustAction !== null} onOpenChange={(open) => !open && setAdjustAction(null)}>
+        <AlertDialogContent data-testid="dialog-adjust-invoice">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {adjustAction === "void" ? "Void" : "Refund"} Invoice #{selectedInvoice?.invoiceNumber}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {adjustAction === "void"
+                ? "The invoice stays on the account marked void. Any payments on it become account credit."
+                : "Refunds the card payment on this invoice through Stripe. Leave the amount empty to refund all of it."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            {adjustAction === "refund" && (
+              <div className="space-y-1">
+                <Label>Amount ($)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  placeholder="Full amount"
+                  data-testid="input-refund-amount"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Input value={adjustReason} onChange={(e) => setAdjustReason(e.target.value)} data-testid="input-adjust-reason" />
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (!selectedInvoice) return;
+                if (adjustAction === "void") voidMutation.mutate(selectedInvoice.id);
+                else refundMutation.mutate(selectedInvoice.id);
+              }}
+              disabled={!adjustReason.trim() || voidMutation.isPending || refundMutation.isPending}
+              data-testid="button-confirm-adjust"
+            >
+              {adjustAction === "void" ? "Void Invoice" : "Issue Refund"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Take Payment Dialog */}
       {paymentCustomer && (
         <TakePaymentDialog
@@ -620,3 +907,101 @@ export default function Invoices() {
     </div>
   );
 }
+
+// Invoices whose autopay charge failed and are being retried on the dunning schedule
+function FailedAutopayCard({ invoices, customers }: { invoices: Invoice[]; customers: Customer[] }) {
+  const { toast } = useToast();
+
+  const { data: cases = [] } = useQuery<DunningCase[]>({
+    queryKey: ["/api/dunning?status=active"],
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/dunning?status=active"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/dunning/${id}/retry`);
+      return response.json() as Promise<DunningCase>;
+    },
+    onSuccess: (result) => {
+      onSettled();
+      toast({
+        title: result.status === "recovered" ? "Payment Collected" : "Charge Failed Again",
+        description: result.status === "recovered" ? "The invoice has been paid." : result.lastError || undefined,
+        variant: result.status === "recovered" ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Retry Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/dunning/${id}/cancel`);
+    },
+    onSuccess: onSettled,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (cases.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-red-200 dark:border-red-900" data-testid="card-failed-autopay">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <AlertTriangle className="w-5 h-5 text-red-600" />
+          Failed Autopay ({cases.length})
+        </CardTitle>
+        <CardDescription>Cards are retried automatically and the customer is texted a payment link after each failure.</CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {cases.map((dunningCase) => {
+          const invoice = invoices.find(i => i.id === dunningCase.invoiceId);
+          const customer = customers.find(c => c.id === dunningCase.customerId);
+          return (
+            <div key={dunningCase.id} className="flex items-center justify-between gap-4 py-3" data-testid={`dunning-case-${dunningCase.id}`}>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {customer?.name || "Unknown customer"} · #{invoice?.invoiceNumber}
+                  {invoice && <span className="ml-2">${parseFloat(invoice.amount).toFixed(2)}</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {dunningCase.failureCount} failed charge{dunningCase.failureCount === 1 ? "" : "s"} · {dunningCase.lastError}
+                  {dunningCase.nextRetryDate && ` · next retry ${dunningCase.nextRetryDate}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => retryMutation.mutate(dunningCase.id)}
+                disabled={retryMutation.isPending}
+                data-testid={`button-retry-dunning-${dunningCase.id}`}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Retry Now
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => cancelMutation.mutate(dunningCase.id)}
+                disabled={cancelMutation.isPending}
+                title="Stop retrying"
+                data-testid={`button-cancel-dunning-${dunningCase.id}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
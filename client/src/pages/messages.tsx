@@ -4,10 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageSquare, Send, User, PenSquare, Search, Menu, X, ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Send, User, PenSquare, Search, Menu, X, Phone, UserPlus, CalendarPlus, CheckCircle2, RotateCcw } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Customer, Message } from "@shared/schema";
+import { useAuth } from "@/contexts/AuthContext";
+import { CannedRepliesMenu } from "@/components/canned-replies";
+import { ConvertLeadDialog, type LeadConversion } from "@/components/convert-lead-dialog";
+import type { Conversation, Customer, Message } from "@shared/schema";
 import { format } from "date-fns";
 import {
   Dialog,
@@ -18,9 +23,26 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 
+type StatusFilter = "open" | "closed" | "all";
+
+// GET /api/conversations/assignees
+interface Assignee {
+  id: string;
+  name: string;
+}
+
+// Full-text search kicks in once the query is long enough to be worth a round trip
+const MIN_SEARCH_LENGTH = 3;
+
 export default function Messages() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  // A thread with a number that isn't a customer (a conversation id)
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [convertTarget, setConvertTarget] = useState<LeadConversion | null>(null);
   const [messageText, setMessageText] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [composeDialogOpen, setComposeDialogOpen] = useState(false);
@@ -44,12 +66,46 @@ export default function Messages() {
     },
   });
 
+  // Open/closed status and assignment for every thread that has been opened or texted in
+  const { data: conversations = [] } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  const { data: assignees = [] } = useQuery<Assignee[]>({
+    queryKey: ["/api/conversations/assignees"],
+  });
+
+  const conversationsByCustomer = useMemo(
+    () => new Map(conversations.filter(c => c.customerId).map(c => [c.customerId!, c])),
+    [conversations],
+  );
+
+  // Threads without a customer have no row until someone texts in, so they count as open
+  const matchesFilters = (conversation: Conversation | undefined) => {
+    const status = conversation?.status ?? "open";
+    if (statusFilter !== "all" && status !== statusFilter) return false;
+    if (mineOnly && conversation?.assignedTo !== user?.id) return false;
+    return true;
+  };
+
+  // Unread texts from numbers that aren't customers, by phone
+  const leadUnreadCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    allMessages?.forEach((msg) => {
+      if (msg.customerId || !msg.phone || msg.direction !== 'inbound' || msg.readAt) return;
+      counts.set(msg.phone, (counts.get(msg.phone) || 0) + 1);
+    });
+    return counts;
+  }, [allMessages]);
+
   // Calculate unread counts and last message time per customer
   const customerMessageStats = useMemo(() => {
     const stats = new Map<string, { unreadCount: number; hasMessages: boolean; lastMessageTime: Date | null }>();
     if (!allMessages) return stats;
     
     allMessages.forEach((msg) => {
+      // Staff alerts and texts from leads aren't in a customer conversation
+      if (!msg.customerId) return;
       const existing = stats.get(msg.customerId) || { unreadCount: 0, hasMessages: false, lastMessageTime: null };
       existing.hasMessages = true;
       
@@ -74,6 +130,7 @@ export default function Messages() {
     if (!customers) return [];
     return [...customers]
       .filter(c => c.status === 'active')
+      .filter(c => matchesFilters(conversationsByCustomer.get(c.id)))
       .filter(c => 
         c.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         c.phone.includes(searchQuery)
@@ -101,7 +158,33 @@ export default function Messages() {
         // Finally alphabetical
         return a.name.localeCompare(b.name);
       });
-  }, [customers, searchQuery, customerMessageStats]);
+  }, [customers, searchQuery, customerMessageStats, conversationsByCustomer, statusFilter, mineOnly, user?.id]);
+
+  // Unread leads first, then most recent
+  const sortedLeads = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return conversations
+      .filter(c => !c.customerId)
+      .filter(c => matchesFilters(c))
+      .filter(c => c.phone.includes(searchQuery) || (c.name ?? "").toLowerCase().includes(query))
+      .sort((a, b) => {
+        const unreadA = leadUnreadCounts.get(a.phone) || 0;
+        const unreadB = leadUnreadCounts.get(b.phone) || 0;
+        if (unreadA !== unreadB) return unreadB - unreadA;
+        return new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime();
+      });
+  }, [conversations, searchQuery, leadUnreadCounts, statusFilter, mineOnly, user?.id]);
+
+  const searchTerm = searchQuery.trim();
+  const { data: searchResults = [], isFetching: searching } = useQuery<Message[]>({
+    queryKey: ["/api/messages/search", searchTerm],
+    queryFn: async () => {
+      const response = await fetch(`/api/messages/search?q=${encodeURIComponent(searchTerm)}`);
+      if (!response.ok) throw new Error('Failed to search messages');
+      return response.json();
+    },
+    enabled: searchTerm.length >= MIN_SEARCH_LENGTH,
+  });
 
   const composeFilteredCustomers = useMemo(() => {
     if (!customers) return [];
@@ -114,25 +197,38 @@ export default function Messages() {
       );
   }, [customers, composeSearchQuery]);
 
+  const messagesKey = selectedLeadId
+    ? ["/api/conversations", selectedLeadId, "messages"]
+    : ["/api/messages", selectedCustomerId];
+
   const { data: messages, isLoading: messagesLoading } = useQuery<Message[]>({
-    queryKey: ["/api/messages", selectedCustomerId],
+    queryKey: messagesKey,
     queryFn: async () => {
+      if (selectedLeadId) {
+        // Opening a lead's thread marks it read
+        const response = await fetch(`/api/conversations/${selectedLeadId}/messages`);
+        if (!response.ok) throw new Error('Failed to fetch messages');
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/all"] });
+        return response.json();
+      }
       if (!selectedCustomerId) return [];
       const response = await fetch(`/api/messages?customerId=${selectedCustomerId}`);
       if (!response.ok) throw new Error('Failed to fetch messages');
       return response.json();
     },
-    enabled: !!selectedCustomerId,
+    enabled: !!selectedCustomerId || !!selectedLeadId,
   });
 
   // SSE subscription for real-time message updates
   useEffect(() => {
-    if (!selectedCustomerId) return;
-    const es = new EventSource(`/api/messages/stream?customerId=${selectedCustomerId}`);
+    if (!selectedCustomerId && !selectedLeadId) return;
+    const es = new EventSource(selectedLeadId
+      ? `/api/messages/stream?conversationId=${selectedLeadId}`
+      : `/api/messages/stream?customerId=${selectedCustomerId}`);
     es.onmessage = (e) => {
       const msg = JSON.parse(e.data) as Message;
       // Add message to cache if not already present
-      queryClient.setQueryData<Message[]>(["/api/messages", selectedCustomerId], (prev) => {
+      queryClient.setQueryData<Message[]>(messagesKey, (prev) => {
         if (!prev) return [msg];
         if (prev.some((m) => m.id === msg.id)) return prev;
         return [...prev, msg];
@@ -143,7 +239,7 @@ export default function Messages() {
     es.addEventListener("ping", () => {});
     es.onerror = () => {};
     return () => es.close();
-  }, [selectedCustomerId]);
+  }, [selectedCustomerId, selectedLeadId]);
 
   useEffect(() => {
     const currentCount = messages?.length ?? 0;
@@ -162,19 +258,23 @@ export default function Messages() {
   }, [messages]);
 
   const sendMutation = useMutation({
-    mutationFn: async (data: { customerId: string; messageText: string }) => {
-      return await apiRequest("POST", "/api/messages/send", data);
+    mutationFn: async (messageText: string) => {
+      return selectedLeadId
+        ? await apiRequest("POST", `/api/conversations/${selectedLeadId}/send`, { messageText })
+        : await apiRequest("POST", "/api/messages/send", { customerId: selectedCustomerId, messageText });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages", selectedCustomerId] });
+      queryClient.invalidateQueries({ queryKey: messagesKey });
       queryClient.invalidateQueries({ queryKey: ["/api/messages/all"] });
       setMessageText("");
       toast({
         title: "Message Sent",
-        description: "Your text message has been sent to the customer.",
+        description: selectedLeadId ? "Your text message has been sent." : "Your text message has been sent to the customer.",
       });
     },
     onError: (error: Error) => {
+      // A failed send is still recorded in the conversation
+      queryClient.invalidateQueries({ queryKey: messagesKey });
       toast({
         title: "Error",
         description: error.message,
@@ -185,12 +285,14 @@ export default function Messages() {
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedCustomerId || !messageText.trim()) return;
+    if ((!selectedCustomerId && !selectedLeadId) || !messageText.trim()) return;
     
-    sendMutation.mutate({
-      customerId: selectedCustomerId,
-      messageText: messageText.trim(),
-    });
+    sendMutation.mutate(messageText.trim());
+  };
+
+  // Canned replies drop in at the end of whatever has been typed
+  const insertCannedReply = (body: string) => {
+    setMessageText((current) => current.trim() ? `${current.trimEnd()} ${body}` : body);
   };
 
   // Mark messages as read mutation
@@ -241,12 +343,67 @@ export default function Messages() {
 
   const handleSelectCustomer = (customerId: string) => {
     setSelectedCustomerId(customerId);
+    setSelectedLeadId(null);
     setSidebarOpen(false);
     prevMessageCountRef.current = 0; // Reset count for new conversation
     isConversationSwitchRef.current = true; // Flag for instant scroll
   };
 
+  const handleSelectLead = (conversationId: string) => {
+    setSelectedLeadId(conversationId);
+    setSelectedCustomerId(null);
+    setSidebarOpen(false);
+    prevMessageCountRef.current = 0;
+    isConversationSwitchRef.current = true;
+  };
+
   const selectedCustomer = customers?.find(c => c.id === selectedCustomerId);
+  const selectedLead = conversations.find(c => c.id === selectedLeadId);
+  const hasSelection = !!selectedCustomerId || !!selectedLeadId;
+
+  // A customer's conversation row is created the first time their thread is opened
+  const { data: customerConversation } = useQuery<Conversation>({
+    queryKey: ["/api/customers", selectedCustomerId, "conversation"],
+    enabled: !!selectedCustomerId,
+  });
+  const activeConversation = selectedLeadId ? selectedLead : customerConversation;
+
+  const updateConversationMutation = useMutation({
+    mutationFn: async (updates: { status?: "open" | "closed"; assignedTo?: string | null }) => {
+      return await apiRequest("PATCH", `/api/conversations/${activeConversation!.id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      if (selectedCustomerId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/customers", selectedCustomerId, "conversation"] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Where a search result lives: its customer, or the lead thread for that number
+  const openSearchResult = (msg: Message) => {
+    if (msg.customerId) {
+      handleSelectCustomer(msg.customerId);
+      return;
+    }
+    const lead = conversations.find(c => !c.customerId && c.phone === msg.phone);
+    if (lead) handleSelectLead(lead.id);
+  };
+
+  const searchResultSender = (msg: Message) => {
+    if (msg.customerId) return customers?.find(c => c.id === msg.customerId)?.name ?? msg.phone;
+    const lead = conversations.find(c => !c.customerId && c.phone === msg.phone);
+    return lead ? lead.name || lead.phone : null;
+  };
+
+  const threadName = selectedCustomer?.name ?? (selectedLead ? selectedLead.name || selectedLead.phone : "");
 
   return (
     <div className="flex h-full overflow-hidden">
@@ -339,19 +496,111 @@ export default function Messages() {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
-                placeholder="Search customers..."
+                placeholder="Search names, numbers and messages..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-9"
                 data-testid="input-customer-search"
               />
             </div>
+            <div className="flex items-center gap-2 mt-2">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger className="h-8 flex-1" data-testid="select-conversation-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="closed">Closed</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant={mineOnly ? "default" : "outline"}
+                className="h-8"
+                onClick={() => setMineOnly(!mineOnly)}
+                data-testid="button-filter-mine"
+              >
+                Assigned to me
+              </Button>
+            </div>
           </div>
 
-          {/* Customer List */}
+          {/* Conversation List */}
           <ScrollArea className="flex-1">
-            {sortedCustomers.length === 0 ? (
-              <p className="text-center text-muted-foreground py-8">No customers found</p>
+            {searchTerm.length >= MIN_SEARCH_LENGTH && (
+              <div className="border-b" data-testid="section-message-search">
+                <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase text-muted-foreground">Messages</p>
+                {searching && searchResults.length === 0 ? (
+                  <p className="px-3 pb-3 text-sm text-muted-foreground">Searching...</p>
+                ) : searchResults.length === 0 ? (
+                  <p className="px-3 pb-3 text-sm text-muted-foreground">No messages match</p>
+                ) : (
+                  searchResults.map((msg) => {
+                    const sender = searchResultSender(msg);
+                    return (
+                      <button
+                        key={msg.id}
+                        onClick={() => openSearchResult(msg)}
+                        disabled={!sender}
+                        className="w-full text-left px-3 py-2 hover-elevate disabled:opacity-60"
+                        data-testid={`search-result-${msg.id}`}
+                      >
+                        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                          <span className="font-medium text-foreground truncate">
+                            {sender ?? msg.phone}
+                          </span>
+                          <span className="flex-shrink-0">{format(new Date(msg.sentAt), "MMM d")}</span>
+                        </div>
+                        <p className="text-sm line-clamp-2">{msg.messageText}</p>
+                      </button>
+                    );
+                  })
+                )}
+              </div>
+            )}
+
+            {/* Texts from numbers that aren't customers */}
+            {sortedLeads.map((lead) => {
+              const unreadCount = leadUnreadCounts.get(lead.phone) || 0;
+              return (
+                <button
+                  key={lead.id}
+                  onClick={() => handleSelectLead(lead.id)}
+                  className={`w-full text-left p-3 hover-elevate flex items-center gap-3 border-b ${
+                    selectedLeadId === lead.id
+                      ? "bg-gradient-to-r from-[#00BCD4]/10 to-[#FF6F00]/10"
+                      : ""
+                  }`}
+                  data-testid={`button-lead-${lead.id}`}
+                >
+                  <div className="relative">
+                    <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center text-muted-foreground flex-shrink-0">
+                      <Phone className="w-4 h-4" />
+                    </div>
+                    {unreadCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center font-medium">
+                        {unreadCount > 9 ? '9+' : unreadCount}
+                      </span>
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`font-medium truncate ${unreadCount > 0 ? 'font-semibold' : ''}`}>
+                        {lead.name || lead.phone}
+                      </span>
+                      <Badge variant="secondary" className="text-xs flex-shrink-0">Lead</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground truncate">
+                      {lead.bookingRequestId ? "Booking requested" : lead.name ? lead.phone : "New number"}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+
+            {sortedCustomers.length === 0 && sortedLeads.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No conversations found</p>
             ) : (
               sortedCustomers.map((customer) => {
                 const stats = customerMessageStats.get(customer.id);
@@ -401,7 +650,7 @@ export default function Messages() {
       {/* Chat Area */}
       <div className="flex-1 flex flex-col min-w-0 bg-muted/30">
         {/* Chat Header */}
-        <div className="h-16 border-b bg-background flex items-center px-4 gap-3 flex-shrink-0">
+        <div className="min-h-16 py-2 border-b bg-background flex flex-wrap items-center px-4 gap-3 flex-shrink-0">
           <Button 
             size="icon" 
             variant="ghost" 
@@ -422,14 +671,76 @@ export default function Messages() {
                 <p className="text-sm text-muted-foreground">{selectedCustomer.phone}</p>
               </div>
             </div>
+          ) : selectedLead ? (
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center text-muted-foreground flex-shrink-0">
+                <Phone className="w-4 h-4" />
+              </div>
+              <div className="min-w-0">
+                <h2 className="font-semibold truncate">{selectedLead.name || "New number"}</h2>
+                <p className="text-sm text-muted-foreground">{selectedLead.phone}</p>
+              </div>
+            </div>
           ) : (
             <h2 className="font-semibold text-muted-foreground">Select a conversation</h2>
           )}
+
+          {activeConversation && (
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              {selectedLead && (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => setConvertTarget("customer")} data-testid="button-lead-to-customer">
+                    <UserPlus className="w-4 h-4 mr-1" />
+                    Customer
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setConvertTarget("booking")}
+                    disabled={!!selectedLead.bookingRequestId}
+                    data-testid="button-lead-to-booking"
+                  >
+                    <CalendarPlus className="w-4 h-4 mr-1" />
+                    {selectedLead.bookingRequestId ? "Booking Requested" : "Booking"}
+                  </Button>
+                </>
+              )}
+              <Select
+                value={activeConversation.assignedTo ?? "unassigned"}
+                onValueChange={(value) => updateConversationMutation.mutate({ assignedTo: value === "unassigned" ? null : value })}
+              >
+                <SelectTrigger className="h-9 w-40" data-testid="select-conversation-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id}>
+                      {assignee.id === user?.id ? `${assignee.name} (me)` : assignee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant={activeConversation.status === "open" ? "default" : "outline"}
+                onClick={() => updateConversationMutation.mutate({ status: activeConversation.status === "open" ? "closed" : "open" })}
+                disabled={updateConversationMutation.isPending}
+                data-testid="button-toggle-conversation-status"
+              >
+                {activeConversation.status === "open" ? (
+                  <><CheckCircle2 className="w-4 h-4 mr-1" />Close</>
+                ) : (
+                  <><RotateCcw className="w-4 h-4 mr-1" />Reopen</>
+                )}
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Messages Area */}
         <div className="flex-1 overflow-hidden">
-          {!selectedCustomerId ? (
+          {!hasSelection ? (
             <div className="h-full flex items-center justify-center text-muted-foreground p-6">
               <div className="text-center">
                 <MessageSquare className="w-16 h-16 mx-auto mb-4 opacity-30" />
@@ -466,8 +777,8 @@ export default function Messages() {
                               : 'bg-background border rounded-bl-md'
                           }`}
                         >
-                          {message.direction === 'inbound' && selectedCustomer && (
-                            <p className="text-xs font-semibold text-primary mb-1">{selectedCustomer.name}</p>
+                          {message.direction === 'inbound' && threadName && (
+                            <p className="text-xs font-semibold text-primary mb-1">{threadName}</p>
                           )}
                           {message.direction === 'outbound' && (
                             <p className="text-xs font-semibold text-white/90 mb-1">SillyDog</p>
@@ -475,6 +786,9 @@ export default function Messages() {
                           <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.messageText}</p>
                           <p className={`text-xs mt-2 ${message.direction === 'outbound' ? 'text-white/70' : 'text-muted-foreground'}`}>
                             {format(new Date(message.sentAt), "MMM d, h:mm a")}
+                            {message.direction === 'outbound' && message.status === 'failed' && ' · Not delivered'}
+                            {message.direction === 'outbound' && message.status === 'queued' && message.sendAfter &&
+                              ` · Sends ${format(new Date(message.sendAfter), "h:mm a")} (quiet hours)`}
                           </p>
                         </div>
                       </div>
@@ -492,9 +806,10 @@ export default function Messages() {
         </div>
 
         {/* Message Input - Fixed at Bottom */}
-        {selectedCustomerId && (
+        {hasSelection && (
           <div className="border-t bg-background p-3 flex-shrink-0">
             <form onSubmit={handleSendMessage} className="flex gap-2 items-end">
+              <CannedRepliesMenu onPick={insertCannedReply} />
               <div className="flex-1">
                 <Textarea
                   placeholder="Type your message..."
@@ -527,6 +842,15 @@ export default function Messages() {
           </div>
         )}
       </div>
+
+      {selectedLead && (
+        <ConvertLeadDialog
+          conversation={selectedLead}
+          target={convertTarget}
+          onOpenChange={(open) => { if (!open) setConvertTarget(null); }}
+          onCustomerCreated={(customer) => handleSelectCustomer(customer.id)}
+        />
+      )}
     </div>
   );
 }
@@ -67,7 +67,7 @@ export default function PortalPreview() {
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
     .slice(0, 5);
 
-  const unpaidInvoices = customerInvoices.filter(inv => inv.status !== "paid");
+  const unpaidInvoices = customerInvoices.filter(inv => ["unpaid", "partial", "overdue"].includes(inv.status));
   const totalOutstanding = unpaidInvoices.reduce((sum, inv) => sum + parseFloat(inv.amount), 0);
 
   const serviceType = serviceTypes.find(st => st.id === selectedCustomer?.serviceTypeId);
@@ -81,6 +81,7 @@ export default function PriceBook() {
       pricePerExtraDog: 0,
       active: true,
       isHourly: false,
+      taxable: false,
     },
   });
 
@@ -156,6 +157,7 @@ export default function PriceBook() {
       pricePerExtraDog: parseFloat(service.pricePerExtraDog),
       active: service.active,
       isHourly: service.isHourly || false,
+      taxable: service.taxable,
     });
   };
 
@@ -382,6 +384,28 @@ export default function PriceBook() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="taxable"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Taxable</FormLabel>
+                        <FormDescription>
+                          Charge the sales tax rates from Settings on visits, monthly fees and packages
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value ?? false}
+                          onCheckedChange={field.onChange}
+                          data-testid="switch-taxable"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="active"
@@ -0,0 +1,187 @@
+import { useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { QuoteStatus } from "@shared/schema";
+
+// GET /api/public/quotes/:token
+interface QuoteView {
+  status: QuoteStatus;
+  expiresOn: string;
+  businessName: string;
+  businessPhone: string | null;
+  name: string;
+  address: string;
+  numberOfDogs: number;
+  serviceType: string;
+  schedule: string;
+  firstVisit: string;
+  pricePerVisit: string;
+  cleanupPrice: string | null;
+  addons: { name: string; price: string }[];
+  notes: string | null;
+}
+
+function longDate(date: string): string {
+  return format(parseISO(date), "EEEE, MMMM d, yyyy");
+}
+
+export default function QuotePage() {
+  const [, params] = useRoute("/quote/:token");
+  const token = params?.token;
+
+  const { data: quote, isLoading, isError } = useQuery<QuoteView>({
+    queryKey: ["/api/public/quotes", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (response: "accept" | "decline") => {
+      const result = await apiRequest("POST", `/api/public/quotes/${token}/${response}`);
+      return result.json() as Promise<{ message: string; firstVisit?: string | null; quote: QuoteView }>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/public/quotes", token], result.quote);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#f7c948] to-[#7fa7c5] flex items-center justify-center p-4">
+        <Loader2 className="h-8 w-8 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (!token || isError || !quote) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#f7c948] to-[#7fa7c5] flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Invalid Quote Link</CardTitle>
+            <CardDescription>
+              This quote link is invalid or has expired.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (quote.status === "accepted") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#f7c948] to-[#7fa7c5] flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-green-100">
+              <CheckCircle2 className="h-10 w-10 text-green-600" />
+            </div>
+            <CardTitle className="text-2xl">You're All Set!</CardTitle>
+            <CardDescription className="text-base">
+              Thanks for choosing {quote.businessName}. Your service is booked: {quote.schedule.toLowerCase()}.
+            </CardDescription>
+          </CardHeader>
+          {respondMutation.data?.firstVisit && (
+            <CardContent className="text-center">
+              <p className="text-sm text-muted-foreground" data-testid="text-first-visit">
+                Your first visit is {longDate(respondMutation.data.firstVisit)}.
+              </p>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  const closedMessage = {
+    declined: "You've declined this quote.",
+    expired: `This quote expired on ${longDate(quote.expiresOn)}.`,
+  }[quote.status as "declined" | "expired"];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#f7c948] to-[#7fa7c5] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Your Quote</CardTitle>
+          <CardDescription className="text-base">
+            {quote.businessName} · prepared for {quote.name}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-1 text-sm">
+            <p className="text-muted-foreground">{quote.address}</p>
+            <p className="text-muted-foreground">{quote.numberOfDogs} dog(s)</p>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>{quote.serviceType}</span>
+              <span className="font-medium" data-testid="text-price-per-visit">${quote.pricePerVisit} per visit</span>
+            </div>
+            {quote.addons.map(addon => (
+              <div key={addon.name} className="flex justify-between">
+                <span>{addon.name}</span>
+                <span>${addon.price} per visit</span>
+              </div>
+            ))}
+            {quote.cleanupPrice && (
+              <div className="flex justify-between">
+                <span>Initial cleanup (first visit)</span>
+                <span data-testid="text-cleanup-price">${quote.cleanupPrice}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+            <p className="font-medium">{quote.schedule}</p>
+            {!closedMessage && (
+              <p className="text-muted-foreground">First visit if you accept today: {longDate(quote.firstVisit)}</p>
+            )}
+          </div>
+
+          {quote.notes && <p className="text-sm whitespace-pre-line">{quote.notes}</p>}
+
+          {respondMutation.isError && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" data-testid="text-error">
+              {respondMutation.error instanceof Error
+                ? respondMutation.error.message
+                : "Something went wrong. Please try again."}
+            </div>
+          )}
+
+          {closedMessage ? (
+            <p className="text-center text-sm text-muted-foreground" data-testid="text-quote-closed">
+              {closedMessage}
+              {quote.businessPhone && ` Call us at ${quote.businessPhone} for a new quote.`}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Button
+                className="w-full"
+                onClick={() => respondMutation.mutate("accept")}
+                disabled={respondMutation.isPending}
+                data-testid="button-accept-quote"
+              >
+                {respondMutation.isPending ? "Booking..." : "Accept Quote"}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full"
+                onClick={() => respondMutation.mutate("decline")}
+                disabled={respondMutation.isPending}
+                data-testid="button-decline-quote"
+              >
+                No thanks
+              </Button>
+              <p className="text-center text-xs text-muted-foreground">Valid until {longDate(quote.expiresOn)}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
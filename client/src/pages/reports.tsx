@@ -1,12 +1,74 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Download, FileText, DollarSign, Calendar } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, FileText, DollarSign, Calendar, MapPinOff, Check, Clock, Percent } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import type { Invoice, Route, Customer, JobHistory } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
 
+interface FlaggedVisit {
+  id: string;
+  routeId: string | null;
+  customerName?: string;
+  customerAddress?: string;
+  serviceDate: string;
+  locationFlag: string;
+  checkInDistanceFeet: number | null;
+  checkOutDistanceFeet: number | null;
+  checkOutLat: string | null;
+  checkOutLng: string | null;
+  checkOutAccuracy: number | null;
+}
+
+interface AgingAmounts {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+  total: number;
+}
+
+interface AgingReport {
+  asOf: string;
+  customers: Array<AgingAmounts & { customerId: string; customerName: string; openInvoices: number; oldestDueDate: string }>;
+  totals: AgingAmounts;
+}
+
+// GET /api/reports/sales-tax; dollars
+interface SalesTaxAmounts {
+  taxableSales: number;
+  tax: number;
+  byRate: Record<string, number>;
+}
+
+interface SalesTaxReport {
+  startDate: string;
+  endDate: string;
+  periods: Array<{ period: string; billed: SalesTaxAmounts; collected: SalesTaxAmounts }>;
+  totals: { billed: SalesTaxAmounts; collected: SalesTaxAmounts };
+}
+
+const agingColumns: Array<{ key: keyof AgingAmounts; label: string }> = [
+  { key: "current", label: "Current" },
+  { key: "days1to30", label: "1-30" },
+  { key: "days31to60", label: "31-60" },
+  { key: "days61to90", label: "61-90" },
+  { key: "days90plus", label: "90+" },
+  { key: "total", label: "Total" },
+];
+
+const locationFlagLabels: Record<string, string> = {
+  too_far: "Completed away from yard",
+  low_accuracy: "GPS too imprecise to verify",
+  no_location: "No device location",
+  no_customer_location: "Customer address not geocoded",
+};
+
 export default function Reports() {
   const [startDate, setStartDate] = useState(
     new Date(new Date().getFullYear(), new Date().getMonth(), 1)
@@ -31,6 +93,37 @@ export default function Reports() {
     queryKey: ["/api/job-history"],
   });
 
+  const { data: flaggedVisits } = useQuery<FlaggedVisit[]>({
+    queryKey: ["/api/reports/proof-of-service", startDate, endDate],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/proof-of-service?startDate=${startDate}&endDate=${endDate}`);
+      if (!response.ok) throw new Error("Failed to fetch proof of service report");
+      return response.json();
+    },
+  });
+
+  const { data: agingReport } = useQuery<AgingReport>({
+    queryKey: ["/api/reports/ar-aging"],
+  });
+
+  const { data: salesTaxReport } = useQuery<SalesTaxReport>({
+    queryKey: ["/api/reports/sales-tax", startDate, endDate],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/sales-tax?startDate=${startDate}&endDate=${endDate}`);
+      if (!response.ok) throw new Error("Failed to fetch sales tax report");
+      return response.json();
+    },
+  });
+
+  const markReviewedMutation = useMutation({
+    mutationFn: async (jobHistoryId: string) => {
+      return await apiRequest("POST", `/api/job-history/${jobHistoryId}/location-review`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/proof-of-service"] });
+    },
+  });
+
   // Filter data by date range
   const filteredInvoices = invoices?.filter((inv) => {
     const createdDate = new Date(inv.createdAt).toISOString().split("T")[0];
@@ -51,7 +144,7 @@ export default function Reports() {
     .reduce((sum, inv) => sum + parseFloat(inv.amount), 0) || 0;
 
   const pendingRevenue = filteredInvoices
-    ?.filter((inv) => inv.status === "unpaid")
+    ?.filter((inv) => ["unpaid", "partial", "overdue"].includes(inv.status))
     .reduce((sum, inv) => sum + parseFloat(inv.amount), 0) || 0;
 
   const completedJobs = filteredRoutes?.filter((r) => r.status === "completed").length || 0;
@@ -61,7 +154,7 @@ export default function Reports() {
     : 0;
 
   // Export to CSV
-  const exportToCSV = (type: "revenue" | "jobs" | "invoices") => {
+  const exportToCSV = (type: "revenue" | "jobs" | "invoices" | "aging" | "tax") => {
     let csvContent = "";
     let fileName = "";
 
@@ -87,6 +180,21 @@ export default function Reports() {
         const customer = customers?.find((c) => c.id === inv.customerId);
         csvContent += `${inv.invoiceNumber},${customer?.name || "Unknown"},${inv.amount},${inv.dueDate},${inv.status},${inv.paidAt || "N/A"}\n`;
       });
+    } else if (type === "aging" && agingReport) {
+      fileName = `ar_aging_${agingReport.asOf}.csv`;
+      csvContent = `Customer,Open Invoices,Oldest Due Date,${agingColumns.map((c) => c.label).join(",")}\n`;
+      agingReport.customers.forEach((row) => {
+        csvContent += `"${row.customerName.replace(/"/g, '""')}",${row.openInvoices},${row.oldestDueDate},${agingColumns.map((c) => row[c.key].toFixed(2)).join(",")}\n`;
+      });
+      csvContent += `Total,,,${agingColumns.map((c) => agingReport.totals[c.key].toFixed(2)).join(",")}\n`;
+    } else if (type === "tax" && salesTaxReport) {
+      fileName = `sales_tax_${salesTaxReport.startDate}_to_${salesTaxReport.endDate}.csv`;
+      csvContent = "Month,Taxable Sales Billed,Tax Billed,Taxable Sales Collected,Tax Collected\n";
+      salesTaxReport.periods.forEach((row) => {
+        csvContent += `${row.period},${row.billed.taxableSales.toFixed(2)},${row.billed.tax.toFixed(2)},${row.collected.taxableSales.toFixed(2)},${row.collected.tax.toFixed(2)}\n`;
+      });
+      const { billed, collected } = salesTaxReport.totals;
+      csvContent += `Total,${billed.taxableSales.toFixed(2)},${billed.tax.toFixed(2)},${collected.taxableSales.toFixed(2)},${collected.tax.toFixed(2)}\n`;
     }
 
     // Create download link
@@ -259,6 +367,209 @@ export default function Reports() {
           </CardContent>
         </Card>
       </div>
+
+      {/* A/R Aging */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            A/R Aging
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportToCSV("aging")}
+            disabled={!agingReport || agingReport.customers.length === 0}
+            data-testid="button-export-aging"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {agingReport && agingReport.customers.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {agingColumns.map((column) => (
+                    <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {agingReport.customers.map((row) => (
+                  <TableRow key={row.customerId} data-testid={`aging-row-${row.customerId}`}>
+                    <TableCell>
+                      <p className="font-medium">{row.customerName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {row.openInvoices} open · oldest due {row.oldestDueDate}
+                      </p>
+                    </TableCell>
+                    {agingColumns.map((column) => (
+                      <TableCell
+                        key={column.key}
+                        className={`text-right ${column.key === "total" ? "font-semibold" : ""} ${column.key === "days90plus" && row.days90plus > 0 ? "text-red-600" : ""}`}
+                      >
+                        {row[column.key] ? `$${row[column.key].toFixed(2)}` : "-"}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  {agingColumns.map((column) => (
+                    <TableCell key={column.key} className="text-right font-semibold">
+                      ${agingReport.totals[column.key].toFixed(2)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No outstanding balances
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sales Tax */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Sales Tax
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportToCSV("tax")}
+            disabled={!salesTaxReport || salesTaxReport.periods.length === 0}
+            data-testid="button-export-sales-tax"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {salesTaxReport && salesTaxReport.periods.length > 0 ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Taxable Billed</TableHead>
+                    <TableHead className="text-right">Tax Billed</TableHead>
+                    <TableHead className="text-right">Taxable Collected</TableHead>
+                    <TableHead className="text-right">Tax Collected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {salesTaxReport.periods.map((row) => (
+                    <TableRow key={row.period} data-testid={`sales-tax-row-${row.period}`}>
+                      <TableCell className="font-medium">{format(new Date(`${row.period}-01T00:00:00`), "MMMM yyyy")}</TableCell>
+                      <TableCell className="text-right">${row.billed.taxableSales.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${row.billed.tax.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${row.collected.taxableSales.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-semibold">${row.collected.tax.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-semibold">${salesTaxReport.totals.billed.taxableSales.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-semibold">${salesTaxReport.totals.billed.tax.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-semibold">${salesTaxReport.totals.collected.taxableSales.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-semibold">${salesTaxReport.totals.collected.tax.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              {Object.keys(salesTaxReport.totals.collected.byRate).length > 0 && (
+                <div className="text-sm space-y-1" data-testid="sales-tax-by-rate">
+                  <p className="font-medium">Collected by rate</p>
+                  {Object.entries(salesTaxReport.totals.collected.byRate).map(([name, amount]) => (
+                    <div key={name} className="flex justify-between text-muted-foreground">
+                      <span>{name}</span>
+                      <span>${amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Billed counts invoices issued in the month; collected counts invoices paid in full in the month. Voided invoices are excluded.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No sales tax in this period
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Proof of Service */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPinOff className="w-5 h-5" />
+            Proof of Service
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {flaggedVisits && flaggedVisits.length > 0 ? (
+            <div className="space-y-3">
+              {flaggedVisits.map((visit) => (
+                <div key={visit.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border" data-testid={`flagged-visit-${visit.id}`}>
+                  <div className="space-y-1">
+                    <p className="font-medium">{visit.customerName || "Unknown"} • {visit.serviceDate}</p>
+                    <p className="text-sm text-muted-foreground">{visit.customerAddress}</p>
+                    <div className="flex items-center gap-2 flex-wrap text-xs">
+                      <Badge variant="destructive">{locationFlagLabels[visit.locationFlag] || visit.locationFlag}</Badge>
+                      {visit.checkOutDistanceFeet !== null && (
+                        <span>Completed {visit.checkOutDistanceFeet.toLocaleString()} ft away</span>
+                      )}
+                      {visit.checkInDistanceFeet !== null && (
+                        <span className="text-muted-foreground">• started {visit.checkInDistanceFeet.toLocaleString()} ft away</span>
+                      )}
+                      {visit.checkOutAccuracy !== null && (
+                        <span className="text-muted-foreground">• GPS ±{visit.checkOutAccuracy} m</span>
+                      )}
+                      {visit.checkOutLat && visit.checkOutLng && (
+                        <a
+                          href={`https://www.google.com/maps/search/?api=1&query=${visit.checkOutLat},${visit.checkOutLng}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary underline"
+                        >
+                          View location
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => markReviewedMutation.mutate(visit.id)}
+                    disabled={markReviewedMutation.isPending}
+                    data-testid={`button-review-visit-${visit.id}`}
+                  >
+                    <Check className="w-3 h-3 mr-1" />
+                    Reviewed
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No flagged visits in this date range
+            </p>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
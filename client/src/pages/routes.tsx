@@ -1,6 +1,6 @@
 import { useState, useRef, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Calendar, MapPin, Check, Navigation, Camera, Zap, RefreshCw, Ban, Undo2, Trash2, StickyNote, GripVertical, MessageSquare } from "lucide-react";
+import { Plus, Calendar, MapPin, Check, Navigation, Camera, Zap, RefreshCw, Ban, Undo2, Trash2, StickyNote, GripVertical, MessageSquare, Users, HardHat } from "lucide-react";
 import { RouteMap } from "@/components/route-map";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,16 +9,32 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertRouteSchema, type Customer, type Route, type InsertRoute } from "@shared/schema";
+import { insertRouteSchema, type Customer, type Route, type InsertRoute, type JobPhotoKind, type User } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getDeviceLocation } from "@/lib/geolocation";
 import { Stopwatch } from "@/components/stopwatch";
 import { z } from "zod";
 
+interface PendingPhoto {
+  data: string; // base64 data URL, resized on the server
+  kind: JobPhotoKind;
+  caption: string;
+}
+
+const photoKindLabels: Record<JobPhotoKind, string> = {
+  before: "Before",
+  after: "After",
+  other: "Other",
+};
+
 const skipRouteSchema = z.object({
   reason: z.string().min(1, "Please select a reason"),
   notes: z.string().optional(),
@@ -35,13 +51,18 @@ export default function Routes() {
   const [selectedRouteForSkip, setSelectedRouteForSkip] = useState<Route | null>(null);
   const [selectedRouteForPhotos, setSelectedRouteForPhotos] = useState<Route | null>(null);
   const [routeToDelete, setRouteToDelete] = useState<Route | null>(null);
-  const [photoBefore, setPhotoBefore] = useState<string>("");
-  const [photoAfter, setPhotoAfter] = useState<string>("");
+  const [pendingPhotos, setPendingPhotos] = useState<PendingPhoto[]>([]);
   const [draggedRouteId, setDraggedRouteId] = useState<string | null>(null);
   const [dragOverRouteId, setDragOverRouteId] = useState<string | null>(null);
-  const beforeInputRef = useRef<HTMLInputElement>(null);
-  const afterInputRef = useRef<HTMLInputElement>(null);
+  const [technicianFilter, setTechnicianFilter] = useState<string>("all"); // 'all', 'unassigned', or a user id
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
+  const [splitTechnicianIds, setSplitTechnicianIds] = useState<string[]>([]);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const [photoKind, setPhotoKind] = useState<JobPhotoKind>("before");
   const { toast } = useToast();
+  const { user } = useAuth();
+  // Technicians only get their own stops from the API, so they don't need dispatch controls
+  const canDispatch = user?.role === "admin" || user?.role === "staff";
 
   const { data: customers } = useQuery<Customer[]>({
     queryKey: ["/api/customers"],
@@ -56,6 +77,17 @@ export default function Routes() {
     },
   });
 
+  const { data: technicians } = useQuery<Omit<User, "password">[]>({
+    queryKey: ["/api/technicians"],
+    enabled: canDispatch,
+  });
+
+  const technicianName = (technicianId: string | null) => {
+    const technician = technicians?.find(t => t.id === technicianId);
+    if (!technician) return "Unassigned";
+    return [technician.firstName, technician.lastName].filter(Boolean).join(" ") || technician.email;
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: InsertRoute) => {
       const response = await apiRequest("POST", "/api/routes", data);
@@ -75,7 +107,9 @@ export default function Routes() {
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const response = await apiRequest("PATCH", `/api/routes/${id}/status`, { status });
+      // Check-in / check-out location for proof of service
+      const location = status === "in_route" || status === "completed" ? await getDeviceLocation() : null;
+      const response = await apiRequest("PATCH", `/api/routes/${id}/status`, { status, location });
       return response.json();
     },
     onSuccess: () => {
@@ -89,25 +123,34 @@ export default function Routes() {
   });
 
   const uploadPhotosMutation = useMutation({
-    mutationFn: async ({ jobHistoryId, photoBefore, photoAfter }: { jobHistoryId: string; photoBefore?: string; photoAfter?: string }) => {
-      const response = await apiRequest("POST", `/api/job-history/${jobHistoryId}/photos`, { photoBefore, photoAfter });
+    mutationFn: async ({ routeId, photos }: { routeId: string; photos: PendingPhoto[] }) => {
+      const response = await apiRequest("POST", `/api/routes/${routeId}/photos`, { photos });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { photos }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/job-history"] });
       toast({
         title: "Photos Uploaded",
-        description: "Before and after photos have been saved.",
+        description: `${photos.length} photo(s) saved.`,
       });
       setPhotoDialogOpen(false);
-      setPhotoBefore("");
-      setPhotoAfter("");
+      setPendingPhotos([]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
   const optimizeRoutesMutation = useMutation({
     mutationFn: async (date: string) => {
-      const response = await apiRequest("POST", "/api/routes/optimize", { date });
+      const response = await apiRequest("POST", "/api/routes/optimize", {
+        date,
+        technicianId: technicianFilter === "all" ? undefined : technicianFilter,
+      });
       return response.json();
     },
     onSuccess: (data) => {
@@ -142,6 +185,47 @@ export default function Routes() {
     },
   });
 
+  const assignTechnicianMutation = useMutation({
+    mutationFn: async ({ routeId, technicianId }: { routeId: string; technicianId: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/routes/${routeId}/assign`, { technicianId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/routes", selectedDate] });
+      queryClient.invalidateQueries({ queryKey: ["/api/routes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Assignment Failed",
+        description: error.message || "Failed to assign technician.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const autoSplitMutation = useMutation({
+    mutationFn: async ({ date, technicianIds }: { date: string; technicianIds: string[] }) => {
+      const response = await apiRequest("POST", "/api/routes/auto-split", { date, technicianIds });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/routes", selectedDate] });
+      queryClient.invalidateQueries({ queryKey: ["/api/routes"] });
+      setSplitDialogOpen(false);
+      toast({
+        title: "Day Split",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Split Failed",
+        description: error.message || "Failed to split routes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const startTimerMutation = useMutation({
     mutationFn: async (routeId: string) => {
       const response = await apiRequest("POST", `/api/routes/${routeId}/timer/start`, {});
@@ -293,8 +377,11 @@ export default function Routes() {
 
     if (!draggedRouteId || draggedRouteId === targetRouteId || !routes) return;
 
-    // Get current sorted routes
-    const sortedRoutes = [...routes].sort((a, b) => a.orderIndex - b.orderIndex);
+    // Ordering is per technician, so only reorder within the dragged stop's list
+    const draggedRoute = routes.find(r => r.id === draggedRouteId);
+    const sortedRoutes = routes
+      .filter(r => (r.technicianId ?? null) === (draggedRoute?.technicianId ?? null))
+      .sort((a, b) => a.orderIndex - b.orderIndex);
 
     // Find indices
     const draggedIndex = sortedRoutes.findIndex(r => r.id === draggedRouteId);
@@ -320,8 +407,9 @@ export default function Routes() {
     setDragOverRouteId(null);
   }, []);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>, type: 'before' | 'after') => {
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = "";
     if (!file) return;
 
     // Validate file type
@@ -334,7 +422,7 @@ export default function Routes() {
       return;
     }
 
-    // Validate file size (max 5MB)
+    // Validate file size (max 5MB; the server resizes it down)
     if (file.size > 5 * 1024 * 1024) {
       toast({
         title: "File Too Large",
@@ -348,38 +436,23 @@ export default function Routes() {
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64 = reader.result as string;
-      if (type === 'before') {
-        setPhotoBefore(base64);
-      } else {
-        setPhotoAfter(base64);
-      }
+      setPendingPhotos(photos => [...photos, { data: base64, kind: photoKind, caption: "" }]);
     };
     reader.readAsDataURL(file);
   };
 
-  const handlePhotoUpload = async () => {
-    if (!selectedRouteForPhotos) return;
-
-    // Find corresponding job history entry
-    const { data: jobHistory } = await queryClient.fetchQuery({
-      queryKey: ["/api/job-history"],
-    });
+  const capturePhoto = (kind: JobPhotoKind) => {
+    setPhotoKind(kind);
+    photoInputRef.current?.click();
+  };
 
-    const job = (jobHistory as any[])?.find(j => j.routeId === selectedRouteForPhotos.id);
-    if (!job) {
-      toast({
-        title: "Error",
-        description: "No job history found for this route.",
-        variant: "destructive",
-      });
-      return;
-    }
+  const updatePendingPhoto = (index: number, caption: string) => {
+    setPendingPhotos(photos => photos.map((photo, i) => (i === index ? { ...photo, caption } : photo)));
+  };
 
-    uploadPhotosMutation.mutate({
-      jobHistoryId: job.id,
-      photoBefore: photoBefore || undefined,
-      photoAfter: photoAfter || undefined,
-    });
+  const handlePhotoUpload = () => {
+    if (!selectedRouteForPhotos || pendingPhotos.length === 0) return;
+    uploadPhotosMutation.mutate({ routeId: selectedRouteForPhotos.id, photos: pendingPhotos });
   };
 
   const form = useForm<InsertRoute>({
@@ -403,7 +476,15 @@ export default function Routes() {
   });
 
   const activeCustomers = customers?.filter(c => c.status === "active") || [];
-  const sortedRoutes = [...(routes || [])].sort((a, b) => a.orderIndex - b.orderIndex);
+  const visibleRoutes = (routes || []).filter(route => {
+    if (technicianFilter === "all") return true;
+    if (technicianFilter === "unassigned") return !route.technicianId;
+    return route.technicianId === technicianFilter;
+  });
+  // Group by technician, then each technician's own order
+  const sortedRoutes = [...visibleRoutes].sort((a, b) =>
+    (a.technicianId ?? "").localeCompare(b.technicianId ?? "") || a.orderIndex - b.orderIndex
+  );
 
   const handleStatusUpdate = (routeId: string, newStatus: string) => {
     updateStatusMutation.mutate({ id: routeId, status: newStatus });
@@ -536,6 +617,22 @@ export default function Routes() {
             className="w-auto"
             data-testid="input-date-filter"
           />
+          {canDispatch && (
+            <Select value={technicianFilter} onValueChange={setTechnicianFilter}>
+              <SelectTrigger className="w-48" data-testid="select-technician-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Technicians</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {technicians?.map((technician) => (
+                  <SelectItem key={technician.id} value={technician.id}>
+                    {technicianName(technician.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <Button
@@ -547,6 +644,19 @@ export default function Routes() {
             <RefreshCw className="w-4 h-4 mr-2" />
             {generateRoutesMutation.isPending ? "Generating..." : "Generate Routes"}
           </Button>
+          {canDispatch && (technicians?.length || 0) > 0 && (routes?.length || 0) > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setSplitTechnicianIds(technicians!.map(t => t.id));
+                setSplitDialogOpen(true);
+              }}
+              data-testid="button-auto-split"
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Auto-Split Day
+            </Button>
+          )}
           {sortedRoutes.length > 1 && (
             <Button
               variant="outline"
@@ -607,6 +717,30 @@ export default function Routes() {
                               Scheduled: {route.scheduledTime}
                             </p>
                           )}
+                          {canDispatch && (
+                            <div className="flex items-center gap-2 mt-1">
+                              <HardHat className="w-3 h-3 text-muted-foreground" />
+                              <Select
+                                value={route.technicianId || "unassigned"}
+                                onValueChange={(value) => assignTechnicianMutation.mutate({
+                                  routeId: route.id,
+                                  technicianId: value === "unassigned" ? null : value,
+                                })}
+                              >
+                                <SelectTrigger className="h-7 w-44 text-xs" data-testid={`select-technician-${route.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                                  {technicians?.map((technician) => (
+                                    <SelectItem key={technician.id} value={technician.id}>
+                                      {technicianName(technician.id)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
                           <div className="flex items-center gap-2 flex-wrap mt-1">
                             {customer?.gateCode && (
                               <p className="text-xs font-medium px-2 py-1 bg-muted rounded inline-block">
@@ -723,6 +857,7 @@ export default function Routes() {
                                   variant="outline"
                                   onClick={() => {
                                     setSelectedRouteForPhotos(route);
+                                    setPendingPhotos([]);
                                     setPhotoDialogOpen(true);
                                   }}
                                   data-testid={`button-photo-${route.id}`}
@@ -831,86 +966,66 @@ export default function Routes() {
       <Dialog open={photoDialogOpen} onOpenChange={setPhotoDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Upload Before & After Photos</DialogTitle>
+            <DialogTitle>Upload Service Photos</DialogTitle>
             <DialogDescription>
               Capture evidence of the completed service
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium mb-2 block">Before Photo</label>
-              <input
-                ref={beforeInputRef}
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={(e) => handleFileSelect(e, 'before')}
-                data-testid="input-photo-before"
-              />
-              {photoBefore ? (
-                <div className="relative">
-                  <img src={photoBefore} alt="Before" className="w-full h-48 object-cover rounded-lg" />
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    className="absolute top-2 right-2"
-                    onClick={() => setPhotoBefore("")}
-                  >
-                    Remove
-                  </Button>
-                </div>
-              ) : (
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleFileSelect}
+              data-testid="input-photo"
+            />
+            <div className="grid grid-cols-3 gap-2">
+              {(["before", "after", "other"] as const).map(kind => (
                 <Button
+                  key={kind}
                   type="button"
                   variant="outline"
-                  className="w-full h-32 border-dashed"
-                  onClick={() => beforeInputRef.current?.click()}
+                  className="h-20 border-dashed flex-col"
+                  onClick={() => capturePhoto(kind)}
+                  data-testid={`button-capture-${kind}`}
                 >
-                  <Camera className="w-6 h-6 mr-2" />
-                  Capture Before Photo
+                  <Camera className="w-5 h-5 mb-1" />
+                  {photoKindLabels[kind]}
                 </Button>
-              )}
+              ))}
             </div>
 
-            <div>
-              <label className="text-sm font-medium mb-2 block">After Photo</label>
-              <input
-                ref={afterInputRef}
-                type="file"
-                accept="image/*"
-                className="hidden"
-                onChange={(e) => handleFileSelect(e, 'after')}
-                data-testid="input-photo-after"
-              />
-              {photoAfter ? (
-                <div className="relative">
-                  <img src={photoAfter} alt="After" className="w-full h-48 object-cover rounded-lg" />
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    className="absolute top-2 right-2"
-                    onClick={() => setPhotoAfter("")}
-                  >
-                    Remove
-                  </Button>
-                </div>
-              ) : (
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="w-full h-32 border-dashed"
-                  onClick={() => afterInputRef.current?.click()}
-                >
-                  <Camera className="w-6 h-6 mr-2" />
-                  Capture After Photo
-                </Button>
-              )}
-            </div>
+            {pendingPhotos.length > 0 && (
+              <div className="space-y-3 max-h-80 overflow-y-auto">
+                {pendingPhotos.map((photo, index) => (
+                  <div key={index} className="flex gap-3 items-start" data-testid={`pending-photo-${index}`}>
+                    <img src={photo.data} alt={photoKindLabels[photo.kind]} className="w-20 h-20 object-cover rounded-lg" />
+                    <div className="flex-1 space-y-1">
+                      <div className="text-sm font-medium">{photoKindLabels[photo.kind]}</div>
+                      <Input
+                        placeholder="Caption (optional)"
+                        value={photo.caption}
+                        onChange={(e) => updatePendingPhoto(index, e.target.value)}
+                        data-testid={`input-photo-caption-${index}`}
+                      />
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setPendingPhotos(photos => photos.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
 
             <Button
               className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
               onClick={handlePhotoUpload}
-              disabled={uploadPhotosMutation.isPending || (!photoBefore && !photoAfter)}
+              disabled={uploadPhotosMutation.isPending || pendingPhotos.length === 0}
               data-testid="button-upload-photos"
             >
               {uploadPhotosMutation.isPending ? "Uploading..." : "Save Photos"}
@@ -955,6 +1070,7 @@ export default function Routes() {
                         <SelectItem value="weather">Weather</SelectItem>
                         <SelectItem value="no_access">No Access</SelectItem>
                         <SelectItem value="vacation">Vacation</SelectItem>
+                        <SelectItem value="holiday">Holiday / Closure</SelectItem>
                         <SelectItem value="other">Other</SelectItem>
                       </SelectContent>
                     </Select>
@@ -1037,6 +1153,45 @@ export default function Routes() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <Dialog open={splitDialogOpen} onOpenChange={setSplitDialogOpen}>
+        <DialogContent data-testid="dialog-auto-split">
+          <DialogHeader>
+            <DialogTitle>Auto-Split Day</DialogTitle>
+            <DialogDescription>
+              Divide {selectedDate}'s scheduled stops into neighbourhoods, balanced by estimated service time, and optimize each technician's order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {technicians?.map((technician) => (
+              <div key={technician.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`split-${technician.id}`}
+                  checked={splitTechnicianIds.includes(technician.id)}
+                  onCheckedChange={(checked) => setSplitTechnicianIds(ids =>
+                    checked === true ? [...ids, technician.id] : ids.filter(id => id !== technician.id)
+                  )}
+                  data-testid={`checkbox-split-${technician.id}`}
+                />
+                <Label htmlFor={`split-${technician.id}`}>{technicianName(technician.id)}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => setSplitDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => autoSplitMutation.mutate({ date: selectedDate, technicianIds: splitTechnicianIds })}
+              disabled={splitTechnicianIds.length === 0 || autoSplitMutation.isPending}
+              className="bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+              data-testid="button-confirm-auto-split"
+            >
+              {autoSplitMutation.isPending ? "Splitting..." : `Split Across ${splitTechnicianIds.length}`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -2,12 +2,14 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Settings as SettingsIcon, Bell, DollarSign, MapPin, CreditCard, Loader2, Navigation, Route, MessageSquare } from "lucide-react";
+import { Settings as SettingsIcon, Bell, DollarSign, MapPin, CreditCard, Loader2, Navigation, Route, CalendarX, Trash2, PackagePlus, RotateCcw, AlarmClock, Percent, Tag, Gift, CalendarCheck, Moon } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Settings } from "@shared/schema";
+import { MessageTemplatesCard } from "@/components/message-templates";
+import type { Settings, BusinessClosure, ServiceAddon, LateFeeType, TaxRate, PromoCode, PromoDiscountType, SmsProviderName } from "@shared/schema";
 import { useState, useEffect, useRef, useCallback } from "react";
 
 export default function Settings() {
@@ -24,6 +26,7 @@ export default function Settings() {
   const [businessEmail, setBusinessEmail] = useState("");
   const [serviceRadius, setServiceRadius] = useState("");
   const [baseZipCode, setBaseZipCode] = useState("");
+  const [geofenceRadiusFeet, setGeofenceRadiusFeet] = useState("");
   
   // Route optimization state
   const [routeStartAddress, setRouteStartAddress] = useState("");
@@ -32,8 +35,6 @@ export default function Settings() {
   const [isGeocodingEnd, setIsGeocodingEnd] = useState(false);
   
   // SMS message template state
-  const [smsOnMyWayMessage, setSmsOnMyWayMessage] = useState("");
-  const [smsServiceCompleteMessage, setSmsServiceCompleteMessage] = useState("");
 
   // Refs for Google Places Autocomplete
   const startAddressInputRef = useRef<HTMLInputElement>(null);
@@ -154,10 +155,9 @@ export default function Settings() {
       setBusinessEmail(settings.businessEmail || "");
       setServiceRadius(settings.serviceRadius?.toString() || "");
       setBaseZipCode(settings.baseZipCode || "");
+      setGeofenceRadiusFeet(settings.geofenceRadiusFeet?.toString() || "500");
       setRouteStartAddress(settings.routeStartAddress || "");
       setRouteEndAddress(settings.routeEndAddress || "");
-      setSmsOnMyWayMessage(settings.smsOnMyWayMessage || "Hi {name}! Your SillyDog technician is on the way to {address}. We'll be there shortly! 🐕");
-      setSmsServiceCompleteMessage(settings.smsServiceCompleteMessage || "Service complete at {address}! Your yard is all cleaned up. How did we do? Leave us a review: {reviewUrl}");
     }
   }, [settings]);
 
@@ -194,6 +194,7 @@ export default function Settings() {
     updateSettingsMutation.mutate({
       serviceRadius: serviceRadius ? parseInt(serviceRadius) : null,
       baseZipCode,
+      geofenceRadiusFeet: geofenceRadiusFeet ? parseInt(geofenceRadiusFeet) : 500,
     });
   };
 
@@ -349,52 +350,7 @@ export default function Settings() {
           </CardContent>
         </Card>
 
-        <Card className="lg:col-span-2">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MessageSquare className="w-5 h-5" />
-              SMS Message Templates
-            </CardTitle>
-            <CardDescription>
-              Customize the text messages sent to customers. Use placeholders: <code className="bg-muted px-1 rounded">{"{name}"}</code> for customer name, <code className="bg-muted px-1 rounded">{"{address}"}</code> for address, <code className="bg-muted px-1 rounded">{"{reviewUrl}"}</code> for review link
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="sms-on-my-way">"On My Way" Message</Label>
-              <p className="text-xs text-muted-foreground mb-2">Sent when you tap "On My Way" for a route</p>
-              <Textarea 
-                id="sms-on-my-way" 
-                value={smsOnMyWayMessage}
-                onChange={(e) => setSmsOnMyWayMessage(e.target.value)}
-                className="mt-1 min-h-[80px]" 
-                data-testid="textarea-sms-on-my-way"
-                placeholder="Hi {name}! Your SillyDog technician is on the way to {address}. We'll be there shortly! 🐕"
-              />
-            </div>
-            <div>
-              <Label htmlFor="sms-service-complete">"Service Complete" Message</Label>
-              <p className="text-xs text-muted-foreground mb-2">Sent automatically when a service is marked complete</p>
-              <Textarea 
-                id="sms-service-complete" 
-                value={smsServiceCompleteMessage}
-                onChange={(e) => setSmsServiceCompleteMessage(e.target.value)}
-                className="mt-1 min-h-[80px]" 
-                data-testid="textarea-sms-service-complete"
-                placeholder="Service complete at {address}! Your yard is all cleaned up. How did we do? Leave us a review: {reviewUrl}"
-              />
-            </div>
-            <Button 
-              onClick={() => updateSettingsMutation.mutate({ smsOnMyWayMessage, smsServiceCompleteMessage })}
-              disabled={updateSettingsMutation.isPending}
-              className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]" 
-              data-testid="button-save-sms-templates"
-            >
-              {updateSettingsMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-              Save Message Templates
-            </Button>
-          </CardContent>
-        </Card>
+        {settings && <MessageTemplatesCard settings={settings} />}
 
         <Card>
           <CardHeader>
@@ -464,6 +420,19 @@ export default function Settings() {
                 data-testid="input-base-location" 
               />
             </div>
+            <div>
+              <Label htmlFor="geofence-radius">Check-in Distance (feet)</Label>
+              <Input 
+                id="geofence-radius" 
+                type="number" 
+                min="50"
+                value={geofenceRadiusFeet}
+                onChange={(e) => setGeofenceRadiusFeet(e.target.value)}
+                className="mt-1" 
+                data-testid="input-geofence-radius" 
+              />
+              <p className="text-xs text-muted-foreground mt-1">Completions farther than this from the customer's address show up in the Proof of Service report</p>
+            </div>
             <Button 
               onClick={handleSaveServiceArea}
               disabled={updateSettingsMutation.isPending}
@@ -570,7 +539,920 @@ export default function Settings() {
             </Button>
           </CardContent>
         </Card>
+
+        <ClosureCalendarCard closures={settings?.businessClosures || []} />
+
+        <ServiceAddonsCard addons={settings?.serviceAddons || []} />
+
+        <TaxRatesCard taxRates={settings?.taxRates || []} />
+
+        {settings && <DunningCard settings={settings} />}
+
+        {settings && <LateFeeCard settings={settings} />}
+
+        <PromoCodesCard />
+
+        {settings && <ReferralCard settings={settings} />}
+
+        {settings && <SelfSchedulingCard settings={settings} />}
+
+        {settings && <QuietHoursCard settings={settings} />}
       </div>
     </div>
   );
 }
+
+const closurePolicyLabels: Record<BusinessClosure["policy"], string> = {
+  skip: "Skip visit",
+  next_business_day: "Move to next business day",
+  previous_day: "Move to previous business day",
+};
+
+// Company closure calendar (holidays, weather days)
+function ClosureCalendarCard({ closures }: { closures: BusinessClosure[] }) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [policy, setPolicy] = useState<BusinessClosure["policy"]>("next_business_day");
+  const [billable, setBillable] = useState(false);
+  const [notifyCustomers, setNotifyCustomers] = useState(true);
+
+  const addClosureMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/settings/closures", {
+        closures: [{ date, name, policy, billable: policy === "skip" && billable }],
+        notifyCustomers,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/routes"] });
+      setDate("");
+      setName("");
+      toast({
+        title: "Closure Added",
+        description: `${data.routesMoved} visit(s) moved, ${data.routesSkipped} skipped, ${data.customersNotified} customer(s) notified.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const removeClosureMutation = useMutation({
+    mutationFn: async (closureDate: string) => {
+      return await apiRequest("DELETE", `/api/settings/closures/${closureDate}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX className="w-5 h-5" />
+          Company Closures
+        </CardTitle>
+        <CardDescription>Holidays and weather days. Route generation applies each closure's policy automatically.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {closures.length > 0 ? (
+          <div className="space-y-2">
+            {closures.map((closure) => (
+              <div key={closure.date} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`closure-${closure.date}`}>
+                <div>
+                  <p className="font-medium text-sm">{closure.name} • {closure.date}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {closurePolicyLabels[closure.policy]}
+                    {closure.policy === "skip" && (closure.billable ? " (billable)" : " (not billable)")}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeClosureMutation.mutate(closure.date)}
+                  data-testid={`button-remove-closure-${closure.date}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No closures scheduled</p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="closure-date">Date</Label>
+            <Input id="closure-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-closure-date" />
+          </div>
+          <div>
+            <Label htmlFor="closure-name">Name</Label>
+            <Input id="closure-name" placeholder="Thanksgiving" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-closure-name" />
+          </div>
+          <div>
+            <Label>Policy</Label>
+            <Select value={policy} onValueChange={(value) => setPolicy(value as BusinessClosure["policy"])}>
+              <SelectTrigger data-testid="select-closure-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="next_business_day">{closurePolicyLabels.next_business_day}</SelectItem>
+                <SelectItem value="previous_day">{closurePolicyLabels.previous_day}</SelectItem>
+                <SelectItem value="skip">{closurePolicyLabels.skip}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-6">
+          {policy === "skip" && (
+            <div className="flex items-center space-x-2">
+              <Checkbox id="closure-billable" checked={billable} onCheckedChange={(checked) => setBillable(checked === true)} data-testid="checkbox-closure-billable" />
+              <Label htmlFor="closure-billable">Still bill skipped visits</Label>
+            </div>
+          )}
+          <div className="flex items-center space-x-2">
+            <Checkbox id="closure-notify" checked={notifyCustomers} onCheckedChange={(checked) => setNotifyCustomers(checked === true)} data-testid="checkbox-closure-notify" />
+            <Label htmlFor="closure-notify">Text affected customers</Label>
+          </div>
+        </div>
+        <Button
+          onClick={() => addClosureMutation.mutate()}
+          disabled={!date || !name || addClosureMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-add-closure"
+        >
+          {addClosureMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Add Closure
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Price list for extras that can be attached to a schedule (billed per visit)
+function ServiceAddonsCard({ addons }: { addons: ServiceAddon[] }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [price, setPrice] = useState("");
+  const [taxable, setTaxable] = useState(false);
+
+  const saveAddonsMutation = useMutation({
+    mutationFn: async (updated: ServiceAddon[]) => {
+      const response = await apiRequest("PUT", "/api/settings/addons", { addons: updated });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setName("");
+      setPrice("");
+      setTaxable(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const addAddon = () => {
+    const key = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    if (addons.some(addon => addon.key === key)) {
+      toast({ variant: "destructive", title: "Error", description: `An add-on named "${name}" already exists` });
+      return;
+    }
+    saveAddonsMutation.mutate([...addons, { key, name: name.trim(), price: parseFloat(price).toFixed(2), taxable }]);
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackagePlus className="w-5 h-5" />
+          Service Add-ons
+        </CardTitle>
+        <CardDescription>Extras that can be added to a customer's schedule. Each is billed per completed visit on the monthly invoice.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {addons.length > 0 ? (
+          <div className="space-y-2">
+            {addons.map((addon) => (
+              <div key={addon.key} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`addon-${addon.key}`}>
+                <div>
+                  <p className="font-medium text-sm">{addon.name}</p>
+                  <p className="text-xs text-muted-foreground">${addon.price} per visit{addon.taxable ? " · taxable" : ""}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => saveAddonsMutation.mutate(addons.filter(a => a.key !== addon.key))}
+                  data-testid={`button-remove-addon-${addon.key}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No add-ons configured</p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="addon-name">Name</Label>
+            <Input id="addon-name" placeholder="Odor Spray" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-addon-name" />
+          </div>
+          <div>
+            <Label htmlFor="addon-price">Price per visit ($)</Label>
+            <Input id="addon-price" type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} data-testid="input-addon-price" />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="addon-taxable"
+            checked={taxable}
+            onCheckedChange={(checked) => setTaxable(checked === true)}
+            data-testid="checkbox-addon-taxable"
+          />
+          <Label htmlFor="addon-taxable" className="font-normal">Charge sales tax on this add-on</Label>
+        </div>
+        <Button
+          onClick={addAddon}
+          disabled={!name.trim() || !price || isNaN(parseFloat(price)) || saveAddonsMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-add-addon"
+        >
+          {saveAddonsMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Add Add-on
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Sales tax rates applied to taxable service types and add-ons
+function TaxRatesCard({ taxRates }: { taxRates: TaxRate[] }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [rate, setRate] = useState("");
+
+  const saveTaxRatesMutation = useMutation({
+    mutationFn: async (updated: TaxRate[]) => {
+      const response = await apiRequest("PUT", "/api/settings/tax-rates", { taxRates: updated });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setName("");
+      setRate("");
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  const addTaxRate = () => {
+    const key = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    if (taxRates.some(taxRate => taxRate.key === key)) {
+      toast({ variant: "destructive", title: "Error", description: `A tax named "${name}" already exists` });
+      return;
+    }
+    saveTaxRatesMutation.mutate([...taxRates, { key, name: name.trim(), rate: parseFloat(rate).toString() }]);
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="w-5 h-5" />
+          Sales Tax
+        </CardTitle>
+        <CardDescription>
+          Every rate is charged on the taxable lines of new invoices (service types and add-ons marked taxable), each as its own line. Existing invoices are retaxed when their lines change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {taxRates.length > 0 ? (
+          <div className="space-y-2">
+            {taxRates.map((taxRate) => (
+              <div key={taxRate.key} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`tax-rate-${taxRate.key}`}>
+                <div>
+                  <p className="font-medium text-sm">{taxRate.name}</p>
+                  <p className="text-xs text-muted-foreground">{taxRate.rate}%</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => saveTaxRatesMutation.mutate(taxRates.filter(r => r.key !== taxRate.key))}
+                  data-testid={`button-remove-tax-rate-${taxRate.key}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No sales tax is charged</p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="tax-rate-name">Name</Label>
+            <Input id="tax-rate-name" placeholder="State sales tax" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-tax-rate-name" />
+          </div>
+          <div>
+            <Label htmlFor="tax-rate-rate">Rate (%)</Label>
+            <Input id="tax-rate-rate" type="number" min="0" max="99" step="0.001" value={rate} onChange={(e) => setRate(e.target.value)} data-testid="input-tax-rate" />
+          </div>
+        </div>
+        <Button
+          onClick={addTaxRate}
+          disabled={!name.trim() || !rate || isNaN(parseFloat(rate)) || saveTaxRatesMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-add-tax-rate"
+        >
+          {saveTaxRatesMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Add Tax Rate
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Retry schedule for failed autopay charges
+function DunningCard({ settings }: { settings: Settings }) {
+  const { toast } = useToast();
+  const [retryDays, setRetryDays] = useState(settings.dunningRetryDays.join(", "));
+  const [pauseSchedule, setPauseSchedule] = useState(settings.dunningPauseSchedule);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const days = retryDays.split(",").map(day => parseInt(day.trim())).filter(day => !isNaN(day));
+      const response = await apiRequest("PUT", "/api/settings/dunning", { retryDays: days, pauseSchedule });
+      return response.json();
+    },
+    onSuccess: (result: { retryDays: number[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setRetryDays(result.retryDays.join(", "));
+      toast({ title: "Saved", description: "Autopay retry settings updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RotateCcw className="w-5 h-5" />
+          Failed Autopay Retries
+        </CardTitle>
+        <CardDescription>
+          When an autopay charge fails, the card is retried on these days after the first failure. The customer is texted a payment link after each failed attempt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="dunning-retry-days">Retry after (days)</Label>
+          <Input
+            id="dunning-retry-days"
+            placeholder="3, 7, 14"
+            value={retryDays}
+            onChange={(e) => setRetryDays(e.target.value)}
+            data-testid="input-dunning-retry-days"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="dunning-pause-schedule"
+            checked={pauseSchedule}
+            onCheckedChange={(checked) => setPauseSchedule(checked === true)}
+            data-testid="checkbox-dunning-pause-schedule"
+          />
+          <Label htmlFor="dunning-pause-schedule" className="font-normal">
+            Pause the customer's schedules after the last retry fails
+          </Label>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-save-dunning"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Retry Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Late fee added to invoices left unpaid past the due date
+function LateFeeCard({ settings }: { settings: Settings }) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(settings.lateFeeEnabled);
+  const [type, setType] = useState<LateFeeType>(settings.lateFeeType as LateFeeType);
+  const [amount, setAmount] = useState(parseFloat(settings.lateFeeAmount) ? settings.lateFeeAmount : "");
+  const [graceDays, setGraceDays] = useState(settings.lateFeeGraceDays.toString());
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/settings/late-fees", { enabled, type, amount, graceDays });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Saved", description: "Late fee settings updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClock className="w-5 h-5" />
+          Late Fees
+        </CardTitle>
+        <CardDescription>
+          Invoices are marked overdue the day after their due date. Once the grace period has passed, the late fee is added to the invoice as a line item, once per invoice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="late-fee-enabled"
+            checked={enabled}
+            onCheckedChange={(checked) => setEnabled(checked === true)}
+            data-testid="checkbox-late-fee-enabled"
+          />
+          <Label htmlFor="late-fee-enabled" className="font-normal">Charge late fees on overdue invoices</Label>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label>Fee type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as LateFeeType)}>
+              <SelectTrigger data-testid="select-late-fee-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flat">Flat amount ($)</SelectItem>
+                <SelectItem value="percent">Percent of invoice (%)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="late-fee-amount">{type === "percent" ? "Percent" : "Amount ($)"}</Label>
+            <Input
+              id="late-fee-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-late-fee-amount"
+            />
+          </div>
+          <div>
+            <Label htmlFor="late-fee-grace">Grace period (days)</Label>
+            <Input
+              id="late-fee-grace"
+              type="number"
+              min="0"
+              value={graceDays}
+              onChange={(e) => setGraceDays(e.target.value)}
+              data-testid="input-late-fee-grace"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !amount}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-save-late-fees"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Late Fee Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// GET /api/promo-codes
+type PromoCodeWithCount = PromoCode & { redemptionCount: number };
+
+function promoDiscountLabel(promo: Pick<PromoCode, "discountType" | "discountValue">): string {
+  const value = parseFloat(promo.discountValue);
+  if (promo.discountType === "percent") return `${value}% off`;
+  if (promo.discountType === "fixed") return `$${value.toFixed(2)} off`;
+  return `${value} free visit${value === 1 ? "" : "s"}`;
+}
+
+// Promo codes customers enter on the booking form (or the office applies to a customer)
+function PromoCodesCard() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [discountType, setDiscountType] = useState<PromoDiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [maxRedemptions, setMaxRedemptions] = useState("");
+
+  const { data: promoCodes = [] } = useQuery<PromoCodeWithCount[]>({
+    queryKey: ["/api/promo-codes"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/promo-codes", {
+        code,
+        description,
+        discountType,
+        discountValue,
+        expiresOn: expiresOn || null,
+        maxRedemptions: maxRedemptions || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promo-codes"] });
+      setCode("");
+      setDescription("");
+      setDiscountValue("");
+      setExpiresOn("");
+      setMaxRedemptions("");
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (promo: PromoCode) => {
+      const response = await apiRequest("PATCH", `/api/promo-codes/${promo.id}`, { active: !promo.active });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promo-codes"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="w-5 h-5" />
+          Promo Codes
+        </CardTitle>
+        <CardDescription>
+          Customers enter a code when they book, or the office applies one from the customer's Account. Percent and dollar discounts come off the customer's next invoice; free visits come off visits as they're billed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {promoCodes.length > 0 ? (
+          <div className="space-y-2">
+            {promoCodes.map((promo) => (
+              <div key={promo.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border" data-testid={`promo-code-${promo.code}`}>
+                <div className={promo.active ? "" : "opacity-60"}>
+                  <p className="font-medium text-sm">
+                    <span className="font-mono">{promo.code}</span> · {promoDiscountLabel(promo)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {promo.description} · used {promo.redemptionCount}{promo.maxRedemptions ? ` of ${promo.maxRedemptions}` : ""} times
+                    {promo.expiresOn ? ` · expires ${promo.expiresOn}` : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleMutation.mutate(promo)}
+                  disabled={toggleMutation.isPending}
+                  data-testid={`button-toggle-promo-${promo.code}`}
+                >
+                  {promo.active ? "Disable" : "Enable"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No promo codes yet</p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="promo-code">Code</Label>
+            <Input id="promo-code" className="uppercase" placeholder="FIRSTFREE" value={code} onChange={(e) => setCode(e.target.value)} data-testid="input-promo-code" />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="promo-description">Description</Label>
+            <Input id="promo-description" placeholder="First cleanup free" value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-promo-description" />
+          </div>
+          <div>
+            <Label>Discount</Label>
+            <Select value={discountType} onValueChange={(value) => setDiscountType(value as PromoDiscountType)}>
+              <SelectTrigger data-testid="select-promo-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">Percent off (%)</SelectItem>
+                <SelectItem value="fixed">Amount off ($)</SelectItem>
+                <SelectItem value="free_visit">Free visits</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="promo-value">{discountType === "percent" ? "Percent" : discountType === "fixed" ? "Amount ($)" : "Visits"}</Label>
+            <Input
+              id="promo-value"
+              type="number"
+              min="0"
+              step={discountType === "free_visit" ? "1" : "0.01"}
+              value={discountValue}
+              onChange={(e) => setDiscountValue(e.target.value)}
+              data-testid="input-promo-value"
+            />
+          </div>
+          <div>
+            <Label htmlFor="promo-expires">Expires (optional)</Label>
+            <Input id="promo-expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} data-testid="input-promo-expires" />
+          </div>
+          <div>
+            <Label htmlFor="promo-max">Usage limit (optional)</Label>
+            <Input
+              id="promo-max"
+              type="number"
+              min="1"
+              placeholder="Unlimited"
+              value={maxRedemptions}
+              onChange={(e) => setMaxRedemptions(e.target.value)}
+              data-testid="input-promo-max"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={!code.trim() || !description.trim() || !discountValue || createMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-add-promo-code"
+        >
+          {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Add Promo Code
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Refer-a-friend rewards
+function ReferralCard({ settings }: { settings: Settings }) {
+  const { toast } = useToast();
+  const [credit, setCredit] = useState(parseFloat(settings.referralCredit) ? settings.referralCredit : "");
+  const [discount, setDiscount] = useState(parseFloat(settings.referralDiscount) ? settings.referralDiscount : "");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/settings/referrals", { credit: credit || 0, discount: discount || 0 });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Saved", description: "Referral rewards updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="w-5 h-5" />
+          Referrals
+        </CardTitle>
+        <CardDescription>
+          Every customer gets a referral code (shown in their portal and Account). A new customer who books with it gets the discount off their first invoice, and the referrer gets the credit on their account once that customer pays an invoice. Leave both at zero to turn referrals off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="referral-credit">Referrer credit ($)</Label>
+            <Input
+              id="referral-credit"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="0.00"
+              value={credit}
+              onChange={(e) => setCredit(e.target.value)}
+              data-testid="input-referral-credit"
+            />
+          </div>
+          <div>
+            <Label htmlFor="referral-discount">New customer discount ($)</Label>
+            <Input
+              id="referral-discount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="0.00"
+              value={discount}
+              onChange={(e) => setDiscount(e.target.value)}
+              data-testid="input-referral-discount"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-save-referrals"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Referral Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Capacity behind the open start dates on the public booking form
+function SelfSchedulingCard({ settings }: { settings: Settings }) {
+  const { toast } = useToast();
+  const [technicianDailyStops, setTechnicianDailyStops] = useState(settings.technicianDailyStops.toString());
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/settings/self-scheduling", { technicianDailyStops });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Saved", description: "Self-scheduling capacity updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="w-5 h-5" />
+          Self-Scheduling
+        </CardTitle>
+        <CardDescription>
+          New customers can pick their start date on the booking form. Only weekdays over the next three weeks that aren't closures are offered, and only while the staff and technicians have room: below this many stops each on that date and on the same weekday's recurring schedules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="technician-daily-stops">Stops per technician per day</Label>
+          <Input
+            id="technician-daily-stops"
+            type="number"
+            min="1"
+            step="1"
+            value={technicianDailyStops}
+            onChange={(e) => setTechnicianDailyStops(e.target.value)}
+            data-testid="input-technician-daily-stops"
+          />
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-save-self-scheduling"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Self-Scheduling Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Non-urgent texts sent during quiet hours wait until they end
+function QuietHoursCard({ settings }: { settings: Settings }) {
+  const { toast } = useToast();
+  const [start, setStart] = useState(settings.quietHoursStart || "");
+  const [end, setEnd] = useState(settings.quietHoursEnd || "");
+
+  // GET /api/messaging/provider
+  const { data: provider } = useQuery<{ name: SmsProviderName; from: string } | null>({
+    queryKey: ["/api/messaging/provider"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/settings/quiet-hours", { start: start || null, end: end || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Saved", description: start && end ? `Quiet hours ${start} to ${end}` : "Quiet hours turned off" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Moon className="w-5 h-5" />
+          Text Messaging
+        </CardTitle>
+        <CardDescription>
+          Reminders, invoices and announcements sent during quiet hours are held until they end. On-my-way texts, staff messages and STOP/HELP replies always go out right away. Leave both times empty to turn quiet hours off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-sms-provider">
+          {provider === undefined
+            ? "Checking SMS provider..."
+            : provider === null
+              ? "No SMS provider is configured: texts are recorded as failed."
+              : provider.name === "outbox"
+                ? `Outbox mode: texts are logged on the server from ${provider.from}, not sent to phones.`
+                : `Sending through ${provider.name === "telnyx" ? "Telnyx" : "Twilio"} from ${provider.from}.`}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="quiet-hours-start">Quiet hours start</Label>
+            <Input
+              id="quiet-hours-start"
+              type="time"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              data-testid="input-quiet-hours-start"
+            />
+          </div>
+          <div>
+            <Label htmlFor="quiet-hours-end">Quiet hours end</Label>
+            <Input
+              id="quiet-hours-end"
+              type="time"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              data-testid="input-quiet-hours-end"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="w-full bg-gradient-to-r from-[#00BCD4] to-[#FF6F00]"
+          data-testid="button-save-quiet-hours"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Quiet Hours
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -59,7 +59,7 @@ const userFormSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
-  role: z.enum(["admin", "staff", "customer"]),
+  role: z.enum(["admin", "staff", "technician", "customer"]),
 });
 
 type UserForm = z.infer<typeof userFormSchema>;
@@ -197,6 +197,7 @@ export default function Users() {
       case "admin":
         return "default";
       case "staff":
+      case "technician":
         return "secondary";
       case "customer":
         return "outline";
@@ -319,6 +320,7 @@ export default function Users() {
                         <SelectContent>
                           <SelectItem value="admin">Admin</SelectItem>
                           <SelectItem value="staff">Staff</SelectItem>
+                          <SelectItem value="technician">Technician</SelectItem>
                           <SelectItem value="customer">Customer</SelectItem>
                         </SelectContent>
                       </Select>
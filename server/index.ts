@@ -80,23 +80,24 @@ app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), async
   // Import storage dynamically to avoid circular dependencies
   const { storage } = await import("./storage");
   
-  // Helper to send SMS (imported dynamically)
-  const sendSMS = async (phone: string, message: string) => {
-    const telnyxApiKey = process.env.TELNYX_API_KEY;
-    const telnyxPhoneNumber = process.env.TELNYX_PHONE_NUMBER;
-    if (!telnyxApiKey || !telnyxPhoneNumber) return;
-    
-    try {
-      await fetch('https://api.telnyx.com/v2/messages', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${telnyxApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ from: telnyxPhoneNumber, to: phone, text: message })
-      });
-    } catch (error) {
-      console.error("SMS send error:", error);
+  const { invoiceReceipt, sendPaymentReceipt } = await import("./services/customerNotifications");
+  const { recordStripeInvoicePayment } = await import("./services/ledger");
+
+  // Record what was actually paid; a partial payment leaves the invoice partial
+  const recordInvoicePayment = async (invoiceId: string, paymentIntentId: string, cents: number) => {
+    const invoice = await storage.getInvoice(invoiceId);
+    if (!invoice) return;
+    const recorded = await recordStripeInvoicePayment(invoice, paymentIntentId, cents);
+    if (!recorded) return;
+    console.log(invoice.status === "void"
+      ? `✅ $${recorded.payment.amount} paid on voided invoice ${invoiceId} recorded as account credit`
+      : `✅ $${recorded.payment.amount} recorded for invoice ${invoiceId} via webhook (now ${recorded.invoice.status})`);
+
+    const customer = await storage.getCustomer(invoice.customerId);
+    if (customer) {
+      await sendPaymentReceipt(customer, recorded.invoice.status === "paid"
+        ? invoiceReceipt(invoice, recorded.payment.amount)
+        : { amount: recorded.payment.amount, method: "Card" });
     }
   };
 
@@ -107,19 +108,7 @@ app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), async
         const invoiceId = paymentIntent.metadata?.invoiceId;
         
         if (invoiceId) {
-          const invoice = await storage.getInvoice(invoiceId);
-          if (invoice && invoice.status !== "paid") {
-            await storage.markInvoicePaid(invoiceId, paymentIntent.id);
-            console.log(`✅ Invoice ${invoiceId} marked as paid via webhook`);
-            
-            const customer = await storage.getCustomer(invoice.customerId);
-            if (customer?.smsOptIn) {
-              await sendSMS(
-                customer.phone,
-                `Payment received! Invoice #${invoice.invoiceNumber} for $${parseFloat(invoice.amount).toFixed(2)} has been paid. Thank you!`
-              );
-            }
-          }
+          await recordInvoicePayment(invoiceId, paymentIntent.id, paymentIntent.amount_received);
         }
         break;
       }
@@ -128,20 +117,9 @@ app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), async
         const session = event.data.object as Stripe.Checkout.Session;
         const invoiceId = session.metadata?.invoiceId;
         
-        if (invoiceId) {
-          const invoice = await storage.getInvoice(invoiceId);
-          if (invoice && invoice.status !== "paid") {
-            await storage.markInvoicePaid(invoiceId, session.payment_intent as string);
-            console.log(`✅ Invoice ${invoiceId} marked as paid via checkout session`);
-            
-            const customer = await storage.getCustomer(invoice.customerId);
-            if (customer?.smsOptIn) {
-              await sendSMS(
-                customer.phone,
-                `Payment received! Invoice #${invoice.invoiceNumber} for $${parseFloat(invoice.amount).toFixed(2)} has been paid. Thank you!`
-              );
-            }
-          }
+        const paymentIntentId = typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+        if (invoiceId && paymentIntentId && session.payment_status === "paid") {
+          await recordInvoicePayment(invoiceId, paymentIntentId, session.amount_total ?? 0);
         }
         break;
       }
@@ -162,6 +140,19 @@ app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), async
         break;
       }
 
+      case "charge.refunded": {
+        // Refunds issued here are already recorded; this also catches ones made in the
+        // Stripe dashboard and reopens the invoices they paid
+        const charge = event.data.object as Stripe.Charge;
+        const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+        if (paymentIntentId) {
+          const { reconcileStripeRefunds } = await import("./services/refunds");
+          const recorded = await reconcileStripeRefunds(paymentIntentId);
+          console.log(`↩️ Refunds reconciled for ${paymentIntentId} (${recorded} new)`);
+        }
+        break;
+      }
+
       case "payment_intent.payment_failed": {
         const paymentIntent = event.data.object as Stripe.PaymentIntent;
         console.error(`❌ Payment failed: ${paymentIntent.id} - ${paymentIntent.last_payment_error?.message}`);
@@ -1,8 +1,14 @@
 import cron from "node-cron";
-import { addDays } from "date-fns";
+import { addDays, format, parseISO, subMonths } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
-import { generateMonthlyInvoices } from "./services/billing";
+import { billingPeriod, runMonthlyBilling } from "./services/billing";
 import { sendNightBeforeReminders } from "./services/reminders";
+import { processDunningRetries } from "./services/dunning";
+import { processOverdueInvoices } from "./services/receivables";
+import { processReferralRewards } from "./services/promotions";
+import { sendQueuedMessages } from "./services/messaging";
+import { processAnnouncementQueue } from "./services/announcements";
+import { generateUpcomingRoutesForRule, notifyClosureChanges, type ClosureChange } from "./services/scheduling";
 import { storage } from "./storage";
 
 const TIMEZONE = "America/Chicago";
@@ -11,13 +17,15 @@ export function startScheduledJobs() {
   cron.schedule("0 0 1 * *", async () => {
     console.log("Running monthly billing job...");
     
-    const nowUTC = new Date();
-    const month = formatInTimeZone(nowUTC, TIMEZONE, "M");
-    const year = formatInTimeZone(nowUTC, TIMEZONE, "yyyy");
+    // Runs just after midnight on the 1st, so the month to bill is the one that just ended
+    const today = parseISO(formatInTimeZone(new Date(), TIMEZONE, "yyyy-MM-dd"));
+    const lastMonth = subMonths(today, 1);
     
     try {
-      const results = await generateMonthlyInvoices(month, year);
-      console.log("Monthly billing completed:", results);
+      const run = await runMonthlyBilling({ period: billingPeriod(format(lastMonth, "M"), format(lastMonth, "yyyy")), trigger: "scheduled" });
+      if (run) {
+        console.log(`Monthly billing ${run.status}: ${run.invoicedCount} invoiced, ${run.chargedCount} charged, ${run.failedCount} failed`);
+      }
     } catch (error) {
       console.error("Monthly billing job failed:", error);
     }
@@ -44,6 +52,73 @@ export function startScheduledJobs() {
     timezone: TIMEZONE
   });
 
+  // Mark past-due invoices overdue and add late fees
+  cron.schedule("0 6 * * *", async () => {
+    console.log("Running overdue invoice job...");
+    
+    try {
+      const results = await processOverdueInvoices();
+      console.log("Overdue invoices processed:", results);
+    } catch (error) {
+      console.error("Overdue invoice job failed:", error);
+    }
+  }, {
+    timezone: TIMEZONE
+  });
+
+  // Retry failed autopay charges that are due
+  cron.schedule("0 10 * * *", async () => {
+    console.log("Running autopay retry job...");
+    
+    try {
+      const results = await processDunningRetries();
+      console.log("Autopay retries completed:", results);
+    } catch (error) {
+      console.error("Autopay retry job failed:", error);
+    }
+  }, {
+    timezone: TIMEZONE
+  });
+
+  // Credit referrers once the customer they referred has paid an invoice
+  cron.schedule("30 * * * *", async () => {
+    try {
+      const results = await processReferralRewards();
+      if (results.credited > 0) {
+        console.log("Referral credits given:", results);
+      }
+    } catch (error) {
+      console.error("Referral reward job failed:", error);
+    }
+  }, {
+    timezone: TIMEZONE
+  });
+
+  // Send texts held back by quiet hours once they're due
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      const results = await sendQueuedMessages();
+      if (results.sent + results.failed + results.skipped > 0) {
+        console.log("Queued texts sent:", results);
+      }
+    } catch (error) {
+      console.error("Queued text job failed:", error);
+    }
+  }, {
+    timezone: TIMEZONE
+  });
+
+  // Start scheduled announcements and send the queued ones, with retries
+  cron.schedule("* * * * *", async () => {
+    try {
+      await processAnnouncementQueue();
+    } catch (error) {
+      console.error("Announcement queue job failed:", error);
+    }
+  }, {
+    timezone: TIMEZONE
+  });
+
   // Generate routes from recurring schedules daily
   cron.schedule("0 0 * * *", async () => {
     console.log("Running automatic route generation job...");
@@ -53,75 +128,22 @@ export function startScheduledJobs() {
       const activeRules = allRules.filter(rule => !rule.paused);
       
       let totalRoutesGenerated = 0;
+      const changes: ClosureChange[] = [];
       
       // Generate routes for the next 7 days for each active schedule
       for (const rule of activeRules) {
-        // Parse dtStart properly - handle both "YYYY-MM-DD" and ISO timestamp formats
-        const parsedDate = new Date(rule.dtStart);
-        const startDate = new Date(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate());
-        startDate.setHours(0, 0, 0, 0);
-        
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        const generateFrom = startDate > today ? startDate : today;
-        
-        // Generate routes for the next 7 days
-        for (let i = 0; i < 7; i++) {
-          const targetDate = new Date(generateFrom);
-          targetDate.setDate(generateFrom.getDate() + i);
-          
-          const dayOfWeek = targetDate.getDay();
-          const targetDateStr = targetDate.toISOString().split("T")[0];
-          
-          if (!rule.byDay || !rule.byDay.includes(dayOfWeek)) {
-            continue;
-          }
-          
-          let shouldGenerate = false;
-          if (rule.frequency === "weekly") {
-            const daysDiff = Math.floor((targetDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-            shouldGenerate = daysDiff >= 0;
-          } else if (rule.frequency === "biweekly") {
-            // Biweekly: Generate routes every other week starting from the FIRST matching day
-            // Find first occurrence of this day of week on or after dtStart
-            const startDayOfWeek = startDate.getDay();
-            let daysUntilFirstOccurrence = dayOfWeek - startDayOfWeek;
-            if (daysUntilFirstOccurrence < 0) {
-              daysUntilFirstOccurrence += 7; // If the day already passed this week, go to next week
-            }
-            
-            // Calculate the first occurrence date
-            const firstOccurrence = new Date(startDate);
-            firstOccurrence.setDate(startDate.getDate() + daysUntilFirstOccurrence);
-            
-            // Calculate days from the first occurrence to the target date
-            const daysFromFirstOccurrence = Math.floor((targetDate.getTime() - firstOccurrence.getTime()) / (1000 * 60 * 60 * 24));
-            
-            // Generate if this is the first occurrence or exactly 14, 28, 42... days after (every 2 weeks)
-            shouldGenerate = daysFromFirstOccurrence >= 0 && daysFromFirstOccurrence % 14 === 0;
-          }
-          
-          if (shouldGenerate) {
-            const existingRoutes = await storage.getRoutesByDate(targetDateStr);
-            const alreadyExists = existingRoutes.some(r => r.customerId === rule.customerId);
-            
-            if (!alreadyExists) {
-              await storage.createRoute({
-                date: targetDateStr,
-                customerId: rule.customerId,
-                scheduleRuleId: rule.id, // Link route to the schedule that created it
-                scheduledTime: rule.windowStart,
-                status: "scheduled",
-                orderIndex: 0,
-              });
-              totalRoutesGenerated++;
-            }
-          }
-        }
+        const { routes, closureChanges } = await generateUpcomingRoutesForRule(rule, 7);
+        totalRoutesGenerated += routes.length;
+        changes.push(...closureChanges);
       }
       
       console.log(`Auto-generated ${totalRoutesGenerated} routes for the next 7 days`);
+      
+      // One text per customer for every closure this run hit, across all of their schedules
+      if (changes.length > 0) {
+        const customersNotified = await notifyClosureChanges(changes);
+        console.log(`Notified ${customersNotified} customers about closures`);
+      }
     } catch (error) {
       console.error("Automatic route generation job failed:", error);
     }
@@ -132,5 +154,10 @@ export function startScheduledJobs() {
   console.log("Scheduled jobs started:");
   console.log("- Monthly billing: 1st of month at midnight CST");
   console.log("- Night-before reminders: Daily at 6 PM CST");
+  console.log("- Overdue invoices and late fees: Daily at 6 AM CST");
+  console.log("- Autopay retries: Daily at 10 AM CST");
+  console.log("- Referral credits: Hourly");
+  console.log("- Queued texts (quiet hours): Every 5 minutes");
+  console.log("- Announcement queue: Every minute");
   console.log("- Automatic route generation: Daily at midnight CST");
 }
@@ -27,3 +27,16 @@ export function requireStaff(req: Request, res: Response, next: NextFunction) {
   }
   res.status(403).json({ message: "Staff access required" });
 }
+
+// Middleware for the route and field endpoints: staff, or a technician (who only sees and
+// works the stops assigned to them)
+export function requireFieldUser(req: Request, res: Response, next: NextFunction) {
+  if (
+    req.isAuthenticated() &&
+    req.user &&
+    ["admin", "staff", "technician"].includes((req.user as any).role)
+  ) {
+    return next();
+  }
+  res.status(403).json({ message: "Staff access required" });
+}
@@ -61,6 +61,7 @@ export function csrfProtection(req: Request, res: Response, next: NextFunction)
   // Use req.originalUrl for full path matching since middleware is mounted at /api
   const publicPaths = [
     "/api/public/booking",
+    "/api/public/availability",
     "/api/portal/login",
   ];
   
@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { saveJobPhoto } from "./services/photoStore";
+
+const PAGE_SIZE = 50;
+
+/**
+ * One-time migration: move base64 photos out of job_history.photo_before/photo_after
+ * into the photo store. Jobs are loaded a page at a time so the base64 columns never all
+ * sit in memory. Safe to re-run - each column is cleared as soon as its photo is saved,
+ * so a job whose "after" photo failed doesn't store its "before" photo again.
+ * Run with `npm run photos:migrate`.
+ */
+export async function migrateJobPhotos() {
+  console.log("🔄 Moving job photos into the photo store...");
+
+  let moved = 0;
+  let failed = 0;
+  let cursor: string | null = null;
+  for (;;) {
+    const jobs = await storage.getJobHistoryWithInlinePhotos(cursor, PAGE_SIZE);
+    if (jobs.length === 0) break;
+    cursor = jobs[jobs.length - 1].id;
+
+    for (const job of jobs) {
+      try {
+        if (job.photoBefore) {
+          await saveJobPhoto({ jobHistoryId: job.id, dataUrl: job.photoBefore, kind: "before" });
+          await storage.updateJobHistory(job.id, { photoBefore: null });
+          moved++;
+        }
+        if (job.photoAfter) {
+          await saveJobPhoto({ jobHistoryId: job.id, dataUrl: job.photoAfter, kind: "after" });
+          await storage.updateJobHistory(job.id, { photoAfter: null });
+          moved++;
+        }
+      } catch (error: any) {
+        // Leave the column in place so the photo can be retried
+        failed++;
+        console.error(`❌ Job ${job.id}: ${error.message}`);
+      }
+    }
+  }
+
+  console.log(`✅ Moved ${moved} photo(s)${failed ? `, ${failed} job(s) failed` : ""}`);
+}
+
+migrateJobPhotos()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Photo migration failed:", error);
+    process.exit(1);
+  });
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { randomBytes } from "crypto";
@@ -8,12 +8,13 @@ import { z } from "zod";
 import Telnyx from "telnyx";
 import { storage } from "./storage";
 import passport from "./auth";
-import { requireAuth, requireAdmin, requireStaff } from "./middleware/auth";
+import { requireAuth, requireAdmin, requireStaff, requireFieldUser } from "./middleware/auth";
 import { csrfProtection, getCsrfToken } from "./middleware/csrf";
 import {
   insertCustomerSchema,
   insertRouteSchema,
   insertInvoiceSchema,
+  invoiceLineInputSchema,
   insertJobHistorySchema,
   insertMessageSchema,
   insertScheduleRuleSchema,
@@ -22,189 +23,215 @@ import {
   insertReviewSchema,
   insertUserSchema,
   insertAnnouncementSchema,
+  announcementSegmentSchema,
+  updateConversationSchema,
+  leadCustomerSchema,
+  leadBookingSchema,
+  insertCannedReplySchema,
+  insertScheduleExceptionSchema,
+  businessClosureSchema,
+  serviceAddonSchema,
+  taxRateSchema,
+  dunningSettingsSchema,
+  lateFeeSettingsSchema,
+  referralSettingsSchema,
+  insertPromoCodeSchema,
+  quoteInputSchema,
+  selfSchedulingSettingsSchema,
+  quietHoursSchema,
+  routeStartTimeSchema,
+  notificationChannels,
+  messageTemplateBodySchema,
+  jobPhotoKinds,
+  type Invoice,
+  type Route,
+  type JobHistory,
+  type JobPhotoKind,
+  type JobPhotoLink,
 } from "@shared/schema";
 import { geocodeAddress, findBestFitDay, type Coordinates } from "./services/geocoding";
-import { generateMonthlyInvoices } from "./services/billing";
+import { activeBillingRun, billingPeriod, billingPlanSummary, invoiceCustomerNow, previewMonthlyBilling, retryBillingRun, runMonthlyBilling } from "./services/billing";
+import { createInvoiceWithLineItems, draftLine, ensureLineItems, recalculateInvoiceAmount, sumLines, withLineItems } from "./services/invoices";
 import { sendNightBeforeReminders } from "./services/reminders";
-import { notifyAdminOfNewBooking } from "./services/notifications";
+import { notifyAdminOfNewBooking, notifyAdminOfHoldRequest } from "./services/notifications";
+import { optimizeRoutesForDate, autoSplitDay } from "./services/dispatch";
+import { parseDeviceLocation, checkInFields, checkOutFields } from "./services/proofOfService";
+import { createPaymentLink } from "./services/paymentLinks";
+import { cancelDunningCase, openDunningCase, retryDunningCase } from "./services/dunning";
+import { buildAgingReport } from "./services/receivables";
+import { buildSalesTaxReport } from "./services/tax";
+import { applyPayment, customerAccount, invoiceAmountPaid, invoiceBalance, recordStripeInvoicePayment, recordStripePayment } from "./services/ledger";
+import { refundInvoicePayment, refundPayment, voidInvoice } from "./services/refunds";
+import { customerPromotions, ensureReferralCode, normalizeCode, redeemCode, referralProgramEnabled, resolveCode } from "./services/promotions";
+import { acceptQuote, createCustomerFromBooking, createQuote, declineQuote, quoteView, suggestServiceType } from "./services/quotes";
+import { confirmBookingSchedule, openSlots } from "./services/selfScheduling";
+import { getPhotoStore, saveJobPhoto, deleteJobPhotoFiles, photoLink } from "./services/photoStore";
+import { getSmsProvider, sendCustomerSms, sendSms } from "./services/messaging";
+import { sendEmail } from "./services/email";
+import { quoteEmail } from "./services/emailTemplates";
+import { listTemplates, renderMessage, restoreTemplateVersion, saveTemplate, templateVersions } from "./services/messageTemplates";
+import { cancelAnnouncement, recordAnnouncementReceipt, scheduleAnnouncement, segmentCustomers } from "./services/announcements";
+import {
+  alertStaff,
+  conversationMessages,
+  convertLeadToBooking,
+  convertLeadToCustomer,
+  customerConversation,
+  markConversationRead,
+  recordCustomerText,
+  recordLeadOptIn,
+  recordLeadText,
+  sendConversationText,
+} from "./services/inbox";
+import {
+  invoiceReceipt,
+  notified,
+  notifyFailure,
+  sendNewInvoice,
+  sendPaymentReceipt,
+  sendPortalInvite,
+  sendServiceComplete,
+} from "./services/customerNotifications";
+import {
+  appBaseUrl,
+  buildStatement,
+  invoicePdfUrl,
+  renderInvoicePdf,
+  renderStatementPdf,
+  verifyDocumentSignature,
+} from "./services/documents";
+import {
+  generateRoutesForActiveRules,
+  generateUpcomingRoutesForRule,
+  applyScheduleException,
+  releaseScheduleException,
+  applyBusinessClosures,
+  scheduledDayLocations,
+  notifyClosureChanges,
+  type ClosureChange,
+} from "./services/scheduling";
+import { DEFAULT_TIMEZONE, addDays, todayInTimeZone, toDateString } from "@shared/recurrence";
+import { isMessageTemplateKey } from "@shared/messageTemplates";
 import rateLimit from "express-rate-limit";
+import { format } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
 
 // Helper to generate cryptographically secure review token
 function generateSecureToken(): string {
   return randomBytes(32).toString('hex');
 }
 
-// Initialize Stripe - from Replit Stripe integration blueprint
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
+// When a field change was made on the device (offline changes are replayed later).
+// Falls back to now for missing, malformed, future or week-old timestamps.
+const MAX_OFFLINE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+function clientTimestamp(at: unknown): Date {
+  const now = new Date();
+  if (typeof at !== "string") return now;
+  const parsed = new Date(at);
+  if (isNaN(parsed.getTime()) || parsed > now || now.getTime() - parsed.getTime() > MAX_OFFLINE_AGE_MS) {
+    return now;
+  }
+  return parsed;
 }
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2025-10-29.clover",
-});
-
-// Telnyx setup - Using REST API (SDK v4.5.1 has issues)
-const telnyxApiKey = process.env.TELNYX_API_KEY;
-const telnyxPhoneNumber = process.env.TELNYX_PHONE_NUMBER;
 
-// Helper function to send SMS via Telnyx REST API
-async function sendTelnyxSMS(from: string, to: string, text: string): Promise<{ id: string }> {
-  if (!telnyxApiKey) {
-    throw new Error("Telnyx API key not configured");
+// Validate a base64 data-URL photo; returns an error message or null
+function photoError(photo: string, label: string): string | null {
+  const validTypes = ['data:image/jpeg', 'data:image/jpg', 'data:image/png', 'data:image/webp', 'data:image/gif'];
+  if (!photo || typeof photo !== 'string' || !validTypes.some(type => photo.startsWith(type))) {
+    return `${label} photo must be a valid image (JPEG, PNG, WebP, or GIF)`;
   }
-
-  const response = await fetch('https://api.telnyx.com/v2/messages', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${telnyxApiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ from, to, text })
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Telnyx API error (${response.status}): ${error}`);
+  // Max 5MB each when base64 encoded
+  if (photo.length > 7000000) {
+    return `${label} photo too large (max 5MB)`;
   }
-
-  const result = await response.json();
-  return { id: result.data.id };
+  return null;
 }
 
-if (telnyxApiKey && telnyxPhoneNumber) {
-  console.log("✅ Telnyx configured (using REST API)");
-  console.log(`📱 Phone: ${telnyxPhoneNumber}`);
-} else {
-  console.warn("⚠️  Telnyx not configured - SMS disabled");
+const MAX_PHOTOS_PER_UPLOAD = 10;
+
+interface PhotoUpload {
+  data: string;
+  kind: JobPhotoKind;
+  caption: string | null;
 }
 
-// Helper function to send SMS via Telnyx
-async function sendSMS(to: string, message: string) {
-  if (!telnyxApiKey || !telnyxPhoneNumber) {
-    console.log(`⚠️ SMS NOT SENT - Telnyx not configured. Would send to ${to}: ${message}`);
-    return;
+// Photos in an upload body: `photos: [{ data, kind, caption }]`, plus the older
+// `photoBefore`/`photoAfter` fields still sent by queued field-mode uploads
+function parsePhotoUploads(body: any): { photos: PhotoUpload[]; error?: string } {
+  const photos: PhotoUpload[] = [];
+  if (body.photoBefore) photos.push({ data: body.photoBefore, kind: "before", caption: null });
+  if (body.photoAfter) photos.push({ data: body.photoAfter, kind: "after", caption: null });
+  if (Array.isArray(body.photos)) {
+    for (const photo of body.photos) {
+      photos.push({
+        data: photo?.data,
+        kind: jobPhotoKinds.includes(photo?.kind) ? photo.kind : "other",
+        caption: typeof photo?.caption === "string" && photo.caption.trim() ? photo.caption.trim() : null,
+      });
+    }
   }
 
-  // Format phone number to E.164 format for US numbers (+1XXXXXXXXXX)
-  let cleanDigits = to.trim().replace(/\D/g, ''); // Remove all non-digits
-  
-  // Strict validation: ONLY accept 10 digits OR 11 digits starting with 1
-  let formattedPhone: string;
-  if (cleanDigits.length === 10) {
-    // Valid 10-digit US number → add +1 country code
-    formattedPhone = '+1' + cleanDigits;
-  } else if (cleanDigits.length === 11 && cleanDigits.startsWith('1')) {
-    // Valid 11-digit number with country code → add +
-    formattedPhone = '+' + cleanDigits;
-  } else {
-    // Invalid format - log error and return early (don't break workflows)
-    console.error(`❌ Invalid phone number format: "${to}" (${cleanDigits.length} digits after sanitization)`);
-    console.error(`   Expected: 10 digits (e.g., 7027877722) or 11 digits starting with 1 (e.g., 17027877722)`);
-    console.error(`   SMS NOT SENT. Please update customer record with valid US phone number.`);
-    return; // Return early - don't throw error to avoid breaking invoices/routes
+  if (photos.length === 0) return { photos, error: "No photos provided" };
+  if (photos.length > MAX_PHOTOS_PER_UPLOAD) return { photos, error: `Upload at most ${MAX_PHOTOS_PER_UPLOAD} photos at a time` };
+  for (const photo of photos) {
+    const label = photo.kind === "other" ? "Each" : photo.kind === "before" ? "Before" : "After";
+    const error = photoError(photo.data, label);
+    if (error) return { photos, error };
   }
+  return { photos };
+}
 
-  try {
-    const result = await sendTelnyxSMS(telnyxPhoneNumber, formattedPhone, message);
-    console.log(`✅ SMS sent successfully to ${formattedPhone} via Telnyx - ID: ${result.id}`);
-  } catch (error: any) {
-    console.error(`❌ Failed to send SMS to ${formattedPhone}:`, error.message);
-    // Don't rethrow - log error but allow workflow to continue
-    console.error(`   SMS delivery failed but workflow will continue`);
-  }
+// Job history as sent to clients: legacy base64 columns dropped, photos as authenticated links
+async function withPhotoLinks(jobs: JobHistory[]): Promise<Array<Omit<JobHistory, "photoBefore" | "photoAfter"> & { photos: JobPhotoLink[] }>> {
+  const photos = await storage.getJobPhotos(jobs.map(job => job.id));
+  return jobs.map(({ photoBefore, photoAfter, ...job }) => ({
+    ...job,
+    photos: photos.filter(photo => photo.jobHistoryId === job.id).map(photoLink),
+  }));
 }
 
-// Helper function to generate routes for a schedule rule
-async function generateRoutesForSchedule(rule: any, daysAhead: number): Promise<number> {
-  console.log(`🔄 Generating routes for schedule ${rule.id} - Days: ${JSON.stringify(rule.byDay)}, Frequency: ${rule.frequency}`);
-  
-  // Parse dtStart as local date (handles both "YYYY-MM-DD" and ISO timestamp formats)
-  // Use UTC accessors to preserve the calendar date, then convert to local midnight
-  const parsedDate = new Date(rule.dtStart);
-  const startDate = new Date(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate());
-  startDate.setHours(0, 0, 0, 0);
-  
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  // Start generating from today or dtStart, whichever is later
-  const generateFrom = startDate > today ? startDate : today;
-  
-  let routesCreated = 0;
-  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  
-  // Generate routes for the next 'daysAhead' days
-  for (let i = 0; i < daysAhead; i++) {
-    const targetDate = new Date(generateFrom);
-    targetDate.setDate(generateFrom.getDate() + i);
-    
-    const dayOfWeek = targetDate.getDay(); // 0=Sunday ... 6=Saturday
-    const targetDateStr = targetDate.toISOString().split("T")[0];
-    
-    // Check if day of week matches (byDay is an array of days)
-    if (!rule.byDay || !rule.byDay.includes(dayOfWeek)) {
-      continue;
-    }
-    
-    console.log(`   ✓ ${targetDateStr} (${dayNames[dayOfWeek]}) matches schedule days`);
-    
-    // Calculate if this date matches the schedule frequency
-    const daysDiff = Math.floor((targetDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    let shouldGenerate = false;
-    if (rule.frequency === "weekly") {
-      // For weekly schedules with multiple days, generate on matching days
-      shouldGenerate = daysDiff >= 0;
-    } else if (rule.frequency === "biweekly") {
-      // Biweekly: Generate routes every other week starting from the FIRST matching day
-      // Strategy: Find the first occurrence of the selected day on or after dtStart,
-      // then generate routes every 14 days (2 weeks) from that first occurrence
-      
-      // Find the first occurrence of this day of week on or after dtStart
-      const startDayOfWeek = startDate.getDay();
-      let daysUntilFirstOccurrence = dayOfWeek - startDayOfWeek;
-      if (daysUntilFirstOccurrence < 0) {
-        daysUntilFirstOccurrence += 7; // If the day already passed this week, go to next week
-      }
-      
-      // Calculate the first occurrence date
-      const firstOccurrence = new Date(startDate);
-      firstOccurrence.setDate(startDate.getDate() + daysUntilFirstOccurrence);
-      
-      // Calculate days from the first occurrence to the target date
-      const daysFromFirstOccurrence = Math.floor((targetDate.getTime() - firstOccurrence.getTime()) / (1000 * 60 * 60 * 24));
-      
-      // Generate if this is the first occurrence or exactly 14, 28, 42... days after (every 2 weeks)
-      shouldGenerate = daysFromFirstOccurrence >= 0 && daysFromFirstOccurrence % 14 === 0;
-      
-      if (shouldGenerate) {
-        console.log(`   📅 Biweekly: First occurrence ${firstOccurrence.toISOString().split('T')[0]}, target ${targetDateStr}, daysFromFirst=${daysFromFirstOccurrence}`);
-      }
-    } else if (rule.frequency === "one-time" || rule.frequency === "new-start") {
-      // Only generate once on the start date
-      shouldGenerate = daysDiff === 0;
-    }
-    
-    if (shouldGenerate) {
-      // Check if route already exists for this customer and date
-      const existingRoutes = await storage.getRoutesByDate(targetDateStr);
-      const alreadyExists = existingRoutes.some(r => r.customerId === rule.customerId);
-      
-      if (!alreadyExists) {
-        await storage.createRoute({
-          date: targetDateStr,
-          customerId: rule.customerId,
-          scheduleRuleId: rule.id, // Link route to the schedule that created it
-          scheduledTime: rule.windowStart,
-          status: "scheduled",
-          orderIndex: 0,
-        });
-        routesCreated++;
+// Technicians only work the stops assigned to them. `findRoute` maps the URL's id to its
+// route: undefined when the record doesn't exist (the handler 404s), null when it isn't
+// tied to a route (office-only).
+function requireAssigned(findRoute: (id: string) => Promise<Route | null | undefined>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as any;
+    if (user?.role !== "technician") return next();
+    try {
+      const route = await findRoute(req.params.id);
+      if (route === null || (route && route.technicianId !== user.id)) {
+        return res.status(403).json({ message: "This stop isn't assigned to you" });
       }
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
-  }
-  
-  return routesCreated;
+  };
+}
+
+async function routeOfJob(jobHistoryId: string): Promise<Route | null | undefined> {
+  const job = await storage.getJobHistory(jobHistoryId);
+  if (!job) return undefined;
+  return job.routeId ? (await storage.getRoute(job.routeId)) ?? null : null;
+}
+
+const requireAssignedRoute = requireAssigned(id => storage.getRoute(id));
+const requireAssignedJob = requireAssigned(routeOfJob);
+const requireAssignedPhoto = requireAssigned(async id => {
+  const photo = await storage.getJobPhoto(id);
+  return photo ? routeOfJob(photo.jobHistoryId) : undefined;
+});
+
+// Initialize Stripe - from Replit Stripe integration blueprint
+if (!process.env.STRIPE_SECRET_KEY) {
+  throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
 }
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-10-29.clover",
+});
+
+// Pick the SMS provider at startup so a misconfigured SMS_PROVIDER fails fast
+getSmsProvider();
 
 // ========== SSE MESSAGE STREAMS ==========
 const messageStreams = new Map<string, Set<import("express").Response>>();
@@ -220,9 +247,12 @@ function sseSend(customerId: string, payload: any) {
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // ========== SSE STREAM ENDPOINT ==========
+  // Customer threads stream by customerId; lead threads by conversationId
   app.get("/api/messages/stream", requireStaff, (req, res) => {
-    const customerId = String(req.query.customerId || "");
-    if (!customerId) return res.status(400).send("customerId required");
+    const customerId = req.query.customerId
+      ? String(req.query.customerId)
+      : req.query.conversationId ? `conversation:${req.query.conversationId}` : "";
+    if (!customerId) return res.status(400).send("customerId or conversationId required");
     res.setHeader("Content-Type", "text/event-stream");
     res.setHeader("Cache-Control", "no-cache, no-transform");
     res.setHeader("Connection", "keep-alive");
@@ -406,13 +436,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Return customer info (without password)
       const { portalPassword, ...customerWithoutPassword } = customer;
+      const settings = await storage.getSettings();
 
       res.json({
         customer: customerWithoutPassword,
-        invoices,
+        invoices: await withLineItems(invoices),
         routes,
-        jobHistory,
+        jobHistory: await withPhotoLinks(jobHistory),
         serviceType,
+        account: await customerAccount(customerId),
+        billingPlan: await billingPlanSummary(customer, serviceType),
+        referral: referralProgramEnabled(settings)
+          ? { code: await ensureReferralCode(customer), credit: settings.referralCredit, discount: settings.referralDiscount }
+          : null,
       });
     } catch (error: any) {
       console.error("Portal data error:", error);
@@ -495,7 +531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Reconcile payment after Stripe Checkout redirect (marks all invoices as paid)
+  // Reconcile payment after Stripe Checkout redirect (records the payment against the invoices)
   app.post("/api/portal/reconcile-payment", async (req, res) => {
     try {
       const portalCustomerId = (req.session as any).portalCustomerId;
@@ -541,35 +577,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Invalid invoice data in payment session" });
       }
       
-      // Mark all invoices as paid, with ownership verification
-      let successCount = 0;
+      // Record what the session took against the customer's invoices (voided ones stay void
+      // and their share is account credit), with ownership verification
+      const invoices: Invoice[] = [];
       const errors: string[] = [];
       
       for (const invoiceId of invoiceIds) {
+        const invoice = await storage.getInvoice(invoiceId);
+        if (!invoice) {
+          errors.push(`Invoice ${invoiceId} not found`);
+          continue;
+        }
+        if (invoice.customerId !== portalCustomerId) {
+          console.error(`Security: Invoice ${invoiceId} belongs to ${invoice.customerId}, not ${portalCustomerId}`);
+          errors.push(`Invoice ${invoiceId} ownership mismatch`);
+          continue;
+        }
+        invoices.push(invoice);
+      }
+
+      const paymentIntentId = typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+      let successCount = 0;
+      if (paymentIntentId) {
         try {
-          // Verify invoice belongs to this customer before marking paid
-          const invoice = await storage.getInvoice(invoiceId);
-          if (!invoice) {
-            errors.push(`Invoice ${invoiceId} not found`);
-            continue;
-          }
-          if (invoice.customerId !== portalCustomerId) {
-            console.error(`Security: Invoice ${invoiceId} belongs to ${invoice.customerId}, not ${portalCustomerId}`);
-            errors.push(`Invoice ${invoiceId} ownership mismatch`);
-            continue;
+          const recorded = await recordStripePayment(portalCustomerId, invoices, paymentIntentId, session.amount_total ?? 0);
+          if (recorded) {
+            console.log(`✅ $${recorded.payment.amount} recorded from checkout session for ${invoices.length} invoice(s)`);
           }
-          if (invoice.status === "paid") {
-            // Already paid, skip
-            successCount++;
-            continue;
-          }
-          
-          await storage.markInvoicePaid(invoiceId, session.payment_intent as string);
-          console.log(`✅ Invoice ${invoiceId} marked as paid from checkout session`);
-          successCount++;
+          successCount = invoices.filter(invoice => invoice.status !== "void").length;
         } catch (error: any) {
-          console.error(`Failed to mark invoice ${invoiceId} as paid:`, error.message);
-          errors.push(`Invoice ${invoiceId}: ${error.message}`);
+          console.error(`Failed to record checkout session ${sessionId}:`, error.message);
+          errors.push(error.message);
         }
       }
 
@@ -599,7 +637,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Only allow updating specific fields from portal
-      const { phone, email, gateCode, yardNotes, smsOptIn, autopayEnabled } = req.body;
+      const { phone, email, gateCode, yardNotes, smsOptIn, notificationChannel, autopayEnabled } = req.body;
       const updates: any = {};
 
       if (phone !== undefined) updates.phone = phone;
@@ -607,6 +645,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (gateCode !== undefined) updates.gateCode = gateCode;
       if (yardNotes !== undefined) updates.yardNotes = yardNotes;
       if (smsOptIn !== undefined) updates.smsOptIn = smsOptIn;
+      if (notificationChannel !== undefined) {
+        if (!notificationChannels.includes(notificationChannel)) {
+          return res.status(400).json({ message: "Invalid notification channel" });
+        }
+        updates.notificationChannel = notificationChannel;
+      }
       if (autopayEnabled !== undefined) updates.autopayEnabled = autopayEnabled;
 
       const customer = await storage.updateCustomer(customerId, updates);
@@ -619,6 +663,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the portal customer's vacation holds
+  app.get("/api/portal/holds", async (req, res) => {
+    try {
+      const customerId = (req.session as any).portalCustomerId;
+      
+      if (!customerId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const holds = await storage.getScheduleExceptionsByCustomer(customerId);
+      res.json(holds);
+    } catch (error: any) {
+      console.error("Portal holds error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Request a vacation hold from the portal (staff approve it)
+  app.post("/api/portal/holds", async (req, res) => {
+    try {
+      const customerId = (req.session as any).portalCustomerId;
+      
+      if (!customerId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const customer = await storage.getCustomer(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const { startDate, endDate, notes } = req.body;
+      const parsed = insertScheduleExceptionSchema.safeParse({
+        customerId,
+        startDate,
+        endDate,
+        notes: notes || null,
+        reason: "vacation",
+        status: "pending",
+        requestedBy: "customer",
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid hold request" });
+      }
+      if (parsed.data.startDate < todayInTimeZone(DEFAULT_TIMEZONE)) {
+        return res.status(400).json({ message: "Start date cannot be in the past" });
+      }
+
+      const exception = await storage.createScheduleException(parsed.data);
+      await notifyAdminOfHoldRequest(exception, customer);
+
+      res.status(201).json(exception);
+    } catch (error: any) {
+      console.error("Portal hold request error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   // ========== USER MANAGEMENT ROUTES (Admin only) ==========
   // Get all users
   app.get("/api/users", requireAdmin, async (_req, res) => {
@@ -632,6 +734,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Users who can be assigned routes
+  app.get("/api/technicians", requireStaff, async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const technicians = users
+        .filter(user => user.role === "technician" || user.role === "staff")
+        .map(({ password, ...user }) => user);
+      res.json(technicians);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Create new user (Admin only)
   app.post("/api/users", requireAdmin, async (req, res) => {
     try {
@@ -691,120 +806,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ========== ROUTE OPTIMIZATION ==========
-  app.post("/api/routes/optimize", async (req, res) => {
+  app.post("/api/routes/optimize", requireStaff, async (req, res) => {
     try {
-      const { date } = req.body;
+      const { date, technicianId } = req.body;
       
       if (!date) {
         return res.status(400).json({ message: "Date is required" });
       }
-
-      const routes = await storage.getRoutesByDate(date);
-      
-      if (routes.length === 0) {
-        return res.json({ message: "No routes to optimize" });
+      const parsed = routeStartTimeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
+      const { startTime } = parsed.data;
 
-      // Get settings for start/end locations
-      const settings = await storage.getSettings();
-      const hasStartLocation = settings?.routeStartLat && settings?.routeStartLng;
-
-      // Get customer details for all routes
-      const routesWithCustomers = await Promise.all(
-        routes.map(async (route) => {
-          const customer = await storage.getCustomer(route.customerId);
-          return { route, customer };
-        })
-      );
-
-      // Calculate distance between two coordinates (Haversine formula)
-      const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-        const R = 3959; // Earth's radius in miles
-        const dLat = (lat2 - lat1) * Math.PI / 180;
-        const dLng = (lng2 - lng1) * Math.PI / 180;
-        const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-                  Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                  Math.sin(dLng/2) * Math.sin(dLng/2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-        return R * c;
-      };
-
-      let optimized;
-
-      if (hasStartLocation) {
-        // Use nearest neighbor algorithm starting from the configured start location
-        const startLat = parseFloat(settings.routeStartLat as string);
-        const startLng = parseFloat(settings.routeStartLng as string);
-        
-        // Filter to customers with valid coordinates
-        const withCoords = routesWithCustomers.filter(rc => 
-          rc.customer?.lat && rc.customer?.lng
-        );
-        const withoutCoords = routesWithCustomers.filter(rc => 
-          !rc.customer?.lat || !rc.customer?.lng
-        );
-
-        // Nearest neighbor algorithm
-        const ordered: typeof withCoords = [];
-        let remaining = [...withCoords];
-        let currentLat = startLat;
-        let currentLng = startLng;
-
-        while (remaining.length > 0) {
-          // Find the nearest customer to the current position
-          let nearestIdx = 0;
-          let nearestDist = Infinity;
-
-          for (let i = 0; i < remaining.length; i++) {
-            const customer = remaining[i].customer!;
-            const dist = calculateDistance(
-              currentLat, currentLng,
-              parseFloat(customer.lat as string),
-              parseFloat(customer.lng as string)
-            );
-            if (dist < nearestDist) {
-              nearestDist = dist;
-              nearestIdx = i;
-            }
-          }
+      const result = await optimizeRoutesForDate(date, {
+        technicianId: technicianId === "unassigned" ? null : technicianId,
+        startTime,
+      });
+      const updatedRoutes = await storage.getRoutesByDate(date);
+      res.json({ ...result, routes: updatedRoutes });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          // Add the nearest customer to the ordered list
-          const nearest = remaining[nearestIdx];
-          ordered.push(nearest);
-          currentLat = parseFloat(nearest.customer!.lat as string);
-          currentLng = parseFloat(nearest.customer!.lng as string);
-          remaining.splice(nearestIdx, 1);
-        }
+  // Split the day's scheduled stops across technicians and optimize each list
+  app.post("/api/routes/auto-split", requireStaff, async (req, res) => {
+    try {
+      const { date, technicianIds } = req.body;
 
-        // Combine optimized routes with those that couldn't be geocoded
-        optimized = [...ordered, ...withoutCoords];
-        
-        console.log(`🗺️ Optimized ${ordered.length} routes using start location, ${withoutCoords.length} without coordinates`);
-      } else {
-        // Fallback: alphabetical by address
-        optimized = routesWithCustomers.sort((a, b) => {
-          if (!a.customer || !b.customer) return 0;
-          return a.customer.address.localeCompare(b.customer.address);
-        });
-        console.log("🗺️ Optimized routes alphabetically (no start location configured)");
+      if (!date) {
+        return res.status(400).json({ message: "Date is required" });
+      }
+      const parsed = routeStartTimeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { startTime } = parsed.data;
+      if (!Array.isArray(technicianIds) || technicianIds.length === 0) {
+        return res.status(400).json({ message: "Select at least one technician" });
       }
 
-      // Update order indexes
-      await Promise.all(
-        optimized.map(({ route }, index) =>
-          storage.updateRoute(route.id, { orderIndex: index })
-        )
-      );
+      const users = await Promise.all(technicianIds.map((id: string) => storage.getUser(id)));
+      if (users.some(user => !user || user.role === "customer")) {
+        return res.status(400).json({ message: "One or more technicians not found" });
+      }
 
+      const result = await autoSplitDay(date, technicianIds, { startTime });
       const updatedRoutes = await storage.getRoutesByDate(date);
-      res.json(updatedRoutes);
+      res.json({ ...result, routes: updatedRoutes });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // ========== ROUTE REORDER ==========
-  app.post("/api/routes/reorder", async (req, res) => {
+  app.post("/api/routes/reorder", requireStaff, async (req, res) => {
     try {
       const { routeIds } = req.body;
       
@@ -851,44 +908,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ========== PHOTO UPLOAD ROUTE ==========
-  app.post("/api/job-history/:id/photos", async (req, res) => {
+  // ========== JOB PHOTO ROUTES ==========
+  app.get("/api/job-history/:id/photos", requireFieldUser, requireAssignedJob, async (req, res) => {
     try {
-      const { photoBefore, photoAfter } = req.body;
-      
-      // Validate photo is base64 encoded image
-      const isValidImage = (base64: string) => {
-        if (!base64 || typeof base64 !== 'string') return false;
-        // Check for valid image MIME types in base64 prefix
-        const validTypes = ['data:image/jpeg', 'data:image/jpg', 'data:image/png', 'data:image/webp', 'data:image/gif'];
-        return validTypes.some(type => base64.startsWith(type));
-      };
-      
-      // Validate photo size (max 5MB each when base64 encoded)
-      if (photoBefore) {
-        if (!isValidImage(photoBefore)) {
-          return res.status(400).json({ message: "Before photo must be a valid image (JPEG, PNG, WebP, or GIF)" });
-        }
-        if (photoBefore.length > 7000000) {
-          return res.status(400).json({ message: "Before photo too large (max 5MB)" });
-        }
+      const photos = await storage.getJobPhotos([req.params.id]);
+      res.json(photos.map(photoLink));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/job-history/:id/photos", requireFieldUser, requireAssignedJob, async (req, res) => {
+    try {
+      const { photos, error } = parsePhotoUploads(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
       }
-      
-      if (photoAfter) {
-        if (!isValidImage(photoAfter)) {
-          return res.status(400).json({ message: "After photo must be a valid image (JPEG, PNG, WebP, or GIF)" });
-        }
-        if (photoAfter.length > 7000000) {
-          return res.status(400).json({ message: "After photo too large (max 5MB)" });
+
+      const job = await storage.getJobHistory(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job history not found" });
+      }
+
+      const saved = [];
+      for (const photo of photos) {
+        saved.push(await saveJobPhoto({
+          jobHistoryId: job.id,
+          dataUrl: photo.data,
+          kind: photo.kind,
+          caption: photo.caption,
+          uploadedBy: (req.user as any)?.id || null,
+        }));
+      }
+      res.status(201).json(saved.map(photoLink));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Attach photos by route (field mode queues these before it knows the job history id)
+  app.post("/api/routes/:id/photos", requireFieldUser, requireAssignedRoute, async (req, res) => {
+    try {
+      const { photos, error } = parsePhotoUploads(req.body);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const jobHistory = await storage.getAllJobHistory();
+      const job = jobHistory.find(j => j.routeId === req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: "Service hasn't been started for this stop" });
+      }
+
+      const saved = [];
+      for (const photo of photos) {
+        saved.push(await saveJobPhoto({
+          jobHistoryId: job.id,
+          dataUrl: photo.data,
+          kind: photo.kind,
+          caption: photo.caption,
+          uploadedBy: (req.user as any)?.id || null,
+        }));
+      }
+      res.status(201).json(saved.map(photoLink));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Serve a photo (or its thumbnail with ?size=thumb) to staff, or to the portal customer it belongs to
+  app.get("/api/photos/:id", async (req, res) => {
+    try {
+      const isStaff = req.isAuthenticated() && ["admin", "staff", "technician"].includes((req.user as any)?.role);
+      const portalCustomerId = (req.session as any).portalCustomerId;
+      if (!isStaff && !portalCustomerId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const photo = await storage.getJobPhoto(req.params.id);
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      if (!isStaff) {
+        const job = await storage.getJobHistory(photo.jobHistoryId);
+        if (job?.customerId !== portalCustomerId) {
+          return res.status(404).json({ message: "Photo not found" });
         }
       }
-      
-      const updated = await storage.updateJobHistory(req.params.id, {
-        photoBefore,
-        photoAfter,
-      });
-      
-      res.json(updated);
+
+      const data = await getPhotoStore().get(req.query.size === "thumb" ? photo.thumbnailKey : photo.storageKey);
+      if (!data) {
+        return res.status(404).json({ message: "Photo file missing" });
+      }
+      res.set("Content-Type", photo.contentType);
+      res.set("Cache-Control", "private, max-age=86400");
+      res.send(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/photos/:id", requireFieldUser, requireAssignedPhoto, async (req, res) => {
+    try {
+      const { caption } = req.body;
+      if (caption !== null && typeof caption !== "string") {
+        return res.status(400).json({ message: "Caption must be text" });
+      }
+      const photo = await storage.updateJobPhoto(req.params.id, { caption: caption?.trim() || null });
+      res.json(photoLink(photo));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/photos/:id", requireFieldUser, requireAssignedPhoto, async (req, res) => {
+    try {
+      const photo = await storage.getJobPhoto(req.params.id);
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      await storage.deleteJobPhoto(photo.id);
+      await deleteJobPhotoFiles(photo);
+      res.json({ message: "Photo deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -923,6 +1064,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`📅 Schedule data received:`, JSON.stringify(schedule));
       
       const validated = insertCustomerSchema.parse(customerData);
+      if (validated.billingPlan === "prepaid_package" && !validated.packageStartDate) {
+        validated.packageStartDate = todayInTimeZone(DEFAULT_TIMEZONE);
+      }
       const customer = await storage.createCustomer(validated);
       
       // If schedule data is provided, create schedule rule and generate initial routes
@@ -935,15 +1079,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           byDay: schedule.byDay,
           windowStart: schedule.windowStart || "08:00",
           windowEnd: schedule.windowEnd || "12:00",
-          dtStart: new Date().toISOString().split('T')[0],
+          dtStart: todayInTimeZone(DEFAULT_TIMEZONE),
           paused: false,
         });
         
         console.log(`✅ Schedule rule created: ${scheduleRule.id}, frequency: ${scheduleRule.frequency}`);
         
         // Generate routes for the next 60 days
-        const routeCount = await generateRoutesForSchedule(scheduleRule, 60);
-        console.log(`🛣️ Generated ${routeCount} routes for schedule ${scheduleRule.id}`);
+        const { routes: generatedRoutes, closureChanges } = await generateUpcomingRoutesForRule(scheduleRule, 60);
+        console.log(`🛣️ Generated ${generatedRoutes.length} routes for schedule ${scheduleRule.id}`);
+        if (closureChanges.length > 0) {
+          await notifyClosureChanges(closureChanges);
+        }
       }
       
       res.status(201).json(customer);
@@ -957,6 +1104,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Validate input data (allow partial updates)
       const validated = insertCustomerSchema.partial().parse(req.body);
+
+      // Visits from the day a customer moves to prepaid packages draw on them
+      if (validated.billingPlan === "prepaid_package" && !validated.packageStartDate) {
+        const existing = await storage.getCustomer(req.params.id);
+        if (existing && existing.billingPlan !== "prepaid_package") {
+          validated.packageStartDate = todayInTimeZone(DEFAULT_TIMEZONE);
+        }
+      }
       const customer = await storage.updateCustomer(req.params.id, validated);
       
       // If customer is being archived/inactivated, pause all their schedules AND remove future routes
@@ -986,12 +1141,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Regenerate routes for the next 60 days for all unpaused schedules
         let totalRoutes = 0;
+        const changes: ClosureChange[] = [];
         for (const schedule of schedules) {
           if (!schedule.paused) {
-            const routesGenerated = await generateRoutesForSchedule(schedule, 60);
-            totalRoutes += routesGenerated;
+            const { routes: routesGenerated, closureChanges } = await generateUpcomingRoutesForRule(schedule, 60);
+            totalRoutes += routesGenerated.length;
+            changes.push(...closureChanges);
           }
         }
+        if (changes.length > 0) {
+          await notifyClosureChanges(changes);
+        }
         
         console.log(`✅ Reactivated customer ${customer.name}: Unpaused ${schedules.length} schedules and generated ${totalRoutes} new routes`);
       }
@@ -1047,7 +1207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin: Send portal invite SMS to customer
+  // Admin: Send portal invite to customer (SMS and/or email, per their preference)
   app.post("/api/customers/:id/send-portal-invite", requireAdmin, async (req, res) => {
     try {
       const customer = await storage.getCustomer(req.params.id);
@@ -1055,36 +1215,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Customer not found" });
       }
 
-      if (!customer.phone) {
-        return res.status(400).json({ message: "Customer has no phone number on file" });
-      }
-
-      if (!customer.smsOptIn) {
-        return res.status(400).json({ message: "Customer has not opted in for SMS notifications" });
-      }
-
-      // Generate the portal URL from environment or settings
-      // Priority: APP_BASE_URL env var > REPLIT_DEV_DOMAIN > deployed Render URL
-      let baseUrl = process.env.APP_BASE_URL;
-      if (!baseUrl && process.env.REPLIT_DEV_DOMAIN) {
-        baseUrl = `https://${process.env.REPLIT_DEV_DOMAIN}`;
-      }
-      if (!baseUrl) {
-        baseUrl = 'https://sillydog-app.onrender.com';
-      }
-      const portalUrl = `${baseUrl}/portal/login`;
-
-      // Create message based on whether they already have portal access
-      let message: string;
-      if (customer.portalPassword) {
-        message = `Hi ${customer.name}! Access your SillyDog customer portal anytime at ${portalUrl}. Log in with your email address to view services, invoices, and manage your account.`;
-      } else {
-        message = `Hi ${customer.name}! You're invited to the SillyDog customer portal! Visit ${portalUrl} to sign up. You'll be able to view your service schedule, pay invoices, and manage your account.`;
+      const result = await sendPortalInvite(customer);
+      if (!notified(result)) {
+        return res.status(400).json({ message: notifyFailure(customer, result) });
       }
 
-      await sendSMS(customer.phone, message);
-
-      console.log(`✅ Portal invite SMS sent to ${customer.name} at ${customer.phone}`);
+      console.log(`✅ Portal invite sent to ${customer.name}`);
       res.json({ success: true, message: `Portal invite sent to ${customer.name}` });
     } catch (error: any) {
       console.error("Failed to send portal invite:", error);
@@ -1109,9 +1245,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Send opt-in invitation message
-      const message = `Hi ${customer.name}! This is SillyDog Pooper Scooper Services. Reply START to receive service updates and reminders via text. Reply STOP anytime to opt out. Msg & data rates may apply.`;
+      const message = await renderMessage("opt_in_invite", { name: customer.name });
 
-      await sendSMS(customer.phone, message);
+      const sms = await sendCustomerSms(customer, message, { skipOptIn: true });
+      if (sms.status === "skipped" || sms.status === "failed") {
+        return res.status(400).json({ message: sms.reason });
+      }
 
       console.log(`✅ Opt-in invite SMS sent to ${customer.name} at ${customer.phone}`);
       res.json({ success: true, message: `Opt-in invitation sent to ${customer.name}` });
@@ -1153,32 +1292,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ========== ROUTE ROUTES ==========
-  app.get("/api/routes", async (req, res) => {
+  // Technicians only see the stops assigned to them; staff can filter by technician
+  // ("unassigned" for routes with no technician)
+  const filterRoutesForUser = (routes: Route[], user: any, technicianId?: unknown) => {
+    if (user?.role === "technician") {
+      return routes.filter(route => route.technicianId === user.id);
+    }
+    if (technicianId === "unassigned") {
+      return routes.filter(route => !route.technicianId);
+    }
+    if (technicianId && typeof technicianId === "string") {
+      return routes.filter(route => route.technicianId === technicianId);
+    }
+    return routes;
+  };
+
+  app.get("/api/routes", requireFieldUser, async (req, res) => {
     try {
-      const { date } = req.query;
+      const { date, technicianId } = req.query;
       let routes;
       if (date && typeof date === "string") {
         routes = await storage.getRoutesByDate(date);
       } else {
         routes = await storage.getAllRoutes();
       }
-      res.json(routes);
+      res.json(filterRoutesForUser(routes, req.user, technicianId));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/routes/today", async (req, res) => {
+  app.get("/api/routes/today", requireFieldUser, async (req, res) => {
     try {
       const today = new Date().toISOString().split("T")[0];
       const routes = await storage.getRoutesByDate(today);
-      res.json(routes);
+      res.json(filterRoutesForUser(routes, req.user, req.query.technicianId));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/routes/:id", async (req, res) => {
+  // Assign a route to a technician (null to unassign). The route goes to the end of their list.
+  app.patch("/api/routes/:id/assign", requireStaff, async (req, res) => {
+    try {
+      const technicianId: string | null = req.body.technicianId || null;
+      const route = await storage.getRoute(req.params.id);
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+
+      if (technicianId) {
+        const technician = await storage.getUser(technicianId);
+        if (!technician || technician.role === "customer") {
+          return res.status(400).json({ message: "Technician not found" });
+        }
+      }
+
+      const technicianRoutes = (await storage.getRoutesByDate(route.date))
+        .filter(r => r.id !== route.id && (r.technicianId ?? null) === technicianId);
+      const orderIndex = technicianRoutes.reduce((max, r) => Math.max(max, r.orderIndex + 1), 0);
+
+      const updated = await storage.updateRoute(route.id, { technicianId, orderIndex });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/routes/:id", requireFieldUser, requireAssignedRoute, async (req, res) => {
     try {
       const route = await storage.getRoute(req.params.id);
       if (!route) {
@@ -1200,10 +1381,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/routes/:id/status", async (req, res) => {
+  app.patch("/api/routes/:id/status", requireFieldUser, requireAssignedRoute, async (req, res) => {
     try {
-      const { status } = req.body;
-      const route = await storage.updateRouteStatus(req.params.id, status);
+      const { status, expectedStatus, at } = req.body;
+      const location = parseDeviceLocation(req.body.location);
+
+      // Replayed offline change: only apply it if nobody else moved the route on meanwhile
+      if (expectedStatus) {
+        const current = await storage.getRoute(req.params.id);
+        if (!current) {
+          return res.status(404).json({ message: "Route not found" });
+        }
+        if (current.status === status) {
+          return res.json(current); // Already applied (e.g. response was lost on a bad connection)
+        }
+        if (current.status !== expectedStatus) {
+          return res.status(409).json({ message: `Route is already ${current.status.replace("_", " ")}`, route: current });
+        }
+      }
+
+      const route = await storage.updateRouteStatus(req.params.id, status, clientTimestamp(at));
       
       // Get customer info for SMS notifications
       const customer = await storage.getCustomer(route.customerId);
@@ -1218,8 +1415,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             serviceDate: route.date,
             smsInRouteSent: false, // Will be updated when "On My Way" SMS is sent
             smsCompleteSent: false,
+            ...checkInFields(location, customer),
           });
         } else if (status === "completed") {
+          const settings = await storage.getSettings();
+
           // Create pending review record with secure token
           const reviewToken = generateSecureToken();
           const pendingReview = await storage.createReview({
@@ -1233,32 +1433,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
             status: "pending",
           });
           
-          if (customer.smsOptIn && customer.phone) {
-            const baseUrl = process.env.PUBLIC_BASE_URL || `https://${process.env.REPLIT_DEV_DOMAIN || 'localhost:5000'}`;
-            const reviewUrl = `${baseUrl}/review/${reviewToken}`;
-            
-            // Get customizable message template from settings
-            const settings = await storage.getSettings();
-            const messageTemplate = settings?.smsServiceCompleteMessage || "Service complete at {address}! Your yard is all cleaned up. How did we do? Leave us a review: {reviewUrl}";
-            
-            // Replace placeholders with actual values
-            const message = messageTemplate
-              .replace(/\{name\}/g, customer.name)
-              .replace(/\{address\}/g, customer.address || "your location")
-              .replace(/\{reviewUrl\}/g, reviewUrl);
-            
-            await sendSMS(customer.phone, message);
-            console.log(`✅ "Service Complete" SMS sent to ${customer.name} with review link`);
+          const baseUrl = process.env.PUBLIC_BASE_URL || `https://${process.env.REPLIT_DEV_DOMAIN || 'localhost:5000'}`;
+          const reviewUrl = `${baseUrl}/review/${reviewToken}`;
+          
+          // SMS (the service_complete template) and/or email, per the customer's notification preference
+          const notice = await sendServiceComplete(customer, reviewUrl);
+          if (notified(notice)) {
+            console.log(`✅ "Service Complete" sent to ${customer.name} with review link`);
           } else {
-            console.log(`ℹ️ "Service Complete" SMS NOT sent to ${customer.name} - SMS Opt-In: ${customer.smsOptIn}, Phone: ${customer.phone ? 'Yes' : 'No'}`);
+            console.log(`ℹ️ "Service Complete" NOT sent to ${customer.name}: ${notifyFailure(customer, notice)}`);
           }
           
-          // Update job history
+          // Update job history with the check-out location and geofence verdict
+          const completion = {
+            smsCompleteSent: notice.sms?.status === "sent" || notice.sms?.status === "queued",
+            ...checkOutFields(location, customer, settings?.geofenceRadiusFeet ?? 500),
+          };
           const jobHistory = await storage.getAllJobHistory();
           const job = jobHistory.find(j => j.routeId === route.id);
           if (job) {
-            await storage.updateJobHistory(job.id, {
-              smsCompleteSent: customer.smsOptIn && !!customer.phone,
+            await storage.updateJobHistory(job.id, completion);
+          } else {
+            // Completed without being started - still keep a record of where it happened
+            await storage.createJobHistory({
+              customerId: customer.id,
+              routeId: route.id,
+              serviceDate: route.date,
+              smsInRouteSent: false,
+              ...completion,
             });
           }
         }
@@ -1271,7 +1473,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send "On My Way" notification to customer
-  app.post("/api/routes/:id/notify-on-way", async (req, res) => {
+  app.post("/api/routes/:id/notify-on-way", requireFieldUser, requireAssignedRoute, async (req, res) => {
     try {
       const route = await storage.getRoute(req.params.id);
       if (!route) {
@@ -1291,16 +1493,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer has no phone number on file" });
       }
 
-      // Get customizable message template from settings
-      const settings = await storage.getSettings();
-      const messageTemplate = settings?.smsOnMyWayMessage || "Hi {name}! Your SillyDog technician is on the way to {address}. We'll be there shortly! 🐕";
-      
-      // Replace placeholders with actual values
-      const message = messageTemplate
-        .replace(/\{name\}/g, customer.name)
-        .replace(/\{address\}/g, customer.address || "your location");
+      const message = await renderMessage("on_my_way", { name: customer.name, address: customer.address || "your location" });
 
-      await sendSMS(customer.phone, message);
+      const sms = await sendCustomerSms(customer, message, { urgent: true });
+      if (sms.status === "skipped" || sms.status === "failed") {
+        return res.status(400).json({ message: sms.reason });
+      }
 
       console.log(`✅ "On My Way" SMS sent to ${customer.name} at ${customer.phone}`);
       res.json({ success: true, message: `"On My Way" notification sent to ${customer.name}` });
@@ -1338,18 +1536,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ========== TIMER ROUTES ==========
-  app.post("/api/routes/:id/timer/start", async (req, res) => {
+  app.post("/api/routes/:id/timer/start", requireFieldUser, requireAssignedRoute, async (req, res) => {
     try {
-      const route = await storage.updateRoute(req.params.id, {
-        timerStartedAt: new Date().toISOString(),
-      });
-      res.json(route);
-    } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      const startedAt = clientTimestamp(req.body?.at);
+
+      // Replayed offline start: don't restart a timer that's already running
+      if (req.body?.at) {
+        const current = await storage.getRoute(req.params.id);
+        if (!current) {
+          return res.status(404).json({ message: "Route not found" });
+        }
+        if (current.timerStartedAt) {
+          if (new Date(current.timerStartedAt).getTime() === startedAt.getTime()) {
+            return res.json(current);
+          }
+          return res.status(409).json({ message: "Timer was already started", route: current });
+        }
+      }
+
+      const route = await storage.updateRoute(req.params.id, {
+        timerStartedAt: startedAt.toISOString(),
+      });
+      res.json(route);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
     }
   });
 
-  app.post("/api/routes/:id/timer/stop", async (req, res) => {
+  app.post("/api/routes/:id/timer/stop", requireFieldUser, requireAssignedRoute, async (req, res) => {
     try {
       const route = await storage.getRoute(req.params.id);
       if (!route) {
@@ -1360,7 +1574,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Timer has not been started" });
       }
 
-      const stoppedAt = new Date();
+      const stoppedAt = clientTimestamp(req.body?.at);
+      if (req.body?.at && route.timerStoppedAt) {
+        if (new Date(route.timerStoppedAt).getTime() === stoppedAt.getTime()) {
+          return res.json({
+            route,
+            durationMinutes: Math.round((stoppedAt.getTime() - new Date(route.timerStartedAt).getTime()) / 60000),
+            calculatedCost: parseFloat(route.calculatedCost || "0"),
+          });
+        }
+        return res.status(409).json({ message: "Timer was already stopped", route });
+      }
+
       const startedAt = new Date(route.timerStartedAt);
       const durationMinutes = Math.round((stoppedAt.getTime() - startedAt.getTime()) / 60000);
 
@@ -1450,7 +1675,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         invoices = await storage.getAllInvoices();
       }
-      res.json(invoices);
+      res.json(await withLineItems(invoices));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -1462,24 +1687,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
-      res.json(invoice);
+      const [withLines] = await withLineItems([invoice]);
+      res.json(withLines);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/invoices/:id/lines", async (req, res) => {
+    try {
+      const lines = await storage.getInvoiceLineItems([req.params.id]);
+      res.json(lines);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Add an extra, credit or discount to an open invoice; the amount is re-derived from its lines
+  app.post("/api/invoices/:id/lines", requireStaff, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "paid" || invoice.status === "void") {
+        return res.status(400).json({ message: `${invoice.status === "paid" ? "Paid" : "Void"} invoices can't be changed` });
+      }
+
+      const line = draftLine(invoiceLineInputSchema.parse(req.body));
+      const existing = await ensureLineItems(invoice);
+      if (parseFloat(sumLines([...existing, line])) < 0) {
+        return res.status(400).json({ message: "Credits and discounts can't exceed the invoice total" });
+      }
+
+      const sortOrder = existing.reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+      await storage.createInvoiceLineItems([{ ...line, invoiceId: invoice.id, sortOrder }]);
+      res.status(201).json(await recalculateInvoiceAmount(invoice.id));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/invoices/:id/lines/:lineId", requireStaff, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "paid" || invoice.status === "void") {
+        return res.status(400).json({ message: `${invoice.status === "paid" ? "Paid" : "Void"} invoices can't be changed` });
+      }
+
+      const existing = await storage.getInvoiceLineItems([invoice.id]);
+      const line = existing.find(item => item.id === req.params.lineId);
+      if (!line) {
+        return res.status(404).json({ message: "Line item not found" });
+      }
+      if (line.kind === "tax") {
+        return res.status(400).json({ message: "Sales tax is recalculated from the taxable lines" });
+      }
+      if (parseFloat(sumLines(existing.filter(item => item.id !== line.id))) < 0) {
+        return res.status(400).json({ message: "Remove the credits and discounts first" });
+      }
+
+      await storage.deleteInvoiceLineItem(line.id);
+      res.json(await recalculateInvoiceAmount(invoice.id));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   app.post("/api/invoices", async (req, res) => {
     try {
-      const validated = insertInvoiceSchema.parse(req.body);
-      const invoice = await storage.createInvoice(validated);
+      // Either itemized lines, or a single amount/description (recorded as one line)
+      const { amount, lineItems, ...validated } = insertInvoiceSchema.extend({
+        amount: z.string().optional(),
+        lineItems: z.array(invoiceLineInputSchema).optional(),
+      }).parse(req.body);
+      const lines = lineItems?.length
+        ? lineItems.map(draftLine)
+        : [draftLine({
+            kind: "other",
+            description: validated.description || "Service",
+            quantity: 1,
+            unitPrice: parseFloat(amount || ""),
+          })];
+      if (lines.some(line => isNaN(parseFloat(line.amount)))) {
+        return res.status(400).json({ message: "Invoice amount is required" });
+      }
+      if (parseFloat(sumLines(lines)) < 0) {
+        return res.status(400).json({ message: "Credits and discounts can't exceed the invoice total" });
+      }
+      const invoice = await createInvoiceWithLineItems(validated, lines);
       
-      // Send SMS notification about new invoice
+      // Send new invoice notice (SMS and/or email)
       const customer = await storage.getCustomer(invoice.customerId);
       if (customer) {
-        await sendSMS(
-          customer.phone,
-          `New invoice #${invoice.invoiceNumber} for $${parseFloat(invoice.amount).toFixed(2)} is now available. Due date: ${invoice.dueDate}. Thank you!`
-        );
+        await sendNewInvoice(customer, invoice);
       }
       
       res.status(201).json(invoice);
@@ -1513,29 +1817,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Mark invoice as paid after successful payment
+  // Record a card payment taken in the portal with Stripe Elements. The payment intent is
+  // checked with Stripe, so only money Stripe received for this invoice is recorded.
   app.post("/api/invoices/:id/pay", async (req, res) => {
     try {
-      const { paymentIntentId } = req.body;
-      const invoice = await storage.markInvoicePaid(req.params.id, paymentIntentId);
-      
-      // Send payment confirmation SMS
+      const { paymentIntentId } = z.object({ paymentIntentId: z.string().min(1, "Payment intent is required") }).parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "void") {
+        return res.status(400).json({ message: "This invoice was voided" });
+      }
+
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      let invoiceIds: string[] = [];
+      try {
+        invoiceIds = JSON.parse(paymentIntent.metadata?.invoiceIds || "[]");
+      } catch {
+        invoiceIds = [];
+      }
+      if (paymentIntent.status !== "succeeded" || !Array.isArray(invoiceIds) || !invoiceIds.includes(invoice.id)) {
+        return res.status(400).json({ message: "This payment wasn't made for this invoice" });
+      }
+
+      // One payment intent can cover several of the customer's invoices
+      const invoices = (await Promise.all(invoiceIds.map(id => storage.getInvoice(id))))
+        .filter((paid): paid is Invoice => !!paid && paid.customerId === invoice.customerId);
+      const recorded = await recordStripePayment(invoice.customerId, invoices, paymentIntent.id, paymentIntent.amount_received);
+
       const customer = await storage.getCustomer(invoice.customerId);
-      if (customer) {
-        await sendSMS(
-          customer.phone,
-          `Payment received! Invoice #${invoice.invoiceNumber} for $${parseFloat(invoice.amount).toFixed(2)} has been paid. Thank you!`
-        );
+      if (recorded && customer) {
+        await sendPaymentReceipt(customer, { amount: recorded.payment.amount, method: "Card" });
       }
       
-      res.json(invoice);
+      res.json((await storage.getInvoice(invoice.id)) ?? invoice);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.delete("/api/invoices/:id", async (req, res) => {
+  app.delete("/api/invoices/:id", requireAdmin, async (req, res) => {
     try {
+      // Once money has touched an invoice it's voided instead, so the account keeps its history
+      const invoice = await storage.getInvoice(req.params.id);
+      if (invoice && (invoice.status === "paid" || (await storage.getPaymentApplicationsByInvoice(invoice.id)).length > 0)) {
+        return res.status(400).json({ message: "This invoice has payments recorded. Void it instead." });
+      }
       await storage.deleteInvoice(req.params.id);
       res.json({ message: "Invoice deleted successfully" });
     } catch (error: any) {
@@ -1543,6 +1871,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancel an invoice but keep it on the account history
+  app.post("/api/invoices/:id/void", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().min(1, "A reason is required") }).parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(await voidInvoice(invoice, reason, (req.user as any)?.id));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+
+  // ========== INVOICE & STATEMENT PDFS ==========
+  // Staff, the customer signed in to the portal, or anyone holding the signed link (`?sig=`)
+  function canViewCustomerDocument(req: any, customerId: string, kind: "invoice" | "statement", id: string): boolean {
+    const isStaff = req.isAuthenticated() && ["admin", "staff"].includes(req.user?.role);
+    return isStaff || req.session?.portalCustomerId === customerId || verifyDocumentSignature(kind, id, req.query.sig);
+  }
+
+  function sendPdf(req: any, res: any, pdf: Buffer, filename: string) {
+    res.set("Content-Type", "application/pdf");
+    res.set("Content-Disposition", `${req.query.download ? "attachment" : "inline"}; filename="${filename}"`);
+    res.set("Cache-Control", "private, no-cache");
+    res.send(pdf);
+  }
+
+  app.get("/api/invoices/:id/pdf", async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || !canViewCustomerDocument(req, invoice.customerId, "invoice", invoice.id)) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const customer = await storage.getCustomer(invoice.customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const pdf = await renderInvoicePdf(
+        invoice,
+        await storage.getInvoiceLineItems([invoice.id]),
+        customer,
+        await storage.getSettings(),
+        await invoiceAmountPaid(invoice)
+      );
+      sendPdf(req, res, pdf, `invoice-${invoice.invoiceNumber}.pdf`);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Account statement; defaults to the last 90 days
+  app.get("/api/customers/:id/statement.pdf", async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer || !canViewCustomerDocument(req, customer.id, "statement", customer.id)) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+      const today = todayInTimeZone();
+      const endDate = dateParam.parse(req.query.endDate) || today;
+      const startDate = dateParam.parse(req.query.startDate) || addDays(endDate, -90);
+      if (startDate > endDate) {
+        return res.status(400).json({ message: "Start date must be before end date" });
+      }
+
+      const statement = await buildStatement(customer.id, startDate, endDate);
+      const pdf = await renderStatementPdf(statement, customer, await storage.getSettings());
+      sendPdf(req, res, pdf, `statement-${startDate}-to-${endDate}.pdf`);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Text the customer a link to their invoice PDF
+  app.post("/api/invoices/:id/send-link", requireStaff, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const customer = await storage.getCustomer(invoice.customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (!customer.smsOptIn) {
+        return res.status(400).json({ message: "Customer has not opted in for SMS notifications" });
+      }
+
+      await sendCustomerSms(
+        customer,
+        `Hi ${customer.name}! Here is invoice #${invoice.invoiceNumber} for $${parseFloat(invoice.amount).toFixed(2)}: ${invoicePdfUrl(invoice.id)}`
+      );
+      res.json({ message: `Invoice link sent to ${customer.name}`, url: invoicePdfUrl(invoice.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Quick charge customer - creates invoice and charges if autopay enabled
   app.post("/api/customers/:customerId/charge", async (req, res) => {
     try {
@@ -1553,69 +1983,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Customer not found" });
       }
 
-      // Get service type for pricing
-      const serviceTypes = await storage.getAllServiceTypes();
-      let amount = 0;
-      let serviceTypeName = "Service";
-      let timesPerWeek = 1;
-      
-      if (customer.serviceTypeId) {
-        const serviceType = serviceTypes.find(st => st.id === customer.serviceTypeId);
-        if (serviceType) {
-          const basePrice = typeof serviceType.basePrice === 'string' 
-            ? parseFloat(serviceType.basePrice) 
-            : serviceType.basePrice;
-          const pricePerExtraDog = typeof serviceType.pricePerExtraDog === 'string'
-            ? parseFloat(serviceType.pricePerExtraDog)
-            : serviceType.pricePerExtraDog;
-          timesPerWeek = serviceType.timesPerWeek || 1;
-          
-          // Calculate per-visit cost: basePrice covers first dog, pricePerExtraDog for additional dogs
-          const extraDogs = Math.max(customer.numberOfDogs - 1, 0);
-          const perVisitCost = basePrice + (pricePerExtraDog * extraDogs);
-          
-          // Calculate monthly amount: perVisitCost * timesPerWeek * 4 weeks
-          amount = perVisitCost * timesPerWeek * 4;
-          serviceTypeName = serviceType.name;
-          
-          console.log('Pricing calculation:', {
-            serviceTypeName: serviceType.name,
-            basePrice,
-            pricePerExtraDog,
-            numberOfDogs: customer.numberOfDogs,
-            timesPerWeek,
-            perVisitCost,
-            monthlyAmount: amount,
-          });
-        }
-      }
-      
-      if (amount === 0 || isNaN(amount)) {
-        return res.status(400).json({ 
-          message: "Customer does not have a service type configured or pricing is invalid. Please set a service type first." 
-        });
+      // Priced by the customer's billing plan, the same way the monthly billing run bills them
+      let invoice;
+      try {
+        invoice = await invoiceCustomerNow(customer);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
       }
+      const amount = parseFloat(invoice.amount);
 
-      // Create invoice
-      const invoiceNumber = `INV-${Date.now()}`;
-      const dueDate = new Date();
-      dueDate.setDate(dueDate.getDate() + 7); // Due in 7 days
-      
-      const invoice = await storage.createInvoice({
-        customerId: customer.id,
-        invoiceNumber,
-        amount: amount.toFixed(2), // Ensure proper decimal string format
-        status: "unpaid",
-        dueDate: dueDate.toISOString().split('T')[0],
-        description: `${serviceTypeName} (${timesPerWeek}x/week × 4 weeks) - ${customer.numberOfDogs} dog${customer.numberOfDogs > 1 ? 's' : ''}`,
-      });
-
-      // If customer has autopay, charge them immediately
+      // If customer has autopay, charge them immediately for whatever account credit didn't cover
       let charged = false;
-      if (customer.autopayEnabled && customer.stripeCustomerId && customer.stripePaymentMethodId) {
+      const balance = await invoiceBalance(invoice);
+      if (balance > 0 && customer.autopayEnabled && customer.stripeCustomerId && customer.stripePaymentMethodId) {
         try {
           const paymentIntent = await stripe.paymentIntents.create({
-            amount: Math.round(amount * 100),
+            amount: balance,
             currency: "usd",
             customer: customer.stripeCustomerId,
             payment_method: customer.stripePaymentMethodId,
@@ -1625,34 +2008,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
 
           if (paymentIntent.status === "succeeded") {
-            await storage.markInvoicePaid(invoice.id, paymentIntent.id);
+            await recordStripeInvoicePayment(invoice, paymentIntent.id, paymentIntent.amount_received);
             charged = true;
             
-            // Send payment confirmation SMS (non-blocking)
+            // Send payment receipt (non-blocking)
             try {
-              await sendSMS(
-                customer.phone,
-                `Payment received! Invoice #${invoice.invoiceNumber} for $${amount.toFixed(2)} has been paid. Thank you!`
-              );
+              await sendPaymentReceipt(customer, invoiceReceipt(invoice, amount));
             } catch (smsError: any) {
-              console.error(`SMS confirmation failed for ${customer.name}:`, smsError.message);
+              console.error(`Payment receipt failed for ${customer.name}:`, smsError.message);
             }
+          } else {
+            await openDunningCase(invoice, customer, `Payment ${paymentIntent.status.replace(/_/g, " ")}`);
           }
         } catch (chargeError: any) {
-          // If autopay fails, invoice remains unpaid
+          // If autopay fails, invoice remains unpaid and is retried on the dunning schedule
           console.error(`Autopay failed for ${customer.name}:`, chargeError.message);
+          await openDunningCase(invoice, customer, chargeError.message);
         }
       }
 
-      // If not charged, send invoice notification SMS (non-blocking)
+      // If not charged, send new invoice notice (non-blocking)
       if (!charged) {
         try {
-          await sendSMS(
-            customer.phone,
-            `New invoice #${invoice.invoiceNumber} for $${amount.toFixed(2)} is now available. Due date: ${invoice.dueDate}. Thank you!`
-          );
+          await sendNewInvoice(customer, invoice);
         } catch (smsError: any) {
-          console.error(`SMS notification failed for ${customer.name}:`, smsError.message);
+          console.error(`Invoice notice failed for ${customer.name}:`, smsError.message);
         }
       }
 
@@ -1685,7 +2065,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         history = await storage.getAllJobHistory();
       }
-      res.json(history);
+      res.json(await withPhotoLinks(history));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -1701,6 +2081,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sales tax by month: billed on invoices issued and collected on invoices paid
+  // (?startDate&endDate, this year to date by default)
+  app.get("/api/reports/sales-tax", requireStaff, async (req, res) => {
+    try {
+      const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+      const today = todayInTimeZone();
+      const endDate = dateParam.parse(req.query.endDate) || today;
+      const startDate = dateParam.parse(req.query.startDate) || `${endDate.slice(0, 4)}-01-01`;
+      if (startDate > endDate) {
+        return res.status(400).json({ message: "Start date must be before end date" });
+      }
+      res.json(await buildSalesTaxReport(startDate, endDate));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // A/R aging: open balances per customer by days past due
+  app.get("/api/reports/ar-aging", requireStaff, async (_req, res) => {
+    try {
+      res.json(await buildAgingReport());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Proof of service: visits whose completion location didn't verify against the customer's address
+  app.get("/api/reports/proof-of-service", requireStaff, async (req, res) => {
+    try {
+      const { startDate, endDate, includeReviewed } = req.query;
+      const history = (await storage.getAllJobHistory()).filter(job =>
+        job.locationFlag &&
+        (includeReviewed === "true" || !job.locationReviewedAt) &&
+        (typeof startDate !== "string" || job.serviceDate >= startDate) &&
+        (typeof endDate !== "string" || job.serviceDate <= endDate)
+      );
+
+      const visits = await Promise.all(
+        history.map(async (job) => {
+          const customer = await storage.getCustomer(job.customerId);
+          const route = job.routeId ? await storage.getRoute(job.routeId) : undefined;
+          return {
+            id: job.id,
+            routeId: job.routeId,
+            customerId: job.customerId,
+            customerName: customer?.name,
+            customerAddress: customer?.address,
+            serviceDate: job.serviceDate,
+            technicianId: route?.technicianId ?? null,
+            locationFlag: job.locationFlag,
+            checkInDistanceFeet: job.checkInDistanceFeet,
+            checkOutDistanceFeet: job.checkOutDistanceFeet,
+            checkOutLat: job.checkOutLat,
+            checkOutLng: job.checkOutLng,
+            checkOutAccuracy: job.checkOutAccuracy,
+            locationReviewedAt: job.locationReviewedAt,
+          };
+        })
+      );
+
+      res.json(visits.sort((a, b) => b.serviceDate.localeCompare(a.serviceDate)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Office has looked into a flagged visit
+  app.post("/api/job-history/:id/location-review", requireStaff, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id || "system";
+      const updated = await storage.updateJobHistory(req.params.id, {
+        locationReviewedAt: new Date(),
+        locationReviewedBy: userId,
+      });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // ========== MESSAGES ROUTES ==========
   app.get("/api/messages", async (req, res) => {
     try {
@@ -1744,83 +2204,239 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validated = insertMessageSchema.parse(req.body);
       
+      if (!validated.customerId) {
+        return res.status(400).json({ message: "customerId is required" });
+      }
+
       // Get customer details for phone number
       const customer = await storage.getCustomer(validated.customerId);
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
       }
 
-      // Send SMS via Telnyx REST API and get message ID
-      let externalMessageId: string | undefined;
-      if (telnyxApiKey && telnyxPhoneNumber) {
-        try {
-          let cleanDigits = customer.phone.trim().replace(/\D/g, '');
-          let formattedPhone: string;
-          if (cleanDigits.length === 10) {
-            formattedPhone = '+1' + cleanDigits;
-          } else if (cleanDigits.length === 11 && cleanDigits.startsWith('1')) {
-            formattedPhone = '+' + cleanDigits;
-          } else {
-            throw new Error('Invalid phone number format');
-          }
-
-          const result = await sendTelnyxSMS(telnyxPhoneNumber, formattedPhone, validated.messageText);
-          externalMessageId = result.id;
-          console.log(`✅ SMS sent successfully to ${formattedPhone} - Telnyx ID: ${externalMessageId}`);
-        } catch (error: any) {
-          console.error(`❌ Failed to send SMS:`, error.message);
-          throw new Error(`Failed to send SMS: ${error.message}`);
-        }
+      // The messaging service records the message, sent or failed
+      const sms = await sendCustomerSms(customer, validated.messageText, { urgent: true });
+      if (!sms.message) {
+        return res.status(400).json({ message: sms.reason });
       }
-      
-      // Save message to database
-      const message = await storage.createMessage({
-        ...validated,
-        direction: "outbound",
-        status: "sent",
-        externalMessageId,
-      });
-      
+
       // Push to SSE for real-time updates
-      sseSend(message.customerId, message);
-      
-      res.status(201).json(message);
+      sseSend(customer.id, sms.message);
+
+      if (sms.status === "failed") {
+        return res.status(400).json({ message: `Failed to send SMS: ${sms.reason}` });
+      }
+      res.status(201).json(sms.message);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  // ========== TELNYX WEBHOOK ==========
-  // Webhook endpoint for receiving Telnyx events (incoming messages & delivery status)
-  app.post("/api/webhooks/telnyx", async (req, res) => {
+  // Full-text search across every text, best matches first
+  app.get("/api/messages/search", requireStaff, async (req, res) => {
     try {
-      const event = req.body;
-      console.log("📨 Telnyx webhook received:", JSON.stringify(event, null, 2));
+      const query = String(req.query.q || "").trim();
+      if (query.length < 2) {
+        return res.json([]);
+      }
+      res.json(await storage.searchMessages(query, 50));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Return 200 immediately to acknowledge receipt
-      res.status(200).send('OK');
+  // ========== INBOX (conversations, leads, canned replies) ==========
+  app.get("/api/conversations", requireStaff, async (_req, res) => {
+    try {
+      res.json(await storage.getAllConversations());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Process webhook asynchronously
-      if (!event.data || !event.data.event_type) {
-        console.warn("⚠️ Unknown webhook format:", event);
-        return;
+  // Staff a conversation can be assigned to
+  app.get("/api/conversations/assignees", requireStaff, async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users
+        .filter(user => user.role === "admin" || user.role === "staff")
+        .map(user => ({ id: user.id, name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // A customer's conversation, created the first time it's opened
+  app.get("/api/customers/:id/conversation", requireStaff, async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
       }
+      res.json(await customerConversation(customer));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const eventType = event.data.event_type;
-      const payload = event.data.payload;
+  // Messages in a conversation; opening it marks them read
+  app.get("/api/conversations/:id/messages", requireStaff, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const messages = await conversationMessages(conversation);
+      await markConversationRead(conversation);
+      res.json(messages);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Handle incoming message
-      if (eventType === "message.received") {
-        console.log("📥 Incoming message from:", payload.from.phone_number);
-        
-        const incomingText = (payload.text || '').trim().toUpperCase();
-        const fromPhone = payload.from.phone_number;
-        
-        // Handle STOP keyword - Telnyx 10DLC compliant opt-out
-        // MUST MATCH EXACTLY what's configured in Telnyx campaign: STOP, UNSUBSCRIBE
-        if (incomingText === "STOP" || incomingText === "UNSUBSCRIBE") {
-          console.log(`🛑 STOP received from ${fromPhone} - processing opt-out`);
-          
+  app.post("/api/conversations/:id/send", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      const parsed = z.object({ messageText: z.string().trim().min(1, "Message text is required").max(1600) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const sms = await sendConversationText(conversation, parsed.data.messageText);
+      if (!sms.message) {
+        return res.status(400).json({ message: sms.reason });
+      }
+      sseSend(conversation.customerId ?? `conversation:${conversation.id}`, sms.message);
+      if (sms.status === "failed") {
+        return res.status(400).json({ message: `Failed to send SMS: ${sms.reason}` });
+      }
+      res.status(201).json(sms.message);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Open/close, assign, or name a lead
+  app.patch("/api/conversations/:id", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      const parsed = updateConversationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.assignedTo) {
+        const assignee = await storage.getUser(parsed.data.assignedTo);
+        if (!assignee || (assignee.role !== "admin" && assignee.role !== "staff")) {
+          return res.status(400).json({ message: "Conversations can only be assigned to staff" });
+        }
+      }
+      const conversation = await storage.updateConversation(req.params.id, parsed.data);
+      res.json(conversation);
+    } catch (error: any) {
+      res.status(error.message === "Conversation not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/conversations/:id/convert/customer", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      const parsed = leadCustomerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.status(201).json(await convertLeadToCustomer(conversation, parsed.data, (req.user as any)?.id ?? null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/conversations/:id/convert/booking", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      const parsed = leadBookingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.status(201).json(await convertLeadToBooking(conversation, parsed.data));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/canned-replies", requireStaff, async (_req, res) => {
+    try {
+      res.json(await storage.getCannedReplies());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/canned-replies", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      const validated = insertCannedReplySchema.parse(req.body);
+      res.status(201).json(await storage.createCannedReply(validated, (req.user as any)?.id ?? null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/canned-replies/:id", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      const validated = insertCannedReplySchema.partial().parse(req.body);
+      res.json(await storage.updateCannedReply(req.params.id, validated));
+    } catch (error: any) {
+      res.status(error.message === "Canned reply not found" ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/canned-replies/:id", csrfProtection, requireStaff, async (req, res) => {
+    try {
+      await storage.deleteCannedReply(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ========== TELNYX WEBHOOK ==========
+  // Webhook endpoint for receiving Telnyx events (incoming messages & delivery status)
+  app.post("/api/webhooks/telnyx", async (req, res) => {
+    try {
+      const event = req.body;
+      console.log("📨 Telnyx webhook received:", JSON.stringify(event, null, 2));
+
+      // Return 200 immediately to acknowledge receipt
+      res.status(200).send('OK');
+
+      // Process webhook asynchronously
+      if (!event.data || !event.data.event_type) {
+        console.warn("⚠️ Unknown webhook format:", event);
+        return;
+      }
+
+      const eventType = event.data.event_type;
+      const payload = event.data.payload;
+
+      // Handle incoming message
+      if (eventType === "message.received") {
+        console.log("📥 Incoming message from:", payload.from.phone_number);
+        
+        const incomingText = (payload.text || '').trim().toUpperCase();
+        const fromPhone = payload.from.phone_number;
+        
+        // Handle STOP keyword - Telnyx 10DLC compliant opt-out
+        // MUST MATCH EXACTLY what's configured in Telnyx campaign: STOP, UNSUBSCRIBE
+        if (incomingText === "STOP" || incomingText === "UNSUBSCRIBE") {
+          console.log(`🛑 STOP received from ${fromPhone} - processing opt-out`);
+          
           // Find and update customer to opt out of SMS
           const customer = await storage.findCustomerByPhone(fromPhone);
           if (customer) {
@@ -1829,17 +2445,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           
           // Send EXACT message from Telnyx campaign config
-          if (telnyxPhoneNumber) {
-            try {
-              await sendTelnyxSMS(
-                telnyxPhoneNumber,
-                fromPhone,
-                "Silly Dog Pooper Scooper: You are unsubscribed and will receive no further messages."
-              );
-              console.log(`✅ Opt-out confirmation sent to ${fromPhone}`);
-            } catch (error) {
-              console.error("❌ Failed to send opt-out confirmation:", error);
-            }
+          try {
+            await sendSms(
+              fromPhone,
+              await renderMessage("stop_reply", {}),
+              { customer, skipOptIn: true, urgent: true }
+            );
+            console.log(`✅ Opt-out confirmation sent to ${fromPhone}`);
+          } catch (error) {
+            console.error("❌ Failed to send opt-out confirmation:", error);
           }
           
           // Store the STOP message
@@ -1850,8 +2464,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
               direction: "inbound",
               status: "delivered",
               externalMessageId: payload.id,
+              phone: fromPhone,
             });
             sseSend(customer.id, stopMsg);
+          } else {
+            // Unknown numbers: remembered on the lead's conversation
+            const { conversation, message } = await recordLeadOptIn(fromPhone, payload.text || 'STOP', false, payload.id);
+            sseSend(`conversation:${conversation.id}`, message);
+            console.log(`✅ Lead ${fromPhone} opted out of SMS`);
           }
           return;
         }
@@ -1861,22 +2481,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (incomingText === "HELP") {
           console.log(`❓ HELP received from ${fromPhone} - sending assistance info`);
           
+          const customer = await storage.findCustomerByPhone(fromPhone);
+
           // Send EXACT message from Telnyx campaign config (CRICVJT)
-          if (telnyxPhoneNumber) {
-            try {
-              await sendTelnyxSMS(
-                telnyxPhoneNumber,
-                fromPhone,
-                "Please contact us at https://sillydogpoopscoop.com or call/text 775-460-2666 for assistance."
-              );
-              console.log(`✅ Help response sent to ${fromPhone}`);
-            } catch (error) {
-              console.error("❌ Failed to send help response:", error);
-            }
+          try {
+            await sendSms(
+              fromPhone,
+              await renderMessage("help_reply", {}),
+              { customer, skipOptIn: true, urgent: true }
+            );
+            console.log(`✅ Help response sent to ${fromPhone}`);
+          } catch (error) {
+            console.error("❌ Failed to send help response:", error);
           }
           
           // Store the HELP message
-          const customer = await storage.findCustomerByPhone(fromPhone);
           if (customer) {
             const helpMsg = await storage.createMessage({
               customerId: customer.id,
@@ -1884,6 +2503,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               direction: "inbound",
               status: "delivered",
               externalMessageId: payload.id,
+              phone: fromPhone,
             });
             sseSend(customer.id, helpMsg);
           }
@@ -1902,17 +2522,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log(`✅ Customer ${customer.name} opted back in to SMS`);
             
             // Send EXACT message from Telnyx campaign config (CRICVJT)
-            if (telnyxPhoneNumber) {
-              try {
-                await sendTelnyxSMS(
-                  telnyxPhoneNumber,
-                  fromPhone,
-                  "Thanks for subscribing to Silly Dog Pooper Scooper service notifications. You will receive appointment reminders, on-the-way alerts, and service updates. Message frequency may vary. Msg & data rates may apply. Consent is not a condition of service. Reply STOP to opt out, HELP for help."
-                );
-                console.log(`✅ Opt-in confirmation sent to ${fromPhone}`);
-              } catch (error) {
-                console.error("❌ Failed to send opt-in confirmation:", error);
-              }
+            try {
+              await sendSms(
+                fromPhone,
+                await renderMessage("start_reply", {}),
+                { customer, skipOptIn: true, urgent: true }
+              );
+              console.log(`✅ Opt-in confirmation sent to ${fromPhone}`);
+            } catch (error) {
+              console.error("❌ Failed to send opt-in confirmation:", error);
             }
             
             // Store the START message
@@ -1922,8 +2540,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
               direction: "inbound",
               status: "delivered",
               externalMessageId: payload.id,
+              phone: fromPhone,
             });
             sseSend(customer.id, startMsg);
+          } else {
+            const { conversation, message } = await recordLeadOptIn(fromPhone, payload.text || 'START', true, payload.id);
+            sseSend(`conversation:${conversation.id}`, message);
+            console.log(`✅ Lead ${fromPhone} opted back in to SMS`);
+
+            try {
+              await sendSms(fromPhone, await renderMessage("start_reply", {}), { skipOptIn: true, urgent: true });
+            } catch (error) {
+              console.error("❌ Failed to send opt-in confirmation:", error);
+            }
           }
           return;
         }
@@ -1931,8 +2560,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Regular incoming message - find customer and store
         const customer = await storage.findCustomerByPhone(fromPhone);
         
+        // Unknown numbers are kept as leads in the inbox
         if (!customer) {
-          console.warn(`⚠️ No customer found for phone: ${fromPhone}`);
+          const { conversation, message } = await recordLeadText(fromPhone, payload.text || '', payload.id);
+          sseSend(`conversation:${conversation.id}`, message);
+          console.log(`📥 Stored text from new number ${fromPhone} as a lead`);
+          await alertStaff(conversation.name || fromPhone, payload.text || '');
           return;
         }
 
@@ -1943,10 +2576,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           direction: "inbound",
           status: "delivered",
           externalMessageId: payload.id,
+          phone: fromPhone,
         });
         
         // Push to SSE for real-time updates
         sseSend(customer.id, inboundMsg);
+        await recordCustomerText(customer);
         
         console.log(`✅ Stored incoming message from customer: ${customer.name}`);
         
@@ -1954,13 +2589,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const existingMessages = await storage.getMessagesByCustomer(customer.id);
         const isFirstInbound = existingMessages.filter(m => m.direction === 'inbound').length === 1;
         
-        if (isFirstInbound && telnyxPhoneNumber) {
+        if (isFirstInbound) {
           console.log(`📩 First text from ${customer.name} - sending opt-in confirmation`);
           try {
-            await sendTelnyxSMS(
-              telnyxPhoneNumber,
+            await sendSms(
               fromPhone,
-              "Thanks for texting Silly Dog Pooper Scooper! You will receive appointment reminders, on-the-way alerts, and service updates. Message frequency may vary. Msg & data rates may apply. Reply STOP to opt out, HELP for help."
+              await renderMessage("first_text_reply", { name: customer.name }),
+              { customer, skipOptIn: true, urgent: true }
             );
             console.log(`✅ Opt-in confirmation sent to ${customer.name}`);
           } catch (error) {
@@ -1969,20 +2604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         // Send admin notification about new incoming message to all admin phones
-        const adminPhones = process.env.ADMIN_PHONE_NUMBERS?.split(',').map(p => p.trim()).filter(Boolean) || [];
-        if (adminPhones.length > 0 && telnyxPhoneNumber) {
-          const messagePreview = (payload.text || '').substring(0, 50);
-          const alertMessage = `📱 New text from ${customer.name}: "${messagePreview}${payload.text?.length > 50 ? '...' : ''}"`;
-          
-          for (const adminPhone of adminPhones) {
-            try {
-              await sendTelnyxSMS(telnyxPhoneNumber, adminPhone, alertMessage);
-              console.log(`📢 Admin notification sent to ${adminPhone} for message from ${customer.name}`);
-            } catch (error) {
-              console.error(`❌ Failed to send admin notification to ${adminPhone}:`, error);
-            }
-          }
-        }
+        await alertStaff(customer.name, payload.text || '');
       }
       
       // Handle delivery status update
@@ -1993,6 +2615,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const status = payload.to[0].status === "delivered" ? "delivered" : "failed";
           await storage.updateMessageStatus(payload.id, status);
           console.log(`✅ Updated message ${payload.id} status to: ${status}`);
+          await recordAnnouncementReceipt(payload.id, status === "delivered", payload.errors?.[0]?.detail);
         }
       }
       
@@ -2034,7 +2657,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("📅 Schedule rule byDay saved as:", rule.byDay);
       
       // Auto-generate routes for the next 60 days
-      const routesGenerated = await generateRoutesForSchedule(rule, 60);
+      const { routes, closureChanges } = await generateUpcomingRoutesForRule(rule, 60);
+      const routesGenerated = routes.length;
+      if (closureChanges.length > 0) {
+        await notifyClosureChanges(closureChanges);
+      }
       
       console.log(`✅ Generated ${routesGenerated} routes for schedule ${rule.id}`);
       
@@ -2074,6 +2701,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========== SCHEDULE EXCEPTIONS (VACATION HOLDS) ==========
+  app.get("/api/schedule-exceptions", requireStaff, async (req, res) => {
+    try {
+      const { customerId, status } = req.query;
+      let exceptions;
+      if (customerId && typeof customerId === "string") {
+        exceptions = await storage.getScheduleExceptionsByCustomer(customerId);
+      } else {
+        exceptions = await storage.getAllScheduleExceptions();
+      }
+      if (status && typeof status === "string") {
+        exceptions = exceptions.filter(e => e.status === status);
+      }
+      res.json(exceptions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Staff-created holds are approved immediately
+  app.post("/api/schedule-exceptions", requireStaff, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id || "system";
+      const validated = insertScheduleExceptionSchema.parse({
+        ...req.body,
+        status: "approved",
+        requestedBy: "staff",
+      });
+      
+      const customer = await storage.getCustomer(validated.customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const exception = await storage.createScheduleException(validated);
+      const reviewed = await storage.updateScheduleException(exception.id, {
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+      });
+      const routesSkipped = await applyScheduleException(reviewed, userId);
+      
+      console.log(`🏖️ Vacation hold for ${customer.name} ${exception.startDate} → ${exception.endDate}: skipped ${routesSkipped} routes`);
+      res.status(201).json({ ...reviewed, routesSkipped });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/schedule-exceptions/:id/approve", requireStaff, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id || "system";
+      const exception = await storage.getScheduleException(req.params.id);
+      if (!exception) {
+        return res.status(404).json({ message: "Schedule exception not found" });
+      }
+      if (exception.status !== "pending") {
+        return res.status(400).json({ message: `Hold is already ${exception.status}` });
+      }
+      
+      const approved = await storage.updateScheduleException(exception.id, {
+        status: "approved",
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+      });
+      const routesSkipped = await applyScheduleException(approved, userId);
+      
+      const customer = await storage.getCustomer(exception.customerId);
+      if (customer?.smsOptIn) {
+        await sendCustomerSms(
+          customer,
+          `Hi ${customer.name}! Your service hold from ${exception.startDate} to ${exception.endDate} is confirmed. Service will resume automatically afterward. 🐕`
+        );
+      }
+      
+      res.json({ ...approved, routesSkipped });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/schedule-exceptions/:id/reject", requireStaff, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id || "system";
+      const exception = await storage.getScheduleException(req.params.id);
+      if (!exception) {
+        return res.status(404).json({ message: "Schedule exception not found" });
+      }
+      if (exception.status !== "pending") {
+        return res.status(400).json({ message: `Hold is already ${exception.status}` });
+      }
+      
+      const rejected = await storage.updateScheduleException(exception.id, {
+        status: "rejected",
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+      });
+      res.json(rejected);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Cancel a hold - restores upcoming routes it skipped
+  app.post("/api/schedule-exceptions/:id/cancel", requireStaff, async (req, res) => {
+    try {
+      const exception = await storage.getScheduleException(req.params.id);
+      if (!exception) {
+        return res.status(404).json({ message: "Schedule exception not found" });
+      }
+      if (exception.status === "cancelled" || exception.status === "rejected") {
+        return res.status(400).json({ message: `Hold is already ${exception.status}` });
+      }
+      
+      const wasApproved = exception.status === "approved";
+      const cancelled = await storage.updateScheduleException(exception.id, { status: "cancelled" });
+      const result = wasApproved
+        ? await releaseScheduleException(cancelled)
+        : { restored: 0, generated: 0 };
+      
+      res.json({ ...cancelled, ...result });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // ========== SERVICE TYPES (PRICE BOOK) ROUTES ==========
   app.get("/api/service-types", async (req, res) => {
     try {
@@ -2134,76 +2886,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/routes/generate", async (req, res) => {
     try {
       const { date } = req.body; // YYYY-MM-DD format
-      const targetDate = date || new Date().toISOString().split("T")[0];
-      
-      // Get all active (non-paused) schedule rules
-      const allRules = await storage.getAllScheduleRules();
-      const activeRules = allRules.filter(rule => !rule.paused);
-      
-      const generatedRoutes = [];
-      const today = new Date(targetDate);
-      const dayOfWeek = today.getDay(); // 0=Sunday ... 6=Saturday
+      const targetDate = date ? toDateString(date) : todayInTimeZone(DEFAULT_TIMEZONE);
       
-      for (const rule of activeRules) {
-        // Check if day of week matches (byDay is an array of days)
-        if (!rule.byDay || !rule.byDay.includes(dayOfWeek)) {
-          continue;
-        }
-        
-        // Calculate if this date matches the schedule
-        // Parse dtStart properly - handle both "YYYY-MM-DD" and ISO timestamp formats
-        const parsedDate = new Date(rule.dtStart);
-        const startDate = new Date(parsedDate.getUTCFullYear(), parsedDate.getUTCMonth(), parsedDate.getUTCDate());
-        startDate.setHours(0, 0, 0, 0);
-        
-        const daysDiff = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        let shouldGenerate = false;
-        if (rule.frequency === "weekly") {
-          // For weekly schedules with multiple days, generate on matching days
-          shouldGenerate = daysDiff >= 0;
-        } else if (rule.frequency === "biweekly") {
-          // Biweekly: Generate routes every other week starting from the FIRST matching day
-          // Same logic as generateRoutesForSchedule - find first occurrence of this day on or after dtStart
-          const startDayOfWeek = startDate.getDay();
-          let daysUntilFirstOccurrence = dayOfWeek - startDayOfWeek;
-          if (daysUntilFirstOccurrence < 0) {
-            daysUntilFirstOccurrence += 7; // If the day already passed this week, go to next week
-          }
-          
-          // Calculate the first occurrence date
-          const firstOccurrence = new Date(startDate);
-          firstOccurrence.setDate(startDate.getDate() + daysUntilFirstOccurrence);
-          
-          // Calculate days from the first occurrence to the target date
-          const daysFromFirstOccurrence = Math.floor((today.getTime() - firstOccurrence.getTime()) / (1000 * 60 * 60 * 24));
-          
-          // Generate if this is the first occurrence or exactly 14, 28, 42... days after (every 2 weeks)
-          shouldGenerate = daysFromFirstOccurrence >= 0 && daysFromFirstOccurrence % 14 === 0;
-          
-          if (shouldGenerate) {
-            console.log(`📅 Biweekly route for ${targetDate}: First occurrence ${firstOccurrence.toISOString().split('T')[0]}, daysFromFirst=${daysFromFirstOccurrence}`);
-          }
-        }
-        
-        if (shouldGenerate) {
-          // Check if route already exists for this customer and date
-          const existingRoutes = await storage.getRoutesByDate(targetDate);
-          const alreadyExists = existingRoutes.some(r => r.customerId === rule.customerId);
-          
-          if (!alreadyExists) {
-            const route = await storage.createRoute({
-              date: targetDate,
-              customerId: rule.customerId,
-              scheduleRuleId: rule.id, // Link route to the schedule that created it
-              scheduledTime: rule.windowStart,
-              status: "scheduled",
-              orderIndex: 0,
-            });
-            generatedRoutes.push(route);
-          }
-        }
-      }
+      // Expand every active (non-paused) schedule rule for the target date
+      const generatedRoutes = await generateRoutesForActiveRules(targetDate, targetDate);
       
       res.json({
         message: `Generated ${generatedRoutes.length} routes for ${targetDate}`,
@@ -2596,7 +3282,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
 
           const dayOfWeek = date.getDay();
-          const dtStart = date.toISOString().split("T")[0];
+          const dtStart = format(date, "yyyy-MM-dd"); // Same local calendar date as getDay()
 
           // Determine frequency from job type or default to weekly
           let frequency: "weekly" | "biweekly" = "weekly";
@@ -2677,29 +3363,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Could not geocode address" });
       }
 
-      const allSchedules = await storage.getAllScheduleRules();
-      const allCustomers = await storage.getAllCustomers();
-
-      // Flatten schedules - a customer with multiple days gets multiple entries
-      const customersWithSchedules: Array<{
-        lat: string | null;
-        lng: string | null;
-        dayOfWeek: number;
-      }> = [];
-      
-      for (const schedule of allSchedules.filter(s => !s.paused)) {
-        const customer = allCustomers.find(c => c.id === schedule.customerId);
-        // byDay is an array, so we need to create an entry for each day
-        for (const day of schedule.byDay || []) {
-          customersWithSchedules.push({
-            lat: customer?.lat ?? null,
-            lng: customer?.lng ?? null,
-            dayOfWeek: day,
-          });
-        }
-      }
-
-      const bestFitDays = await findBestFitDay(coords, customersWithSchedules);
+      const bestFitDays = await findBestFitDay(coords, await scheduledDayLocations());
 
       res.json({
         coordinates: coords,
@@ -2712,23 +3376,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ========== MONTHLY BILLING JOB ==========
-  app.post("/api/billing/generate-monthly", async (req, res) => {
+  // Pass dryRun: true for a preview that creates no invoices and charges nothing
+  app.post("/api/billing/generate-monthly", requireAdmin, async (req, res) => {
     try {
-      const { month, year } = req.body;
+      const { month, year, dryRun } = req.body;
       
       if (!month || !year) {
         return res.status(400).json({ message: "Month and year are required" });
       }
+      const period = billingPeriod(month, year);
+
+      if (dryRun) {
+        const preview = await previewMonthlyBilling(period);
+        return res.json({ message: "Billing preview", preview });
+      }
 
-      const results = await generateMonthlyInvoices(month, year);
+      if (await activeBillingRun(period)) {
+        return res.status(409).json({ message: `A billing run for ${period} is already in progress` });
+      }
+
+      const run = await runMonthlyBilling({ period, trigger: "manual", triggeredBy: (req.user as any)?.id });
+      if (!run) {
+        return res.json({ message: "Autobilling is paused until AUTOBILL_START_DATE", run: null });
+      }
       
       res.json({
         message: "Monthly billing completed",
-        results,
+        run,
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Monthly billing error:", error);
-      res.status(500).json({ message: "Server error" });
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/billing/runs", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getBillingRuns());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/billing/runs/:id", requireAdmin, async (req, res) => {
+    try {
+      const run = await storage.getBillingRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Billing run not found" });
+      }
+      res.json(run);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Re-bill the customers a run failed on (or the whole period if the run itself failed)
+  app.post("/api/billing/runs/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      const previous = await storage.getBillingRun(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Billing run not found" });
+      }
+      if (await activeBillingRun(previous.period)) {
+        return res.status(409).json({ message: `A billing run for ${previous.period} is already in progress` });
+      }
+
+      const run = await retryBillingRun(previous.id, (req.user as any)?.id);
+      if (!run) {
+        return res.json({ message: "Autobilling is paused until AUTOBILL_START_DATE", run: null });
+      }
+      res.json({ message: "Retry completed", run });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
     }
   });
 
@@ -2778,9 +3497,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get client IP for spam prevention
       const ipAddress = req.ip || req.socket.remoteAddress || "unknown";
 
+      // Check the promo code now so the customer can fix it; it's redeemed on acceptance
+      const promoCode = validation.data.promoCode ? normalizeCode(validation.data.promoCode) : null;
+      if (promoCode) {
+        try {
+          await resolveCode(promoCode);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+      }
+
+      // Self-scheduled start dates must still be open
+      if (validation.data.requestedStartDate) {
+        const slots = await openSlots(validation.data.address).catch(() => []);
+        if (!slots.some(slot => slot.date === validation.data.requestedStartDate)) {
+          return res.status(400).json({ message: "That start date is no longer available. Please pick another." });
+        }
+      }
+
       // Create booking request with IP tracking
       const bookingData = {
         ...validation.data,
+        promoCode,
         ipAddress,
       };
 
@@ -2803,11 +3541,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ========== BOOKING REQUEST MANAGEMENT ==========
-  app.get("/api/booking-requests", async (_req, res) => {
-    try {
-      const requests = await storage.getAllBookingRequests();
-      res.json(requests);
+  // ========== SELF-SCHEDULING (Open start dates and card on file) ==========
+  const availabilityLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 20,
+    message: "Too many requests from this IP, please try again later.",
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  app.post("/api/public/availability", availabilityLimiter, async (req, res) => {
+    try {
+      const { address } = z.object({ address: z.string().trim().min(5, "Enter your service address") }).parse(req.body);
+      res.json(await openSlots(address));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Save a card with a booking that was just submitted. The card is moved onto the customer
+  // when staff confirm the booking.
+  app.post("/api/public/booking/:id/setup-intent", availabilityLimiter, async (req, res) => {
+    try {
+      const booking = await storage.getBookingRequest(req.params.id);
+      if (!booking || booking.status !== "pending" || booking.stripePaymentMethodId) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+
+      let stripeCustomerId = booking.stripeCustomerId;
+      if (!stripeCustomerId) {
+        const stripeCustomer = await stripe.customers.create({
+          name: booking.name,
+          email: booking.email || undefined,
+          phone: booking.phone,
+          address: { line1: booking.address },
+        });
+        stripeCustomerId = stripeCustomer.id;
+        await storage.updateBookingRequest(booking.id, { stripeCustomerId });
+      }
+
+      const setupIntent = await stripe.setupIntents.create({
+        customer: stripeCustomerId,
+        payment_method_types: ["card"],
+        metadata: {
+          bookingRequestId: booking.id,
+        },
+      });
+
+      res.json({ clientSecret: setupIntent.client_secret });
+    } catch (error: any) {
+      console.error("Booking setup intent error:", error);
+      res.status(500).json({ message: "Error creating setup intent: " + error.message });
+    }
+  });
+
+  app.post("/api/public/booking/:id/payment-method", availabilityLimiter, async (req, res) => {
+    try {
+      const { setupIntentId } = z.object({ setupIntentId: z.string().min(1) }).parse(req.body);
+      const booking = await storage.getBookingRequest(req.params.id);
+      if (!booking || booking.status !== "pending" || !booking.stripeCustomerId) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+
+      // Trust Stripe, not the browser, for which card was saved
+      const setupIntent = await stripe.setupIntents.retrieve(setupIntentId);
+      if (setupIntent.status !== "succeeded" || setupIntent.customer !== booking.stripeCustomerId || !setupIntent.payment_method) {
+        return res.status(400).json({ message: "The card wasn't saved. Please try again." });
+      }
+      const paymentMethodId = typeof setupIntent.payment_method === "string" ? setupIntent.payment_method : setupIntent.payment_method.id;
+
+      await stripe.customers.update(booking.stripeCustomerId, {
+        invoice_settings: {
+          default_payment_method: paymentMethodId,
+        },
+      });
+      await storage.updateBookingRequest(booking.id, { stripePaymentMethodId: paymentMethodId });
+
+      res.json({ message: "Card saved" });
+    } catch (error: any) {
+      console.error("Booking payment method error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // One-click confirmation of a self-scheduled booking: customer, schedule and first visit
+  app.post("/api/booking-requests/:id/confirm-schedule", requireStaff, async (req, res) => {
+    try {
+      const booking = await storage.getBookingRequest(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+      const confirmed = await confirmBookingSchedule(booking, (req.user as any)?.id ?? null);
+      res.json({
+        message: "Booking confirmed and schedule created",
+        customerId: confirmed.customer.id,
+        firstVisit: confirmed.firstRoute?.date ?? null,
+        promoMessage: confirmed.promoMessage,
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== BOOKING REQUEST MANAGEMENT ==========
+  app.get("/api/booking-requests", async (_req, res) => {
+    try {
+      const requests = await storage.getAllBookingRequests();
+      res.json(requests);
     } catch (error) {
       console.error("Get booking requests error:", error);
       res.status(500).json({ message: "Server error" });
@@ -2837,35 +3677,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         let customerId = booking.customerId;
+        let promoMessage: string | undefined;
         
         // Only create customer if not already created
         if (!customerId) {
-          // Get default service type (1 Dog 1x Week)
-          const serviceTypes = await storage.getAllServiceTypes();
-          const defaultServiceType = serviceTypes.find(st => st.name === "1 Dog 1x Week");
-          
-          if (!defaultServiceType) {
-            return res.status(500).json({ message: "Default service type not found" });
+          // Weekly service for the number of dogs on the booking
+          const serviceType = suggestServiceType(await storage.getAllServiceTypes(), booking.numberOfDogs);
+          if (!serviceType) {
+            return res.status(500).json({ message: "No weekly service type in the price book" });
           }
-          
-          // Create customer from booking data
-          const newCustomer = await storage.createCustomer({
-            name: booking.name,
-            address: booking.address,
-            phone: booking.phone,
-            email: booking.email || "",
-            numberOfDogs: booking.numberOfDogs,
-            serviceTypeId: defaultServiceType.id,
-            gateCode: "",
-            yardNotes: booking.yardNotes || "",
-            status: "active",
-            billingMethod: "invoice",
-            autopayEnabled: false,
-            smsOptIn: true,
-          });
-          
-          customerId = newCustomer.id;
-          console.log(`✅ Customer created from booking: ${newCustomer.name} (${customerId})`);
+
+          const created = await createCustomerFromBooking(booking, serviceType, null, (req.user as any)?.id ?? null);
+          customerId = created.customer.id;
+          promoMessage = created.promoMessage;
         }
         
         // Mark the booking as completed (instead of deleting) and store the customer ID
@@ -2879,6 +3703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ 
           message: "Booking accepted and customer created",
           customerId,
+          promoMessage,
           booking: completed
         });
       }
@@ -2891,6 +3716,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========== QUOTES (Priced offers for booking requests) ==========
+  app.get("/api/booking-requests/:id/quotes", requireStaff, async (req, res) => {
+    try {
+      res.json(await storage.getQuotesByBookingRequest(req.params.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/booking-requests/:id/quotes", requireStaff, async (req, res) => {
+    try {
+      const booking = await storage.getBookingRequest(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+      const input = quoteInputSchema.parse(req.body);
+      res.status(201).json(await createQuote(booking, input, (req.user as any)?.id ?? null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Text or email the quote link to the customer, or just mark it sent when staff share the link themselves
+  app.post("/api/quotes/:id/send", requireStaff, async (req, res) => {
+    try {
+      const { channel } = z.object({ channel: z.enum(["sms", "email", "link"]) }).parse(req.body);
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      if (quote.status !== "draft" && quote.status !== "sent") {
+        return res.status(400).json({ message: `This quote has been ${quote.status}` });
+      }
+      const booking = await storage.getBookingRequest(quote.bookingRequestId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+
+      const url = `${appBaseUrl()}/quote/${quote.token}`;
+      if (channel === "sms") {
+        const settings = await storage.getSettings();
+        await sendSms(
+          booking.phone,
+          `Hi ${booking.name}! Here's your quote from ${settings.businessName}: ${url}\nIt's valid until ${quote.expiresOn}.`
+        );
+      } else if (channel === "email") {
+        const settings = await storage.getSettings();
+        const result = await sendEmail(booking.email, quoteEmail(settings, booking.name, url, quote.expiresOn));
+        if (result.status !== "sent") {
+          return res.status(400).json({ message: `Quote email not sent: ${result.reason}` });
+        }
+      }
+
+      const sent = await storage.updateQuote(quote.id, { status: "sent", sentAt: new Date() });
+      res.json({ quote: sent, url });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  const quoteLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10,
+    message: "Too many requests from this IP, please try again later.",
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  // Public: the quote behind a link sent to the customer
+  app.get("/api/public/quotes/:token", quoteLimiter, async (req, res) => {
+    try {
+      const quote = await storage.getQuoteByToken(req.params.token);
+      if (!quote || quote.status === "draft") {
+        return res.status(404).json({ message: "Invalid or expired quote link" });
+      }
+      res.json(await quoteView(quote));
+    } catch (error: any) {
+      console.error("Get public quote error:", error);
+      res.status(500).json({ message: "Unable to load this quote. Please try again." });
+    }
+  });
+
+  app.post("/api/public/quotes/:token/accept", quoteLimiter, async (req, res) => {
+    try {
+      const quote = await storage.getQuoteByToken(req.params.token);
+      if (!quote || quote.status === "draft") {
+        return res.status(404).json({ message: "Invalid or expired quote link" });
+      }
+      const accepted = await acceptQuote(quote);
+      res.json({
+        message: "Thank you! Your service is booked.",
+        firstVisit: accepted.firstRoute?.date ?? null,
+        quote: await quoteView(accepted.quote),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/public/quotes/:token/decline", quoteLimiter, async (req, res) => {
+    try {
+      const quote = await storage.getQuoteByToken(req.params.token);
+      if (!quote || quote.status === "draft") {
+        return res.status(404).json({ message: "Invalid or expired quote link" });
+      }
+      const declined = await declineQuote(quote);
+      res.json({ message: "Thanks for letting us know.", quote: await quoteView(declined) });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // ========== NOTIFICATIONS MANAGEMENT ==========
   app.get("/api/notifications", async (_req, res) => {
     try {
@@ -3072,52 +4009,344 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin: Update review visibility
-  app.patch("/api/reviews/:id", async (req, res) => {
+  // Admin: Update review visibility
+  app.patch("/api/reviews/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = req.body;
+      const review = await storage.updateReview(id, updates);
+      res.json(review);
+    } catch (error) {
+      console.error("Update review error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Admin: Delete review
+  app.delete("/api/reviews/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteReview(id);
+      res.json({ message: "Review deleted successfully" });
+    } catch (error) {
+      console.error("Delete review error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // ========== SETTINGS ==========
+  // Get current settings
+  app.get("/api/settings", async (_req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Get settings error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // Update settings
+  app.patch("/api/settings", async (req, res) => {
+    try {
+      const updates = req.body;
+      const settings = await storage.updateSettings(updates);
+      res.json(settings);
+    } catch (error) {
+      console.error("Update settings error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
+  // ========== BUSINESS CLOSURES (Holiday Calendar) ==========
+  app.get("/api/settings/closures", requireStaff, async (_req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      res.json(settings.businessClosures || []);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add closures, apply their policy to already-generated routes and send each
+  // affected customer one batched SMS covering all of their changes
+  app.post("/api/settings/closures", requireAdmin, async (req, res) => {
+    try {
+      const { closures, notifyCustomers = true } = req.body;
+      const newClosures = z.array(businessClosureSchema).min(1).parse(closures);
+      
+      const settings = await storage.getSettings();
+      const newDates = new Set(newClosures.map(c => c.date));
+      const allClosures = [
+        ...(settings.businessClosures || []).filter(c => !newDates.has(c.date)),
+        ...newClosures,
+      ].sort((a, b) => a.date.localeCompare(b.date));
+      
+      await storage.updateSettings({ businessClosures: allClosures });
+      const changes = await applyBusinessClosures(newClosures, allClosures);
+      
+      const customersNotified = notifyCustomers ? await notifyClosureChanges(changes) : 0;
+      
+      res.json({
+        closures: allClosures,
+        routesSkipped: changes.filter(c => c.action === "skipped").length,
+        routesMoved: changes.filter(c => c.action === "moved").length,
+        customersNotified,
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Remove a closure from the calendar (routes already skipped or moved are left as-is)
+  app.delete("/api/settings/closures/:date", requireAdmin, async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      const remaining = (settings.businessClosures || []).filter(c => c.date !== req.params.date);
+      const updated = await storage.updateSettings({ businessClosures: remaining });
+      res.json(updated.businessClosures);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== SERVICE ADD-ONS (Price list for scheduleRules.addons) ==========
+  app.put("/api/settings/addons", requireAdmin, async (req, res) => {
+    try {
+      const addons = z.array(serviceAddonSchema).parse(req.body.addons);
+      if (new Set(addons.map(addon => addon.key)).size !== addons.length) {
+        return res.status(400).json({ message: "Add-on keys must be unique" });
+      }
+      const updated = await storage.updateSettings({ serviceAddons: addons });
+      res.json(updated.serviceAddons);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== SALES TAX RATES (applied to taxable invoice lines) ==========
+  app.put("/api/settings/tax-rates", requireAdmin, async (req, res) => {
+    try {
+      const taxRates = z.array(taxRateSchema).parse(req.body.taxRates);
+      if (new Set(taxRates.map(rate => rate.key)).size !== taxRates.length) {
+        return res.status(400).json({ message: "Tax rate keys must be unique" });
+      }
+      const updated = await storage.updateSettings({ taxRates });
+      res.json(updated.taxRates);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== AUTOPAY DUNNING ==========
+  app.put("/api/settings/dunning", requireAdmin, async (req, res) => {
+    try {
+      const { retryDays, pauseSchedule } = dunningSettingsSchema.parse(req.body);
+      const updated = await storage.updateSettings({ dunningRetryDays: retryDays, dunningPauseSchedule: pauseSchedule });
+      res.json({ retryDays: updated.dunningRetryDays, pauseSchedule: updated.dunningPauseSchedule });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== LATE FEES ==========
+  app.put("/api/settings/late-fees", requireAdmin, async (req, res) => {
+    try {
+      const fee = lateFeeSettingsSchema.parse(req.body);
+      const updated = await storage.updateSettings({
+        lateFeeEnabled: fee.enabled,
+        lateFeeType: fee.type,
+        lateFeeAmount: fee.amount.toFixed(2),
+        lateFeeGraceDays: fee.graceDays,
+      });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Failed autopay charges being followed up (?status=active|recovered|exhausted|cancelled)
+  app.get("/api/dunning", requireStaff, async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      res.json(await storage.getDunningCases(status));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/dunning/:id/retry", requireStaff, async (req, res) => {
+    try {
+      const dunningCase = await storage.getDunningCase(req.params.id);
+      if (!dunningCase) {
+        return res.status(404).json({ message: "Dunning case not found" });
+      }
+      res.json(await retryDunningCase(dunningCase));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/dunning/:id/cancel", requireStaff, async (req, res) => {
+    try {
+      const dunningCase = await storage.getDunningCase(req.params.id);
+      if (!dunningCase) {
+        return res.status(404).json({ message: "Dunning case not found" });
+      }
+      res.json(await cancelDunningCase(dunningCase));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== PROMOTIONS (Promo codes and referrals) ==========
+  app.get("/api/promo-codes", requireAdmin, async (_req, res) => {
+    try {
+      const promoCodes = await storage.getAllPromoCodes();
+      res.json(await Promise.all(promoCodes.map(async promo => ({
+        ...promo,
+        redemptionCount: (await storage.getPromoRedemptionsByPromoCode(promo.id)).length,
+      }))));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/promo-codes", requireAdmin, async (req, res) => {
+    try {
+      const validated = insertPromoCodeSchema.parse(req.body);
+      if (await storage.getPromoCodeByCode(validated.code) || await storage.getCustomerByReferralCode(validated.code)) {
+        return res.status(400).json({ message: `${validated.code} is already in use` });
+      }
+      res.status(201).json(await storage.createPromoCode(validated));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Switch a code on or off, or change when it expires and how many times it can be used
+  app.patch("/api/promo-codes/:id", requireAdmin, async (req, res) => {
+    try {
+      const updates = z.object({
+        active: z.boolean().optional(),
+        expiresOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+        maxRedemptions: z.coerce.number().int().min(1).nullable().optional(),
+      }).parse(req.body);
+      res.json(await storage.updatePromoCode(req.params.id, updates));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/settings/referrals", requireAdmin, async (req, res) => {
+    try {
+      const { credit, discount } = referralSettingsSchema.parse(req.body);
+      const updated = await storage.updateSettings({
+        referralCredit: credit.toFixed(2),
+        referralDiscount: discount.toFixed(2),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/settings/self-scheduling", requireAdmin, async (req, res) => {
+    try {
+      const { technicianDailyStops } = selfSchedulingSettingsSchema.parse(req.body);
+      res.json(await storage.updateSettings({ technicianDailyStops }));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/settings/quiet-hours", requireAdmin, async (req, res) => {
+    try {
+      const { start, end } = quietHoursSchema.parse(req.body);
+      res.json(await storage.updateSettings({ quietHoursStart: start, quietHoursEnd: end }));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== MESSAGE TEMPLATES ==========
+  app.get("/api/message-templates", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await listTemplates());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/message-templates/:key", requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      const review = await storage.updateReview(id, updates);
-      res.json(review);
-    } catch (error) {
-      console.error("Update review error:", error);
-      res.status(500).json({ message: "Server error" });
+      const { key } = req.params;
+      if (!isMessageTemplateKey(key)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const { body } = messageTemplateBodySchema.parse(req.body);
+      res.json(await saveTemplate(key, body, (req.user as any)?.id ?? null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
     }
   });
 
-  // Admin: Delete review
-  app.delete("/api/reviews/:id", async (req, res) => {
+  app.get("/api/message-templates/:key/versions", requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteReview(id);
-      res.json({ message: "Review deleted successfully" });
-    } catch (error) {
-      console.error("Delete review error:", error);
-      res.status(500).json({ message: "Server error" });
+      const { key } = req.params;
+      if (!isMessageTemplateKey(key)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(await templateVersions(key));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // ========== SETTINGS ==========
-  // Get current settings
-  app.get("/api/settings", async (_req, res) => {
+  app.post("/api/message-templates/:key/versions/:version/restore", requireAdmin, async (req, res) => {
     try {
-      const settings = await storage.getSettings();
-      res.json(settings);
-    } catch (error) {
-      console.error("Get settings error:", error);
-      res.status(500).json({ message: "Server error" });
+      const { key } = req.params;
+      if (!isMessageTemplateKey(key)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(await restoreTemplateVersion(key, parseInt(req.params.version), (req.user as any)?.id ?? null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
     }
   });
 
-  // Update settings
-  app.patch("/api/settings", async (req, res) => {
+  // Which SMS provider is sending texts (the outbox never reaches a phone)
+  app.get("/api/messaging/provider", requireAdmin, async (_req, res) => {
+    const provider = getSmsProvider();
+    res.json(provider ? { name: provider.name, from: provider.from } : null);
+  });
+
+  // The customer's referral code and the promotions applied to them, with what's left of each
+  app.get("/api/customers/:id/promotions", requireStaff, async (req, res) => {
     try {
-      const updates = req.body;
-      const settings = await storage.updateSettings(updates);
-      res.json(settings);
-    } catch (error) {
-      console.error("Update settings error:", error);
-      res.status(500).json({ message: "Server error" });
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json({
+        referralCode: referralProgramEnabled(await storage.getSettings()) ? await ensureReferralCode(customer) : null,
+        promotions: await customerPromotions(customer.id),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/customers/:id/promotions", requireStaff, async (req, res) => {
+    try {
+      const { code } = z.object({ code: z.string().trim().min(1, "Enter a code") }).parse(req.body);
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.status(201).json(await redeemCode(customer, code, (req.user as any)?.id ?? null));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
     }
   });
 
@@ -3133,17 +4362,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get count of customers who would receive announcement (admin only)
+  // Count the customers a segment would reach (admin only)
   // NOTE: This must be registered BEFORE /api/announcements/:id to avoid matching "preview" as an ID
-  app.get("/api/announcements/preview/count", requireAdmin, async (_req, res) => {
+  app.post("/api/announcements/preview", csrfProtection, requireAdmin, async (req, res) => {
     try {
-      const allCustomers = await storage.getAllCustomers();
-      const smsCustomers = allCustomers.filter(
-        (c) => c.status === "active" && c.smsOptIn && c.phone
-      );
-      res.json({ count: smsCustomers.length });
+      const parseResult = announcementSegmentSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid segment",
+          errors: parseResult.error.flatten().fieldErrors
+        });
+      }
+      const customers = await segmentCustomers(parseResult.data);
+      res.json({ count: customers.length });
     } catch (error) {
-      console.error("Get SMS customer count error:", error);
+      console.error("Preview announcement segment error:", error);
       res.status(500).json({ message: "Server error" });
     }
   });
@@ -3164,20 +4397,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Send announcement to all SMS-opted-in customers (admin only)
+  // Queue an announcement for the customers in a segment, now or at scheduledFor (admin only).
+  // The background worker in services/announcements sends it.
   app.post("/api/announcements", csrfProtection, requireAdmin, async (req, res) => {
     try {
-      // Check if Telnyx is configured - if not, we'll log instead of sending
-      const telnyxConfigured = !!(telnyxApiKey && telnyxPhoneNumber);
-      if (!telnyxConfigured) {
-        console.log("⚠️ Telnyx not configured - announcement will be logged but not sent via SMS");
-      }
-
-      // Validate request body using schema (extended with optional customerIds)
+      // customerIds is still accepted on its own for picking specific customers
       const announcementRequestSchema = insertAnnouncementSchema.extend({
-        customerIds: z.array(z.string()).optional(), // Optional: specific customers to send to
+        customerIds: z.array(z.string()).optional(),
       });
-      
+
       const parseResult = announcementRequestSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ 
@@ -3185,127 +4413,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: parseResult.error.flatten().fieldErrors 
         });
       }
-      
-      const { title, messageText, sentBy, customerIds } = parseResult.data;
-      const userId = sentBy || (req as any).user?.id || "system";
-
-      // Get all active customers with SMS opt-in
-      const allCustomers = await storage.getAllCustomers();
-      const allSmsEligible = allCustomers.filter(
-        (c) => c.status === "active" && c.smsOptIn && c.phone
-      );
-      
-      let smsCustomers = allSmsEligible;
-      
-      // If specific customers selected, filter to only those and validate
-      if (customerIds && customerIds.length > 0) {
-        smsCustomers = allSmsEligible.filter((c) => customerIds.includes(c.id));
-        
-        // Log if some requested IDs were not eligible
-        const eligibleIds = new Set(smsCustomers.map((c) => c.id));
-        const invalidIds = customerIds.filter((id) => !eligibleIds.has(id));
-        if (invalidIds.length > 0) {
-          console.log(`⚠️ ${invalidIds.length} requested customer IDs were not SMS-eligible and were skipped`);
-        }
-      }
-
-      if (smsCustomers.length === 0) {
-        return res.status(400).json({ 
-          message: "No eligible customers found. Customers must be active, have SMS opt-in enabled, and have a phone number." 
-        });
-      }
-
-      // Create the announcement record
-      const announcement = await storage.createAnnouncement({
-        title,
-        messageText,
-        sentBy: userId,
-      });
-
-      // Update with total recipients
-      await storage.updateAnnouncement(announcement.id, {
-        totalRecipients: smsCustomers.length,
-        status: "sending",
-      });
-
-      // Send to each customer (async, but we track results)
-      let successCount = 0;
-      let failCount = 0;
-
-      for (const customer of smsCustomers) {
-        try {
-          // Format phone number
-          const cleanDigits = customer.phone.replace(/\D/g, '');
-          let formattedPhone: string;
-          if (cleanDigits.length === 10) {
-            formattedPhone = '+1' + cleanDigits;
-          } else if (cleanDigits.length === 11 && cleanDigits.startsWith('1')) {
-            formattedPhone = '+' + cleanDigits;
-          } else {
-            throw new Error(`Invalid phone format: ${customer.phone}`);
-          }
-
-          if (telnyxConfigured) {
-            // Send SMS using the REST API
-            const result = await sendTelnyxSMS(telnyxPhoneNumber!, formattedPhone, messageText);
-            // Record successful send with external message ID
-            await storage.createAnnouncementRecipient({
-              announcementId: announcement.id,
-              customerId: customer.id,
-              customerName: customer.name,
-              customerPhone: formattedPhone,
-              status: "sent",
-              externalMessageId: result.id,
-            });
-            console.log(`✅ Announcement sent to ${customer.name} (${formattedPhone})`);
-          } else {
-            // Log-only mode when Telnyx not configured
-            await storage.createAnnouncementRecipient({
-              announcementId: announcement.id,
-              customerId: customer.id,
-              customerName: customer.name,
-              customerPhone: formattedPhone,
-              status: "logged",
-            });
-            console.log(`📝 [LOG ONLY] Would send announcement to ${customer.name} (${formattedPhone}): "${messageText.substring(0, 50)}..."`);
-          }
-          successCount++;
-        } catch (error: any) {
-          // Record failed send
-          await storage.createAnnouncementRecipient({
-            announcementId: announcement.id,
-            customerId: customer.id,
-            customerName: customer.name,
-            customerPhone: customer.phone,
-            status: "failed",
-            errorMessage: error.message,
-          });
-          failCount++;
-          console.error(`❌ Failed to send to ${customer.name}: ${error.message}`);
-        }
-      }
-
-      // Update announcement with final counts
-      const finalAnnouncement = await storage.updateAnnouncement(announcement.id, {
-        successfulSends: successCount,
-        failedSends: failCount,
-        status: "completed",
-        completedAt: new Date(),
-      });
 
-      const modeMessage = telnyxConfigured ? "sent" : "logged (SMS not configured)";
-      res.json({
-        ...finalAnnouncement,
-        message: `Announcement ${modeMessage} to ${successCount} customers. ${failCount} failed.`,
+      const { sentBy, customerIds, segment, ...input } = parseResult.data;
+      const userId = sentBy || (req as any).user?.id || "system";
+      const { announcement, audience } = await scheduleAnnouncement({
+        ...input,
+        segment: customerIds?.length ? { ...segment, customerIds } : segment,
+      }, userId);
+
+      const when = announcement.scheduledFor > announcement.createdAt
+        ? `scheduled for ${formatInTimeZone(announcement.scheduledFor, DEFAULT_TIMEZONE, "MMM d 'at' h:mm a")}`
+        : "queued for sending";
+      res.status(201).json({
+        ...announcement,
+        audience,
+        message: `Announcement to ${audience} customer${audience === 1 ? "" : "s"} ${when}.`,
       });
     } catch (error: any) {
       console.error("Send announcement error:", error);
-      console.error("Error stack:", error?.stack);
-      console.error("Error message:", error?.message);
-      res.status(500).json({ 
-        message: "Server error", 
-        details: error?.message || "Unknown error"
-      });
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Cancel a scheduled announcement, or stop one that's still sending (admin only)
+  app.post("/api/announcements/:id/cancel", csrfProtection, requireAdmin, async (req, res) => {
+    try {
+      const announcement = await cancelAnnouncement(req.params.id);
+      res.json(announcement);
+    } catch (error: any) {
+      res.status(error.message === "Announcement not found" ? 404 : 400).json({ message: error.message });
     }
   });
 
@@ -3529,6 +4665,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer does not have a card on file" });
       }
 
+      // A charge toward an invoice can be for part of it, but not for more than is owed
+      const invoice = invoiceId ? await storage.getInvoice(invoiceId) : undefined;
+      if (invoiceId) {
+        if (!invoice || invoice.customerId !== customer.id) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        if (invoice.status === "void") {
+          return res.status(400).json({ message: "This invoice was voided" });
+        }
+        const balance = await invoiceBalance(invoice);
+        if (Math.round(amount * 100) > balance) {
+          return res.status(400).json({ message: `The invoice balance is $${(balance / 100).toFixed(2)}` });
+        }
+      }
+
       const paymentIntent = await stripe.paymentIntents.create({
         amount: Math.round(amount * 100),
         currency: "usd",
@@ -3543,17 +4694,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
       });
 
-      // If payment succeeded and invoice provided, mark as paid
-      if (paymentIntent.status === "succeeded" && invoiceId) {
-        await storage.markInvoicePaid(invoiceId, paymentIntent.id);
+      // Apply what was charged to the invoice; it's paid or partial depending on what's left
+      if (paymentIntent.status === "succeeded" && invoice) {
+        await recordStripeInvoicePayment(invoice, paymentIntent.id, paymentIntent.amount_received);
         
-        // Send confirmation SMS
-        if (customer.smsOptIn) {
-          await sendSMS(
-            customer.phone,
-            `Payment of $${amount.toFixed(2)} received! Thank you for your payment.`
-          );
-        }
+        // Send payment receipt (SMS and/or email)
+        await sendPaymentReceipt(customer, { amount, method: "Card" });
       }
 
       res.json({ 
@@ -3610,52 +4756,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer has opted out of SMS" });
       }
 
-      // Create checkout session
-      let stripeCustomerId = customer.stripeCustomerId;
-      if (!stripeCustomerId) {
-        const stripeCustomer = await stripe.customers.create({
-          name: customer.name,
-          email: customer.email || undefined,
-          phone: customer.phone,
-          address: { line1: customer.address },
-        });
-        stripeCustomerId = stripeCustomer.id;
-        await storage.updateCustomer(id, { stripeCustomerId });
-      }
-
-      const baseUrl = process.env.NODE_ENV === "production" 
-        ? "https://sillydog-app.onrender.com"
-        : `http://localhost:5000`;
-
-      const session = await stripe.checkout.sessions.create({
-        mode: "payment",
-        customer: stripeCustomerId,
-        line_items: [
-          {
-            price_data: {
-              currency: "usd",
-              unit_amount: Math.round(amount * 100),
-              product_data: { name: description || "SillyDog Service" },
-            },
-            quantity: 1,
-          },
-        ],
-        metadata: {
-          invoiceId: invoiceId || "",
-          customerId: id,
-        },
-        success_url: `${baseUrl}/portal/payment-success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${baseUrl}/portal/payment-cancelled`,
-      });
+      const url = await createPaymentLink({ customer, amount, description, invoiceId });
 
       // Send SMS with payment link
-      const message = `Hi ${customer.name}! Here's your payment link for $${amount.toFixed(2)}: ${session.url}`;
-      await sendSMS(customer.phone, message);
+      const message = `Hi ${customer.name}! Here's your payment link for $${amount.toFixed(2)}: ${url}`;
+      const sms = await sendCustomerSms(customer, message);
+      if (sms.status === "skipped" || sms.status === "failed") {
+        return res.status(400).json({ message: sms.reason });
+      }
 
       res.json({ 
         success: true, 
         message: `Payment link sent to ${customer.phone}`,
-        url: session.url 
+        url 
       });
     } catch (error: any) {
       console.error("Send payment link error:", error);
@@ -3764,47 +4877,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update payment status
-      await storage.updatePayment(paymentId, {
+      const completed = await storage.updatePayment(paymentId, {
         status: 'completed',
         processedAt: new Date(),
       });
 
-      // Apply payment to invoices if specified
-      const amountInCents = Math.round(parseFloat(payment.amount) * 100);
-      let remainingAmount = amountInCents;
-
-      if (invoiceIds && Array.isArray(invoiceIds) && invoiceIds.length > 0) {
-        for (const invoiceId of invoiceIds) {
-          if (remainingAmount <= 0) break;
+      // Apply to the chosen invoices, then anything else open; leftover is account credit
+      await applyPayment(completed, Array.isArray(invoiceIds) ? invoiceIds : []);
 
-          const invoice = await storage.getInvoice(invoiceId);
-          if (invoice && invoice.status !== 'paid') {
-            const invoiceAmountCents = Math.round(parseFloat(invoice.amount) * 100);
-            const amountToApply = Math.min(remainingAmount, invoiceAmountCents);
-            
-            await storage.createPaymentApplication(
-              paymentId,
-              invoiceId,
-              (amountToApply / 100).toFixed(2)
-            );
-
-            // Mark invoice as paid if fully covered
-            if (amountToApply >= invoiceAmountCents) {
-              await storage.markInvoicePaid(invoiceId, paymentIntentId);
-            }
-
-            remainingAmount -= amountToApply;
-          }
-        }
-      }
-
-      // Get customer for SMS notification
+      // Get customer for the payment receipt
       const customer = await storage.getCustomer(payment.customerId);
-      if (customer && customer.smsOptIn) {
-        await sendSMS(
-          customer.phone,
-          `Payment of $${parseFloat(payment.amount).toFixed(2)} received! Thank you for your payment. - SillyDog Pooper Scooper`
-        );
+      if (customer) {
+        await sendPaymentReceipt(customer, { amount: payment.amount, method: "Card" });
       }
 
       res.json({
@@ -3860,46 +4944,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Update payment with processedAt
-      await storage.updatePayment(payment.id, {
+      const processed = await storage.updatePayment(payment.id, {
         processedAt: new Date(),
       });
 
-      // Apply payment to invoices if specified
-      const amountInCents = Math.round(amount * 100);
-      let remainingAmount = amountInCents;
-
-      if (invoiceIds && Array.isArray(invoiceIds) && invoiceIds.length > 0) {
-        for (const invoiceId of invoiceIds) {
-          if (remainingAmount <= 0) break;
-
-          const invoice = await storage.getInvoice(invoiceId);
-          if (invoice && invoice.status !== 'paid') {
-            const invoiceAmountCents = Math.round(parseFloat(invoice.amount) * 100);
-            const amountToApply = Math.min(remainingAmount, invoiceAmountCents);
-            
-            await storage.createPaymentApplication(
-              payment.id,
-              invoiceId,
-              (amountToApply / 100).toFixed(2)
-            );
-
-            // Mark invoice as paid if fully covered
-            if (amountToApply >= invoiceAmountCents) {
-              await storage.markInvoicePaid(invoiceId, `check-${checkNumber}`);
-            }
-
-            remainingAmount -= amountToApply;
-          }
-        }
-      }
+      // Apply to the chosen invoices, then anything else open; leftover is account credit
+      await applyPayment(processed, invoiceIds);
 
-      // Send confirmation SMS if opted in
-      if (customer.smsOptIn) {
-        await sendSMS(
-          customer.phone,
-          `Check payment of $${amount.toFixed(2)} received! Thank you for your payment. - SillyDog Pooper Scooper`
-        );
-      }
+      // Send payment receipt (SMS and/or email)
+      await sendPaymentReceipt(customer, { amount, method: "Check" });
 
       res.json({
         success: true,
@@ -3950,46 +5003,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Update payment with processedAt
-      await storage.updatePayment(payment.id, {
+      const processed = await storage.updatePayment(payment.id, {
         processedAt: new Date(),
       });
 
-      // Apply payment to invoices if specified
-      const amountInCents = Math.round(amount * 100);
-      let remainingAmount = amountInCents;
-
-      if (invoiceIds && Array.isArray(invoiceIds) && invoiceIds.length > 0) {
-        for (const invoiceId of invoiceIds) {
-          if (remainingAmount <= 0) break;
-
-          const invoice = await storage.getInvoice(invoiceId);
-          if (invoice && invoice.status !== 'paid') {
-            const invoiceAmountCents = Math.round(parseFloat(invoice.amount) * 100);
-            const amountToApply = Math.min(remainingAmount, invoiceAmountCents);
-            
-            await storage.createPaymentApplication(
-              payment.id,
-              invoiceId,
-              (amountToApply / 100).toFixed(2)
-            );
-
-            // Mark invoice as paid if fully covered
-            if (amountToApply >= invoiceAmountCents) {
-              await storage.markInvoicePaid(invoiceId, `cash-${payment.id}`);
-            }
-
-            remainingAmount -= amountToApply;
-          }
-        }
-      }
+      // Apply to the chosen invoices, then anything else open; leftover is account credit
+      await applyPayment(processed, invoiceIds);
 
-      // Send confirmation SMS if opted in
-      if (customer.smsOptIn) {
-        await sendSMS(
-          customer.phone,
-          `Cash payment of $${amount.toFixed(2)} received! Thank you for your payment. - SillyDog Pooper Scooper`
-        );
-      }
+      // Send payment receipt (SMS and/or email)
+      await sendPaymentReceipt(customer, { amount, method: "Cash" });
 
       res.json({
         success: true,
@@ -4012,8 +5034,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Customer not found" });
       }
 
+      // Each with what's left to pay after partial payments
+      const { openInvoices } = await customerAccount(id);
       const invoices = await storage.getInvoicesByCustomer(id);
-      const unpaidInvoices = invoices.filter(inv => inv.status !== 'paid');
+      const unpaidInvoices = invoices
+        .filter(inv => inv.status !== 'paid' && inv.status !== 'void')
+        .map(inv => ({ ...inv, balance: openInvoices.find(open => open.invoiceId === inv.id)?.balance ?? 0 }));
 
       res.json(unpaidInvoices);
     } catch (error: any) {
@@ -4022,6 +5048,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Account ledger: charges, payments, credits and refunds with a running balance
+  app.get("/api/customers/:id/ledger", requireStaff, async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(await customerAccount(customer.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Post an account credit or a balance adjustment. It pays down open invoices first;
+  // anything left goes toward the next invoice.
+  const accountCreditSchema = z.object({
+    paymentMethod: z.enum(["credit", "adjustment"]),
+    amount: z.union([z.number(), z.string()])
+      .transform(parseCurrency)
+      .refine((val) => !isNaN(val) && val >= 0.01 && val <= 100000, {
+        message: "Amount must be between $0.01 and $100,000"
+      }),
+    notes: z.string().min(1, "A description is required"),
+  });
+
+  app.post("/api/customers/:id/credits", requireAdmin, async (req, res) => {
+    try {
+      const validated = accountCreditSchema.safeParse(req.body);
+      if (!validated.success) {
+        return res.status(400).json({ message: validated.error.errors[0]?.message || "Invalid input" });
+      }
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const payment = await storage.createPayment({
+        customerId: customer.id,
+        paymentMethod: validated.data.paymentMethod,
+        amount: validated.data.amount.toFixed(2),
+        status: 'completed',
+        notes: validated.data.notes,
+        processedBy: (req.user as any)?.id,
+      });
+      await applyPayment(await storage.updatePayment(payment.id, { processedAt: new Date() }));
+
+      res.status(201).json(await customerAccount(customer.id));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // Get all payments for a customer
   app.get("/api/customers/:id/payments", requireStaff, async (req, res) => {
     try {
@@ -4051,6 +5129,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========== REFUNDS ==========
+  const refundRequestSchema = z.object({
+    amount: z.union([z.number(), z.string()]).transform(parseCurrency).optional(),
+    reason: z.string().optional(),
+  });
+
+  // Refund a payment (Stripe for card payments) or reverse a cash/check payment or credit
+  app.post("/api/payments/:id/refund", requireAdmin, async (req, res) => {
+    try {
+      const { amount, reason } = refundRequestSchema.parse(req.body);
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      const refund = await refundPayment(payment, { amount, reason, userId: (req.user as any)?.id });
+      res.json({ refund, payment: await storage.getPayment(payment.id) });
+    } catch (error: any) {
+      console.error("Refund payment error:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Refund the card payment that paid an invoice
+  app.post("/api/invoices/:id/refund", requireAdmin, async (req, res) => {
+    try {
+      const { amount, reason } = refundRequestSchema.parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const refund = await refundInvoicePayment(invoice, { amount, reason, userId: (req.user as any)?.id });
+      res.json({ refund, invoice: await storage.getInvoice(invoice.id) });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,259 @@
+import { storage } from "../storage";
+import { quietHoursEnd, sendCustomerSms } from "./messaging";
+import { buildAgingReport } from "./receivables";
+import type { Announcement, AnnouncementRecipient, AnnouncementSegment, Customer, InsertAnnouncement } from "@shared/schema";
+
+// Announcements are sent by a background worker rather than inside the request that creates
+// them: the audience is resolved from the segment when sending starts (at scheduledFor), then
+// recipients are texted at ANNOUNCEMENT_SENDS_PER_MINUTE (default 60). Failed sends are
+// retried after RETRY_DELAYS_MINUTES; nothing goes out during quiet hours. Carrier delivery
+// receipts (message.finalized) mark recipients delivered or failed.
+
+const RETRY_DELAYS_MINUTES = [5, 30]; // before the 2nd and 3rd attempts
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const BATCH_SIZE = 50;
+
+function sendsPerMinute(): number {
+  const rate = parseInt(process.env.ANNOUNCEMENT_SENDS_PER_MINUTE || "", 10);
+  return rate > 0 ? rate : 60;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ---------- Segments ----------
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Addresses are free text ("123 Main St, Reno, NV 89501"): the city has to appear after the street
+function inCity(address: string, city: string): boolean {
+  const afterStreet = address.includes(",") ? address.slice(address.indexOf(",") + 1) : address;
+  return new RegExp(`\\b${escapeRegExp(city.trim())}\\b`, "i").test(afterStreet);
+}
+
+function zipOf(address: string): string | null {
+  const matches = address.match(/\b\d{5}(?:-\d{4})?\b/g);
+  return matches ? matches[matches.length - 1].slice(0, 5) : null;
+}
+
+function hasAny<T>(values: T[] | undefined): values is T[] {
+  return !!values && values.length > 0;
+}
+
+// Active customers who can be texted and match every part of the segment
+export async function segmentCustomers(segment: AnnouncementSegment): Promise<Customer[]> {
+  let customers = (await storage.getAllCustomers()).filter(c => c.status === "active" && c.smsOptIn && c.phone);
+
+  if (hasAny(segment.customerIds)) {
+    const ids = new Set(segment.customerIds);
+    customers = customers.filter(c => ids.has(c.id));
+  }
+  if (hasAny(segment.serviceDays)) {
+    const days = new Map<string, Set<number>>();
+    const daysOf = (customerId: string) => days.get(customerId) ?? days.set(customerId, new Set()).get(customerId)!;
+    for (const rule of await storage.getAllScheduleRules()) {
+      if (!rule.paused) rule.byDay.forEach(day => daysOf(rule.customerId).add(day));
+    }
+    const wanted = segment.serviceDays;
+    customers = customers.filter(c => {
+      const customerDays = daysOf(c.id);
+      c.preferredDays?.forEach(day => customerDays.add(day));
+      return wanted.some(day => customerDays.has(day));
+    });
+  }
+  if (hasAny(segment.serviceTypeIds)) {
+    const ids = new Set(segment.serviceTypeIds);
+    customers = customers.filter(c => ids.has(c.serviceTypeId));
+  }
+  if (hasAny(segment.cities)) {
+    const cities = segment.cities;
+    customers = customers.filter(c => cities.some(city => inCity(c.address, city)));
+  }
+  if (hasAny(segment.zips)) {
+    const zips = new Set(segment.zips);
+    customers = customers.filter(c => zips.has(zipOf(c.address) ?? ""));
+  }
+  if (segment.minBalance !== undefined) {
+    const owed = new Map((await buildAgingReport()).customers.map(row => [row.customerId, row.total]));
+    const minBalance = segment.minBalance;
+    customers = customers.filter(c => (owed.get(c.id) || 0) >= minBalance);
+  }
+  if (hasAny(segment.tags)) {
+    const tags = segment.tags.map(tag => tag.toLowerCase());
+    customers = customers.filter(c => c.tags.some(tag => tags.includes(tag.toLowerCase())));
+  }
+
+  return customers.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ---------- Scheduling ----------
+
+export async function scheduleAnnouncement(input: InsertAnnouncement, sentBy: string): Promise<{ announcement: Announcement; audience: number }> {
+  const segment = input.segment ?? {};
+  const audience = (await segmentCustomers(segment)).length;
+  if (audience === 0) {
+    throw new Error("No eligible customers found. Customers must be active, have SMS opt-in enabled, have a phone number and match the segment.");
+  }
+
+  const now = new Date();
+  const scheduledFor = input.scheduledFor && input.scheduledFor > now ? input.scheduledFor : now;
+  const announcement = await storage.createAnnouncement({
+    title: input.title,
+    messageText: input.messageText,
+    sentBy,
+    segment,
+    scheduledFor,
+  });
+
+  if (scheduledFor <= now) {
+    processAnnouncementQueue().catch(error => console.error("Announcement queue failed:", error));
+  }
+  return { announcement, audience };
+}
+
+// Stop a scheduled announcement, or the rest of one that's sending
+export async function cancelAnnouncement(id: string): Promise<Announcement> {
+  const announcement = await storage.getAnnouncement(id);
+  if (!announcement) {
+    throw new Error("Announcement not found");
+  }
+  if (announcement.status !== "scheduled" && announcement.status !== "sending") {
+    throw new Error(`A ${announcement.status} announcement can't be cancelled`);
+  }
+  await storage.cancelPendingAnnouncementRecipients(id);
+  await refreshCounts(id);
+  return storage.updateAnnouncement(id, { status: "cancelled", completedAt: new Date() });
+}
+
+// ---------- Worker ----------
+
+// Roll the recipients' statuses up into the announcement's counts. Also returns how many
+// recipients are still waiting for a first attempt or a retry.
+async function refreshCounts(announcementId: string): Promise<{ announcement: Announcement; pending: number }> {
+  const recipients = await storage.getAnnouncementRecipients(announcementId);
+  const count = (...statuses: string[]) => recipients.filter(r => statuses.includes(r.status)).length;
+  const announcement = await storage.updateAnnouncement(announcementId, {
+    totalRecipients: recipients.length,
+    successfulSends: count("sent", "delivered"),
+    failedSends: count("failed"),
+    deliveredCount: count("delivered"),
+  });
+  return { announcement, pending: count("pending") };
+}
+
+async function startAnnouncement(announcement: Announcement): Promise<void> {
+  const customers = await segmentCustomers(announcement.segment);
+  await storage.createAnnouncementRecipients(customers.map(customer => ({
+    announcementId: announcement.id,
+    customerId: customer.id,
+    customerName: customer.name,
+    customerPhone: customer.phone,
+  })));
+  await storage.updateAnnouncement(announcement.id, {
+    status: customers.length > 0 ? "sending" : "completed",
+    totalRecipients: customers.length,
+    startedAt: new Date(),
+    ...(customers.length === 0 && { completedAt: new Date() }),
+  });
+  console.log(`📣 Announcement "${announcement.title}" started for ${customers.length} customers`);
+}
+
+async function sendToRecipient(announcement: Announcement, recipient: AnnouncementRecipient): Promise<void> {
+  const attempts = recipient.attempts + 1;
+  const customer = await storage.getCustomer(recipient.customerId);
+  if (!customer) {
+    await storage.updateAnnouncementRecipient(recipient.id, { status: "failed", attempts, errorMessage: "Customer deleted", nextAttemptAt: null });
+    return;
+  }
+
+  // The worker checks quiet hours itself, so the text goes out now rather than into the message queue
+  const sms = await sendCustomerSms(customer, announcement.messageText, { urgent: true });
+  if (sms.status === "sent") {
+    await storage.updateAnnouncementRecipient(recipient.id, {
+      status: "sent",
+      attempts,
+      customerPhone: sms.message?.phone ?? recipient.customerPhone,
+      messageId: sms.message?.id ?? null,
+      externalMessageId: sms.message?.externalMessageId ?? null,
+      errorMessage: null,
+      nextAttemptAt: null,
+      sentAt: new Date(),
+    });
+    return;
+  }
+
+  // Skipped (opted out since it was scheduled, bad number) isn't worth retrying
+  const retry = sms.status === "failed" && attempts < MAX_ATTEMPTS;
+  await storage.updateAnnouncementRecipient(recipient.id, {
+    status: retry ? "pending" : "failed",
+    attempts,
+    messageId: sms.message?.id ?? null,
+    errorMessage: sms.reason ?? null,
+    nextAttemptAt: retry ? new Date(Date.now() + RETRY_DELAYS_MINUTES[attempts - 1] * 60 * 1000) : null,
+  });
+  console.error(`❌ Announcement to ${recipient.customerName} ${retry ? `failed (attempt ${attempts}), will retry` : "failed"}: ${sms.reason}`);
+}
+
+async function sendAnnouncement(announcement: Announcement): Promise<void> {
+  const interval = 60_000 / sendsPerMinute();
+  let sent = 0;
+  // Re-read before every send so a cancellation stops the run
+  const stillSending = async () => (await storage.getAnnouncement(announcement.id))?.status === "sending";
+  for (;;) {
+    if (quietHoursEnd(await storage.getSettings())) break;
+    const due = await storage.getDueAnnouncementRecipients(announcement.id, new Date(), BATCH_SIZE);
+    if (due.length === 0) break;
+    for (const recipient of due) {
+      if (!(await stillSending())) return;
+      await sendToRecipient(announcement, recipient);
+      sent++;
+      await sleep(interval);
+    }
+    await refreshCounts(announcement.id);
+  }
+
+  const { announcement: updated, pending } = await refreshCounts(announcement.id);
+  if (pending === 0 && updated.status === "sending") {
+    await storage.updateAnnouncement(announcement.id, { status: "completed", completedAt: new Date() });
+    console.log(`✅ Announcement "${announcement.title}" completed: ${updated.successfulSends} sent, ${updated.failedSends} failed`);
+  } else if (sent > 0) {
+    console.log(`📣 Announcement "${announcement.title}": ${sent} texts sent this run`);
+  }
+}
+
+let running: Promise<void> | null = null;
+
+// Start announcements that are due and work through recipients. Runs every minute from
+// jobs.ts and right after a "send now" announcement is created; only one run at a time.
+export function processAnnouncementQueue(now = new Date()): Promise<void> {
+  if (!running) {
+    running = (async () => {
+      if (quietHoursEnd(await storage.getSettings(), now)) return;
+      for (const announcement of await storage.getDueAnnouncements(now)) {
+        await startAnnouncement(announcement);
+      }
+      for (const announcement of await storage.getAnnouncementsByStatus("sending")) {
+        await sendAnnouncement(announcement);
+      }
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+// ---------- Delivery receipts ----------
+
+// From the provider's delivery webhook. Returns false when the text wasn't an announcement.
+export async function recordAnnouncementReceipt(externalMessageId: string, delivered: boolean, errorMessage?: string): Promise<boolean> {
+  const recipient = await storage.getAnnouncementRecipientByExternalMessageId(externalMessageId);
+  if (!recipient) return false;
+  await storage.updateAnnouncementRecipient(recipient.id, delivered
+    ? { status: "delivered", deliveredAt: new Date() }
+    : { status: "failed", errorMessage: errorMessage || "Not delivered by the carrier" });
+  await refreshCounts(recipient.announcementId);
+  return true;
+}
@@ -1,134 +1,635 @@
 import { storage } from "../storage";
 import Stripe from "stripe";
+import { createInvoiceWithLineItems, sumLines, visitLines, type DraftLine } from "./invoices";
+import { openDunningCase } from "./dunning";
+import { invoiceReceipt, sendPaymentReceipt } from "./customerNotifications";
+import { invoiceBalance, recordStripeInvoicePayment } from "./ledger";
+import { addDays, todayInTimeZone } from "@shared/recurrence";
+import type {
+  BillingRun,
+  BillingRunOutcome,
+  BillingRunTrigger,
+  BillingPlan,
+  BillingTiming,
+  Customer,
+  InvoiceWithLineItems,
+  Route,
+  ScheduleRule,
+  ServiceAddon,
+  ServiceType,
+} from "@shared/schema";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2025-10-29.clover",
 });
 
-export async function generateMonthlyInvoices(month: string, year: string): Promise<{
-  success: number;
-  failed: number;
-  charged: number;
-  errors: string[];
-  skipped?: boolean;
-}> {
-  const results = {
-    success: 0,
-    failed: 0,
-    charged: 0,
-    errors: [] as string[],
+// A run still marked 'running' after this long was interrupted (crash or redeploy)
+const STALE_RUN_MS = 2 * 60 * 60 * 1000;
+
+const FIRST_INVOICE_SEQUENCE = 1000;
+
+// "2025-03" from a month ("3") and year ("2025")
+export function billingPeriod(month: string | number, year: string | number): string {
+  const period = `${year}-${month.toString().padStart(2, "0")}`;
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new Error("Invalid billing month or year");
+  }
+  return period;
+}
+
+function periodDates(period: string) {
+  const [year, month] = period.split("-").map(Number);
+  const lastDay = new Date(year, month, 0).getDate();
+  return {
+    startDate: `${period}-01`,
+    endDate: `${period}-${lastDay.toString().padStart(2, "0")}`,
+    dueDate: `${period}-15`,
   };
+}
 
+function autobillingPaused(): boolean {
   // Check autobill start date gate - skip autobilling until the specified date
   const autobillStartDate = process.env.AUTOBILL_START_DATE
     ? new Date(process.env.AUTOBILL_START_DATE)
     : null;
-  
-  const now = new Date();
-  
-  if (autobillStartDate && now < autobillStartDate) {
+
+  if (autobillStartDate && new Date() < autobillStartDate) {
     console.log(`Autobilling disabled until ${autobillStartDate.toISOString()}`);
     console.log("Skipping monthly invoice generation and autopay charges.");
-    return { ...results, skipped: true };
+    return true;
   }
+  return false;
+}
 
-  try {
-    const allCustomers = await storage.getAllCustomers();
-    const activeCustomers = allCustomers.filter(c => c.status === "active");
-    const scheduleRules = await storage.getAllScheduleRules();
-    const serviceTypes = await storage.getAllServiceTypes();
+// The month after `period`
+function nextPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${(month + 1).toString().padStart(2, "0")}`;
+}
 
-    const invoiceNumber = `INV-${year}${month.padStart(2, '0')}`;
-    let invoiceCounter = 1000;
+// "3/2025"
+function periodLabel(period: string): string {
+  const [year, month] = period.split("-");
+  return `${parseInt(month, 10)}/${year}`;
+}
 
-    for (const customer of activeCustomers) {
-      try {
-        // Get service type for pricing calculation
-        const serviceType = serviceTypes.find(st => st.id === customer.serviceTypeId);
-        if (!serviceType) {
-          results.errors.push(`Skipped ${customer.name}: No service type configured`);
-          continue;
-        }
-        
-        // Validate service type pricing (basePrice is the fixed per-visit price)
-        const pricePerVisit = parseFloat(serviceType.basePrice);
-        if (!pricePerVisit || pricePerVisit <= 0 || isNaN(pricePerVisit)) {
-          results.errors.push(`Skipped ${customer.name}: Invalid price in service type "${serviceType.name}"`);
-          continue;
-        }
-        
-        // Get completed routes for this customer in the billing period
-        const startDate = `${year}-${month.padStart(2, '0')}-01`;
-        const lastDay = new Date(parseInt(year), parseInt(month), 0).getDate();
-        const endDate = `${year}-${month.padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`;
-        
-        const allRoutes = await storage.getRoutesByCustomerAndDateRange(
-          customer.id,
-          startDate,
-          endDate
-        );
-        
-        // Filter to only billable completed routes
-        const completedRoutes = allRoutes.filter(
-          (route) => route.status === "completed" && route.billable
-        );
-        
-        if (completedRoutes.length === 0) {
-          results.errors.push(`Skipped ${customer.name}: No completed routes in ${month}/${year}`);
-          continue;
-        }
-        
-        // Total amount = fixed price per visit × number of completed visits
-        const amount = pricePerVisit * completedRoutes.length;
-        const serviceTypeName = serviceType.name;
-        
-        if (isNaN(amount) || amount <= 0) {
-          results.errors.push(`Skipped ${customer.name}: Calculated amount is invalid`);
-          continue;
-        }
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+interface BillingContext {
+  period: string;
+  serviceTypes: ServiceType[];
+  scheduleRules: ScheduleRule[];
+  addons: ServiceAddon[];
+  billed: Set<string>; // customerId:period for this period and the next, already invoiced (not void)
+  nextInvoiceNumber: () => string;
+  errors: string[]; // run-level warnings
+}
 
-        const dueDate = `${year}-${month.padStart(2, '0')}-15`;
-
-        const invoice = await storage.createInvoice({
-          customerId: customer.id,
-          invoiceNumber: `${invoiceNumber}-${invoiceCounter++}`,
-          amount: amount.toFixed(2),
-          status: "unpaid",
-          dueDate,
-          description: `${serviceTypeName} - ${completedRoutes.length} visits × $${pricePerVisit.toFixed(2)} - ${month}/${year}`,
-        });
-
-        results.success++;
-
-        if (customer.autopayEnabled && customer.stripeCustomerId && customer.stripePaymentMethodId) {
-          try {
-            const paymentIntent = await stripe.paymentIntents.create({
-              amount: Math.round(amount * 100),
-              currency: "usd",
-              customer: customer.stripeCustomerId,
-              payment_method: customer.stripePaymentMethodId,
-              off_session: true,
-              confirm: true,
-              description: `Auto-pay for ${invoice.invoiceNumber}`,
-            });
-
-            if (paymentIntent.status === "succeeded") {
-              await storage.markInvoicePaid(invoice.id, paymentIntent.id);
-              results.charged++;
-            }
-          } catch (chargeError: any) {
-            results.errors.push(`Autopay failed for ${customer.name}: ${chargeError.message}`);
-          }
+function isBilled(ctx: BillingContext, customerId: string, period: string): boolean {
+  return ctx.billed.has(`${customerId}:${period}`);
+}
+
+async function loadContext(period: string, errors: string[]): Promise<BillingContext> {
+  // Advance billing invoices next month from this month's run
+  const existing = [
+    ...await storage.getInvoicesForBillingPeriod(period),
+    ...await storage.getInvoicesForBillingPeriod(nextPeriod(period)),
+  ];
+
+  // Continue numbering after whatever earlier runs for this period used
+  const prefix = `INV-${period.replace("-", "")}-`;
+  let sequence = existing.reduce((highest, invoice) => {
+    const n = parseInt(invoice.invoiceNumber.slice(prefix.length), 10);
+    return invoice.invoiceNumber.startsWith(prefix) && n >= highest ? n + 1 : highest;
+  }, FIRST_INVOICE_SEQUENCE);
+
+  return {
+    period,
+    serviceTypes: await storage.getAllServiceTypes(),
+    scheduleRules: await storage.getAllScheduleRules(),
+    addons: (await storage.getSettings()).serviceAddons || [],
+    // A voided invoice frees its period, so the customer can be billed for it again
+    billed: new Set(existing.filter(invoice => invoice.status !== "void").map(invoice => `${invoice.customerId}:${invoice.billingPeriod}`)),
+    nextInvoiceNumber: () => `${prefix}${sequence++}`,
+    errors,
+  };
+}
+
+// Billable completed visits (plus visits skipped for a billable company closure)
+function billedVisits(routes: Route[]): Route[] {
+  return routes.filter(
+    (route) => route.billable && (
+      route.status === "completed" ||
+      (route.status === "skipped" && route.skipReason === "holiday")
+    )
+  );
+}
+
+// Lines for the visits, warning about add-ons that have no price
+async function linesForVisits(customer: Customer, serviceType: ServiceType, visits: Route[], ctx: BillingContext): Promise<DraftLine[]> {
+  const { lines, unpricedAddons } = visitLines({
+    serviceType,
+    routes: visits,
+    jobs: await storage.getJobHistoryByCustomer(customer.id),
+    rules: ctx.scheduleRules.filter(rule => rule.customerId === customer.id),
+    addons: ctx.addons,
+  });
+  for (const key of unpricedAddons) {
+    ctx.errors.push(`${customer.name}: add-on "${key}" has no price in Settings and was not billed`);
+  }
+  return lines;
+}
+
+// What to invoice a customer, or why not
+interface InvoiceDraft {
+  billingPeriod: string; // the month the invoice covers
+  dueDate: string;
+  description: string;
+  lines: DraftLine[];
+  visits: number;
+}
+
+type DraftResult = { draft: InvoiceDraft } | { skipped: string } | { existing: true };
+
+// Per visit: the service type's price for each completed visit in the period that isn't
+// already on an invoice
+async function perVisitDraft(customer: Customer, serviceType: ServiceType, ctx: BillingContext): Promise<DraftResult> {
+  if (isBilled(ctx, customer.id, ctx.period)) return { existing: true };
+
+  // Validate service type pricing (basePrice is the fixed per-visit price)
+  const pricePerVisit = parseFloat(serviceType.basePrice);
+  if (!pricePerVisit || pricePerVisit <= 0 || isNaN(pricePerVisit)) {
+    return { skipped: `Invalid price in service type "${serviceType.name}"` };
+  }
+
+  const { startDate, endDate, dueDate } = periodDates(ctx.period);
+  const visits = billedVisits(await storage.getRoutesByCustomerAndDateRange(customer.id, startDate, endDate));
+  // Visits charged early with a quick charge
+  const invoiced = new Set(await storage.getInvoicedRouteIds(visits.map(route => route.id)));
+  const unbilled = visits.filter(route => !invoiced.has(route.id));
+  if (unbilled.length === 0) {
+    return { skipped: "No completed routes in this period" };
+  }
+
+  return {
+    draft: {
+      billingPeriod: ctx.period,
+      dueDate,
+      description: `${serviceType.name} - ${unbilled.length} visits - ${periodLabel(ctx.period)}`,
+      lines: await linesForVisits(customer, serviceType, unbilled, ctx),
+      visits: unbilled.length,
+    },
+  };
+}
+
+function monthlyFeeLine(serviceType: ServiceType, price: number, period: string): DraftLine {
+  return {
+    kind: "service",
+    description: `${serviceType.name} - monthly plan (${periodLabel(period)})`,
+    serviceDate: null,
+    routeId: null,
+    quantity: "1",
+    unitPrice: price.toFixed(2),
+    amount: price.toFixed(2),
+    taxable: serviceType.taxable,
+  };
+}
+
+// Flat monthly: the plan price however many visits the month has, plus add-ons for the
+// period's visits. In arrears the period's run bills the period; in advance it bills the
+// next month (and the period too if it was never billed, e.g. after switching from arrears).
+async function flatMonthlyDraft(customer: Customer, serviceType: ServiceType, ctx: BillingContext): Promise<DraftResult> {
+  const price = customer.planPrice ? parseFloat(customer.planPrice) : NaN;
+  if (!(price > 0)) {
+    return { skipped: "Flat monthly plan has no price" };
+  }
+
+  const { startDate, endDate, dueDate } = periodDates(ctx.period);
+  const visits = billedVisits(await storage.getRoutesByCustomerAndDateRange(customer.id, startDate, endDate));
+  const addonLines = (await linesForVisits(customer, serviceType, visits, ctx)).filter(line => line.kind === "addon");
+
+  if (customer.billingTiming !== "advance") {
+    if (isBilled(ctx, customer.id, ctx.period)) return { existing: true };
+    if (visits.length === 0) {
+      return { skipped: "No completed routes in this period" };
+    }
+    return {
+      draft: {
+        billingPeriod: ctx.period,
+        dueDate,
+        description: `${serviceType.name} - monthly plan - ${periodLabel(ctx.period)}`,
+        lines: [monthlyFeeLine(serviceType, price, ctx.period), ...addonLines],
+        visits: visits.length,
+      },
+    };
+  }
+
+  const next = nextPeriod(ctx.period);
+  if (isBilled(ctx, customer.id, next)) return { existing: true };
+
+  const lines: DraftLine[] = [];
+  if (!isBilled(ctx, customer.id, ctx.period) && visits.length > 0) {
+    lines.push(monthlyFeeLine(serviceType, price, ctx.period));
+  }
+  const nextDates = periodDates(next);
+  const upcoming = (await storage.getRoutesByCustomerAndDateRange(customer.id, nextDates.startDate, nextDates.endDate))
+    .filter(route => route.billable && route.status !== "skipped");
+  if (upcoming.length > 0) {
+    lines.push(monthlyFeeLine(serviceType, price, next));
+  }
+  if (lines.length === 0) {
+    return { skipped: "No visits scheduled next month" };
+  }
+
+  return {
+    draft: {
+      billingPeriod: next,
+      dueDate: nextDates.startDate, // before the month's service starts
+      description: `${serviceType.name} - monthly plan - ${periodLabel(next)} (billed in advance)`,
+      lines: [...lines, ...addonLines],
+      visits: visits.length,
+    },
+  };
+}
+
+// Visits bought in prepaid packages (on invoices that weren't voided), and the visits
+// since packageStartDate through `throughDate` that drew on them
+async function packageUsage(customer: Customer, throughDate: string): Promise<{ purchased: number; used: Route[] }> {
+  const packageStart = customer.packageStartDate || customer.createdAt.toISOString().slice(0, 10);
+  const used = billedVisits(await storage.getRoutesByCustomerAndDateRange(customer.id, packageStart, throughDate));
+
+  const invoices = (await storage.getInvoicesByCustomer(customer.id)).filter(invoice => invoice.status !== "void");
+  const purchased = (await storage.getInvoiceLineItems(invoices.map(invoice => invoice.id)))
+    .filter(line => line.kind === "package")
+    .reduce((sum, line) => sum + Math.round(parseFloat(line.quantity)), 0);
+
+  return { purchased, used };
+}
+
+// Prepaid package: visits since packageStartDate draw on the packages bought so far (the
+// visit quantities on the customer's package lines). When they run out - or, in advance,
+// as soon as the last one is used - the next package is billed along with the period's
+// add-ons. Nothing is invoiced for a period the packages cover.
+async function packageDraft(customer: Customer, serviceType: ServiceType, ctx: BillingContext): Promise<DraftResult> {
+  if (isBilled(ctx, customer.id, ctx.period)) return { existing: true };
+
+  const price = customer.planPrice ? parseFloat(customer.planPrice) : NaN;
+  const size = customer.packageVisits || 0;
+  if (!(price > 0) || size <= 0) {
+    return { skipped: "Prepaid package plan has no price or visit count" };
+  }
+
+  const { startDate, endDate, dueDate } = periodDates(ctx.period);
+  const { purchased, used } = await packageUsage(customer, endDate);
+  const visits = used.filter(route => route.date >= startDate);
+
+  let remaining = purchased - used.length;
+  let packages = 0;
+  while (customer.billingTiming === "advance" ? remaining <= 0 : remaining < 0) {
+    packages++;
+    remaining += size;
+  }
+
+  const lines = (await linesForVisits(customer, serviceType, visits, ctx)).filter(line => line.kind === "addon");
+  if (packages > 0) {
+    lines.unshift({
+      kind: "package",
+      description: packages === 1
+        ? `Prepaid package - ${size} visits`
+        : `${packages} prepaid packages - ${packages * size} visits`,
+      serviceDate: null,
+      routeId: null,
+      quantity: (packages * size).toString(),
+      unitPrice: (price / size).toFixed(2),
+      amount: ((packages * toCents(price)) / 100).toFixed(2),
+      taxable: serviceType.taxable,
+    });
+  }
+  if (lines.length === 0) {
+    return { skipped: `Covered by prepaid package (${remaining} visit${remaining === 1 ? "" : "s"} left)` };
+  }
+
+  return {
+    draft: {
+      billingPeriod: ctx.period,
+      dueDate,
+      description: `${serviceType.name} - ${visits.length} visits from prepaid package, ${remaining} left - ${periodLabel(ctx.period)}`,
+      lines,
+      visits: visits.length,
+    },
+  };
+}
+
+function draftInvoice(customer: Customer, serviceType: ServiceType, ctx: BillingContext): Promise<DraftResult> {
+  switch (customer.billingPlan) {
+    case "flat_monthly":
+      return flatMonthlyDraft(customer, serviceType, ctx);
+    case "prepaid_package":
+      return packageDraft(customer, serviceType, ctx);
+    default:
+      return perVisitDraft(customer, serviceType, ctx);
+  }
+}
+
+// Invoice (and autopay) one customer for the period. With `dryRun`, work out what
+// would be billed without creating or charging anything.
+async function billCustomer(customer: Customer, ctx: BillingContext, dryRun: boolean): Promise<BillingRunOutcome> {
+  const outcome = { customerId: customer.id, customerName: customer.name };
+  const skipped = (message: string): BillingRunOutcome => ({ ...outcome, status: "skipped", message });
+
+  // Get service type for pricing calculation
+  const serviceType = ctx.serviceTypes.find(st => st.id === customer.serviceTypeId);
+  if (!serviceType) {
+    return skipped("No service type configured");
+  }
+
+  const planned = await draftInvoice(customer, serviceType, ctx);
+  if ("existing" in planned) {
+    return { ...outcome, status: "existing", message: "Already invoiced for this period" };
+  }
+  if ("skipped" in planned) {
+    return skipped(planned.skipped);
+  }
+  const { draft } = planned;
+  const amount = sumLines(draft.lines);
+
+  if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+    return skipped("Calculated amount is invalid");
+  }
+
+  if (dryRun) {
+    return { ...outcome, status: "preview", amount, visits: draft.visits };
+  }
+
+  const invoice = await createInvoiceWithLineItems({
+    customerId: customer.id,
+    invoiceNumber: ctx.nextInvoiceNumber(),
+    status: "unpaid",
+    dueDate: draft.dueDate,
+    billingPeriod: draft.billingPeriod,
+    description: draft.description,
+  }, draft.lines);
+  ctx.billed.add(`${customer.id}:${draft.billingPeriod}`);
+
+  const result: BillingRunOutcome = {
+    ...outcome,
+    status: "invoiced",
+    invoiceId: invoice.id,
+    amount: invoice.amount,
+    visits: draft.visits,
+    charged: false,
+  };
+
+  // Account credit was applied when the invoice was created; autopay charges the rest
+  const balance = await invoiceBalance(invoice);
+  if (balance < Math.round(parseFloat(invoice.amount) * 100)) {
+    result.message = balance === 0 ? "Paid from account credit" : "Account credit applied";
+  }
+
+  if (balance > 0 && customer.autopayEnabled && customer.stripeCustomerId && customer.stripePaymentMethodId) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: balance,
+        currency: "usd",
+        customer: customer.stripeCustomerId,
+        payment_method: customer.stripePaymentMethodId,
+        off_session: true,
+        confirm: true,
+        description: `Auto-pay for ${invoice.invoiceNumber}`,
+      });
+
+      if (paymentIntent.status === "succeeded") {
+        await recordStripeInvoicePayment(invoice, paymentIntent.id, paymentIntent.amount_received);
+        result.charged = true;
+        try {
+          await sendPaymentReceipt(customer, invoiceReceipt(invoice, paymentIntent.amount_received / 100));
+        } catch (receiptError: any) {
+          console.error(`Payment receipt failed for ${customer.name}:`, receiptError.message);
         }
+      } else {
+        result.message = `Autopay ${paymentIntent.status.replace(/_/g, " ")}`;
+        await openDunningCase(invoice, customer, result.message);
+      }
+    } catch (chargeError: any) {
+      result.message = `Autopay failed: ${chargeError.message}`;
+      // Retries and customer notices happen on the dunning schedule
+      await openDunningCase(invoice, customer, chargeError.message);
+    }
+  }
+
+  return result;
+}
+
+// Invoice a customer now for the current month (quick charge), priced the same way a
+// billing run would. Per-visit invoices carry no billing period, so the month's run still
+// bills visits completed after this.
+export async function invoiceCustomerNow(customer: Customer): Promise<InvoiceWithLineItems> {
+  const today = todayInTimeZone();
+  const ctx = await loadContext(today.slice(0, 7), []);
+
+  const serviceType = ctx.serviceTypes.find(st => st.id === customer.serviceTypeId);
+  if (!serviceType) {
+    throw new Error("Customer does not have a service type configured. Please set a service type first.");
+  }
+
+  const planned = await draftInvoice(customer, serviceType, ctx);
+  if ("existing" in planned) {
+    throw new Error(`${customer.name} has already been invoiced for this month`);
+  }
+  if ("skipped" in planned) {
+    throw new Error(planned.skipped);
+  }
+  for (const warning of ctx.errors) {
+    console.warn(warning);
+  }
+
+  const { draft } = planned;
+  return createInvoiceWithLineItems({
+    customerId: customer.id,
+    invoiceNumber: `INV-${Date.now()}`,
+    status: "unpaid",
+    dueDate: addDays(today, 7),
+    billingPeriod: customer.billingPlan === "per_visit" ? null : draft.billingPeriod,
+    description: draft.description,
+  }, draft.lines);
+}
+
+export interface BillingPlanSummary {
+  plan: BillingPlan;
+  timing: BillingTiming;
+  price: string | null; // per visit, per month or per package
+  packageVisits: number | null;
+  visitsRemaining: number | null; // prepaid packages: visits left (negative when overdrawn)
+}
+
+// How the customer is billed, for the portal and staff
+export async function billingPlanSummary(customer: Customer, serviceType?: ServiceType | null): Promise<BillingPlanSummary> {
+  const plan = customer.billingPlan as BillingPlan;
+  const summary: BillingPlanSummary = {
+    plan,
+    timing: customer.billingTiming as BillingTiming,
+    price: plan === "per_visit" ? serviceType?.basePrice ?? null : customer.planPrice,
+    packageVisits: plan === "prepaid_package" ? customer.packageVisits : null,
+    visitsRemaining: null,
+  };
+  if (plan === "prepaid_package") {
+    const { purchased, used } = await packageUsage(customer, todayInTimeZone());
+    summary.visitsRemaining = purchased - used.length;
+  }
+  return summary;
+}
+
+function tally(outcomes: BillingRunOutcome[]) {
+  const count = (status: BillingRunOutcome["status"]) => outcomes.filter(o => o.status === status).length;
+  return {
+    invoicedCount: count("invoiced"),
+    existingCount: count("existing"),
+    skippedCount: count("skipped"),
+    failedCount: count("failed"),
+    chargedCount: outcomes.filter(o => o.charged).length,
+  };
+}
+
+async function customersToBill(customerIds?: string[]): Promise<Customer[]> {
+  const active = (await storage.getAllCustomers()).filter(c => c.status === "active");
+  return customerIds ? active.filter(c => customerIds.includes(c.id)) : active;
+}
+
+export interface BillingPreview {
+  period: string;
+  outcomes: BillingRunOutcome[];
+  errors: string[];
+  total: string; // what the run would invoice
+}
+
+// What a run for `period` would do right now, without creating invoices or charging cards
+export async function previewMonthlyBilling(period: string): Promise<BillingPreview> {
+  const errors: string[] = [];
+  const ctx = await loadContext(period, errors);
+  const outcomes: BillingRunOutcome[] = [];
+
+  for (const customer of await customersToBill()) {
+    try {
+      outcomes.push(await billCustomer(customer, ctx, true));
+    } catch (error: any) {
+      outcomes.push({ customerId: customer.id, customerName: customer.name, status: "failed", message: error.message });
+    }
+  }
+
+  const previewed = outcomes.filter(o => o.status === "preview").map(o => ({ amount: o.amount! }));
+  return { period, outcomes, errors, total: sumLines(previewed) };
+}
+
+// The run currently working on `period`, if any. Runs left 'running' by a crash are
+// closed out as failed so the period can be billed again.
+export async function activeBillingRun(period: string): Promise<BillingRun | undefined> {
+  let active: BillingRun | undefined;
+  for (const run of await storage.getRunningBillingRuns(period)) {
+    if (Date.now() - run.startedAt.getTime() > STALE_RUN_MS) {
+      await storage.updateBillingRun(run.id, {
+        status: "failed",
+        finishedAt: new Date(),
+        errors: [...run.errors, "Run was interrupted before it finished"],
+      });
+    } else {
+      active = run;
+    }
+  }
+  return active;
+}
+
+export interface BillingRunOptions {
+  period: string; // YYYY-MM
+  trigger: BillingRunTrigger;
+  triggeredBy?: string | null;
+  customerIds?: string[]; // only these customers (retries)
+  retryOfRunId?: string | null;
+}
+
+// Invoice every active customer for the period, recording each customer's outcome on a
+// billing run as it goes. Customers already invoiced for the period are left alone, so
+// running a period again (or after an interrupted run) only fills the gaps.
+// Returns null when autobilling is paused by AUTOBILL_START_DATE.
+export async function runMonthlyBilling(options: BillingRunOptions): Promise<BillingRun | null> {
+  if (autobillingPaused()) {
+    return null;
+  }
+
+  const inProgress = await activeBillingRun(options.period);
+  if (inProgress) {
+    throw new Error(`A billing run for ${options.period} is already in progress`);
+  }
+
+  let run = await storage.createBillingRun({
+    period: options.period,
+    status: "running",
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy ?? null,
+    retryOfRunId: options.retryOfRunId ?? null,
+    outcomes: [],
+    errors: [],
+  });
+
+  const errors: string[] = [];
+  const outcomes: BillingRunOutcome[] = [];
+
+  try {
+    const ctx = await loadContext(options.period, errors);
+
+    for (const customer of await customersToBill(options.customerIds)) {
+      try {
+        outcomes.push(await billCustomer(customer, ctx, false));
       } catch (error: any) {
-        results.failed++;
-        results.errors.push(`Failed to create invoice for ${customer.name}: ${error.message}`);
+        outcomes.push({ customerId: customer.id, customerName: customer.name, status: "failed", message: error.message });
       }
+      // Saved after every customer so an interrupted run shows how far it got
+      run = await storage.updateBillingRun(run.id, { outcomes, errors, ...tally(outcomes) });
     }
 
-    return results;
+    return await storage.updateBillingRun(run.id, {
+      status: outcomes.some(o => o.status === "failed") || errors.length > 0 ? "completed_with_errors" : "completed",
+      finishedAt: new Date(),
+      outcomes,
+      errors,
+      ...tally(outcomes),
+    });
   } catch (error: any) {
-    results.errors.push(`Monthly billing job failed: ${error.message}`);
-    return results;
+    return await storage.updateBillingRun(run.id, {
+      status: "failed",
+      finishedAt: new Date(),
+      outcomes,
+      errors: [...errors, `Monthly billing job failed: ${error.message}`],
+      ...tally(outcomes),
+    });
+  }
+}
+
+// Bill again the customers a run failed on. A run that died partway is rerun for the
+// whole period; customers it already invoiced are skipped.
+export async function retryBillingRun(runId: string, triggeredBy?: string | null): Promise<BillingRun | null> {
+  const run = await storage.getBillingRun(runId);
+  if (!run) {
+    throw new Error("Billing run not found");
+  }
+  if (run.status === "running") {
+    throw new Error("This billing run is still in progress");
   }
+
+  let customerIds: string[] | undefined;
+  if (run.status !== "failed") {
+    customerIds = run.outcomes.filter(o => o.status === "failed").map(o => o.customerId);
+    if (customerIds.length === 0) {
+      throw new Error("This run has no failed customers to retry");
+    }
+  }
+
+  return runMonthlyBilling({
+    period: run.period,
+    trigger: "retry",
+    triggeredBy,
+    customerIds,
+    retryOfRunId: run.id,
+  });
 }
@@ -0,0 +1,132 @@
+import { storage } from "../storage";
+import { appBaseUrl, invoicePdfUrl } from "./documents";
+import { sendEmail, type EmailContent, type EmailResult } from "./email";
+import { sendCustomerSms, type SmsOptions, type SmsResult } from "./messaging";
+import { renderMessage } from "./messageTemplates";
+import {
+  newInvoiceEmail,
+  paymentFailedEmail,
+  paymentReceiptEmail,
+  portalInviteEmail,
+  reminderEmail,
+  serviceCompleteEmail,
+  type PaymentFailedNotice,
+  type Receipt,
+} from "./emailTemplates";
+import type { Customer, Invoice } from "@shared/schema";
+
+// Customer notifications over the channels the customer prefers (customers.notificationChannel).
+// Customers who prefer SMS but can't be texted get email instead, so nobody misses an invoice
+// or a receipt because they never opted in to texts.
+
+export interface Channels {
+  sms: boolean;
+  email: boolean;
+}
+
+// Every channel the customer can be reached on, whatever their preference
+export function reachableChannels(customer: Customer): Channels {
+  return { sms: customer.smsOptIn && !!customer.phone, email: !!customer.email };
+}
+
+export function customerChannels(customer: Customer): Channels {
+  const { sms: canText, email: canEmail } = reachableChannels(customer);
+  switch (customer.notificationChannel) {
+    case "email":
+      return { sms: false, email: canEmail };
+    case "both":
+      return { sms: canText, email: canEmail };
+    default:
+      return { sms: canText, email: canEmail && !canText };
+  }
+}
+
+export interface NotifyResult {
+  sms?: SmsResult;
+  email?: EmailResult;
+}
+
+// Sent or queued on at least one channel
+export function notified(result: NotifyResult): boolean {
+  return result.sms?.status === "sent" || result.sms?.status === "queued" || result.email?.status === "sent";
+}
+
+// Why nothing went out, for error messages
+export function notifyFailure(customer: Customer, result: NotifyResult): string {
+  const reasons = [result.sms?.reason, result.email?.reason].filter(Boolean);
+  return reasons.length > 0
+    ? reasons.join("; ")
+    : `${customer.name} can't be reached: no SMS opt-in and no email address`;
+}
+
+export async function notifyCustomer(
+  customer: Customer,
+  message: { sms: string; email: EmailContent },
+  smsOptions: Omit<SmsOptions, "customer"> = {},
+  channels: Channels = customerChannels(customer)
+): Promise<NotifyResult> {
+  const result: NotifyResult = {};
+  if (channels.sms) {
+    result.sms = await sendCustomerSms(customer, message.sms, smsOptions);
+  }
+  if (channels.email) {
+    result.email = await sendEmail(customer.email, message.email);
+  }
+  return result;
+}
+
+export async function sendServiceReminder(customer: Customer, serviceDate: string): Promise<NotifyResult> {
+  const settings = await storage.getSettings();
+  return notifyCustomer(customer, {
+    sms: await renderMessage("reminder", { name: customer.name, address: customer.address, serviceDate }),
+    email: reminderEmail(settings, customer, serviceDate),
+  });
+}
+
+export async function sendServiceComplete(customer: Customer, reviewUrl: string): Promise<NotifyResult> {
+  const settings = await storage.getSettings();
+  return notifyCustomer(customer, {
+    sms: await renderMessage("service_complete", { name: customer.name, address: customer.address || "your location", reviewUrl }),
+    email: serviceCompleteEmail(settings, customer, reviewUrl),
+  });
+}
+
+export async function sendNewInvoice(customer: Customer, invoice: Invoice): Promise<NotifyResult> {
+  const settings = await storage.getSettings();
+  const url = invoicePdfUrl(invoice.id);
+  return notifyCustomer(customer, {
+    sms: await renderMessage("new_invoice", {
+      name: customer.name,
+      invoiceNumber: invoice.invoiceNumber,
+      amount: invoice.amount,
+      dueDate: invoice.dueDate,
+      invoiceUrl: url,
+    }),
+    email: newInvoiceEmail(settings, customer, invoice, url),
+  });
+}
+
+export async function sendPaymentReceipt(customer: Customer, receipt: Receipt): Promise<NotifyResult> {
+  const settings = await storage.getSettings();
+  const sms = receipt.invoiceNumber
+    ? await renderMessage("invoice_paid", { name: customer.name, invoiceNumber: receipt.invoiceNumber, amount: receipt.amount })
+    : await renderMessage("payment_received", { name: customer.name, amount: receipt.amount, method: receipt.method.toLowerCase() });
+  return notifyCustomer(customer, { sms, email: paymentReceiptEmail(settings, customer, receipt) });
+}
+
+// A failed autopay charge: texted and emailed so the customer sees it whichever they check
+export async function sendPaymentFailedNotice(customer: Customer, sms: string, notice: PaymentFailedNotice): Promise<NotifyResult> {
+  const settings = await storage.getSettings();
+  return notifyCustomer(customer, { sms, email: paymentFailedEmail(settings, customer, notice) }, {}, reachableChannels(customer));
+}
+
+export function invoiceReceipt(invoice: Invoice, amount: string | number = invoice.amount): Receipt {
+  return { amount, method: "Card", invoiceNumber: invoice.invoiceNumber };
+}
+
+export async function sendPortalInvite(customer: Customer): Promise<NotifyResult> {
+  const settings = await storage.getSettings();
+  const portalUrl = `${appBaseUrl()}/portal/login`;
+  const sms = await renderMessage(customer.portalPassword ? "portal_access" : "portal_invite", { name: customer.name, portalUrl });
+  return notifyCustomer(customer, { sms, email: portalInviteEmail(settings, customer, portalUrl) });
+}
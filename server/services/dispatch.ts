@@ -0,0 +1,223 @@
+import { storage } from "../storage";
+import type { Customer, Route, Settings } from "@shared/schema";
+import type { Coordinates } from "./geocoding";
+import {
+  DEFAULT_SERVICE_MINUTES,
+  optimizeRoute,
+  splitStops,
+  type OptimizeRouteResult,
+  type OptimizerStop,
+  type RouteStats,
+} from "./routeOptimizer";
+
+// Recent visits used to estimate how long a customer's service takes
+const SERVICE_HISTORY_SAMPLE = 5;
+
+interface DispatchStop {
+  route: Route;
+  customer?: Customer;
+  stop?: OptimizerStop; // missing when the customer has no coordinates
+}
+
+export interface DispatchResult {
+  message: string;
+  before?: RouteStats;
+  after?: RouteStats;
+}
+
+function routeStart(settings: Settings): Coordinates | null {
+  if (!settings?.routeStartLat || !settings?.routeStartLng) return null;
+  return { lat: parseFloat(settings.routeStartLat), lng: parseFloat(settings.routeStartLng) };
+}
+
+function routeEnd(settings: Settings): Coordinates | null {
+  if (!settings?.routeEndLat || !settings?.routeEndLng) return null;
+  return { lat: parseFloat(settings.routeEndLat), lng: parseFloat(settings.routeEndLng) };
+}
+
+// Average of the customer's recent recorded visit durations
+async function estimateServiceMinutes(customerId: string): Promise<number> {
+  const history = (await storage.getJobHistoryByCustomer(customerId))
+    .filter(job => job.duration && job.duration > 0)
+    .sort((a, b) => b.serviceDate.localeCompare(a.serviceDate))
+    .slice(0, SERVICE_HISTORY_SAMPLE);
+  if (history.length === 0) return DEFAULT_SERVICE_MINUTES;
+  return Math.round(history.reduce((sum, job) => sum + job.duration!, 0) / history.length);
+}
+
+async function loadStops(routes: Route[]): Promise<DispatchStop[]> {
+  const rules = await storage.getAllScheduleRules();
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+
+  return Promise.all(
+    routes.map(async (route) => {
+      const customer = await storage.getCustomer(route.customerId);
+      if (!customer?.lat || !customer?.lng) return { route, customer };
+
+      const rule = route.scheduleRuleId ? rulesById.get(route.scheduleRuleId) : undefined;
+      return {
+        route,
+        customer,
+        stop: {
+          id: route.id,
+          coords: { lat: parseFloat(customer.lat), lng: parseFloat(customer.lng) },
+          windowStart: rule?.windowStart,
+          windowEnd: rule?.windowEnd,
+          serviceMinutes: await estimateServiceMinutes(customer.id),
+        },
+      };
+    })
+  );
+}
+
+function addStats(total: RouteStats | undefined, stats: RouteStats): RouteStats {
+  if (!total) return { ...stats };
+  return {
+    miles: Math.round((total.miles + stats.miles) * 10) / 10,
+    driveMinutes: total.driveMinutes + stats.driveMinutes,
+    lateStops: total.lateStops + stats.lateStops,
+    lateMinutes: total.lateMinutes + stats.lateMinutes,
+  };
+}
+
+// Optimize one technician's stops and write the new order. Stops without coordinates go last.
+async function optimizeGroup(
+  stops: DispatchStop[],
+  start: Coordinates,
+  end: Coordinates | null,
+  startTime?: string
+): Promise<Pick<OptimizeRouteResult, "before" | "after"> | null> {
+  // Keep the tech's current order as the baseline for before/after stats
+  const current = [...stops].sort((a, b) => a.route.orderIndex - b.route.orderIndex);
+  const located = current.filter(s => s.stop);
+  const unlocated = current.filter(s => !s.stop);
+  if (located.length === 0) return null;
+
+  const result = await optimizeRoute({
+    start,
+    end,
+    stops: located.map(s => s.stop!),
+    startTime,
+  });
+
+  const orderedIds = [...result.order, ...unlocated.map(s => s.route.id)];
+  await Promise.all(
+    orderedIds.map((routeId, index) => storage.updateRoute(routeId, { orderIndex: index }))
+  );
+  return { before: result.before, after: result.after };
+}
+
+function describeStats(before: RouteStats, after: RouteStats): string {
+  let message = `${before.miles} mi / ${before.driveMinutes} min drive → ${after.miles} mi / ${after.driveMinutes} min drive`;
+  if (after.lateStops > 0) {
+    message += ` (${after.lateStops} stop(s) outside their time window)`;
+  }
+  return message;
+}
+
+// Re-order a day's routes. Each technician's list is optimized on its own; unassigned
+// routes are treated as one more list. Pass `technicianId` to limit to one technician
+// (null = unassigned only).
+export async function optimizeRoutesForDate(
+  date: string,
+  options: { technicianId?: string | null; startTime?: string } = {}
+): Promise<DispatchResult> {
+  let routes = await storage.getRoutesByDate(date);
+  if (options.technicianId !== undefined) {
+    routes = routes.filter(route => (route.technicianId ?? null) === options.technicianId);
+  }
+  if (routes.length === 0) return { message: "No routes to optimize" };
+
+  const settings = await storage.getSettings();
+  const start = routeStart(settings);
+
+  if (!start) {
+    // Fallback: alphabetical by address
+    const stops = await Promise.all(routes.map(async route => ({ route, customer: await storage.getCustomer(route.customerId) })));
+    const byTechnician = new Map<string | null, typeof stops>();
+    for (const stop of stops) {
+      const key = stop.route.technicianId ?? null;
+      byTechnician.set(key, [...(byTechnician.get(key) || []), stop]);
+    }
+    for (const group of Array.from(byTechnician.values())) {
+      group.sort((a, b) => {
+        if (!a.customer || !b.customer) return 0;
+        return a.customer.address.localeCompare(b.customer.address);
+      });
+      await Promise.all(group.map(({ route }, index) => storage.updateRoute(route.id, { orderIndex: index })));
+    }
+    console.log("🗺️ Optimized routes alphabetically (no start location configured)");
+    return { message: "Routes sorted by address. Set a route start location in Settings to optimize by distance." };
+  }
+
+  const stops = await loadStops(routes);
+  const byTechnician = new Map<string | null, DispatchStop[]>();
+  for (const stop of stops) {
+    const key = stop.route.technicianId ?? null;
+    byTechnician.set(key, [...(byTechnician.get(key) || []), stop]);
+  }
+
+  let before: RouteStats | undefined;
+  let after: RouteStats | undefined;
+  for (const group of Array.from(byTechnician.values())) {
+    const stats = await optimizeGroup(group, start, routeEnd(settings), options.startTime);
+    if (!stats) continue;
+    before = addStats(before, stats.before);
+    after = addStats(after, stats.after);
+  }
+
+  if (!before || !after) return { message: "No routes with map coordinates to optimize" };
+
+  const message = describeStats(before, after);
+  console.log(`🗺️ Optimized ${routes.length} routes across ${byTechnician.size} list(s): ${message}`);
+  return { message, before, after };
+}
+
+// Split a day's open stops across the given technicians: geographic slices balanced by
+// estimated service minutes, then each technician's list is optimized.
+export async function autoSplitDay(
+  date: string,
+  technicianIds: string[],
+  options: { startTime?: string } = {}
+): Promise<DispatchResult & { assignments: Record<string, number> }> {
+  const routes = (await storage.getRoutesByDate(date)).filter(route => route.status === "scheduled");
+  const assignments: Record<string, number> = Object.fromEntries(technicianIds.map(id => [id, 0]));
+  if (routes.length === 0) return { message: "No scheduled routes to split", assignments };
+
+  const settings = await storage.getSettings();
+  const stops = await loadStops(routes);
+  const located = stops.filter(s => s.stop);
+  const unlocated = stops.filter(s => !s.stop);
+
+  // Sweep around the start location, or the middle of the day's stops if none is set
+  const center = routeStart(settings) ?? {
+    lat: located.reduce((sum, s) => sum + s.stop!.coords.lat, 0) / Math.max(located.length, 1),
+    lng: located.reduce((sum, s) => sum + s.stop!.coords.lng, 0) / Math.max(located.length, 1),
+  };
+  const groups = splitStops(center, located.map(s => s.stop!), technicianIds.length);
+
+  const minutesByTechnician = technicianIds.map((_, i) =>
+    groups[i].reduce((sum, id) => sum + (located.find(s => s.route.id === id)!.stop!.serviceMinutes ?? DEFAULT_SERVICE_MINUTES), 0)
+  );
+  // Stops we can't place on a map go to whoever has the lightest day
+  for (const stop of unlocated) {
+    const lightest = minutesByTechnician.indexOf(Math.min(...minutesByTechnician));
+    groups[lightest].push(stop.route.id);
+    minutesByTechnician[lightest] += DEFAULT_SERVICE_MINUTES;
+  }
+
+  for (let i = 0; i < technicianIds.length; i++) {
+    await Promise.all(
+      groups[i].map((routeId, index) => storage.updateRoute(routeId, { technicianId: technicianIds[i], orderIndex: index }))
+    );
+    assignments[technicianIds[i]] = groups[i].length;
+  }
+
+  const optimized = await optimizeRoutesForDate(date, { startTime: options.startTime });
+  const workload = minutesByTechnician.map(minutes => `${minutes} min`).join(" / ");
+  return {
+    ...optimized,
+    message: `Split ${routes.length} stops across ${technicianIds.length} technicians (${workload} of service). ${optimized.message}`,
+    assignments,
+  };
+}
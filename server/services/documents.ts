@@ -0,0 +1,266 @@
+import PDFDocument from "pdfkit";
+import { createHmac, timingSafeEqual } from "crypto";
+import { buildLedger, type LedgerEntryKind } from "./ledger";
+import { DEFAULT_TIMEZONE, todayInTimeZone } from "@shared/recurrence";
+import type { Customer, Invoice, InvoiceLineItem, Settings } from "@shared/schema";
+
+// ---------- Stable document links ----------
+// Links texted to customers carry an HMAC of the document id instead of requiring a login,
+// so the same invoice always has the same URL.
+
+function linkSecret(): string {
+  return process.env.DOCUMENT_LINK_SECRET || process.env.SESSION_SECRET || "your-secret-key-change-in-production";
+}
+
+export function documentSignature(kind: "invoice" | "statement", id: string): string {
+  return createHmac("sha256", linkSecret()).update(`${kind}:${id}`).digest("hex").slice(0, 32);
+}
+
+export function verifyDocumentSignature(kind: "invoice" | "statement", id: string, signature: unknown): boolean {
+  if (typeof signature !== "string") return false;
+  const expected = Buffer.from(documentSignature(kind, id));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// Public URL of this app for links sent to customers
+// Priority: APP_BASE_URL env var > REPLIT_DEV_DOMAIN > deployed Render URL
+export function appBaseUrl(): string {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL;
+  if (process.env.REPLIT_DEV_DOMAIN) return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  return 'https://sillydog-app.onrender.com';
+}
+
+// Stable, login-free link to an invoice PDF (safe to include in SMS)
+export function invoicePdfUrl(invoiceId: string): string {
+  return `${appBaseUrl()}/api/invoices/${invoiceId}/pdf?sig=${documentSignature("invoice", invoiceId)}`;
+}
+
+// ---------- Account statement ----------
+
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount) * 100);
+}
+
+function localDate(value: Date): string {
+  return todayInTimeZone(DEFAULT_TIMEZONE, value);
+}
+
+export interface StatementEntry {
+  date: string; // YYYY-MM-DD
+  kind: LedgerEntryKind;
+  reference: string;
+  description: string;
+  charge: number; // cents
+  payment: number; // cents, including credits and adjustments
+  balance: number; // cents, running
+}
+
+export interface Statement {
+  startDate: string;
+  endDate: string;
+  openingBalance: number; // cents
+  entries: StatementEntry[];
+  closingBalance: number; // cents
+}
+
+// The customer's ledger between two dates, with what was owed before `startDate` carried
+// in as the opening balance
+export async function buildStatement(customerId: string, startDate: string, endDate: string): Promise<Statement> {
+  const { entries: ledger } = await buildLedger(customerId);
+  const before = ledger.filter(entry => entry.date < startDate);
+  const openingBalance = before.length > 0 ? before[before.length - 1].balance : 0;
+
+  const entries: StatementEntry[] = ledger
+    .filter(entry => entry.date >= startDate && entry.date <= endDate)
+    .map(({ date, kind, reference, description, amount, balance }) => ({
+      date,
+      kind,
+      reference,
+      description,
+      charge: amount > 0 ? amount : 0,
+      payment: amount < 0 ? -amount : 0,
+      balance,
+    }));
+
+  return {
+    startDate,
+    endDate,
+    openingBalance,
+    entries,
+    closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : openingBalance,
+  };
+}
+
+// ---------- PDF rendering ----------
+
+const PAGE_MARGIN = 50;
+const BRAND_COLOR = "#00BCD4";
+const MUTED_COLOR = "#666666";
+
+function money(cents: number): string {
+  return `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function renderToBuffer(draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    draw(doc);
+    doc.end();
+  });
+}
+
+// Business name and contact details top-left, document title and reference top-right
+function drawHeader(doc: PDFKit.PDFDocument, settings: Settings, title: string, details: string[]) {
+  const top = doc.y;
+  doc.fillColor(BRAND_COLOR).font("Helvetica-Bold").fontSize(16).text(settings.businessName, PAGE_MARGIN, top, { width: 300 });
+  doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(9);
+  for (const line of [settings.businessPhone, settings.businessEmail]) {
+    if (line) doc.text(line, { width: 300 });
+  }
+  const leftBottom = doc.y;
+
+  doc.fillColor("black").font("Helvetica-Bold").fontSize(20).text(title, 312, top, { width: 250, align: "right" });
+  doc.font("Helvetica").fontSize(9);
+  for (const line of details) {
+    doc.text(line, { width: 250, align: "right" });
+  }
+  doc.x = PAGE_MARGIN;
+  doc.y = Math.max(leftBottom, doc.y) + 20;
+}
+
+function drawBillTo(doc: PDFKit.PDFDocument, customer: Customer) {
+  doc.fillColor(MUTED_COLOR).font("Helvetica-Bold").fontSize(9).text("BILL TO");
+  doc.fillColor("black").font("Helvetica").fontSize(10).text(customer.name);
+  doc.text(customer.address);
+  if (customer.email) doc.text(customer.email);
+  doc.moveDown(1.5);
+}
+
+interface Column {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+function drawTable(doc: PDFKit.PDFDocument, columns: Column[], rows: string[][]) {
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 40) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    let height = 0;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9).fillColor("black");
+    columns.forEach((column, i) => {
+      doc.text(cells[i] ?? "", x, y, { width: column.width - 6, align: column.align || "left" });
+      height = Math.max(height, doc.y - y);
+      x += column.width;
+    });
+    doc.x = PAGE_MARGIN;
+    doc.y = y + height + 4;
+  };
+
+  drawRow(columns.map(c => c.header), true);
+  doc.moveTo(PAGE_MARGIN, doc.y - 2).lineTo(doc.page.width - PAGE_MARGIN, doc.y - 2).strokeColor("#cccccc").stroke();
+  for (const row of rows) drawRow(row, false);
+  doc.moveTo(PAGE_MARGIN, doc.y).lineTo(doc.page.width - PAGE_MARGIN, doc.y).strokeColor("#cccccc").stroke();
+  doc.moveDown(0.5);
+}
+
+function drawTotals(doc: PDFKit.PDFDocument, totals: Array<[string, string, boolean?]>) {
+  for (const [label, value, bold] of totals) {
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 11 : 9).fillColor("black");
+    doc.text(label, 312, y, { width: 150, align: "right" });
+    doc.text(value, 462, y, { width: 100, align: "right" });
+  }
+  doc.x = PAGE_MARGIN;
+}
+
+export async function renderInvoicePdf(
+  invoice: Invoice,
+  lineItems: InvoiceLineItem[],
+  customer: Customer,
+  settings: Settings,
+  amountPaid: number // cents
+): Promise<Buffer> {
+  return renderToBuffer(doc => {
+    drawHeader(doc, settings, "INVOICE", [
+      `Invoice #${invoice.invoiceNumber}`,
+      `Date: ${localDate(invoice.createdAt)}`,
+      `Due: ${invoice.dueDate}`,
+      `Status: ${invoice.status.toUpperCase()}`,
+    ]);
+    drawBillTo(doc, customer);
+
+    // Invoices from before itemization only have a description and amount
+    const rows = lineItems.length > 0
+      ? lineItems.map(line => [
+          line.serviceDate || "",
+          line.description,
+          parseFloat(line.quantity).toString(),
+          money(toCents(line.unitPrice)),
+          money(toCents(line.amount)),
+        ])
+      : [["", invoice.description || "Services", "1", money(toCents(invoice.amount)), money(toCents(invoice.amount))]];
+    drawTable(doc, [
+      { header: "Date", width: 70 },
+      { header: "Description", width: 242 },
+      { header: "Qty", width: 50, align: "right" },
+      { header: "Price", width: 75, align: "right" },
+      { header: "Amount", width: 75, align: "right" },
+    ], rows);
+
+    const total = toCents(invoice.amount);
+    drawTotals(doc, [
+      ["Total", money(total)],
+      ["Paid", money(amountPaid)],
+      ["Balance Due", money(total - amountPaid), true],
+    ]);
+
+    doc.moveDown(2);
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR)
+      .text(`Thank you for choosing ${settings.businessName}!`, PAGE_MARGIN, doc.y, { align: "center" });
+  });
+}
+
+export async function renderStatementPdf(statement: Statement, customer: Customer, settings: Settings): Promise<Buffer> {
+  return renderToBuffer(doc => {
+    drawHeader(doc, settings, "STATEMENT", [
+      `Statement date: ${todayInTimeZone()}`,
+      `Period: ${statement.startDate} to ${statement.endDate}`,
+    ]);
+    drawBillTo(doc, customer);
+
+    drawTable(doc, [
+      { header: "Date", width: 70 },
+      { header: "Reference", width: 90 },
+      { header: "Description", width: 152 },
+      { header: "Charges", width: 70, align: "right" },
+      { header: "Payments", width: 70, align: "right" },
+      { header: "Balance", width: 60, align: "right" },
+    ], [
+      [statement.startDate, "", "Opening balance", "", "", money(statement.openingBalance)],
+      ...statement.entries.map(entry => [
+        entry.date,
+        entry.reference,
+        entry.description,
+        entry.charge ? money(entry.charge) : "",
+        entry.payment ? money(entry.payment) : "",
+        money(entry.balance),
+      ]),
+    ]);
+
+    drawTotals(doc, [
+      ["Opening balance", money(statement.openingBalance)],
+      ["Charges", money(statement.entries.reduce((sum, entry) => sum + entry.charge, 0))],
+      ["Payments", money(statement.entries.reduce((sum, entry) => sum + entry.payment, 0))],
+      ["Closing balance", money(statement.closingBalance), true],
+    ]);
+  });
+}
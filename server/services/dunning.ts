@@ -0,0 +1,230 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import { createPaymentLink } from "./paymentLinks";
+import { invoiceReceipt, notified, notifyFailure, sendPaymentFailedNotice, sendPaymentReceipt } from "./customerNotifications";
+import { invoiceBalance, recordStripeInvoicePayment } from "./ledger";
+import { DEFAULT_TIMEZONE, addDays, todayInTimeZone } from "@shared/recurrence";
+import type { Customer, DunningAttempt, DunningCase, InsertDunningCase, Invoice } from "@shared/schema";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-10-29.clover",
+});
+
+// When an autopay charge fails the invoice gets a dunning case: the card is retried on
+// the days configured in settings.dunningRetryDays (counted from the first failure), the
+// customer is texted and emailed a payment link after each failure, and the office is notified.
+
+function attempt(succeeded: boolean, message: string | null): DunningAttempt {
+  return { at: new Date().toISOString(), succeeded, message };
+}
+
+async function notifyOffice(customer: Customer, title: string, message: string) {
+  try {
+    await storage.createNotification({
+      type: "payment_failed",
+      title,
+      message,
+      bookingRequestId: null,
+      customerId: customer.id,
+      smsDelivered: false,
+      readAt: null,
+    });
+  } catch (error) {
+    console.error("Failed to create dunning notification:", error);
+  }
+}
+
+// Text and email the customer a link to pay what's still owed on the invoice now (with any card)
+async function sendPaymentNotice(customer: Customer, invoice: Invoice, nextRetryDate: string | null, schedulePaused: boolean) {
+  try {
+    const balance = await invoiceBalance(invoice);
+    if (balance === 0) return;
+    const url = await createPaymentLink({
+      customer,
+      amount: balance / 100,
+      description: `Invoice #${invoice.invoiceNumber}`,
+      invoiceId: invoice.id,
+    });
+    const amount = `$${(balance / 100).toFixed(2)}`;
+    const text = nextRetryDate
+      ? `Hi ${customer.name}, we couldn't charge your card on file for invoice #${invoice.invoiceNumber} (${amount}). We'll try again on ${nextRetryDate}. To pay now or use a different card: ${url}`
+      : `Hi ${customer.name}, we were unable to charge your card for invoice #${invoice.invoiceNumber} (${amount}) after several attempts. ${schedulePaused ? "Your service is on hold until payment is received. " : ""}Please pay here: ${url}`;
+    const result = await sendPaymentFailedNotice(customer, text, {
+      invoiceNumber: invoice.invoiceNumber,
+      amount: balance / 100,
+      paymentUrl: url,
+      nextRetryDate,
+      schedulePaused,
+    });
+    if (!notified(result)) {
+      console.warn(`⚠️ Payment notice for ${customer.name} not delivered: ${notifyFailure(customer, result)}`);
+    }
+  } catch (error) {
+    console.error(`Failed to send payment notice to ${customer.name}:`, error);
+  }
+}
+
+// Retry date after `failureCount` failed charges, or null when the retries are used up
+function nextRetryDate(firstFailure: string, failureCount: number, retryDays: number[]): string | null {
+  const days = retryDays[failureCount - 1];
+  return days === undefined ? null : addDays(firstFailure, days);
+}
+
+// Start following up on an invoice whose autopay charge just failed
+export async function openDunningCase(invoice: Invoice, customer: Customer, error: string): Promise<DunningCase> {
+  const existing = await storage.getDunningCaseByInvoice(invoice.id);
+  if (existing) {
+    return existing;
+  }
+
+  const settings = await storage.getSettings();
+  const retryDate = nextRetryDate(todayInTimeZone(), 1, settings.dunningRetryDays);
+  const dunningCase = await storage.createDunningCase({
+    invoiceId: invoice.id,
+    customerId: customer.id,
+    status: retryDate ? "active" : "exhausted",
+    failureCount: 1,
+    nextRetryDate: retryDate,
+    lastError: error,
+    attempts: [attempt(false, error)],
+    resolvedAt: retryDate ? null : new Date(),
+  });
+
+  await notifyOffice(
+    customer,
+    "Autopay Failed",
+    `Autopay for ${customer.name}'s invoice #${invoice.invoiceNumber} ($${parseFloat(invoice.amount).toFixed(2)}) failed: ${error}.${retryDate ? ` We'll retry on ${retryDate}.` : ""}`
+  );
+  await sendPaymentNotice(customer, invoice, retryDate, false);
+  return dunningCase;
+}
+
+async function chargeCardOnFile(invoice: Invoice, customer: Customer, amount: number): Promise<{ paymentIntentId?: string; error?: string }> {
+  if (!customer.stripeCustomerId || !customer.stripePaymentMethodId) {
+    return { error: "No card on file" };
+  }
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount,
+      currency: "usd",
+      customer: customer.stripeCustomerId,
+      payment_method: customer.stripePaymentMethodId,
+      off_session: true,
+      confirm: true,
+      description: `Auto-pay retry for ${invoice.invoiceNumber}`,
+      metadata: { invoiceId: invoice.id, customerId: customer.id },
+    });
+    if (paymentIntent.status !== "succeeded") {
+      return { error: `Payment ${paymentIntent.status.replace(/_/g, " ")}` };
+    }
+    return { paymentIntentId: paymentIntent.id };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
+
+function close(dunningCase: DunningCase, status: "recovered" | "exhausted" | "cancelled", updates: Partial<InsertDunningCase> = {}) {
+  return storage.updateDunningCase(dunningCase.id, {
+    ...updates,
+    status,
+    nextRetryDate: null,
+    resolvedAt: new Date(),
+  });
+}
+
+// Charge the card again. Cases whose invoice was paid some other way are closed as recovered.
+export async function retryDunningCase(dunningCase: DunningCase): Promise<DunningCase> {
+  if (dunningCase.status !== "active") {
+    throw new Error("This dunning case is closed");
+  }
+
+  const invoice = await storage.getInvoice(dunningCase.invoiceId);
+  const customer = await storage.getCustomer(dunningCase.customerId);
+  if (!invoice || !customer) {
+    return close(dunningCase, "cancelled", { lastError: "Invoice or customer no longer exists" });
+  }
+  // Only what's still owed after any partial payments is charged
+  const balance = await invoiceBalance(invoice);
+  if (invoice.status === "paid" || balance === 0) {
+    return close(dunningCase, "recovered");
+  }
+
+  const result = await chargeCardOnFile(invoice, customer, balance);
+  if (result.paymentIntentId) {
+    await recordStripeInvoicePayment(invoice, result.paymentIntentId, balance);
+    try {
+      await sendPaymentReceipt(customer, invoiceReceipt(invoice, balance / 100));
+    } catch (error: any) {
+      console.error(`Payment receipt failed for ${customer.name}:`, error.message);
+    }
+    return close(dunningCase, "recovered", { attempts: [...dunningCase.attempts, attempt(true, null)] });
+  }
+
+  const settings = await storage.getSettings();
+  const failureCount = dunningCase.failureCount + 1;
+  const attempts = [...dunningCase.attempts, attempt(false, result.error!)];
+  const firstFailure = todayInTimeZone(DEFAULT_TIMEZONE, dunningCase.createdAt);
+  const retryDate = nextRetryDate(firstFailure, failureCount, settings.dunningRetryDays);
+
+  if (retryDate) {
+    const updated = await storage.updateDunningCase(dunningCase.id, {
+      failureCount,
+      attempts,
+      lastError: result.error,
+      // A late run (or a manual retry) shouldn't schedule the next try in the past
+      nextRetryDate: retryDate > todayInTimeZone() ? retryDate : addDays(todayInTimeZone(), 1),
+    });
+    await sendPaymentNotice(customer, invoice, updated.nextRetryDate, false);
+    return updated;
+  }
+
+  // Final failure: optionally stop service until the customer pays
+  let schedulePaused = false;
+  if (settings.dunningPauseSchedule) {
+    for (const rule of await storage.getScheduleRulesByCustomer(customer.id)) {
+      if (!rule.paused) {
+        await storage.updateScheduleRule(rule.id, { paused: true });
+        schedulePaused = true;
+      }
+    }
+  }
+
+  const exhausted = await close(dunningCase, "exhausted", { failureCount, attempts, lastError: result.error, schedulePaused });
+  await notifyOffice(
+    customer,
+    "Autopay Retries Exhausted",
+    `All ${failureCount} charges for ${customer.name}'s invoice #${invoice.invoiceNumber} ($${parseFloat(invoice.amount).toFixed(2)}) failed. Last error: ${result.error}.${schedulePaused ? " Their schedules have been paused." : ""}`
+  );
+  await sendPaymentNotice(customer, invoice, null, schedulePaused);
+  return exhausted;
+}
+
+export async function cancelDunningCase(dunningCase: DunningCase): Promise<DunningCase> {
+  if (dunningCase.status !== "active") {
+    throw new Error("This dunning case is closed");
+  }
+  return close(dunningCase, "cancelled");
+}
+
+// Daily job: retry every case that's due
+export async function processDunningRetries(date: string = todayInTimeZone()): Promise<{
+  recovered: number;
+  failed: number;
+  exhausted: number;
+  errors: string[];
+}> {
+  const results = { recovered: 0, failed: 0, exhausted: 0, errors: [] as string[] };
+
+  for (const dunningCase of await storage.getDueDunningCases(date)) {
+    try {
+      const updated = await retryDunningCase(dunningCase);
+      if (updated.status === "recovered") results.recovered++;
+      else if (updated.status === "exhausted") results.exhausted++;
+      else if (updated.status === "active") results.failed++;
+    } catch (error: any) {
+      results.errors.push(`Dunning case ${dunningCase.id}: ${error.message}`);
+    }
+  }
+
+  return results;
+}
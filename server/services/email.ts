@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+// Outbound email. EMAIL_TRANSPORT picks the transport: smtp (SMTP_HOST, SMTP_PORT, SMTP_USER,
+// SMTP_PASS) or file, which writes each email as an .eml file to EMAIL_DROP_DIR for
+// development and staging. Without it, SMTP is used when SMTP_HOST is set, and the file drop
+// outside production.
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string; // plain-text alternative
+}
+
+export interface EmailMessage extends EmailContent {
+  to: string;
+}
+
+export interface EmailTransport {
+  name: "smtp" | "file";
+  send(message: EmailMessage): Promise<{ id: string }>;
+}
+
+function fromAddress(): string {
+  return process.env.EMAIL_FROM || "SillyDog Pooper Scooper <no-reply@sillydogpoopscoop.com>";
+}
+
+export class SmtpTransport implements EmailTransport {
+  name = "smtp" as const;
+  private transporter: Transporter;
+
+  constructor(host: string, port: number, user?: string, pass?: string) {
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const info = await this.transporter.sendMail({ from: fromAddress(), ...message });
+    return { id: info.messageId };
+  }
+}
+
+// Builds the full MIME message without sending it and drops it in a directory
+export class FileDropTransport implements EmailTransport {
+  name = "file" as const;
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  constructor(private dir: string) {}
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const info = await this.transporter.sendMail({ from: fromAddress(), ...message });
+    const id = info.messageId.replace(/[<>]/g, "");
+    const file = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${id.split("@")[0]}.eml`);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(file, info.message as Buffer);
+    console.log(`📧 [FILE DROP] Email to ${message.to} (${message.subject}) -> ${file}`);
+    return { id };
+  }
+}
+
+function smtpFromEnv(): EmailTransport | null {
+  const { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS } = process.env;
+  return SMTP_HOST ? new SmtpTransport(SMTP_HOST, parseInt(SMTP_PORT || "587"), SMTP_USER, SMTP_PASS) : null;
+}
+
+function fileDropFromEnv(): EmailTransport {
+  return new FileDropTransport(process.env.EMAIL_DROP_DIR || path.resolve("uploads", "outbox", "email"));
+}
+
+let emailTransport: EmailTransport | null | undefined;
+
+// null when email isn't set up
+export function getEmailTransport(): EmailTransport | null {
+  if (emailTransport === undefined) {
+    switch (process.env.EMAIL_TRANSPORT) {
+      case "smtp":
+        emailTransport = smtpFromEnv();
+        if (!emailTransport) throw new Error("EMAIL_TRANSPORT=smtp requires SMTP_HOST");
+        break;
+      case "file":
+        emailTransport = fileDropFromEnv();
+        break;
+      default:
+        emailTransport = smtpFromEnv() ?? (process.env.NODE_ENV === "production" ? null : fileDropFromEnv());
+    }
+    console.log(emailTransport ? `✅ Email transport: ${emailTransport.name}` : "⚠️  Email not configured - email disabled");
+  }
+  return emailTransport;
+}
+
+export interface EmailResult {
+  status: "sent" | "skipped" | "failed";
+  reason?: string;
+}
+
+// Never throws for delivery problems: the result says what happened
+export async function sendEmail(to: string | null | undefined, content: EmailContent): Promise<EmailResult> {
+  if (!to || !to.includes("@")) {
+    return { status: "skipped", reason: "No email address" };
+  }
+  const transport = getEmailTransport();
+  if (!transport) {
+    return { status: "failed", reason: "Email not configured" };
+  }
+  try {
+    await transport.send({ to: to.trim(), ...content });
+    return { status: "sent" };
+  } catch (error: any) {
+    console.error(`❌ Failed to send email to ${to}:`, error.message);
+    return { status: "failed", reason: error.message };
+  }
+}
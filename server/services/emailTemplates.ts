@@ -0,0 +1,214 @@
+import { format, parseISO } from "date-fns";
+import type { Customer, Invoice, Settings } from "@shared/schema";
+import type { EmailContent } from "./email";
+
+// Branded HTML emails for customer notifications. Every template returns the subject, the HTML
+// body and a plain-text alternative built from the same parts.
+
+const BRAND_COLOR = "#00BCD4";
+const ACCENT_COLOR = "#FF6F00";
+const MUTED_COLOR = "#666666";
+
+type Business = Pick<Settings, "businessName" | "businessPhone" | "businessEmail">;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function money(amount: string | number): string {
+  return `$${(typeof amount === "string" ? parseFloat(amount) : amount).toFixed(2)}`;
+}
+
+function longDate(date: string): string {
+  return format(parseISO(date), "EEEE, MMMM d, yyyy");
+}
+
+interface EmailParts {
+  subject: string;
+  heading: string;
+  paragraphs: string[]; // plain text, escaped for the HTML version
+  button?: { label: string; url: string };
+  details?: [label: string, value: string][];
+}
+
+function contactLine(business: Business): string {
+  return [business.businessPhone, business.businessEmail].filter(Boolean).join(" · ");
+}
+
+function render(business: Business, parts: EmailParts): EmailContent {
+  const details = parts.details?.length
+    ? `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:16px 0;border-collapse:collapse;">${parts.details
+        .map(([label, value]) => `<tr><td style="padding:6px 0;color:${MUTED_COLOR};">${escapeHtml(label)}</td><td style="padding:6px 0;text-align:right;font-weight:600;">${escapeHtml(value)}</td></tr>`)
+        .join("")}</table>`
+    : "";
+  const button = parts.button
+    ? `<p style="margin:24px 0;text-align:center;"><a href="${escapeHtml(parts.button.url)}" style="display:inline-block;padding:12px 24px;border-radius:6px;background:${ACCENT_COLOR};color:#ffffff;font-weight:600;text-decoration:none;">${escapeHtml(parts.button.label)}</a></p>`
+    : "";
+  const contact = contactLine(business);
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f4f6f8;font-family:'Open Sans',Arial,sans-serif;color:#222222;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f6f8;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:${BRAND_COLOR};padding:20px 24px;color:#ffffff;font-family:Fredoka,Arial,sans-serif;font-size:22px;font-weight:600;">${escapeHtml(business.businessName)}</td></tr>
+<tr><td style="padding:24px;">
+<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(parts.heading)}</h1>
+${parts.paragraphs.map(paragraph => `<p style="margin:0 0 12px;line-height:1.5;">${escapeHtml(paragraph)}</p>`).join("\n")}
+${details}
+${button}
+</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #eeeeee;color:${MUTED_COLOR};font-size:12px;">${escapeHtml(business.businessName)}${contact ? `<br>${escapeHtml(contact)}` : ""}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    parts.heading,
+    "",
+    ...parts.paragraphs,
+    ...(parts.details?.length ? ["", ...parts.details.map(([label, value]) => `${label}: ${value}`)] : []),
+    ...(parts.button ? ["", `${parts.button.label}: ${parts.button.url}`] : []),
+    "",
+    "--",
+    business.businessName,
+    ...(contact ? [contact] : []),
+  ].join("\n");
+
+  return { subject: parts.subject, html, text };
+}
+
+export function reminderEmail(business: Business, customer: Customer, serviceDate: string): EmailContent {
+  return render(business, {
+    subject: `Service reminder for ${format(parseISO(serviceDate), "EEEE, MMM d")}`,
+    heading: "See you tomorrow!",
+    paragraphs: [
+      `Hi ${customer.name},`,
+      `This is a reminder that we'll be servicing your yard at ${customer.address} tomorrow, ${longDate(serviceDate)}.`,
+      "Please make sure the gate is unlocked and pets are inside. Thank you for choosing us!",
+    ],
+  });
+}
+
+export function serviceCompleteEmail(business: Business, customer: Customer, reviewUrl: string): EmailContent {
+  return render(business, {
+    subject: "Your yard is all cleaned up",
+    heading: "Service complete",
+    paragraphs: [
+      `Hi ${customer.name},`,
+      `We just finished at ${customer.address || "your location"}. Your yard is all cleaned up!`,
+      "How did we do? Your review helps us and takes less than a minute.",
+    ],
+    button: { label: "Leave a Review", url: reviewUrl },
+  });
+}
+
+export function newInvoiceEmail(business: Business, customer: Customer, invoice: Invoice, pdfUrl: string): EmailContent {
+  return render(business, {
+    subject: `Invoice #${invoice.invoiceNumber} for ${money(invoice.amount)}`,
+    heading: `New invoice #${invoice.invoiceNumber}`,
+    paragraphs: [
+      `Hi ${customer.name},`,
+      "Your new invoice is ready. You can view and download it below.",
+    ],
+    details: [
+      ["Amount", money(invoice.amount)],
+      ["Due date", longDate(invoice.dueDate)],
+    ],
+    button: { label: "View Invoice", url: pdfUrl },
+  });
+}
+
+export interface Receipt {
+  amount: string | number;
+  method: string; // e.g. "Card", "Check", "Cash"
+  invoiceNumber?: string | null;
+}
+
+export function paymentReceiptEmail(business: Business, customer: Customer, receipt: Receipt): EmailContent {
+  return render(business, {
+    subject: `Payment received - ${money(receipt.amount)}`,
+    heading: "Thank you for your payment!",
+    paragraphs: [
+      `Hi ${customer.name},`,
+      `We received your payment of ${money(receipt.amount)}. Keep this email as your receipt.`,
+    ],
+    details: [
+      ...(receipt.invoiceNumber ? [["Invoice", `#${receipt.invoiceNumber}`] as [string, string]] : []),
+      ["Amount", money(receipt.amount)],
+      ["Payment method", receipt.method],
+      ["Date", format(new Date(), "MMMM d, yyyy")],
+    ],
+  });
+}
+
+export function portalInviteEmail(business: Business, customer: Customer, portalUrl: string): EmailContent {
+  return render(business, customer.portalPassword
+    ? {
+        subject: `Your ${business.businessName} customer portal`,
+        heading: "Your customer portal",
+        paragraphs: [
+          `Hi ${customer.name},`,
+          "Access your customer portal anytime. Log in with your email address to view services, invoices, and manage your account.",
+        ],
+        button: { label: "Log In", url: portalUrl },
+      }
+    : {
+        subject: `You're invited to the ${business.businessName} customer portal`,
+        heading: "You're invited!",
+        paragraphs: [
+          `Hi ${customer.name},`,
+          "Sign up for the customer portal to view your service schedule, pay invoices, and manage your account.",
+        ],
+        button: { label: "Sign Up", url: portalUrl },
+      });
+}
+
+export interface PaymentFailedNotice {
+  invoiceNumber: string;
+  amount: number; // dollars still owed
+  paymentUrl: string;
+  nextRetryDate: string | null; // null once the retries are used up
+  schedulePaused: boolean;
+}
+
+export function paymentFailedEmail(business: Business, customer: Customer, notice: PaymentFailedNotice): EmailContent {
+  return render(business, {
+    subject: `Payment failed for invoice #${notice.invoiceNumber}`,
+    heading: "We couldn't charge your card",
+    paragraphs: [
+      `Hi ${customer.name},`,
+      notice.nextRetryDate
+        ? `We couldn't charge your card on file for invoice #${notice.invoiceNumber}. We'll try again on ${longDate(notice.nextRetryDate)}, or you can pay now with any card.`
+        : `We were unable to charge your card for invoice #${notice.invoiceNumber} after several attempts. Please pay using the link below.`,
+      ...(notice.schedulePaused ? ["Your service is on hold until payment is received."] : []),
+    ],
+    details: [
+      ["Invoice", `#${notice.invoiceNumber}`],
+      ["Amount due", money(notice.amount)],
+    ],
+    button: { label: "Pay Now", url: notice.paymentUrl },
+  });
+}
+
+// Quotes go to booking requests, which don't have a customer record yet
+export function quoteEmail(business: Business, name: string, quoteUrl: string, expiresOn: string): EmailContent {
+  return render(business, {
+    subject: `Your quote from ${business.businessName}`,
+    heading: "Your quote is ready",
+    paragraphs: [
+      `Hi ${name},`,
+      "Thanks for reaching out! Your quote is ready. Review the price and schedule, and accept it online to book your first visit.",
+      `This quote is valid until ${longDate(expiresOn)}.`,
+    ],
+    button: { label: "View Quote", url: quoteUrl },
+  });
+}
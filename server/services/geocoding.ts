@@ -63,7 +63,7 @@ function toRad(degrees: number): number {
   return (degrees * Math.PI) / 180;
 }
 
-function kmToMiles(km: number): number {
+export function kmToMiles(km: number): number {
   return km * 0.621371;
 }
 
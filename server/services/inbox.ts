@@ -0,0 +1,181 @@
+import { storage } from "../storage";
+import { normalizePhone, sendCustomerSms, sendSms, type SmsResult } from "./messaging";
+import { createCustomerFromBooking } from "./quotes";
+import type { BookingRequest, Conversation, Customer, LeadBooking, LeadCustomer, Message } from "@shared/schema";
+
+// The staff SMS inbox. Every thread has a conversations row holding its open/closed status and
+// who it's assigned to. Texts from numbers that don't match a customer are kept as leads (the
+// messages with that phone and no customerId) until staff turn them into a customer or a
+// booking request.
+
+// ---------- Conversations ----------
+
+export async function customerConversation(customer: Customer): Promise<Conversation> {
+  const existing = await storage.getConversationByCustomer(customer.id);
+  if (existing) return existing;
+  return storage.createConversation({
+    customerId: customer.id,
+    phone: normalizePhone(customer.phone) ?? customer.phone,
+  });
+}
+
+async function leadConversation(phone: string): Promise<Conversation> {
+  const existing = await storage.getLeadConversationByPhone(phone);
+  if (existing) return existing;
+  return storage.createConversation({ phone });
+}
+
+// A new inbound text reopens a closed thread
+async function receivedIn(conversation: Conversation): Promise<Conversation> {
+  return storage.updateConversation(conversation.id, { status: "open", lastMessageAt: new Date() });
+}
+
+export async function recordCustomerText(customer: Customer): Promise<Conversation> {
+  return receivedIn(await customerConversation(customer));
+}
+
+// Store a text from a number that isn't a customer
+export async function recordLeadText(phone: string, text: string, externalMessageId?: string): Promise<{ conversation: Conversation; message: Message }> {
+  const conversation = await receivedIn(await leadConversation(phone));
+  const message = await storage.createMessage({
+    customerId: null,
+    phone,
+    messageText: text,
+    direction: "inbound",
+    status: "delivered",
+    externalMessageId,
+  });
+  return { conversation, message };
+}
+
+// STOP/START from a number that isn't a customer. It's kept on the lead's conversation so
+// staff replies respect it, and carried over when the lead is converted.
+export async function recordLeadOptIn(phone: string, text: string, smsOptIn: boolean, externalMessageId?: string): Promise<{ conversation: Conversation; message: Message }> {
+  const { conversation, message } = await recordLeadText(phone, text, externalMessageId);
+  return { conversation: await storage.updateConversation(conversation.id, { smsOptIn }), message };
+}
+
+export async function conversationMessages(conversation: Conversation): Promise<Message[]> {
+  return conversation.customerId
+    ? storage.getMessagesByCustomer(conversation.customerId)
+    : storage.getLeadMessages(conversation.phone);
+}
+
+export async function markConversationRead(conversation: Conversation): Promise<void> {
+  if (conversation.customerId) {
+    await storage.markMessagesReadForCustomer(conversation.customerId);
+  } else {
+    await storage.markLeadMessagesRead(conversation.phone);
+  }
+}
+
+// Staff replies go out right away (quiet hours don't apply to a conversation in progress)
+export async function sendConversationText(conversation: Conversation, text: string): Promise<SmsResult> {
+  let result: SmsResult;
+  if (conversation.customerId) {
+    const customer = await storage.getCustomer(conversation.customerId);
+    if (!customer) throw new Error("Customer not found");
+    result = await sendCustomerSms(customer, text, { urgent: true });
+  } else {
+    // Leads texted first, so replying doesn't need an opt-in unless they've since texted STOP
+    if (!conversation.smsOptIn) {
+      return { status: "skipped", reason: `${conversation.name || conversation.phone} texted STOP` };
+    }
+    result = await sendSms(conversation.phone, text, { urgent: true });
+  }
+  if (result.message) {
+    await storage.updateConversation(conversation.id, { lastMessageAt: new Date() });
+  }
+  return result;
+}
+
+// Text the staff phones in ADMIN_PHONE_NUMBERS about an inbound text
+export async function alertStaff(sender: string, text: string): Promise<void> {
+  const adminPhones = process.env.ADMIN_PHONE_NUMBERS?.split(",").map(p => p.trim()).filter(Boolean) || [];
+  const preview = text.length > 50 ? `${text.substring(0, 50)}...` : text;
+  for (const adminPhone of adminPhones) {
+    try {
+      await sendSms(adminPhone, `📱 New text from ${sender}: "${preview}"`, { urgent: true });
+      console.log(`📢 Admin notification sent to ${adminPhone} for message from ${sender}`);
+    } catch (error) {
+      console.error(`❌ Failed to send admin notification to ${adminPhone}:`, error);
+    }
+  }
+}
+
+// ---------- Leads ----------
+
+function assertLead(conversation: Conversation) {
+  if (conversation.customerId) {
+    throw new Error("This conversation is already with a customer");
+  }
+}
+
+// The lead's texts move into the new customer's conversation
+export async function convertLeadToCustomer(
+  conversation: Conversation,
+  details: LeadCustomer,
+  userId: string | null
+): Promise<{ customer: Customer; conversation: Conversation }> {
+  assertLead(conversation);
+  const serviceType = await storage.getServiceType(details.serviceTypeId);
+  if (!serviceType) {
+    throw new Error("Service type not found");
+  }
+
+  const lead = {
+    name: details.name,
+    address: details.address,
+    email: details.email || "",
+    numberOfDogs: details.numberOfDogs,
+    yardNotes: details.yardNotes || "",
+  };
+  let customer: Customer;
+  const booking = conversation.bookingRequestId ? await storage.getBookingRequest(conversation.bookingRequestId) : undefined;
+  if (booking) {
+    // Same path as accepting the booking: its promo code and saved card come along
+    if (booking.status === "completed") {
+      throw new Error("This lead's booking request has already been accepted");
+    }
+    ({ customer } = await createCustomerFromBooking({ ...booking, ...lead }, serviceType, null, userId));
+    if (!conversation.smsOptIn) {
+      customer = await storage.updateCustomer(customer.id, { smsOptIn: false });
+    }
+    await storage.updateBookingRequest(booking.id, { customerId: customer.id, status: "completed" });
+  } else {
+    customer = await storage.createCustomer({
+      ...lead,
+      phone: conversation.phone,
+      serviceTypeId: serviceType.id,
+      status: "active",
+      billingMethod: "invoice",
+      smsOptIn: conversation.smsOptIn,
+    });
+  }
+  const moved = await storage.assignLeadMessagesToCustomer(conversation.phone, customer.id);
+  const updated = await storage.updateConversation(conversation.id, { customerId: customer.id, name: null });
+  console.log(`✅ Lead ${conversation.phone} converted to customer ${customer.name} (${moved} texts moved)`);
+  return { customer, conversation: updated };
+}
+
+// The thread stays a lead; the booking request goes through the usual quote/accept flow
+export async function convertLeadToBooking(conversation: Conversation, details: LeadBooking): Promise<{ booking: BookingRequest; conversation: Conversation }> {
+  assertLead(conversation);
+  if (conversation.bookingRequestId) {
+    throw new Error("A booking request was already created for this lead");
+  }
+
+  const booking = await storage.createBookingRequest({
+    name: details.name,
+    address: details.address,
+    phone: conversation.phone,
+    email: details.email || "",
+    numberOfDogs: details.numberOfDogs,
+    yardNotes: details.yardNotes || null,
+    preferredServicePlan: details.preferredServicePlan ?? null,
+    smsOptIn: conversation.smsOptIn,
+  });
+  const updated = await storage.updateConversation(conversation.id, { bookingRequestId: booking.id, name: details.name });
+  console.log(`✅ Lead ${conversation.phone} turned into booking request ${booking.id}`);
+  return { booking, conversation: updated };
+}
@@ -0,0 +1,209 @@
+import { storage } from "../storage";
+import { applyAccountCredit, refreshInvoiceStatus, settleInvoiceAmount } from "./ledger";
+import { promotionLines } from "./promotions";
+import { taxLines } from "./tax";
+import type {
+  Invoice,
+  InsertInvoice,
+  InvoiceLineInput,
+  InvoiceLineItem,
+  InvoiceWithLineItems,
+  InsertInvoiceLineItem,
+  JobHistory,
+  Route,
+  ScheduleRule,
+  ServiceAddon,
+  ServiceType,
+} from "@shared/schema";
+
+// A line before it's attached to an invoice
+export type DraftLine = Omit<InsertInvoiceLineItem, "invoiceId" | "sortOrder">;
+
+const NEGATIVE_KINDS = ["credit", "discount"];
+
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function sumLines(lines: Array<{ amount: string }>): string {
+  return fromCents(lines.reduce((sum, line) => sum + toCents(line.amount), 0));
+}
+
+// Staff-entered line: amount is quantity × price, subtracted for credits and discounts
+export function draftLine(input: InvoiceLineInput): DraftLine {
+  const cents = Math.round(input.quantity * toCents(input.unitPrice));
+  return {
+    kind: input.kind,
+    description: input.description,
+    serviceDate: input.serviceDate ?? null,
+    routeId: null,
+    quantity: input.quantity.toString(),
+    unitPrice: input.unitPrice.toFixed(2),
+    amount: fromCents(NEGATIVE_KINDS.includes(input.kind) ? -cents : cents),
+    taxable: input.taxable ?? false,
+  };
+}
+
+// Create an invoice whose amount is the total of `lines`, less any promotions the customer
+// has redeemed, plus sales tax on the taxable lines. Any credit on the customer's account
+// is applied to it straight away, so the returned status may be partial or paid (as is an
+// invoice discounted to nothing).
+export async function createInvoiceWithLineItems(
+  invoice: Omit<InsertInvoice, "amount">,
+  draftLines: DraftLine[]
+): Promise<InvoiceWithLineItems> {
+  const { taxRates } = await storage.getSettings();
+  const charges = draftLines.filter(line => line.kind !== "tax");
+  const untaxed = [...charges, ...await promotionLines(invoice.customerId, charges)];
+  const lines = [...untaxed, ...taxLines(untaxed, taxRates || [])];
+  const created = await storage.createInvoice({ ...invoice, amount: sumLines(lines) });
+  const lineItems = await storage.createInvoiceLineItems(
+    lines.map((line, index) => ({ ...line, invoiceId: created.id, sortOrder: index }))
+  );
+  if (toCents(created.amount) <= 0) {
+    return { ...await refreshInvoiceStatus(created), lineItems };
+  }
+  if (await applyAccountCredit(created.customerId) > 0) {
+    return { ...(await storage.getInvoice(created.id))!, lineItems };
+  }
+  return { ...created, lineItems };
+}
+
+// Invoices created before line items existed carry only an amount. Record that amount as a
+// line before editing so the re-derived total doesn't drop it.
+export async function ensureLineItems(invoice: Invoice): Promise<InvoiceLineItem[]> {
+  const existing = await storage.getInvoiceLineItems([invoice.id]);
+  if (existing.length > 0 || toCents(invoice.amount) === 0) return existing;
+  return storage.createInvoiceLineItems([{
+    invoiceId: invoice.id,
+    kind: "other",
+    description: invoice.description || "Services",
+    serviceDate: null,
+    routeId: null,
+    quantity: "1",
+    unitPrice: invoice.amount,
+    amount: invoice.amount,
+    sortOrder: 0,
+  }]);
+}
+
+// Re-derive the invoice's sales tax and amount after its lines change, then its status from
+// the payments applied to it (any overpayment becomes account credit)
+export async function recalculateInvoiceAmount(invoiceId: string): Promise<InvoiceWithLineItems> {
+  const { taxRates } = await storage.getSettings();
+  const existing = await storage.getInvoiceLineItems([invoiceId]);
+  const untaxed = existing.filter(line => line.kind !== "tax");
+  for (const line of existing.filter(line => line.kind === "tax")) {
+    await storage.deleteInvoiceLineItem(line.id);
+  }
+  const sortOrder = existing.reduce((max, line) => Math.max(max, line.sortOrder + 1), 0);
+  await storage.createInvoiceLineItems(
+    taxLines(untaxed, taxRates || []).map((line, index) => ({ ...line, invoiceId, sortOrder: sortOrder + index }))
+  );
+
+  const lineItems = await storage.getInvoiceLineItems([invoiceId]);
+  const invoice = await settleInvoiceAmount(await storage.updateInvoice(invoiceId, { amount: sumLines(lineItems) }));
+  return { ...invoice, lineItems };
+}
+
+export async function withLineItems(invoices: Invoice[]): Promise<InvoiceWithLineItems[]> {
+  const lines = await storage.getInvoiceLineItems(invoices.map(invoice => invoice.id));
+  return invoices.map(invoice => ({
+    ...invoice,
+    lineItems: lines.filter(line => line.invoiceId === invoice.id),
+  }));
+}
+
+export interface VisitLinesInput {
+  serviceType: ServiceType;
+  routes: Route[]; // billable visits, in any order
+  jobs: JobHistory[]; // the customer's job history (for timer-based visit costs)
+  rules: ScheduleRule[];
+  addons: ServiceAddon[]; // priced add-on catalog from settings
+}
+
+// One dated line per billed visit (timer-priced visits use their calculated cost), then
+// one line per add-on covering the visits it was attached to.
+// Returns the keys of any add-ons that couldn't be billed because they have no price.
+export function visitLines(input: VisitLinesInput): { lines: DraftLine[]; unpricedAddons: string[] } {
+  const pricePerVisit = parseFloat(input.serviceType.basePrice);
+  const jobsByRoute = new Map(input.jobs.filter(job => job.routeId).map(job => [job.routeId!, job]));
+  const rulesById = new Map(input.rules.map(rule => [rule.id, rule]));
+  const addonsByKey = new Map(input.addons.map(addon => [addon.key, addon]));
+  const addonVisits = new Map<string, number>();
+  const unpricedAddons = new Set<string>();
+  const lines: DraftLine[] = [];
+
+  const routes = [...input.routes].sort((a, b) => a.date.localeCompare(b.date));
+  for (const route of routes) {
+    const job = jobsByRoute.get(route.id);
+    const timedCost = job?.calculatedCost ? parseFloat(job.calculatedCost) : NaN;
+
+    if (route.status === "skipped") {
+      lines.push({
+        kind: "service",
+        description: `${input.serviceType.name} - company closure (billed)`,
+        serviceDate: route.date,
+        routeId: route.id,
+        quantity: "1",
+        unitPrice: pricePerVisit.toFixed(2),
+        amount: pricePerVisit.toFixed(2),
+        taxable: input.serviceType.taxable,
+      });
+      continue;
+    }
+
+    if (timedCost > 0) {
+      lines.push({
+        kind: "timed_service",
+        description: `${input.serviceType.name}${job?.duration ? ` - ${job.duration} min` : ""}`,
+        serviceDate: route.date,
+        routeId: route.id,
+        quantity: "1",
+        unitPrice: timedCost.toFixed(2),
+        amount: timedCost.toFixed(2),
+        taxable: input.serviceType.taxable,
+      });
+    } else {
+      lines.push({
+        kind: "service",
+        description: input.serviceType.name,
+        serviceDate: route.date,
+        routeId: route.id,
+        quantity: "1",
+        unitPrice: pricePerVisit.toFixed(2),
+        amount: pricePerVisit.toFixed(2),
+        taxable: input.serviceType.taxable,
+      });
+    }
+
+    const rule = route.scheduleRuleId ? rulesById.get(route.scheduleRuleId) : undefined;
+    for (const key of rule?.addons || []) {
+      if (addonsByKey.has(key)) {
+        addonVisits.set(key, (addonVisits.get(key) || 0) + 1);
+      } else {
+        unpricedAddons.add(key);
+      }
+    }
+  }
+
+  for (const [key, visits] of Array.from(addonVisits.entries())) {
+    const addon = addonsByKey.get(key)!;
+    lines.push({
+      kind: "addon",
+      description: `${addon.name} (${visits} visit${visits === 1 ? "" : "s"})`,
+      serviceDate: null,
+      routeId: null,
+      quantity: visits.toString(),
+      unitPrice: parseFloat(addon.price).toFixed(2),
+      amount: fromCents(visits * toCents(addon.price)),
+      taxable: addon.taxable ?? false,
+    });
+  }
+
+  return { lines, unpricedAddons: Array.from(unpricedAddons) };
+}
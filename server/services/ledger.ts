@@ -0,0 +1,389 @@
+import { storage } from "../storage";
+import { DEFAULT_TIMEZONE, todayInTimeZone } from "@shared/recurrence";
+import type { Invoice, Payment, Refund } from "@shared/schema";
+
+// A customer's account is derived from their invoices (charges) and payments rows (field
+// payments, account credits and adjustments). Payments are applied to invoices through
+// paymentApplications; the part of a payment not applied yet is account credit and goes
+// toward the next invoice.
+
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+function toDollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function localDate(value: Date): string {
+  return todayInTimeZone(DEFAULT_TIMEZONE, value);
+}
+
+interface AccountData {
+  invoices: Invoice[];
+  payments: Payment[];
+  refunds: Refund[]; // not counting failed ones
+  applied: Map<string, number>; // invoice id -> cents applied by completed payments
+  unapplied: Map<string, number>; // payment id -> cents neither applied to an invoice nor refunded
+}
+
+function countsTowardBalance(payment: Payment): boolean {
+  return payment.status === "completed" || payment.status === "refunded";
+}
+
+async function loadAccount(customerId: string): Promise<AccountData> {
+  const invoices = await storage.getInvoicesByCustomer(customerId);
+  const payments = await storage.getPaymentsByCustomer(customerId);
+  const refunds = (await storage.getRefundsByCustomer(customerId)).filter(refund => refund.status !== "failed");
+  const counted = payments.filter(countsTowardBalance);
+
+  const applied = new Map<string, number>();
+  const unapplied = new Map(counted.map(payment => [payment.id, toCents(payment.amount)]));
+  for (const application of await storage.getPaymentApplicationsByPayments(counted.map(p => p.id))) {
+    const cents = toCents(application.amount);
+    applied.set(application.invoiceId, (applied.get(application.invoiceId) || 0) + cents);
+    unapplied.set(application.paymentId, (unapplied.get(application.paymentId) || 0) - cents);
+  }
+  for (const refund of refunds) {
+    unapplied.set(refund.paymentId, (unapplied.get(refund.paymentId) || 0) - toCents(refund.amount));
+  }
+
+  return { invoices, payments, refunds, applied, unapplied };
+}
+
+function isOpen(invoice: Invoice): boolean {
+  return invoice.status !== "paid" && invoice.status !== "void";
+}
+
+// Cents still owed on an invoice
+function owedOn(invoice: Invoice, applied: Map<string, number>): number {
+  if (!isOpen(invoice)) return 0;
+  return Math.max(toCents(invoice.amount) - (applied.get(invoice.id) || 0), 0);
+}
+
+// What markInvoicePaid records as the invoice's payment reference
+function paymentReference(payment: Payment): string {
+  if (payment.stripePaymentIntentId) return payment.stripePaymentIntentId;
+  if (payment.paymentMethod === "check" && payment.checkNumber) return `check-${payment.checkNumber}`;
+  return `${payment.paymentMethod}-${payment.id}`;
+}
+
+// ---------- Applying payments and credit ----------
+
+// Apply what's left of a completed payment: to `invoiceIds` first, in order, then to the
+// customer's other open invoices, oldest due first. Invoices it covers are marked paid and
+// the rest partial. Returns the cents left over, which stay on the account as credit.
+export async function applyPayment(payment: Payment, invoiceIds: string[] = []): Promise<number> {
+  if (payment.status !== "completed") return 0;
+
+  const { invoices, applied, unapplied } = await loadAccount(payment.customerId);
+  let remaining = unapplied.get(payment.id) || 0;
+
+  const open = invoices
+    .filter(isOpen)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.createdAt.getTime() - b.createdAt.getTime());
+  const chosen = invoiceIds
+    .map(id => open.find(invoice => invoice.id === id))
+    .filter((invoice): invoice is Invoice => !!invoice);
+  const ordered = [...chosen, ...open.filter(invoice => !invoiceIds.includes(invoice.id))];
+
+  for (const invoice of ordered) {
+    if (remaining <= 0) break;
+    const owed = owedOn(invoice, applied);
+    if (owed <= 0) continue;
+
+    const amount = Math.min(remaining, owed);
+    await storage.createPaymentApplication(payment.id, invoice.id, toDollars(amount));
+    applied.set(invoice.id, (applied.get(invoice.id) || 0) + amount);
+    remaining -= amount;
+
+    if (amount >= owed) {
+      await storage.markInvoicePaid(invoice.id, paymentReference(payment));
+    } else {
+      await storage.updateInvoice(invoice.id, { status: "partial" });
+    }
+  }
+
+  return remaining;
+}
+
+// Money Stripe took for some of a customer's invoices (a payment link, portal checkout or a
+// charge carrying the invoices in its metadata). It may have been for any amount, so it's
+// recorded as a card payment for what was actually received and applied like any other,
+// rather than closing the invoices. Voided invoices stay void: money paid on an old link is
+// account credit. Returns undefined when the payment intent was already recorded (checkout
+// reports the same intent twice, and older charges marked their invoice paid directly).
+export async function recordStripePayment(
+  customerId: string,
+  invoices: Invoice[],
+  paymentIntentId: string,
+  cents: number,
+  processedBy = "stripe"
+): Promise<{ payment: Payment; invoices: Invoice[] } | undefined> {
+  if (cents <= 0) return undefined;
+  if (await storage.getPaymentByStripePaymentIntent(paymentIntentId)) return undefined;
+  if ((await storage.getInvoicesByStripePaymentIntent(paymentIntentId)).length > 0) return undefined;
+
+  const targets = invoices.filter(invoice => invoice.status !== "void");
+  const numbers = invoices.map(invoice => invoice.invoiceNumber).join(", ");
+  const created = await storage.createPayment({
+    customerId,
+    paymentMethod: "card",
+    amount: toDollars(cents),
+    status: "completed",
+    stripePaymentIntentId: paymentIntentId,
+    notes: targets.length === 0 && invoices.length > 0
+      ? `Online payment for voided ${numbers} (account credit)`
+      : `Online payment${numbers ? ` for ${numbers}` : ""}`,
+    processedBy,
+  });
+  const payment = await storage.updatePayment(created.id, { processedAt: new Date() });
+  await applyPayment(payment, targets.map(invoice => invoice.id));
+
+  // An invoice that was already paid (maybe online, with no applications) keeps its status;
+  // the payment is credit on the account
+  const updated: Invoice[] = [];
+  for (const invoice of invoices) {
+    const current = (await storage.getInvoice(invoice.id)) ?? invoice;
+    updated.push(invoice.status === "paid" || invoice.status === "void" ? current : await refreshInvoiceStatus(current));
+  }
+  return { payment, invoices: updated };
+}
+
+export async function recordStripeInvoicePayment(
+  invoice: Invoice,
+  paymentIntentId: string,
+  cents: number,
+  processedBy = "stripe"
+): Promise<{ payment: Payment; invoice: Invoice } | undefined> {
+  const recorded = await recordStripePayment(invoice.customerId, [invoice], paymentIntentId, cents, processedBy);
+  return recorded && { payment: recorded.payment, invoice: recorded.invoices[0] };
+}
+
+// Put the customer's unapplied payments and credits toward their open invoices, oldest
+// credit first. Called whenever a new invoice is created. Returns the cents applied.
+export async function applyAccountCredit(customerId: string): Promise<number> {
+  const { payments, unapplied } = await loadAccount(customerId);
+  const withCredit = payments
+    .filter(payment => (unapplied.get(payment.id) || 0) > 0)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let total = 0;
+  for (const payment of withCredit) {
+    const before = unapplied.get(payment.id)!;
+    const left = await applyPayment(payment);
+    total += before - left;
+    if (left > 0) break; // nothing left open to apply to
+  }
+  return total;
+}
+
+// Cents of a payment that are neither applied to an invoice nor refunded
+export async function unappliedAmount(payment: Payment): Promise<number> {
+  const { unapplied } = await loadAccount(payment.customerId);
+  return Math.max(unapplied.get(payment.id) || 0, 0);
+}
+
+// Set an invoice's status from the payments applied to it, after applications were
+// removed or reduced (refunds)
+export async function refreshInvoiceStatus(invoice: Invoice): Promise<Invoice> {
+  if (invoice.status === "void") return invoice;
+  const applications = await storage.getCompletedPaymentApplications([invoice.id]);
+  const paid = applications.reduce((sum, application) => sum + toCents(application.amount), 0);
+  if (paid >= toCents(invoice.amount)) {
+    return invoice.status === "paid" ? invoice : storage.markInvoicePaid(invoice.id, invoice.stripePaymentIntentId || "payments");
+  }
+  const status = paid > 0 ? "partial" : invoice.dueDate < todayInTimeZone() ? "overdue" : "unpaid";
+  return invoice.status === status ? invoice : storage.reopenInvoice(invoice.id, status);
+}
+
+// After an invoice's amount changes (lines added or removed): payments applied beyond the
+// new amount go back on the account as credit, newest application first, the status is
+// re-derived, and any credit on the account is put toward what's now owed
+export async function settleInvoiceAmount(invoice: Invoice): Promise<Invoice> {
+  if (invoice.status === "void" || invoice.status === "paid") return invoice;
+  const applications = await storage.getCompletedPaymentApplications([invoice.id]);
+  let excess = applications.reduce((sum, application) => sum + toCents(application.amount), 0) - toCents(invoice.amount);
+  const newestFirst = [...applications].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const application of newestFirst) {
+    if (excess <= 0) break;
+    const cents = toCents(application.amount);
+    if (cents <= excess) {
+      await storage.deletePaymentApplication(application.id);
+    } else {
+      await storage.updatePaymentApplication(application.id, toDollars(cents - excess));
+    }
+    excess -= cents;
+  }
+
+  await refreshInvoiceStatus(invoice);
+  await applyAccountCredit(invoice.customerId);
+  return (await storage.getInvoice(invoice.id)) ?? invoice;
+}
+
+// Cents paid toward an invoice: all of it once paid, otherwise payments applied so far
+export async function invoiceAmountPaid(invoice: Invoice): Promise<number> {
+  if (invoice.status === "paid") return toCents(invoice.amount);
+  if (invoice.status === "void") return 0;
+  const applications = await storage.getCompletedPaymentApplications([invoice.id]);
+  return applications.reduce((sum, application) => sum + toCents(application.amount), 0);
+}
+
+// Cents still owed on an invoice (what autopay should charge)
+export async function invoiceBalance(invoice: Invoice): Promise<number> {
+  return Math.max(toCents(invoice.amount) - await invoiceAmountPaid(invoice), 0);
+}
+
+// ---------- Ledger ----------
+
+export type LedgerEntryKind = "charge" | "payment" | "credit" | "refund" | "adjustment" | "void";
+
+export interface LedgerEntry {
+  date: string; // YYYY-MM-DD
+  kind: LedgerEntryKind;
+  reference: string;
+  description: string;
+  amount: number; // cents; positive adds to what the customer owes
+  balance: number; // cents, running
+  invoiceId?: string;
+  paymentId?: string;
+}
+
+export interface Ledger {
+  entries: LedgerEntry[]; // oldest first
+  balance: number; // cents owed, negative when the customer is in credit
+  amountDue: number; // cents left to pay on open invoices
+  credit: number; // cents of payments and credits not applied to an invoice yet
+  openInvoices: { invoiceId: string; balance: number }[];
+}
+
+const paymentLabels: Record<string, string> = {
+  card: "Card payment",
+  check: "Check payment",
+  cash: "Cash payment",
+  credit: "Account credit",
+  adjustment: "Balance adjustment",
+};
+
+function paymentReferenceLabel(payment: Payment): string {
+  return payment.checkNumber ? `Check #${payment.checkNumber}` : payment.id.slice(-6).toUpperCase();
+}
+
+function paymentKind(payment: Payment): LedgerEntryKind {
+  if (payment.paymentMethod === "credit") return "credit";
+  if (payment.paymentMethod === "adjustment") return "adjustment";
+  return "payment";
+}
+
+// Every charge, payment, credit, refund and void on the customer's account with a running balance
+export async function buildLedger(customerId: string): Promise<Ledger> {
+  const { invoices, payments, refunds, applied, unapplied } = await loadAccount(customerId);
+
+  const movements: Omit<LedgerEntry, "balance">[] = invoices.map(invoice => ({
+    date: localDate(invoice.createdAt),
+    kind: "charge",
+    reference: invoice.invoiceNumber,
+    description: invoice.description || "Invoice",
+    amount: toCents(invoice.amount),
+    invoiceId: invoice.id,
+  }));
+
+  for (const invoice of invoices) {
+    if (invoice.status !== "void") continue;
+    movements.push({
+      date: localDate(invoice.voidedAt || invoice.createdAt),
+      kind: "void",
+      reference: invoice.invoiceNumber,
+      description: invoice.voidReason ? `Invoice voided: ${invoice.voidReason}` : "Invoice voided",
+      amount: -toCents(invoice.amount),
+      invoiceId: invoice.id,
+    });
+  }
+
+  const paymentsById = new Map(payments.map(payment => [payment.id, payment]));
+  for (const payment of payments) {
+    if (!countsTowardBalance(payment)) continue;
+    movements.push({
+      date: payment.checkDate || localDate(payment.processedAt || payment.createdAt),
+      kind: paymentKind(payment),
+      reference: paymentReferenceLabel(payment),
+      description: paymentKind(payment) === "payment"
+        ? paymentLabels[payment.paymentMethod] || "Payment"
+        : payment.notes || paymentLabels[payment.paymentMethod],
+      amount: -toCents(payment.amount),
+      paymentId: payment.id,
+    });
+  }
+
+  for (const refund of refunds) {
+    const payment = paymentsById.get(refund.paymentId);
+    const label = (payment && paymentLabels[payment.paymentMethod] || "payment").toLowerCase();
+    movements.push({
+      date: localDate(refund.createdAt),
+      kind: "refund",
+      reference: payment ? paymentReferenceLabel(payment) : refund.id.slice(-6).toUpperCase(),
+      description: `${refund.method === "reversal" ? "Reversed" : "Refunded"} ${label}${refund.reason ? `: ${refund.reason}` : ""}`,
+      amount: toCents(refund.amount),
+      paymentId: refund.paymentId,
+    });
+  }
+
+  // Invoices paid online (portal checkout or autopay) have no payments row of their own;
+  // whatever payments rows didn't cover was paid that way
+  for (const invoice of invoices) {
+    if (invoice.status !== "paid") continue;
+    const paidOnline = toCents(invoice.amount) - (applied.get(invoice.id) || 0);
+    if (paidOnline <= 0) continue;
+    movements.push({
+      date: localDate(invoice.paidAt || invoice.createdAt),
+      kind: "payment",
+      reference: invoice.invoiceNumber,
+      description: "Online payment",
+      amount: -paidOnline,
+      invoiceId: invoice.id,
+    });
+  }
+
+  // Charges before payments on the same day
+  movements.sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.kind === b.kind ? 0 : a.kind === "charge" ? -1 : b.kind === "charge" ? 1 : 0)
+  );
+
+  let balance = 0;
+  const entries = movements.map(movement => {
+    balance += movement.amount;
+    return { ...movement, balance };
+  });
+
+  const openInvoices = invoices
+    .filter(invoice => owedOn(invoice, applied) > 0)
+    .map(invoice => ({ invoiceId: invoice.id, balance: owedOn(invoice, applied) }));
+
+  return {
+    entries,
+    balance,
+    amountDue: openInvoices.reduce((sum, invoice) => sum + invoice.balance, 0),
+    credit: Array.from(unapplied.values()).reduce((sum, cents) => sum + Math.max(cents, 0), 0),
+    openInvoices,
+  };
+}
+
+export interface CustomerAccount {
+  balance: number; // dollars owed, negative when in credit
+  amountDue: number; // dollars
+  credit: number; // dollars
+  openInvoices: { invoiceId: string; balance: number }[];
+  entries: LedgerEntry[]; // amounts in dollars
+}
+
+// The ledger in dollars, for the API
+export async function customerAccount(customerId: string): Promise<CustomerAccount> {
+  const ledger = await buildLedger(customerId);
+  return {
+    balance: ledger.balance / 100,
+    amountDue: ledger.amountDue / 100,
+    credit: ledger.credit / 100,
+    openInvoices: ledger.openInvoices.map(invoice => ({ ...invoice, balance: invoice.balance / 100 })),
+    entries: ledger.entries.map(entry => ({ ...entry, amount: entry.amount / 100, balance: entry.balance / 100 })),
+  };
+}
@@ -0,0 +1,89 @@
+import { storage } from "../storage";
+import {
+  messageTemplateKeys,
+  renderTemplate,
+  templateCatalog,
+  templateVariables,
+  unknownPlaceholders,
+  type MessageTemplateKey,
+  type TemplateValues,
+  type TemplateVariableType,
+} from "@shared/messageTemplates";
+import type { MessageTemplate, MessageTemplateVersion, Settings } from "@shared/schema";
+
+// Current template bodies and their version history. A template nobody has edited uses its
+// default body, except on my way and service complete, which start from the texts that used
+// to be stored on settings.
+
+function legacyBody(key: MessageTemplateKey, settings: Settings): string | null {
+  if (key === "on_my_way") return settings.smsOnMyWayMessage;
+  if (key === "service_complete") return settings.smsServiceCompleteMessage;
+  return null;
+}
+
+function currentBody(key: MessageTemplateKey, saved: MessageTemplate | undefined, settings: Settings): string {
+  return saved?.body ?? legacyBody(key, settings) ?? templateCatalog[key].defaultBody;
+}
+
+export async function templateBody(key: MessageTemplateKey): Promise<string> {
+  return currentBody(key, await storage.getMessageTemplate(key), await storage.getSettings());
+}
+
+// The business name is filled in for every template that uses it
+export async function renderMessage<K extends MessageTemplateKey>(key: K, values: TemplateValues<K>): Promise<string> {
+  const settings = await storage.getSettings();
+  const body = currentBody(key, await storage.getMessageTemplate(key), settings);
+  return renderTemplate(key, body, { businessName: settings.businessName, ...values } as TemplateValues<K>);
+}
+
+export interface TemplateSummary {
+  key: MessageTemplateKey;
+  name: string;
+  description: string;
+  variables: { name: string; type: TemplateVariableType; label: string; sample: string }[];
+  defaultBody: string;
+  body: string;
+  version: number; // 0 until first edited
+  updatedAt: Date | null;
+}
+
+export async function listTemplates(): Promise<TemplateSummary[]> {
+  const settings = await storage.getSettings();
+  const saved = new Map((await storage.getMessageTemplates()).map(template => [template.key, template]));
+  return messageTemplateKeys.map(key => {
+    const definition = templateCatalog[key];
+    const template = saved.get(key);
+    return {
+      key,
+      name: definition.name,
+      description: definition.description,
+      variables: definition.variables.map(name => ({ name, ...templateVariables[name] })),
+      defaultBody: definition.defaultBody,
+      body: currentBody(key, template, settings),
+      version: template?.version ?? 0,
+      updatedAt: template?.updatedAt ?? null,
+    };
+  });
+}
+
+export async function saveTemplate(key: MessageTemplateKey, body: string, userId: string | null): Promise<MessageTemplate> {
+  const unknown = unknownPlaceholders(key, body);
+  if (unknown.length > 0) {
+    const allowed = templateCatalog[key].variables.map(name => `{${name}}`).join(", ");
+    throw new Error(`Unknown placeholder${unknown.length > 1 ? "s" : ""} ${unknown.map(name => `{${name}}`).join(", ")}. This message can use ${allowed}.`);
+  }
+  return storage.saveMessageTemplate(key, body, userId);
+}
+
+export async function templateVersions(key: MessageTemplateKey): Promise<MessageTemplateVersion[]> {
+  return storage.getMessageTemplateVersions(key);
+}
+
+// Restoring an old version saves it again as the newest one, so history is never rewritten
+export async function restoreTemplateVersion(key: MessageTemplateKey, version: number, userId: string | null): Promise<MessageTemplate> {
+  const previous = (await storage.getMessageTemplateVersions(key)).find(entry => entry.version === version);
+  if (!previous) {
+    throw new Error(`Version ${version} not found`);
+  }
+  return saveTemplate(key, previous.body, userId);
+}
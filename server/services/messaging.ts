@@ -0,0 +1,275 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { formatInTimeZone } from "date-fns-tz";
+import { storage } from "../storage";
+import { DEFAULT_TIMEZONE } from "@shared/recurrence";
+import type { Customer, Message, Settings, SmsProviderName } from "@shared/schema";
+
+// Every outbound text goes through here: phone numbers are normalized to E.164, customers'
+// SMS opt-in and the business's quiet hours are checked, and the send is recorded in
+// `messages`. The provider is picked with SMS_PROVIDER (telnyx, twilio or outbox); without
+// it, whichever provider has credentials is used, and the outbox outside production.
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  from: string;
+  send(to: string, text: string): Promise<{ id: string }>;
+}
+
+// Telnyx REST API (the Node SDK's messages.create is broken, see replit.md)
+export class TelnyxProvider implements SmsProvider {
+  name = "telnyx" as const;
+
+  constructor(private apiKey: string, public from: string) {}
+
+  async send(to: string, text: string): Promise<{ id: string }> {
+    const response = await fetch("https://api.telnyx.com/v2/messages", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: this.from, to, text }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Telnyx API error (${response.status}): ${error}`);
+    }
+
+    const result = await response.json();
+    return { id: result.data.id };
+  }
+}
+
+export class TwilioProvider implements SmsProvider {
+  name = "twilio" as const;
+
+  constructor(private accountSid: string, private authToken: string, public from: string) {}
+
+  async send(to: string, text: string): Promise<{ id: string }> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ From: this.from, To: to, Body: text }).toString(),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Twilio API error (${response.status}): ${error}`);
+    }
+
+    const result = await response.json();
+    return { id: result.sid };
+  }
+}
+
+export interface OutboxEntry {
+  id: string;
+  from: string;
+  to: string;
+  text: string;
+  sentAt: string; // ISO timestamp
+}
+
+// Development and staging: texts are kept in memory and appended to a JSON-lines file
+// instead of being sent
+export class OutboxProvider implements SmsProvider {
+  name = "outbox" as const;
+  readonly sent: OutboxEntry[] = [];
+
+  constructor(public from: string, private file: string | null) {}
+
+  async send(to: string, text: string): Promise<{ id: string }> {
+    const entry: OutboxEntry = { id: `outbox-${randomUUID()}`, from: this.from, to, text, sentAt: new Date().toISOString() };
+    this.sent.push(entry);
+    if (this.file) {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, JSON.stringify(entry) + "\n");
+    }
+    console.log(`📤 [OUTBOX] SMS to ${to}: ${text}`);
+    return { id: entry.id };
+  }
+}
+
+function telnyxFromEnv(): SmsProvider | null {
+  const { TELNYX_API_KEY, TELNYX_PHONE_NUMBER } = process.env;
+  return TELNYX_API_KEY && TELNYX_PHONE_NUMBER ? new TelnyxProvider(TELNYX_API_KEY, TELNYX_PHONE_NUMBER) : null;
+}
+
+function twilioFromEnv(): SmsProvider | null {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+  return TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER
+    ? new TwilioProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER)
+    : null;
+}
+
+function outboxFromEnv(): SmsProvider {
+  return new OutboxProvider(
+    process.env.SMS_FROM_NUMBER || "+15555550100",
+    process.env.SMS_OUTBOX_FILE || path.resolve("uploads", "outbox", "sms.jsonl")
+  );
+}
+
+let smsProvider: SmsProvider | null | undefined;
+
+// null when texting isn't set up: sends are recorded as failed
+export function getSmsProvider(): SmsProvider | null {
+  if (smsProvider === undefined) {
+    switch (process.env.SMS_PROVIDER) {
+      case "telnyx":
+        smsProvider = telnyxFromEnv();
+        if (!smsProvider) throw new Error("SMS_PROVIDER=telnyx requires TELNYX_API_KEY and TELNYX_PHONE_NUMBER");
+        break;
+      case "twilio":
+        smsProvider = twilioFromEnv();
+        if (!smsProvider) throw new Error("SMS_PROVIDER=twilio requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER");
+        break;
+      case "outbox":
+        smsProvider = outboxFromEnv();
+        break;
+      default:
+        smsProvider = telnyxFromEnv() ?? twilioFromEnv() ?? (process.env.NODE_ENV === "production" ? null : outboxFromEnv());
+    }
+    console.log(smsProvider ? `✅ SMS provider: ${smsProvider.name} (${smsProvider.from})` : "⚠️  SMS provider not configured - SMS disabled");
+  }
+  return smsProvider;
+}
+
+// For tests: swap the provider (e.g. a fresh OutboxProvider)
+export function setSmsProvider(provider: SmsProvider | null) {
+  smsProvider = provider;
+}
+
+// US numbers only: 10 digits, or 11 starting with 1. Returns null for anything else.
+export function normalizePhone(phone: string): string | null {
+  const digits = phone.trim().replace(/\D/g, "");
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+// ---------- Quiet hours ----------
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// When quiet hours end, if `now` is inside them (business time zone)
+export function quietHoursEnd(settings: Pick<Settings, "quietHoursStart" | "quietHoursEnd">, now = new Date()): Date | null {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return null;
+  const start = minutesOf(settings.quietHoursStart);
+  const end = minutesOf(settings.quietHoursEnd);
+  const current = minutesOf(formatInTimeZone(now, DEFAULT_TIMEZONE, "HH:mm"));
+
+  // Quiet hours usually run past midnight (21:00-08:00)
+  const quiet = start <= end ? current >= start && current < end : current >= start || current < end;
+  if (!quiet) return null;
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  return new Date(now.getTime() + minutesLeft * 60 * 1000 - now.getSeconds() * 1000);
+}
+
+// ---------- Sending ----------
+
+export interface SmsOptions {
+  // Checked for SMS opt-in, and the text is filed under the customer's conversation
+  customer?: Customer | null;
+  // Texts the recipient asked for or the carrier requires (opt-in invitations, STOP/HELP
+  // replies, quotes for a booking) go to customers who haven't opted in
+  skipOptIn?: boolean;
+  // Time-sensitive texts (on my way, staff messages and alerts, keyword replies) ignore quiet hours
+  urgent?: boolean;
+}
+
+export interface SmsResult {
+  status: "sent" | "queued" | "skipped" | "failed";
+  message?: Message; // the recorded text, unless skipped
+  reason?: string; // why it was skipped or failed
+}
+
+async function deliver(message: Message): Promise<Message> {
+  const provider = getSmsProvider();
+  if (!provider) {
+    return storage.updateMessage(message.id, { status: "failed", errorMessage: "SMS provider not configured" });
+  }
+  try {
+    const result = await provider.send(message.phone!, message.messageText);
+    return storage.updateMessage(message.id, { status: "sent", provider: provider.name, externalMessageId: result.id, sendAfter: null });
+  } catch (error: any) {
+    console.error(`❌ Failed to send SMS to ${message.phone}:`, error.message);
+    return storage.updateMessage(message.id, { status: "failed", provider: provider.name, errorMessage: error.message, sendAfter: null });
+  }
+}
+
+// Send (or queue) a text. Never throws for delivery problems: the result says what happened.
+export async function sendSms(to: string, text: string, options: SmsOptions = {}): Promise<SmsResult> {
+  const { customer } = options;
+  if (customer && !customer.smsOptIn && !options.skipOptIn) {
+    return { status: "skipped", reason: `${customer.name} has not opted in to SMS` };
+  }
+  const phone = normalizePhone(to);
+  if (!phone) {
+    console.error(`❌ Invalid phone number format: "${to}" - SMS NOT SENT`);
+    return { status: "skipped", reason: `Invalid phone number: ${to}` };
+  }
+
+  const sendAfter = options.urgent ? null : quietHoursEnd(await storage.getSettings());
+  const message = await storage.createMessage({
+    customerId: customer?.id ?? null,
+    phone,
+    direction: "outbound",
+    messageText: text,
+    status: "queued",
+    sendAfter,
+    skipOptIn: !!options.skipOptIn,
+  });
+  if (sendAfter) {
+    console.log(`🌙 Quiet hours - SMS to ${phone} queued until ${sendAfter.toISOString()}`);
+    return { status: "queued", message };
+  }
+
+  const delivered = await deliver(message);
+  return delivered.status === "sent"
+    ? { status: "sent", message: delivered }
+    : { status: "failed", message: delivered, reason: delivered.errorMessage ?? undefined };
+}
+
+export async function sendCustomerSms(customer: Customer, text: string, options: Omit<SmsOptions, "customer"> = {}): Promise<SmsResult> {
+  if (!customer.phone) {
+    return { status: "skipped", reason: `${customer.name} has no phone number` };
+  }
+  return sendSms(customer.phone, text, { ...options, customer });
+}
+
+// Whether the recipient texted STOP after the text was queued. Leads keep their opt-in on
+// their conversation.
+async function optedOutSinceQueued(message: Message): Promise<boolean> {
+  if (message.skipOptIn) return false;
+  if (message.customerId) {
+    const customer = await storage.getCustomer(message.customerId);
+    return !!customer && !customer.smsOptIn;
+  }
+  const lead = message.phone ? await storage.getLeadConversationByPhone(message.phone) : undefined;
+  return !!lead && !lead.smsOptIn;
+}
+
+// Send the texts held back by quiet hours that are now due, skipping any to people who
+// have opted out since
+export async function sendQueuedMessages(now = new Date()): Promise<{ sent: number; failed: number; skipped: number }> {
+  const results = { sent: 0, failed: 0, skipped: 0 };
+  for (const message of await storage.getQueuedMessages(now)) {
+    if (await optedOutSinceQueued(message)) {
+      await storage.updateMessage(message.id, { status: "skipped", errorMessage: "Opted out of SMS", sendAfter: null });
+      results.skipped++;
+      continue;
+    }
+    const delivered = await deliver(message);
+    results[delivered.status === "sent" ? "sent" : "failed"]++;
+  }
+  return results;
+}
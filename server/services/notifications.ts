@@ -1,31 +1,11 @@
 import { storage } from "../storage";
-import type { BookingRequest, InsertNotification } from "@shared/schema";
+import { getSmsProvider, sendCustomerSms, sendSms } from "./messaging";
+import { renderMessage } from "./messageTemplates";
+import type { BookingRequest, Customer, InsertNotification, ScheduleException } from "@shared/schema";
 
-const telnyxApiKey = process.env.TELNYX_API_KEY;
-const ADMIN_PHONE = process.env.TELNYX_PHONE_NUMBER;
-
-// Helper function to send SMS via Telnyx REST API
-async function sendTelnyxSMS(from: string, to: string, text: string): Promise<{ id: string }> {
-  if (!telnyxApiKey) {
-    throw new Error("Telnyx API key not configured");
-  }
-
-  const response = await fetch('https://api.telnyx.com/v2/messages', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${telnyxApiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ from, to, text })
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Telnyx API error (${response.status}): ${error}`);
-  }
-
-  const result = await response.json();
-  return { id: result.data.id };
+// Admin texts go to the business's own SMS number
+function adminPhone(): string | undefined {
+  return getSmsProvider()?.from;
 }
 
 /**
@@ -64,17 +44,22 @@ export async function notifyAdminOfNewBooking(booking: BookingRequest): Promise<
     result.error = error instanceof Error ? error.message : "Unknown error creating notification";
   }
 
-  // Send SMS if Telnyx is configured
-  if (telnyxApiKey && ADMIN_PHONE) {
+  // Send SMS if texting is set up
+  const to = adminPhone();
+  if (to) {
     try {
-      const message = `NEW BOOKING REQUEST from ${booking.name}\n\n` +
-                     `Address: ${booking.address}\n` +
-                     `Dogs: ${booking.numberOfDogs}\n` +
-                     `Service: ${booking.preferredServicePlan || 'Not specified'}\n` +
-                     `Phone: ${booking.phone}\n\n` +
-                     `View in admin dashboard to schedule.`;
-
-      await sendTelnyxSMS(ADMIN_PHONE, ADMIN_PHONE, message);
+      const message = await renderMessage("booking_alert", {
+        name: booking.name,
+        address: booking.address,
+        numberOfDogs: booking.numberOfDogs,
+        servicePlan: booking.preferredServicePlan || "Not specified",
+        phone: booking.phone,
+      });
+
+      const sms = await sendSms(to, message, { urgent: true });
+      if (sms.status !== "sent") {
+        throw new Error(sms.reason || "SMS not sent");
+      }
 
       result.smsDelivered = true;
 
@@ -93,12 +78,31 @@ export async function notifyAdminOfNewBooking(booking: BookingRequest): Promise<
       }
     }
   } else {
-    console.log("Telnyx not configured, skipping SMS notification");
+    console.log("SMS not configured, skipping SMS notification");
   }
 
   return result;
 }
 
+/**
+ * Notify staff that a customer requested a vacation hold from the portal
+ */
+export async function notifyAdminOfHoldRequest(exception: ScheduleException, customer: Customer): Promise<void> {
+  try {
+    await storage.createNotification({
+      type: "vacation_hold",
+      title: "Vacation Hold Request",
+      message: `${customer.name} asked to pause service from ${exception.startDate} to ${exception.endDate}.${exception.notes ? ` Note: ${exception.notes}` : ""} Review it on the customer's schedule.`,
+      bookingRequestId: null,
+      customerId: customer.id,
+      smsDelivered: false,
+      readAt: null,
+    });
+  } catch (error) {
+    console.error("Failed to create vacation hold notification:", error);
+  }
+}
+
 /**
  * Send a general notification to admin
  */
@@ -115,14 +119,15 @@ export async function sendAdminNotification(
     message,
     bookingRequestId: null,
     customerId: null,
-    smsDelivered: sendSMS && !!telnyxApiKey,
+    smsDelivered: sendSMS && !!adminPhone(),
     readAt: null,
   });
 
   // Optionally send SMS
-  if (sendSMS && telnyxApiKey && ADMIN_PHONE) {
+  const to = adminPhone();
+  if (sendSMS && to) {
     try {
-      await sendTelnyxSMS(ADMIN_PHONE, ADMIN_PHONE, `${title}\n\n${message}`);
+      await sendSms(to, `${title}\n\n${message}`, { urgent: true });
     } catch (error) {
       console.error("Failed to send admin SMS:", error);
     }
@@ -136,10 +141,6 @@ export async function sendOnMyWayNotification(customerId: string): Promise<{
   success: boolean;
   message: string;
 }> {
-  if (!telnyxApiKey) {
-    return { success: false, message: "Telnyx not configured" };
-  }
-
   try {
     const customer = await storage.getCustomer(customerId);
     if (!customer) {
@@ -154,9 +155,12 @@ export async function sendOnMyWayNotification(customerId: string): Promise<{
       return { success: false, message: "Customer has no phone number" };
     }
 
-    const smsMessage = `Hi ${customer.name}! SillyDog Pooper Scooper is on the way to your location. We'll be there shortly! 🐕`;
+    const smsMessage = await renderMessage("on_my_way", { name: customer.name, address: customer.address || "your location" });
 
-    await sendTelnyxSMS(process.env.TELNYX_PHONE_NUMBER!, customer.phone, smsMessage);
+    const sms = await sendCustomerSms(customer, smsMessage, { urgent: true });
+    if (sms.status === "skipped" || sms.status === "failed") {
+      return { success: false, message: sms.reason || "Failed to send SMS" };
+    }
 
     return { success: true, message: `On My Way notification sent to ${customer.name}` };
   } catch (error: any) {
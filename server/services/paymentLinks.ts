@@ -0,0 +1,59 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import type { Customer } from "@shared/schema";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-10-29.clover",
+});
+
+export interface PaymentLinkInput {
+  customer: Customer;
+  amount: number; // dollars
+  description?: string;
+  invoiceId?: string; // the Stripe webhook applies the payment to it when checkout completes
+}
+
+// Stripe Checkout page for a one-off payment. Creates the Stripe customer on first use.
+export async function createPaymentLink({ customer, amount, description, invoiceId }: PaymentLinkInput): Promise<string> {
+  let stripeCustomerId = customer.stripeCustomerId;
+  if (!stripeCustomerId) {
+    const stripeCustomer = await stripe.customers.create({
+      name: customer.name,
+      email: customer.email || undefined,
+      phone: customer.phone,
+      address: { line1: customer.address },
+    });
+    stripeCustomerId = stripeCustomer.id;
+    await storage.updateCustomer(customer.id, { stripeCustomerId });
+  }
+
+  const baseUrl = process.env.NODE_ENV === "production"
+    ? "https://sillydog-app.onrender.com"
+    : `http://localhost:5000`;
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    customer: stripeCustomerId,
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          unit_amount: Math.round(amount * 100),
+          product_data: { name: description || "SillyDog Service" },
+        },
+        quantity: 1,
+      },
+    ],
+    metadata: {
+      invoiceId: invoiceId || "",
+      customerId: customer.id,
+    },
+    success_url: `${baseUrl}/portal/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${baseUrl}/portal/payment-cancelled`,
+  });
+
+  if (!session.url) {
+    throw new Error("Stripe did not return a checkout URL");
+  }
+  return session.url;
+}
@@ -0,0 +1,176 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { storage } from "../storage";
+import type { JobPhoto, JobPhotoKind, JobPhotoLink } from "@shared/schema";
+
+// Where job photo files live. Local disk by default; set PHOTO_STORAGE=s3 (plus the
+// S3_* variables) to use S3 or any S3-compatible service (R2, MinIO, Spaces).
+export interface PhotoStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalPhotoStore implements PhotoStore {
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error("Invalid photo key");
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export class S3PhotoStore implements PhotoStore {
+  private client: S3Client;
+
+  constructor(private bucket: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "auto",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      // Most S3-compatible services don't support virtual-hosted bucket names
+      forcePathStyle: !!process.env.S3_ENDPOINT,
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: contentType }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!result.Body) return null;
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let photoStore: PhotoStore | null = null;
+
+export function getPhotoStore(): PhotoStore {
+  if (!photoStore) {
+    if (process.env.PHOTO_STORAGE === "s3") {
+      if (!process.env.S3_BUCKET) {
+        throw new Error("PHOTO_STORAGE=s3 requires S3_BUCKET");
+      }
+      photoStore = new S3PhotoStore(process.env.S3_BUCKET);
+    } else {
+      photoStore = new LocalPhotoStore(process.env.PHOTO_STORAGE_DIR || path.resolve("uploads", "photos"));
+    }
+  }
+  return photoStore;
+}
+
+// Photos are re-encoded on upload: phone cameras produce 4-12MB images nobody needs at full size
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+const JPEG_QUALITY = 80;
+
+const DATA_URL_PATTERN = /^data:(image\/(?:jpeg|jpg|png|webp|gif));base64,/;
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match) throw new Error("Photo must be a valid image (JPEG, PNG, WebP, or GIF)");
+  return Buffer.from(dataUrl.slice(match[0].length), "base64");
+}
+
+export interface SaveJobPhotoInput {
+  jobHistoryId: string;
+  dataUrl: string; // base64 data URL from the browser (or a legacy column)
+  kind?: JobPhotoKind;
+  caption?: string | null;
+  uploadedBy?: string | null;
+}
+
+// Resize, write the image and its thumbnail to the store, then record it
+export async function saveJobPhoto(input: SaveJobPhotoInput): Promise<JobPhoto> {
+  const original = decodeDataUrl(input.dataUrl);
+  // rotate() applies the EXIF orientation before it's stripped
+  const image = sharp(original).rotate();
+  const { data, info } = await image
+    .clone()
+    .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+  const thumbnail = await image
+    .clone()
+    .resize(THUMBNAIL_DIMENSION, THUMBNAIL_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer();
+
+  const baseKey = `jobs/${input.jobHistoryId}/${randomUUID()}`;
+  const storageKey = `${baseKey}.jpg`;
+  const thumbnailKey = `${baseKey}_thumb.jpg`;
+  const store = getPhotoStore();
+  await store.put(storageKey, data, "image/jpeg");
+  await store.put(thumbnailKey, thumbnail, "image/jpeg");
+
+  try {
+    return await storage.createJobPhoto({
+      jobHistoryId: input.jobHistoryId,
+      kind: input.kind || "other",
+      caption: input.caption || null,
+      storageKey,
+      thumbnailKey,
+      contentType: "image/jpeg",
+      width: info.width,
+      height: info.height,
+      sizeBytes: info.size,
+      uploadedBy: input.uploadedBy || null,
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind if the row couldn't be written
+    await Promise.all([store.delete(storageKey), store.delete(thumbnailKey)]).catch(() => {});
+    throw error;
+  }
+}
+
+export async function deleteJobPhotoFiles(photo: JobPhoto): Promise<void> {
+  const store = getPhotoStore();
+  await Promise.all([store.delete(photo.storageKey), store.delete(photo.thumbnailKey)]);
+}
+
+export function photoLink(photo: JobPhoto): JobPhotoLink {
+  return {
+    id: photo.id,
+    kind: photo.kind,
+    caption: photo.caption,
+    url: `/api/photos/${photo.id}`,
+    thumbnailUrl: `/api/photos/${photo.id}?size=thumb`,
+  };
+}
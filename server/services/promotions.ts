@@ -0,0 +1,240 @@
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import { applyPayment } from "./ledger";
+import { todayInTimeZone } from "@shared/recurrence";
+import type { Customer, PromoCode, PromoDiscountType, PromoRedemption, Settings } from "@shared/schema";
+import type { DraftLine } from "./invoices";
+
+// Promo codes and referral codes are both redeemed onto a customer (promoRedemptions). The
+// next invoices created for the customer pick up whatever is left of them as discount
+// lines, so nothing needs to be tracked beyond the lines themselves.
+
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function referralProgramEnabled(settings: Settings): boolean {
+  return toCents(settings.referralCredit) > 0 || toCents(settings.referralDiscount) > 0;
+}
+
+// ---------- Codes ----------
+
+const REFERRAL_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I
+
+// The customer's referral code, generated the first time it's needed
+export async function ensureReferralCode(customer: Customer): Promise<string> {
+  if (customer.referralCode) return customer.referralCode;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = "REF-" + Array.from(randomBytes(6), byte => REFERRAL_ALPHABET[byte % REFERRAL_ALPHABET.length]).join("");
+    if (await storage.getCustomerByReferralCode(code) || await storage.getPromoCodeByCode(code)) continue;
+    const updated = await storage.updateCustomer(customer.id, { referralCode: code });
+    return updated.referralCode!;
+  }
+  throw new Error("Couldn't generate a referral code");
+}
+
+export type ResolvedCode = { promo: PromoCode; referrer?: never } | { referrer: Customer; promo?: never };
+
+// Look up a promo or referral code that can be redeemed today. The error messages are
+// written for the customer entering it.
+export async function resolveCode(rawCode: string): Promise<ResolvedCode> {
+  const code = normalizeCode(rawCode);
+  const promo = await storage.getPromoCodeByCode(code);
+  if (promo) {
+    if (!promo.active) {
+      throw new Error(`${code} is no longer available`);
+    }
+    if (promo.expiresOn && promo.expiresOn < todayInTimeZone()) {
+      throw new Error(`${code} expired on ${promo.expiresOn}`);
+    }
+    if (promo.maxRedemptions !== null) {
+      const redemptions = await storage.getPromoRedemptionsByPromoCode(promo.id);
+      if (redemptions.length >= promo.maxRedemptions) {
+        throw new Error(`${code} has been fully redeemed`);
+      }
+    }
+    return { promo };
+  }
+
+  const referrer = await storage.getCustomerByReferralCode(code);
+  if (referrer && referralProgramEnabled(await storage.getSettings())) {
+    return { referrer };
+  }
+  throw new Error(`${code} isn't a valid promo code`);
+}
+
+// Apply a promo or referral code to a customer. Each promo code can be used once per
+// customer; referral codes only by customers who haven't been invoiced yet.
+export async function redeemCode(customer: Customer, rawCode: string, userId: string | null): Promise<PromoRedemption> {
+  const resolved = await resolveCode(rawCode);
+  const existing = await storage.getPromoRedemptionsByCustomer(customer.id);
+
+  if (resolved.promo) {
+    const { promo } = resolved;
+    if (existing.some(redemption => redemption.promoCodeId === promo.id)) {
+      throw new Error(`${promo.code} has already been applied to ${customer.name}`);
+    }
+    return storage.createPromoRedemption({
+      customerId: customer.id,
+      code: promo.code,
+      promoCodeId: promo.id,
+      discountType: promo.discountType as PromoDiscountType,
+      discountValue: promo.discountValue,
+      createdBy: userId,
+    });
+  }
+
+  const { referrer } = resolved;
+  if (referrer.id === customer.id) {
+    throw new Error("Customers can't use their own referral code");
+  }
+  if (existing.some(redemption => redemption.referrerCustomerId)) {
+    throw new Error(`${customer.name} has already used a referral code`);
+  }
+  const invoices = await storage.getInvoicesByCustomer(customer.id);
+  if (invoices.some(invoice => invoice.status !== "void")) {
+    throw new Error("Referral codes are for new customers");
+  }
+
+  const settings = await storage.getSettings();
+  return storage.createPromoRedemption({
+    customerId: customer.id,
+    code: referrer.referralCode!,
+    discountType: "fixed",
+    discountValue: settings.referralDiscount,
+    referrerCustomerId: referrer.id,
+    referralCredit: toCents(settings.referralCredit) > 0 ? settings.referralCredit : null,
+    createdBy: userId,
+  });
+}
+
+// ---------- Invoice discounts ----------
+
+export interface PromotionStatus {
+  redemption: PromoRedemption;
+  remaining: string | null; // dollars or percent not yet used; free visits left; null once used up
+}
+
+function remainingOf(redemption: PromoRedemption, usedLines: { quantity: string }[]): string | null {
+  if (redemption.discountType === "free_visit") {
+    const used = usedLines.reduce((sum, line) => sum + parseFloat(line.quantity), 0);
+    const left = parseFloat(redemption.discountValue) - used;
+    return left > 0 ? left.toString() : null;
+  }
+  return usedLines.length === 0 && toCents(redemption.discountValue) > 0 ? redemption.discountValue : null;
+}
+
+// The customer's redemptions with what's left of each, oldest first
+export async function customerPromotions(customerId: string): Promise<PromotionStatus[]> {
+  const redemptions = await storage.getPromoRedemptionsByCustomer(customerId);
+  const used = await storage.getPromoDiscountLines(redemptions.map(redemption => redemption.id));
+  return redemptions.map(redemption => ({
+    redemption,
+    remaining: remainingOf(redemption, used.filter(line => line.promoRedemptionId === redemption.id)),
+  }));
+}
+
+function discountLine(redemption: PromoRedemption, description: string, cents: number, taxable: boolean, serviceDate: string | null = null): DraftLine {
+  return {
+    kind: "discount",
+    description,
+    serviceDate,
+    routeId: null,
+    quantity: "1",
+    unitPrice: fromCents(cents),
+    amount: fromCents(-cents),
+    taxable,
+    promoRedemptionId: redemption.id,
+  };
+}
+
+// Discount lines for whatever is left of the customer's promotions, worked out against the
+// invoice's other lines. Percent and fixed discounts are used up by the first invoice
+// they apply to (a fixed discount larger than the invoice isn't carried over). Free visits
+// come off per-visit lines, one discount line per visit. Discounts are split between
+// taxable and untaxed lines in proportion, so sales tax is charged on the discounted price.
+export async function promotionLines(customerId: string, lines: DraftLine[]): Promise<DraftLine[]> {
+  const promotions = (await customerPromotions(customerId)).filter(promotion => promotion.remaining !== null);
+  if (promotions.length === 0) return [];
+
+  const base = { taxable: 0, untaxed: 0 }; // cents left to discount
+  for (const line of lines.filter(line => line.kind !== "tax")) {
+    base[line.taxable ? "taxable" : "untaxed"] += toCents(line.amount);
+  }
+  base.taxable = Math.max(base.taxable, 0);
+  base.untaxed = Math.max(base.untaxed, 0);
+  const visits = lines
+    .filter(line => line.routeId && (line.kind === "service" || line.kind === "timed_service") && toCents(line.amount) > 0)
+    .sort((a, b) => (a.serviceDate || "").localeCompare(b.serviceDate || ""));
+
+  const discounts: DraftLine[] = [];
+  const take = (redemption: PromoRedemption, description: string, cents: number) => {
+    const total = base.taxable + base.untaxed;
+    cents = Math.min(cents, total);
+    if (cents <= 0) return;
+    const taxable = Math.round(cents * base.taxable / total);
+    if (taxable > 0) discounts.push(discountLine(redemption, description, taxable, true));
+    if (cents - taxable > 0) discounts.push(discountLine(redemption, description, cents - taxable, false));
+    base.taxable -= taxable;
+    base.untaxed -= cents - taxable;
+  };
+
+  for (const { redemption, remaining } of promotions) {
+    const value = parseFloat(remaining!);
+    if (redemption.discountType === "percent") {
+      take(redemption, `Promo ${redemption.code} - ${value}% off`, Math.round((base.taxable + base.untaxed) * value / 100));
+    } else if (redemption.discountType === "fixed") {
+      const description = redemption.referrerCustomerId ? `Referral discount (${redemption.code})` : `Promo ${redemption.code}`;
+      take(redemption, description, toCents(value));
+    } else {
+      for (const visit of visits.splice(0, value)) {
+        const key = visit.taxable ? "taxable" : "untaxed";
+        const cents = Math.min(toCents(visit.amount), base[key]);
+        if (cents <= 0) continue;
+        discounts.push(discountLine(redemption, `Promo ${redemption.code} - free visit`, cents, !!visit.taxable, visit.serviceDate ?? null));
+        base[key] -= cents;
+      }
+    }
+  }
+  return discounts;
+}
+
+// ---------- Referral rewards ----------
+
+// Credit referrers whose referred customer has paid an invoice (one that wasn't free). The
+// credit goes on the referrer's account and toward their open invoices.
+export async function processReferralRewards(): Promise<{ credited: number }> {
+  let credited = 0;
+
+  for (const redemption of await storage.getUnpaidReferralRedemptions()) {
+    const invoices = await storage.getInvoicesByCustomer(redemption.customerId);
+    if (!invoices.some(invoice => invoice.status === "paid" && toCents(invoice.amount) > 0)) continue;
+
+    const referrer = await storage.getCustomer(redemption.referrerCustomerId!);
+    const referee = await storage.getCustomer(redemption.customerId);
+    if (!referrer || !referee) continue;
+
+    const payment = await storage.createPayment({
+      customerId: referrer.id,
+      paymentMethod: "credit",
+      amount: redemption.referralCredit!,
+      status: "completed",
+      notes: `Referral credit - ${referee.name}`,
+      processedBy: "referrals",
+    });
+    await storage.updatePromoRedemption(redemption.id, { referralPaymentId: payment.id });
+    await applyPayment(await storage.updatePayment(payment.id, { processedAt: new Date() }));
+    credited++;
+  }
+
+  return { credited };
+}
@@ -0,0 +1,67 @@
+import type { Customer, InsertJobHistory } from "@shared/schema";
+import { calculateDistance } from "./geocoding";
+
+const FEET_PER_KM = 3280.84;
+const FEET_PER_METER = 3.28084;
+
+export interface DeviceLocation {
+  lat: number;
+  lng: number;
+  accuracy?: number; // meters
+}
+
+// Coordinates sent by the tech's device with a status change (missing or garbage -> null)
+export function parseDeviceLocation(value: unknown): DeviceLocation | null {
+  if (!value || typeof value !== "object") return null;
+  const { lat, lng, accuracy } = value as Record<string, unknown>;
+  if (typeof lat !== "number" || typeof lng !== "number") return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return {
+    lat,
+    lng,
+    accuracy: typeof accuracy === "number" && accuracy >= 0 ? accuracy : undefined,
+  };
+}
+
+function distanceFromCustomerFeet(location: DeviceLocation, customer: Customer): number | null {
+  if (!customer.lat || !customer.lng) return null;
+  const km = calculateDistance(location, { lat: parseFloat(customer.lat), lng: parseFloat(customer.lng) });
+  return Math.round(km * FEET_PER_KM);
+}
+
+export function checkInFields(location: DeviceLocation | null, customer: Customer): Partial<InsertJobHistory> {
+  if (!location) return {};
+  return {
+    checkInLat: location.lat.toString(),
+    checkInLng: location.lng.toString(),
+    checkInAccuracy: location.accuracy !== undefined ? Math.round(location.accuracy) : null,
+    checkInDistanceFeet: distanceFromCustomerFeet(location, customer),
+  };
+}
+
+// Check-out location plus the geofence verdict. The device's reported accuracy is given
+// the benefit of the doubt so a poor GPS fix in the yard isn't flagged, but only up to the
+// radius itself: a fix less precise than that can't place the tech in the yard, so it's
+// flagged for review instead of passing.
+export function checkOutFields(location: DeviceLocation | null, customer: Customer, radiusFeet: number): Partial<InsertJobHistory> {
+  if (!location) return { locationFlag: "no_location" };
+
+  const distanceFeet = distanceFromCustomerFeet(location, customer);
+  const accuracyFeet = (location.accuracy ?? 0) * FEET_PER_METER;
+  let locationFlag: string | null = null;
+  if (distanceFeet === null) {
+    locationFlag = "no_customer_location";
+  } else if (distanceFeet - Math.min(accuracyFeet, radiusFeet) > radiusFeet) {
+    locationFlag = "too_far";
+  } else if (accuracyFeet > radiusFeet) {
+    locationFlag = "low_accuracy";
+  }
+
+  return {
+    checkOutLat: location.lat.toString(),
+    checkOutLng: location.lng.toString(),
+    checkOutAccuracy: location.accuracy !== undefined ? Math.round(location.accuracy) : null,
+    checkOutDistanceFeet: distanceFeet,
+    locationFlag,
+  };
+}
@@ -0,0 +1,338 @@
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import { findBestFitDay, geocodeAddress } from "./geocoding";
+import { generateUpcomingRoutesForRule, notifyClosureChanges, scheduledDayLocations } from "./scheduling";
+import { createInvoiceWithLineItems } from "./invoices";
+import { redeemCode } from "./promotions";
+import { BUSINESS_DAYS, DEFAULT_TIMEZONE, addDays, describeRule, nextOccurrences, todayInTimeZone } from "@shared/recurrence";
+import type {
+  BookingRequest,
+  Customer,
+  InsertScheduleRule,
+  InvoiceWithLineItems,
+  Quote,
+  QuoteFrequency,
+  QuoteInput,
+  QuoteStatus,
+  Route,
+  ScheduleRule,
+  ServiceType,
+} from "@shared/schema";
+
+// Booking request -> quote (staff) -> accepted from the public link -> customer, schedule
+// rule and routes. Routes are generated the same 60 days ahead as a schedule added by hand.
+
+const QUOTE_VALID_DAYS = 14;
+const ROUTE_DAYS_AHEAD = 60;
+
+// ---------- Customers from bookings ----------
+
+// The fixed-price service type for the number of dogs ("2 Dogs 1x Week"), or the closest
+// one with fewer dogs when the price book has nothing bigger
+export function suggestServiceType(serviceTypes: ServiceType[], numberOfDogs: number, timesPerWeek = 1): ServiceType | undefined {
+  const dogsIn = (serviceType: ServiceType) => parseInt(serviceType.category || "");
+  return serviceTypes
+    .filter(st => st.active && !st.isHourly && st.timesPerWeek === timesPerWeek && dogsIn(st) <= numberOfDogs)
+    .sort((a, b) => dogsIn(b) - dogsIn(a))[0];
+}
+
+// Create the customer for a booking request, carry over the card saved with the booking
+// (turning on autopay) and redeem the promo code it was booked with. A code that can't be
+// redeemed any more doesn't stop the customer being created.
+export async function createCustomerFromBooking(
+  booking: BookingRequest,
+  serviceType: ServiceType,
+  preferredDays: number[] | null,
+  userId: string | null
+): Promise<{ customer: Customer; promoMessage?: string }> {
+  const customer = await storage.createCustomer({
+    name: booking.name,
+    address: booking.address,
+    phone: booking.phone,
+    email: booking.email || "",
+    numberOfDogs: booking.numberOfDogs,
+    serviceTypeId: serviceType.id,
+    gateCode: "",
+    yardNotes: booking.yardNotes || "",
+    status: "active",
+    billingMethod: "invoice",
+    autopayEnabled: false,
+    smsOptIn: true,
+    preferredDays,
+    ...(booking.stripePaymentMethodId ? {
+      stripeCustomerId: booking.stripeCustomerId,
+      stripePaymentMethodId: booking.stripePaymentMethodId,
+      autopayEnabled: true,
+      billingMethod: "card",
+    } : {}),
+  });
+  console.log(`✅ Customer created from booking: ${customer.name} (${customer.id})`);
+
+  if (booking.promoCode) {
+    try {
+      await redeemCode(customer, booking.promoCode, userId);
+    } catch (error: any) {
+      return { customer, promoMessage: `Promo code ${booking.promoCode} wasn't applied: ${error.message}` };
+    }
+  }
+  return { customer };
+}
+
+// Create the new customer's schedule rule and its routes for the next 60 days. The first
+// route is the first visit that isn't skipped for a closure.
+export async function startSchedule(
+  customer: Customer,
+  serviceType: ServiceType,
+  schedule: Pick<InsertScheduleRule, "frequency" | "byDay" | "dtStart" | "addons" | "notes">
+): Promise<{ rule: ScheduleRule; firstRoute: Route | null }> {
+  const rule = await storage.createScheduleRule({
+    customerId: customer.id,
+    serviceTypeId: serviceType.id,
+    ...schedule,
+    windowStart: "08:00",
+    windowEnd: "12:00",
+    timezone: DEFAULT_TIMEZONE,
+    paused: false,
+  });
+  const { routes, closureChanges } = await generateUpcomingRoutesForRule(rule, ROUTE_DAYS_AHEAD);
+  if (closureChanges.length > 0) {
+    await notifyClosureChanges(closureChanges);
+  }
+  const firstRoute = routes
+    .filter(route => route.status === "scheduled")
+    .sort((a, b) => a.date.localeCompare(b.date))[0] ?? null;
+  return { rule, firstRoute };
+}
+
+// ---------- Building a quote ----------
+
+// The `count` best-fit business days for an address, most nearby customers first, or none
+// when the address can't be geocoded
+export async function bestFitServiceDays(address: string, count: number): Promise<number[]> {
+  const coords = await geocodeAddress(address);
+  if (!coords) return [];
+  const suggestions = await findBestFitDay(coords, await scheduledDayLocations());
+  return suggestions
+    .map(suggestion => suggestion.dayOfWeek)
+    .filter(day => BUSINESS_DAYS.includes(day))
+    .slice(0, count)
+    .sort((a, b) => a - b);
+}
+
+export async function createQuote(booking: BookingRequest, input: QuoteInput, userId: string | null): Promise<Quote> {
+  const serviceType = await storage.getServiceType(input.serviceTypeId);
+  if (!serviceType) {
+    throw new Error("Service type not found");
+  }
+  if (serviceType.isHourly) {
+    throw new Error("Quote a fixed-price service type; hourly services are priced after the visit");
+  }
+
+  const { serviceAddons } = await storage.getSettings();
+  const unknownAddons = (input.addons || []).filter(key => !(serviceAddons || []).some(addon => addon.key === key));
+  if (unknownAddons.length > 0) {
+    throw new Error(`Unknown add-on: ${unknownAddons.join(", ")}`);
+  }
+
+  const dayCount = input.frequency === "one-time" || input.frequency === "monthly" ? 1 : serviceType.timesPerWeek;
+  const serviceDays = input.serviceDays?.length
+    ? Array.from(new Set(input.serviceDays)).sort((a, b) => a - b)
+    : await bestFitServiceDays(booking.address, dayCount);
+  if (serviceDays.length === 0) {
+    throw new Error("Couldn't suggest a service day for this address. Choose the days.");
+  }
+
+  return storage.createQuote({
+    bookingRequestId: booking.id,
+    token: randomBytes(24).toString("hex"),
+    serviceTypeId: serviceType.id,
+    frequency: input.frequency,
+    serviceDays,
+    pricePerVisit: serviceType.basePrice,
+    cleanupPrice: input.cleanupPrice ? input.cleanupPrice.toFixed(2) : null,
+    addons: input.addons || [],
+    notes: input.notes || null,
+    status: "draft",
+    expiresOn: input.expiresOn || addDays(todayInTimeZone(), QUOTE_VALID_DAYS),
+    createdBy: userId,
+  });
+}
+
+// The schedule a quote turns into, starting with the first service day after today
+function quoteSchedule(quote: Quote, today: string) {
+  const tomorrow = addDays(today, 1);
+  const [firstDay] = nextOccurrences({ frequency: "weekly", byDay: quote.serviceDays, dtStart: tomorrow }, tomorrow, 1);
+  const rule = { frequency: quote.frequency as QuoteFrequency, byDay: quote.serviceDays, dtStart: firstDay ?? tomorrow, bySetPos: null };
+  const [firstVisit] = nextOccurrences(rule, rule.dtStart, 1);
+  return { rule, firstVisit: firstVisit ?? rule.dtStart };
+}
+
+// ---------- Public link ----------
+
+// What the customer sees at /quote/:token
+export interface QuoteView {
+  status: QuoteStatus;
+  expiresOn: string;
+  businessName: string;
+  businessPhone: string | null;
+  name: string;
+  address: string;
+  numberOfDogs: number;
+  serviceType: string;
+  frequency: QuoteFrequency;
+  schedule: string; // e.g. "Weekly on Tue"
+  firstVisit: string; // YYYY-MM-DD if accepted today
+  pricePerVisit: string;
+  cleanupPrice: string | null;
+  addons: { name: string; price: string }[]; // per visit
+  notes: string | null;
+}
+
+// Quotes past their expiry date are marked expired the first time they're looked at
+async function currentStatus(quote: Quote): Promise<Quote> {
+  if ((quote.status === "draft" || quote.status === "sent") && quote.expiresOn < todayInTimeZone()) {
+    return storage.updateQuote(quote.id, { status: "expired" });
+  }
+  return quote;
+}
+
+export async function quoteView(stored: Quote): Promise<QuoteView> {
+  const quote = await currentStatus(stored);
+  const booking = await storage.getBookingRequest(quote.bookingRequestId);
+  const serviceType = await storage.getServiceType(quote.serviceTypeId);
+  const settings = await storage.getSettings();
+  const addonsByKey = new Map((settings.serviceAddons || []).map(addon => [addon.key, addon]));
+  const { rule, firstVisit } = quoteSchedule(quote, todayInTimeZone());
+
+  return {
+    status: quote.status as QuoteStatus,
+    expiresOn: quote.expiresOn,
+    businessName: settings.businessName,
+    businessPhone: settings.businessPhone,
+    name: booking?.name || "",
+    address: booking?.address || "",
+    numberOfDogs: booking?.numberOfDogs || 1,
+    serviceType: serviceType?.name || "Service",
+    frequency: quote.frequency as QuoteFrequency,
+    schedule: describeRule(rule),
+    firstVisit,
+    pricePerVisit: quote.pricePerVisit,
+    cleanupPrice: quote.cleanupPrice,
+    addons: (quote.addons || []).flatMap(key => {
+      const addon = addonsByKey.get(key);
+      return addon ? [{ name: addon.name, price: addon.price }] : [];
+    }),
+    notes: quote.notes,
+  };
+}
+
+export interface AcceptedQuote {
+  quote: Quote;
+  customer: Customer;
+  rule: ScheduleRule;
+  firstRoute: Route | null;
+  cleanupInvoice: InvoiceWithLineItems | null;
+  promoMessage?: string;
+}
+
+// Accept a sent quote: create the customer (unless the booking already has one), their
+// schedule rule and its routes, and invoice the cleanup price against the first visit.
+// The quote is claimed in the database first so a double click can't set the customer up
+// twice; the booking's other open quotes are expired once it has gone through.
+export async function acceptQuote(stored: Quote): Promise<AcceptedQuote> {
+  const quote = await currentStatus(stored);
+  if (quote.status === "accepted") throw new Error("This quote has already been accepted");
+  if (quote.status === "expired") throw new Error(`This quote expired on ${quote.expiresOn}`);
+  if (quote.status !== "sent") throw new Error("This quote is no longer available");
+
+  const booking = await storage.getBookingRequest(quote.bookingRequestId);
+  const serviceType = await storage.getServiceType(quote.serviceTypeId);
+  if (!booking || !serviceType) {
+    throw new Error("This quote is no longer available");
+  }
+  const siblings = (await storage.getQuotesByBookingRequest(booking.id)).filter(q => q.id !== quote.id);
+  if (booking.status === "completed" || siblings.some(q => q.status === "accepted")) {
+    throw new Error("This booking has already been set up");
+  }
+
+  const claimed = await storage.updateQuoteIfStatus(quote.id, "sent", { status: "accepted", respondedAt: new Date() });
+  if (!claimed) throw new Error("This quote has already been accepted");
+
+  try {
+    let customer = booking.customerId ? await storage.getCustomer(booking.customerId) : undefined;
+    let promoMessage: string | undefined;
+    if (customer) {
+      customer = await storage.updateCustomer(customer.id, { serviceTypeId: serviceType.id, preferredDays: quote.serviceDays });
+    } else {
+      ({ customer, promoMessage } = await createCustomerFromBooking(booking, serviceType, quote.serviceDays, null));
+    }
+
+    const { rule: schedule } = quoteSchedule(quote, todayInTimeZone());
+    const { rule, firstRoute } = await startSchedule(customer, serviceType, {
+      ...schedule,
+      addons: quote.addons || [],
+      notes: booking.yardNotes || null,
+    });
+
+    // The cleanup replaces the first visit's regular price: billing runs leave invoiced visits out
+    let cleanupInvoice: InvoiceWithLineItems | null = null;
+    if (quote.cleanupPrice && firstRoute) {
+      await storage.updateRoute(firstRoute.id, { serviceType: "new-start" });
+      cleanupInvoice = await createInvoiceWithLineItems({
+        customerId: customer.id,
+        invoiceNumber: `INV-${Date.now()}`,
+        status: "unpaid",
+        dueDate: firstRoute.date,
+        description: "Initial cleanup",
+      }, [{
+        kind: "service",
+        description: `Initial cleanup - ${serviceType.name}`,
+        serviceDate: firstRoute.date,
+        routeId: firstRoute.id,
+        quantity: "1",
+        unitPrice: quote.cleanupPrice,
+        amount: quote.cleanupPrice,
+        taxable: serviceType.taxable,
+      }]);
+    }
+
+    await storage.updateBookingRequest(booking.id, { status: "completed", customerId: customer.id });
+    const accepted = await storage.updateQuote(quote.id, {
+      customerId: customer.id,
+      scheduleRuleId: rule.id,
+    });
+    for (const sibling of siblings) {
+      if (sibling.status === "draft" || sibling.status === "sent") {
+        await storage.updateQuoteIfStatus(sibling.id, sibling.status, { status: "expired" });
+      }
+    }
+    await storage.createNotification({
+      type: "quote_accepted",
+      title: "Quote Accepted",
+      message: `${customer.name} accepted their quote. First visit: ${firstRoute?.date ?? "not scheduled"}.`,
+      bookingRequestId: booking.id,
+      customerId: customer.id,
+    });
+
+    return { quote: accepted, customer, rule, firstRoute, cleanupInvoice, promoMessage };
+  } catch (error) {
+    // Hand the quote back so the customer can try again
+    await storage.updateQuote(quote.id, { status: "sent", respondedAt: null });
+    throw error;
+  }
+}
+
+export async function declineQuote(stored: Quote): Promise<Quote> {
+  const quote = await currentStatus(stored);
+  if (quote.status !== "sent") throw new Error("This quote is no longer available");
+  const declined = await storage.updateQuoteIfStatus(quote.id, "sent", { status: "declined", respondedAt: new Date() });
+  if (!declined) throw new Error("This quote is no longer available");
+  const booking = await storage.getBookingRequest(quote.bookingRequestId);
+  await storage.createNotification({
+    type: "quote_declined",
+    title: "Quote Declined",
+    message: `${booking?.name || "A customer"} declined their quote.`,
+    bookingRequestId: quote.bookingRequestId,
+  });
+  return declined;
+}
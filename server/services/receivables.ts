@@ -0,0 +1,161 @@
+import { storage } from "../storage";
+import { ensureLineItems, recalculateInvoiceAmount } from "./invoices";
+import { daysBetween, todayInTimeZone } from "@shared/recurrence";
+import type { Invoice, Settings } from "@shared/schema";
+
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+// ---------- Overdue invoices and late fees ----------
+
+function lateFeeCents(invoice: Invoice, settings: Settings): number {
+  const amount = parseFloat(settings.lateFeeAmount);
+  return settings.lateFeeType === "percent"
+    ? Math.round(toCents(invoice.amount) * amount / 100)
+    : toCents(amount);
+}
+
+// Add the late fee as a line on the invoice, once
+async function applyLateFee(invoice: Invoice, settings: Settings): Promise<boolean> {
+  const lines = await ensureLineItems(invoice);
+  if (lines.some(line => line.kind === "late_fee")) return false;
+
+  const cents = lateFeeCents(invoice, settings);
+  if (cents <= 0) return false;
+
+  const amount = (cents / 100).toFixed(2);
+  await storage.createInvoiceLineItems([{
+    invoiceId: invoice.id,
+    kind: "late_fee",
+    description: settings.lateFeeType === "percent"
+      ? `Late fee (${parseFloat(settings.lateFeeAmount)}%)`
+      : "Late fee",
+    serviceDate: null,
+    routeId: null,
+    quantity: "1",
+    unitPrice: amount,
+    amount,
+    sortOrder: lines.length,
+  }]);
+  await recalculateInvoiceAmount(invoice.id);
+  return true;
+}
+
+// Daily job: unpaid invoices past their due date become overdue, and overdue invoices
+// past the grace period get the configured late fee
+export async function processOverdueInvoices(today: string = todayInTimeZone()): Promise<{
+  markedOverdue: number;
+  lateFeesApplied: number;
+  errors: string[];
+}> {
+  const results = { markedOverdue: 0, lateFeesApplied: 0, errors: [] as string[] };
+  const settings = await storage.getSettings();
+
+  for (const invoice of await storage.getOpenInvoices()) {
+    if (invoice.dueDate >= today) continue;
+    try {
+      if (invoice.status === "unpaid") {
+        await storage.updateInvoice(invoice.id, { status: "overdue" });
+        results.markedOverdue++;
+      }
+      if (settings.lateFeeEnabled && daysBetween(invoice.dueDate, today) > settings.lateFeeGraceDays) {
+        if (await applyLateFee(invoice, settings)) {
+          results.lateFeesApplied++;
+        }
+      }
+    } catch (error: any) {
+      results.errors.push(`Invoice ${invoice.invoiceNumber}: ${error.message}`);
+    }
+  }
+
+  return results;
+}
+
+// ---------- A/R aging ----------
+
+export const agingBuckets = ["current", "days1to30", "days31to60", "days61to90", "days90plus"] as const;
+export type AgingBucket = typeof agingBuckets[number];
+
+export type AgingAmounts = Record<AgingBucket | "total", number>; // dollars
+
+export interface CustomerAging extends AgingAmounts {
+  customerId: string;
+  customerName: string;
+  openInvoices: number;
+  oldestDueDate: string;
+}
+
+export interface AgingReport {
+  asOf: string;
+  customers: CustomerAging[];
+  totals: AgingAmounts;
+}
+
+function agingBucket(dueDate: string, asOf: string): AgingBucket {
+  const daysPastDue = daysBetween(dueDate, asOf);
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "days1to30";
+  if (daysPastDue <= 60) return "days31to60";
+  if (daysPastDue <= 90) return "days61to90";
+  return "days90plus";
+}
+
+function emptyAmounts(): AgingAmounts {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0, total: 0 };
+}
+
+// What each customer owes on open invoices, by how far past due each invoice is on `asOf`.
+// Partial payments applied to an invoice reduce its balance.
+export async function buildAgingReport(asOf: string = todayInTimeZone()): Promise<AgingReport> {
+  const invoices = await storage.getOpenInvoices();
+  const applications = await storage.getCompletedPaymentApplications(invoices.map(invoice => invoice.id));
+  const paidCents = new Map<string, number>();
+  for (const application of applications) {
+    paidCents.set(application.invoiceId, (paidCents.get(application.invoiceId) || 0) + toCents(application.amount));
+  }
+
+  const customers = new Map((await storage.getAllCustomers()).map(customer => [customer.id, customer]));
+  const rows = new Map<string, CustomerAging>();
+  const totals = emptyAmounts();
+
+  for (const invoice of invoices) {
+    const balance = toCents(invoice.amount) - (paidCents.get(invoice.id) || 0);
+    if (balance <= 0) continue;
+
+    let row = rows.get(invoice.customerId);
+    if (!row) {
+      row = {
+        customerId: invoice.customerId,
+        customerName: customers.get(invoice.customerId)?.name || "Unknown customer",
+        openInvoices: 0,
+        oldestDueDate: invoice.dueDate,
+        ...emptyAmounts(),
+      };
+      rows.set(invoice.customerId, row);
+    }
+
+    const bucket = agingBucket(invoice.dueDate, asOf);
+    row[bucket] += balance;
+    row.total += balance;
+    row.openInvoices++;
+    if (invoice.dueDate < row.oldestDueDate) row.oldestDueDate = invoice.dueDate;
+    totals[bucket] += balance;
+    totals.total += balance;
+  }
+
+  // Totals were summed in cents
+  const toDollars = <T extends AgingAmounts>(amounts: T): T => {
+    const converted = { ...amounts };
+    for (const key of [...agingBuckets, "total"] as const) converted[key] = amounts[key] / 100;
+    return converted;
+  };
+
+  return {
+    asOf,
+    customers: Array.from(rows.values())
+      .map(toDollars)
+      .sort((a, b) => b.total - a.total),
+    totals: toDollars(totals),
+  };
+}
@@ -0,0 +1,246 @@
+import Stripe from "stripe";
+import { storage } from "../storage";
+import { applyAccountCredit, refreshInvoiceStatus, unappliedAmount } from "./ledger";
+import { cancelDunningCase } from "./dunning";
+import type { Invoice, Payment, Refund } from "@shared/schema";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-10-29.clover",
+});
+
+// Refunds come out of a payment's unapplied credit first, then off the invoices it paid
+// (newest application first), which reopen. Every refund and void is recorded with who
+// did it and why.
+
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+function toDollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function refundStatus(status: string | null): "pending" | "succeeded" | "failed" {
+  if (status === "succeeded") return "succeeded";
+  if (status === "failed" || status === "canceled") return "failed";
+  return "pending";
+}
+
+async function appliedCents(invoice: Invoice): Promise<number> {
+  const applications = await storage.getCompletedPaymentApplications([invoice.id]);
+  return applications.reduce((sum, application) => sum + toCents(application.amount), 0);
+}
+
+// Invoices paid through Stripe outside the field-payment flow (portal checkout, autopay,
+// payment links) only carry the payment intent id. Before that money can be refunded or
+// moved off a voided invoice it's recorded as a card payment applied to those invoices.
+async function recordOnlinePayment(invoice: Invoice, userId: string | null): Promise<Payment | undefined> {
+  const paymentIntentId = invoice.stripePaymentIntentId?.startsWith("pi_") ? invoice.stripePaymentIntentId : null;
+  const related = paymentIntentId ? await storage.getInvoicesByStripePaymentIntent(paymentIntentId) : [invoice];
+
+  const uncovered: { invoice: Invoice; cents: number }[] = [];
+  for (const paid of related) {
+    if (paid.status !== "paid" || paid.customerId !== invoice.customerId) continue;
+    const cents = toCents(paid.amount) - await appliedCents(paid);
+    if (cents > 0) uncovered.push({ invoice: paid, cents });
+  }
+  if (uncovered.length === 0) return undefined;
+
+  const payment = await storage.createPayment({
+    customerId: invoice.customerId,
+    paymentMethod: "card",
+    amount: toDollars(uncovered.reduce((sum, item) => sum + item.cents, 0)),
+    status: "completed",
+    stripePaymentIntentId: paymentIntentId,
+    notes: "Online payment",
+    processedBy: userId ?? "stripe",
+  });
+  for (const item of uncovered) {
+    await storage.createPaymentApplication(payment.id, item.invoice.id, toDollars(item.cents));
+  }
+  return storage.updatePayment(payment.id, { processedAt: invoice.paidAt ?? new Date() });
+}
+
+async function refundedCents(payment: Payment): Promise<number> {
+  const refunds = await storage.getRefundsByPayment(payment.id);
+  return refunds
+    .filter(refund => refund.status !== "failed")
+    .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+}
+
+// Record a refund against the payment and take it off the invoices the payment paid
+async function recordRefund(
+  payment: Payment,
+  cents: number,
+  fields: Pick<Refund, "method" | "status" | "stripeRefundId" | "reason" | "createdBy">
+): Promise<Refund> {
+  if (fields.stripeRefundId) {
+    const existing = await storage.getRefundByStripeId(fields.stripeRefundId);
+    if (existing) return existing;
+  }
+
+  const unapplied = await unappliedAmount(payment);
+  const alreadyRefunded = await refundedCents(payment);
+  const refund = await storage.createRefund({
+    ...fields,
+    method: fields.method as "stripe" | "reversal",
+    customerId: payment.customerId,
+    paymentId: payment.id,
+    amount: toDollars(cents),
+  });
+  if (refund.status === "failed") return refund;
+
+  let remaining = cents - Math.min(cents, unapplied);
+  const applications = (await storage.getPaymentApplicationsByPayment(payment.id))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const application of applications) {
+    if (remaining <= 0) break;
+    const appliedAmount = toCents(application.amount);
+    const reduce = Math.min(remaining, appliedAmount);
+    if (reduce === appliedAmount) {
+      await storage.deletePaymentApplication(application.id);
+    } else {
+      await storage.updatePaymentApplication(application.id, toDollars(appliedAmount - reduce));
+    }
+    remaining -= reduce;
+
+    const invoice = await storage.getInvoice(application.invoiceId);
+    if (invoice) await refreshInvoiceStatus(invoice);
+  }
+
+  if (alreadyRefunded + cents >= toCents(payment.amount)) {
+    await storage.updatePayment(payment.id, { status: "refunded" });
+  }
+  return refund;
+}
+
+export interface RefundOptions {
+  amount?: number; // dollars; the whole refundable amount when omitted
+  reason?: string;
+  userId: string;
+}
+
+// Refund a completed payment: card payments through Stripe, anything else (cash, check,
+// credits) as a recorded reversal
+export async function refundPayment(payment: Payment, { amount, reason, userId }: RefundOptions): Promise<Refund> {
+  if (payment.status !== "completed") {
+    throw new Error(payment.status === "refunded" ? "This payment has already been refunded" : "Only completed payments can be refunded");
+  }
+
+  const refundable = toCents(payment.amount) - await refundedCents(payment);
+  const cents = amount === undefined ? refundable : toCents(amount);
+  if (cents <= 0 || cents > refundable) {
+    throw new Error(`Refund must be between $0.01 and $${toDollars(refundable)}`);
+  }
+
+  if (payment.paymentMethod === "card" && payment.stripePaymentIntentId) {
+    const stripeRefund = await stripe.refunds.create({
+      payment_intent: payment.stripePaymentIntentId,
+      amount: cents,
+      metadata: { paymentId: payment.id, customerId: payment.customerId },
+    });
+    return recordRefund(payment, cents, {
+      method: "stripe",
+      status: refundStatus(stripeRefund.status),
+      stripeRefundId: stripeRefund.id,
+      reason: reason || null,
+      createdBy: userId,
+    });
+  }
+
+  return recordRefund(payment, cents, {
+    method: "reversal",
+    status: "succeeded",
+    stripeRefundId: null,
+    reason: reason || null,
+    createdBy: userId,
+  });
+}
+
+// Refund the card payment on an invoice - the online payment that paid it, or a field
+// card payment applied to it
+export async function refundInvoicePayment(invoice: Invoice, options: RefundOptions): Promise<Refund> {
+  let payment = invoice.status === "paid" ? await recordOnlinePayment(invoice, options.userId) : undefined;
+  if (!payment) {
+    for (const application of await storage.getPaymentApplicationsByInvoice(invoice.id)) {
+      const applied = await storage.getPayment(application.paymentId);
+      if (applied?.status === "completed" && applied.paymentMethod === "card" && applied.stripePaymentIntentId) {
+        payment = applied;
+        break;
+      }
+    }
+  }
+  if (!payment) {
+    throw new Error("This invoice has no card payment to refund");
+  }
+  return refundPayment(payment, options);
+}
+
+// Cancel an invoice without deleting it. Payments on it become account credit, which is
+// put toward the customer's other open invoices.
+export async function voidInvoice(invoice: Invoice, reason: string, userId: string): Promise<Invoice> {
+  if (invoice.status === "void") {
+    throw new Error("This invoice is already void");
+  }
+
+  if (invoice.status === "paid") {
+    await recordOnlinePayment(invoice, userId);
+  }
+  for (const application of await storage.getPaymentApplicationsByInvoice(invoice.id)) {
+    await storage.deletePaymentApplication(application.id);
+  }
+  const voided = await storage.voidInvoice(invoice.id, userId, reason);
+
+  const dunningCase = await storage.getDunningCaseByInvoice(invoice.id);
+  if (dunningCase?.status === "active") {
+    await cancelDunningCase(dunningCase);
+  }
+
+  await applyAccountCredit(invoice.customerId);
+  return voided;
+}
+
+// charge.refunded webhook: record refunds made in the Stripe dashboard (or anywhere else
+// we haven't seen yet) and pick up status changes on ones we issued
+export async function reconcileStripeRefunds(paymentIntentId: string): Promise<number> {
+  const { data } = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+  let recorded = 0;
+
+  for (const stripeRefund of data) {
+    const status = refundStatus(stripeRefund.status);
+    const existing = await storage.getRefundByStripeId(stripeRefund.id);
+    if (existing) {
+      if (existing.status !== status) {
+        await storage.updateRefund(existing.id, { status });
+        if (status === "failed") {
+          // The money never left: the payment counts again
+          const payment = await storage.getPayment(existing.paymentId);
+          if (payment?.status === "refunded") {
+            await storage.updatePayment(payment.id, { status: "completed" });
+          }
+          await applyAccountCredit(existing.customerId);
+        }
+      }
+      continue;
+    }
+    if (status === "failed") continue;
+
+    let payment = await storage.getPaymentByStripePaymentIntent(paymentIntentId);
+    if (!payment) {
+      const [invoice] = await storage.getInvoicesByStripePaymentIntent(paymentIntentId);
+      payment = invoice ? await recordOnlinePayment(invoice, null) : undefined;
+    }
+    if (!payment) continue; // not a payment this app took
+
+    await recordRefund(payment, stripeRefund.amount, {
+      method: "stripe",
+      status,
+      stripeRefundId: stripeRefund.id,
+      reason: stripeRefund.reason ? stripeRefund.reason.replace(/_/g, " ") : "Refunded in Stripe",
+      createdBy: null,
+    });
+    recorded++;
+  }
+
+  return recorded;
+}
@@ -1,30 +1,5 @@
 import { storage } from "../storage";
-
-const telnyxApiKey = process.env.TELNYX_API_KEY;
-
-// Helper function to send SMS via Telnyx REST API
-async function sendTelnyxSMS(from: string, to: string, text: string): Promise<{ id: string }> {
-  if (!telnyxApiKey) {
-    throw new Error("Telnyx API key not configured");
-  }
-
-  const response = await fetch('https://api.telnyx.com/v2/messages', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${telnyxApiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ from, to, text })
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Telnyx API error (${response.status}): ${error}`);
-  }
-
-  const result = await response.json();
-  return { id: result.data.id };
-}
+import { customerChannels, notified, notifyFailure, sendServiceReminder } from "./customerNotifications";
 
 export async function sendNightBeforeReminders(serviceDate: string): Promise<{
   sent: number;
@@ -39,11 +14,6 @@ export async function sendNightBeforeReminders(serviceDate: string): Promise<{
     errors: [] as string[],
   };
 
-  if (!telnyxApiKey) {
-    results.errors.push("Telnyx not configured");
-    return results;
-  }
-
   try {
     const existingLogs = await storage.getReminderLogsByDate(serviceDate);
     const alreadySentCustomerIds = new Set(existingLogs.map(log => log.customerId));
@@ -58,36 +28,33 @@ export async function sendNightBeforeReminders(serviceDate: string): Promise<{
       }
 
       const customer = allCustomers.find(c => c.id === route.customerId);
-      if (!customer || !customer.smsOptIn) {
+      if (!customer) {
+        results.skipped++;
+        continue;
+      }
+      const channels = customerChannels(customer);
+      if (!channels.sms && !channels.email) {
         results.skipped++;
         continue;
       }
 
-      try {
-        const message = await sendTelnyxSMS(
-          process.env.TELNYX_PHONE_NUMBER!,
-          customer.phone,
-          `Hi ${customer.name}! This is a reminder that SillyDog will be servicing your yard tomorrow (${serviceDate}). Thank you for choosing us!`
-        );
-
-        await storage.createReminderLog({
-          customerId: customer.id,
-          serviceDate,
-          twilioSid: message.id,
-          status: "sent",
-        });
-
+      // SMS and/or email, per the customer's notification preference. Texts queued until quiet
+      // hours end count as sent: the queued-messages job delivers them.
+      const notice = await sendServiceReminder(customer, serviceDate);
+      const sent = notified(notice);
+      await storage.createReminderLog({
+        customerId: customer.id,
+        serviceDate,
+        twilioSid: notice.sms?.message?.externalMessageId ?? null,
+        status: sent ? "sent" : "failed",
+        errorMessage: sent ? undefined : notifyFailure(customer, notice),
+      });
+
+      if (sent) {
         results.sent++;
-      } catch (error: any) {
-        await storage.createReminderLog({
-          customerId: customer.id,
-          serviceDate,
-          status: "failed",
-          errorMessage: error.message,
-        });
-
+      } else {
         results.failed++;
-        results.errors.push(`Failed to send reminder to ${customer.name}: ${error.message}`);
+        results.errors.push(`Failed to send reminder to ${customer.name}: ${notifyFailure(customer, notice)}`);
       }
     }
 
@@ -0,0 +1,271 @@
+import { calculateDistance, kmToMiles, type Coordinates } from "./geocoding";
+
+// Pairwise travel costs between points, indexed the same as the input array
+export interface DistanceMatrix {
+  miles: number[][];
+  minutes: number[][];
+}
+
+// Source of travel distances. The default is straight-line (haversine) so optimization
+// works offline; a road-distance source can implement this and be passed in instead.
+export interface DistanceMatrixProvider {
+  getMatrix(points: Coordinates[]): Promise<DistanceMatrix>;
+}
+
+// Straight-line distance scaled up to approximate street routing
+const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_MPH = 25;
+
+export const haversineProvider: DistanceMatrixProvider = {
+  async getMatrix(points) {
+    const miles = points.map(a => points.map(b => kmToMiles(calculateDistance(a, b)) * ROAD_FACTOR));
+    const minutes = miles.map(row => row.map(m => (m / AVERAGE_SPEED_MPH) * 60));
+    return { miles, minutes };
+  },
+};
+
+export interface OptimizerStop {
+  id: string;
+  coords: Coordinates;
+  windowStart?: string | null; // HH:MM
+  windowEnd?: string | null; // HH:MM
+  serviceMinutes?: number;
+}
+
+export interface RouteStats {
+  miles: number;
+  driveMinutes: number;
+  lateStops: number;
+  lateMinutes: number;
+}
+
+export interface OptimizeRouteInput {
+  start: Coordinates;
+  end?: Coordinates | null;
+  stops: OptimizerStop[];
+  startTime?: string; // HH:MM the tech leaves the start location
+  provider?: DistanceMatrixProvider;
+}
+
+export interface OptimizeRouteResult {
+  order: string[]; // stop ids
+  before: RouteStats;
+  after: RouteStats;
+}
+
+const DEFAULT_START_TIME = "08:00";
+export const DEFAULT_SERVICE_MINUTES = 15;
+// Arriving after a window closes costs far more than extra driving
+const LATE_PENALTY_PER_MINUTE = 10;
+const MAX_IMPROVEMENT_PASSES = 50;
+const OR_OPT_MAX_SEGMENT = 3;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+interface Problem {
+  matrix: DistanceMatrix;
+  stops: OptimizerStop[];
+  hasEnd: boolean;
+  startMinutes: number;
+}
+
+// Matrix layout: 0 = start, 1..n = stops, n + 1 = end (when set)
+function evaluate(problem: Problem, order: number[]): RouteStats {
+  const { matrix, stops, hasEnd } = problem;
+  let clock = problem.startMinutes;
+  let previous = 0;
+  const stats: RouteStats = { miles: 0, driveMinutes: 0, lateStops: 0, lateMinutes: 0 };
+
+  for (const stopIndex of order) {
+    const node = stopIndex + 1;
+    stats.miles += matrix.miles[previous][node];
+    stats.driveMinutes += matrix.minutes[previous][node];
+    clock += matrix.minutes[previous][node];
+
+    const stop = stops[stopIndex];
+    if (stop.windowStart) clock = Math.max(clock, toMinutes(stop.windowStart));
+    if (stop.windowEnd && clock > toMinutes(stop.windowEnd)) {
+      stats.lateStops++;
+      stats.lateMinutes += clock - toMinutes(stop.windowEnd);
+    }
+    clock += stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+    previous = node;
+  }
+
+  if (hasEnd) {
+    const endNode = stops.length + 1;
+    stats.miles += matrix.miles[previous][endNode];
+    stats.driveMinutes += matrix.minutes[previous][endNode];
+  }
+  return stats;
+}
+
+function cost(stats: RouteStats): number {
+  return stats.driveMinutes + stats.lateMinutes * LATE_PENALTY_PER_MINUTE;
+}
+
+// Greedy seed: always drive to the closest remaining stop, preferring stops whose window is still open
+function nearestNeighbour(problem: Problem): number[] {
+  const remaining = problem.stops.map((_, i) => i);
+  const order: number[] = [];
+  let previous = 0;
+  let clock = problem.startMinutes;
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestScore = Infinity;
+    for (let i = 0; i < remaining.length; i++) {
+      const stop = problem.stops[remaining[i]];
+      const travel = problem.matrix.minutes[previous][remaining[i] + 1];
+      const arrival = clock + travel;
+      const late = stop.windowEnd ? Math.max(0, arrival - toMinutes(stop.windowEnd)) : 0;
+      const score = travel + late * LATE_PENALTY_PER_MINUTE;
+      if (score < bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    }
+
+    const stopIndex = remaining.splice(best, 1)[0];
+    const stop = problem.stops[stopIndex];
+    clock += problem.matrix.minutes[previous][stopIndex + 1];
+    if (stop.windowStart) clock = Math.max(clock, toMinutes(stop.windowStart));
+    clock += stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+    previous = stopIndex + 1;
+    order.push(stopIndex);
+  }
+  return order;
+}
+
+// Reverse a section of the route whenever that shortens it (removes crossed paths)
+function twoOpt(problem: Problem, order: number[], bestCost: number): { order: number[]; cost: number; improved: boolean } {
+  let improved = false;
+  for (let i = 0; i < order.length - 1; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+      const candidateCost = cost(evaluate(problem, candidate));
+      if (candidateCost < bestCost - 1e-9) {
+        order = candidate;
+        bestCost = candidateCost;
+        improved = true;
+      }
+    }
+  }
+  return { order, cost: bestCost, improved };
+}
+
+// Move short runs of 1-3 consecutive stops to a better spot in the route
+function orOpt(problem: Problem, order: number[], bestCost: number): { order: number[]; cost: number; improved: boolean } {
+  let improved = false;
+  for (let length = 1; length <= OR_OPT_MAX_SEGMENT; length++) {
+    for (let i = 0; i + length <= order.length; i++) {
+      const segment = order.slice(i, i + length);
+      const rest = [...order.slice(0, i), ...order.slice(i + length)];
+      for (let k = 0; k <= rest.length; k++) {
+        if (k === i) continue;
+        const candidate = [...rest.slice(0, k), ...segment, ...rest.slice(k)];
+        const candidateCost = cost(evaluate(problem, candidate));
+        if (candidateCost < bestCost - 1e-9) {
+          order = candidate;
+          bestCost = candidateCost;
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+  return { order, cost: bestCost, improved };
+}
+
+function roundStats(stats: RouteStats): RouteStats {
+  return {
+    miles: Math.round(stats.miles * 10) / 10,
+    driveMinutes: Math.round(stats.driveMinutes),
+    lateStops: stats.lateStops,
+    lateMinutes: Math.round(stats.lateMinutes),
+  };
+}
+
+// Order stops for a single tech's day. `stops` is taken as the current order for the "before" stats.
+export async function optimizeRoute(input: OptimizeRouteInput): Promise<OptimizeRouteResult> {
+  const { start, end, stops } = input;
+  const provider = input.provider ?? haversineProvider;
+  const points = [start, ...stops.map(s => s.coords), ...(end ? [end] : [])];
+
+  const problem: Problem = {
+    matrix: await provider.getMatrix(points),
+    stops,
+    hasEnd: !!end,
+    startMinutes: toMinutes(input.startTime || DEFAULT_START_TIME),
+  };
+
+  const currentOrder = stops.map((_, i) => i);
+  const before = evaluate(problem, currentOrder);
+
+  let order = nearestNeighbour(problem);
+  let bestCost = cost(evaluate(problem, order));
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    const afterTwoOpt = twoOpt(problem, order, bestCost);
+    const afterOrOpt = orOpt(problem, afterTwoOpt.order, afterTwoOpt.cost);
+    order = afterOrOpt.order;
+    bestCost = afterOrOpt.cost;
+    if (!afterTwoOpt.improved && !afterOrOpt.improved) break;
+  }
+
+  // Never hand back something worse than what the tech already had
+  if (cost(before) <= bestCost) order = currentOrder;
+
+  return {
+    order: order.map(i => stops[i].id),
+    before: roundStats(before),
+    after: roundStats(evaluate(problem, order)),
+  };
+}
+
+// Divide a day's stops into `groups` geographic slices with roughly equal service minutes.
+// Sweeps stops by bearing around `center`, starting after the widest empty arc so no slice
+// straddles two distant neighbourhoods. Returns stop ids per group.
+export function splitStops(center: Coordinates, stops: OptimizerStop[], groups: number): string[][] {
+  const result: string[][] = Array.from({ length: groups }, () => []);
+  if (stops.length === 0 || groups < 1) return result;
+
+  const swept = stops
+    .map(stop => ({
+      stop,
+      angle: Math.atan2(stop.coords.lat - center.lat, stop.coords.lng - center.lng),
+    }))
+    .sort((a, b) => a.angle - b.angle);
+
+  let widestGapEnd = 0;
+  let widestGap = -1;
+  for (let i = 0; i < swept.length; i++) {
+    const previous = swept[(i - 1 + swept.length) % swept.length].angle;
+    const gap = (swept[i].angle - previous + 2 * Math.PI) % (2 * Math.PI);
+    if (gap > widestGap) {
+      widestGap = gap;
+      widestGapEnd = i;
+    }
+  }
+  const ordered = [...swept.slice(widestGapEnd), ...swept.slice(0, widestGapEnd)].map(s => s.stop);
+
+  const minutesOf = (stop: OptimizerStop) => stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+  const target = ordered.reduce((sum, stop) => sum + minutesOf(stop), 0) / groups;
+  let group = 0;
+  let cumulative = 0;
+  for (let i = 0; i < ordered.length; i++) {
+    const minutes = minutesOf(ordered[i]);
+    const stopsLeft = ordered.length - i;
+    const groupsLeft = groups - group - 1;
+    // Move on once this slice is full, but never leave a later slice empty
+    const full = cumulative + minutes / 2 > target * (group + 1);
+    if (group < groups - 1 && result[group].length > 0 && (full || stopsLeft <= groupsLeft)) {
+      group++;
+    }
+    result[group].push(ordered[i].id);
+    cumulative += minutes;
+  }
+  return result;
+}
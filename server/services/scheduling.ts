@@ -0,0 +1,256 @@
+import { format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import { sendCustomerSms } from "./messaging";
+import type { BusinessClosure, Route, ScheduleException, ScheduleRule } from "@shared/schema";
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  expandOccurrences,
+  resolveClosure,
+  todayInTimeZone,
+} from "@shared/recurrence";
+
+// How far outside a range to look for occurrences that a closure could shift into it
+const CLOSURE_SHIFT_WINDOW_DAYS = 14;
+
+// Approved holds that cover a rule (holds without a scheduleRuleId cover all of the customer's rules)
+function holdsForRule(exceptions: ScheduleException[], rule: Pick<ScheduleRule, "id" | "customerId">): ScheduleException[] {
+  return exceptions.filter(e =>
+    e.status === "approved" &&
+    e.customerId === rule.customerId &&
+    (!e.scheduleRuleId || e.scheduleRuleId === rule.id)
+  );
+}
+
+export function isDateOnHold(holds: ScheduleException[], date: string): boolean {
+  return holds.some(hold => date >= hold.startDate && date <= hold.endDate);
+}
+
+export interface GeneratedRoutes {
+  routes: Route[];
+  closureChanges: ClosureChange[];
+}
+
+// Create routes for every occurrence of a rule within [startDate, endDate].
+// Skips dates where the customer already has a route or is on an approved hold,
+// and applies the company closure calendar (skip or shift to another day). Visits a
+// closure skipped or moved come back as closureChanges; callers pass everything they
+// generated in one run to notifyClosureChanges so each customer gets a single text.
+export async function generateRoutesForRule(
+  rule: ScheduleRule,
+  startDate: string,
+  endDate: string
+): Promise<GeneratedRoutes> {
+  const created: Route[] = [];
+  const changes: ClosureChange[] = [];
+  const closures = (await storage.getSettings()).businessClosures || [];
+
+  // Widen the window so occurrences just outside the range can be shifted into it
+  const occurrences = expandOccurrences(
+    rule,
+    closures.length > 0 ? addDays(startDate, -CLOSURE_SHIFT_WINDOW_DAYS) : startDate,
+    closures.length > 0 ? addDays(endDate, CLOSURE_SHIFT_WINDOW_DAYS) : endDate
+  );
+  if (occurrences.length === 0) return { routes: created, closureChanges: changes };
+
+  const existingRoutes = await storage.getRoutesByCustomerAndDateRange(rule.customerId, startDate, endDate);
+  const existingDates = new Set(existingRoutes.map(r => r.date));
+  const holds = holdsForRule(await storage.getScheduleExceptionsByCustomer(rule.customerId), rule);
+
+  for (const occurrence of occurrences) {
+    const { date, closure, skip } = resolveClosure(occurrence, closures);
+    if (date < startDate || date > endDate) continue;
+    if (existingDates.has(date) || isDateOnHold(holds, occurrence) || isDateOnHold(holds, date)) continue;
+
+    const route = await storage.createRoute({
+      date,
+      customerId: rule.customerId,
+      scheduleRuleId: rule.id, // Link route to the schedule that created it
+      scheduledTime: rule.windowStart,
+      status: skip ? "skipped" : "scheduled",
+      orderIndex: 0,
+      ...(skip && closure ? closureSkipFields(closure) : {}),
+    });
+    existingDates.add(date);
+    created.push(route);
+    if (closure) {
+      changes.push(skip
+        ? { routeId: route.id, customerId: route.customerId, closure, action: "skipped" }
+        : { routeId: route.id, customerId: route.customerId, closure, action: "moved", newDate: date });
+    }
+  }
+
+  return { routes: created, closureChanges: changes };
+}
+
+// Generate routes for the next `daysAhead` days (including today in the rule's timezone)
+export async function generateUpcomingRoutesForRule(rule: ScheduleRule, daysAhead: number): Promise<GeneratedRoutes> {
+  if (rule.paused) return { routes: [], closureChanges: [] };
+  const today = todayInTimeZone(rule.timezone || DEFAULT_TIMEZONE);
+  return generateRoutesForRule(rule, today, addDays(today, daysAhead - 1));
+}
+
+// Generate routes for all active (non-paused) schedule rules over a date range and text
+// customers about any closures that hit them
+export async function generateRoutesForActiveRules(startDate: string, endDate: string): Promise<Route[]> {
+  const allRules = await storage.getAllScheduleRules();
+  const activeRules = allRules.filter(rule => !rule.paused);
+
+  const created: Route[] = [];
+  const changes: ClosureChange[] = [];
+  for (const rule of activeRules) {
+    const { routes, closureChanges } = await generateRoutesForRule(rule, startDate, endDate);
+    created.push(...routes);
+    changes.push(...closureChanges);
+  }
+  if (changes.length > 0) {
+    await notifyClosureChanges(changes);
+  }
+  return created;
+}
+
+// Put an approved hold into effect: skip the customer's scheduled routes inside the hold.
+// Service resumes on its own afterward because generation only excludes dates inside the hold.
+export async function applyScheduleException(exception: ScheduleException, userId: string): Promise<number> {
+  const routes = await storage.getRoutesByCustomerAndDateRange(exception.customerId, exception.startDate, exception.endDate);
+  const toSkip = routes.filter(route =>
+    route.status === "scheduled" &&
+    (!exception.scheduleRuleId || route.scheduleRuleId === exception.scheduleRuleId)
+  );
+
+  const holdNote = `Vacation hold ${exception.startDate} to ${exception.endDate}${exception.notes ? ` - ${exception.notes}` : ""}`;
+  for (const route of toSkip) {
+    await storage.skipRoute(route.id, userId, "vacation", holdNote);
+  }
+
+  await storage.updateScheduleException(exception.id, { routesSkipped: toSkip.length });
+  return toSkip.length;
+}
+
+// Undo a hold that was cancelled: restore upcoming routes it skipped and fill in any
+// occurrences that were never generated while it was in effect.
+export async function releaseScheduleException(exception: ScheduleException): Promise<{ restored: number; generated: number }> {
+  const today = todayInTimeZone(DEFAULT_TIMEZONE);
+  const from = exception.startDate > today ? exception.startDate : today;
+  if (from > exception.endDate) return { restored: 0, generated: 0 };
+
+  const routes = await storage.getRoutesByCustomerAndDateRange(exception.customerId, from, exception.endDate);
+  const toRestore = routes.filter(route =>
+    route.status === "skipped" &&
+    route.skipReason === "vacation" &&
+    (!exception.scheduleRuleId || route.scheduleRuleId === exception.scheduleRuleId)
+  );
+  for (const route of toRestore) {
+    await storage.unskipRoute(route.id);
+  }
+
+  let generated = 0;
+  const changes: ClosureChange[] = [];
+  const rules = await storage.getScheduleRulesByCustomer(exception.customerId);
+  for (const rule of rules) {
+    if (rule.paused || (exception.scheduleRuleId && rule.id !== exception.scheduleRuleId)) continue;
+    const { routes, closureChanges } = await generateRoutesForRule(rule, from, exception.endDate);
+    generated += routes.length;
+    changes.push(...closureChanges);
+  }
+  if (changes.length > 0) {
+    await notifyClosureChanges(changes);
+  }
+
+  return { restored: toRestore.length, generated };
+}
+
+// One entry per service day of every active schedule, with the customer's location, for
+// findBestFitDay
+export async function scheduledDayLocations(): Promise<Array<{ lat: string | null; lng: string | null; dayOfWeek: number }>> {
+  const allSchedules = await storage.getAllScheduleRules();
+  const customersById = new Map((await storage.getAllCustomers()).map(customer => [customer.id, customer]));
+
+  const days: Array<{ lat: string | null; lng: string | null; dayOfWeek: number }> = [];
+  for (const schedule of allSchedules.filter(s => !s.paused)) {
+    const customer = customersById.get(schedule.customerId);
+    for (const day of schedule.byDay || []) {
+      days.push({ lat: customer?.lat ?? null, lng: customer?.lng ?? null, dayOfWeek: day });
+    }
+  }
+  return days;
+}
+
+function closureSkipFields(closure: BusinessClosure) {
+  return {
+    billable: closure.billable,
+    skippedAt: new Date(),
+    skippedBy: "system",
+    skipReason: "holiday",
+    skipNotes: `Closed: ${closure.name}`,
+  };
+}
+
+export interface ClosureChange {
+  routeId: string;
+  customerId: string;
+  closure: BusinessClosure;
+  action: "skipped" | "moved";
+  newDate?: string;
+}
+
+// Apply closures to routes that were already generated for the closed dates
+export async function applyBusinessClosures(newClosures: BusinessClosure[], allClosures: BusinessClosure[]): Promise<ClosureChange[]> {
+  const changes: ClosureChange[] = [];
+
+  for (const closure of newClosures) {
+    const routes = (await storage.getRoutesByDate(closure.date)).filter(r => r.status === "scheduled");
+    const resolution = resolveClosure(closure.date, allClosures);
+
+    for (const route of routes) {
+      if (!resolution.skip) {
+        const existing = await storage.getRoutesByCustomerAndDateRange(route.customerId, resolution.date, resolution.date);
+        if (existing.length === 0) {
+          await storage.updateRoute(route.id, { date: resolution.date, orderIndex: 0 });
+          changes.push({ routeId: route.id, customerId: route.customerId, closure, action: "moved", newDate: resolution.date });
+          continue;
+        }
+        // Customer is already being serviced on the shifted day - don't double up
+      }
+
+      await storage.updateRoute(route.id, {
+        status: "skipped",
+        ...closureSkipFields({ ...closure, billable: resolution.skip && closure.billable }),
+      });
+      changes.push({ routeId: route.id, customerId: route.customerId, closure, action: "skipped" });
+    }
+  }
+
+  return changes;
+}
+
+// One text per SMS-opted-in customer listing every visit of theirs a closure skipped or
+// moved. Returns how many customers were texted.
+export async function notifyClosureChanges(changes: ClosureChange[]): Promise<number> {
+  const { businessName } = await storage.getSettings();
+  const changesByCustomer = new Map<string, ClosureChange[]>();
+  for (const change of changes) {
+    const list = changesByCustomer.get(change.customerId) || [];
+    list.push(change);
+    changesByCustomer.set(change.customerId, list);
+  }
+
+  let customersNotified = 0;
+  for (const [customerId, customerChanges] of Array.from(changesByCustomer.entries())) {
+    const customer = await storage.getCustomer(customerId);
+    if (!customer?.smsOptIn) continue;
+
+    const lines = customerChanges.map(change => {
+      const closedOn = format(parseISO(change.closure.date), "EEE, MMM d");
+      return change.action === "moved" && change.newDate
+        ? `• ${change.closure.name} (${closedOn}): moved to ${format(parseISO(change.newDate), "EEE, MMM d")}`
+        : `• ${change.closure.name} (${closedOn}): service skipped`;
+    });
+    const sms = await sendCustomerSms(
+      customer,
+      `Hi ${customer.name}! ${businessName} will be closed on the following day(s):\n${lines.join("\n")}\nThank you for your understanding! 🐕`
+    );
+    if (sms.status === "sent" || sms.status === "queued") customersNotified++;
+  }
+  return customersNotified;
+}
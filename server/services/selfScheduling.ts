@@ -0,0 +1,104 @@
+import { storage } from "../storage";
+import { findBestFitDay, geocodeAddress } from "./geocoding";
+import { scheduledDayLocations } from "./scheduling";
+import { createCustomerFromBooking, startSchedule, suggestServiceType } from "./quotes";
+import { BUSINESS_DAYS, addDays, dayOfWeek, nextOccurrences, todayInTimeZone } from "@shared/recurrence";
+import type { BookingRequest, Customer, Route, ScheduleRule } from "@shared/schema";
+
+// Open start dates for the public booking form. A day is open when it isn't a company
+// closure and the technicians have room for one more stop, both on that date and on its
+// weekday every week (the active schedules recurring on it).
+
+const LEAD_DAYS = 2; // staff confirm the booking before the first visit
+const WINDOW_DAYS = 21; // how far ahead start dates are offered
+
+export interface OpenSlot {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number;
+  nearbyCount: number; // customers within a few miles already serviced on this weekday
+  recommended: boolean; // one of the weekdays with the most nearby customers
+}
+
+export async function openSlots(address: string): Promise<OpenSlot[]> {
+  const coords = await geocodeAddress(address);
+  if (!coords) {
+    throw new Error("We couldn't find that address. Check it and try again.");
+  }
+
+  const settings = await storage.getSettings();
+  const technicians = (await storage.getAllUsers()).filter(user => user.role === "technician" || user.role === "staff");
+  const capacity = Math.max(technicians.length, 1) * settings.technicianDailyStops;
+  const closed = new Set((settings.businessClosures || []).map(closure => closure.date));
+
+  const startDate = addDays(todayInTimeZone(), LEAD_DAYS);
+  const endDate = addDays(startDate, WINDOW_DAYS - 1);
+  const stopsByDate = new Map<string, number>();
+  for (const route of await storage.getRoutesByDateRange(startDate, endDate)) {
+    if (route.status === "skipped") continue;
+    stopsByDate.set(route.date, (stopsByDate.get(route.date) || 0) + 1);
+  }
+
+  const scheduled = await scheduledDayLocations();
+  const recurringByDay = new Map<number, number>();
+  for (const location of scheduled) {
+    recurringByDay.set(location.dayOfWeek, (recurringByDay.get(location.dayOfWeek) || 0) + 1);
+  }
+  const nearbyByDay = new Map((await findBestFitDay(coords, scheduled)).map(day => [day.dayOfWeek, day.nearbyCount]));
+  const mostNearby = Math.max(...BUSINESS_DAYS.map(day => nearbyByDay.get(day) || 0));
+
+  const slots: OpenSlot[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const day = dayOfWeek(date);
+    if (!BUSINESS_DAYS.includes(day) || closed.has(date)) continue;
+    if ((stopsByDate.get(date) || 0) >= capacity || (recurringByDay.get(day) || 0) >= capacity) continue;
+    const nearbyCount = nearbyByDay.get(day) || 0;
+    slots.push({ date, dayOfWeek: day, nearbyCount, recommended: nearbyCount > 0 && nearbyCount === mostNearby });
+  }
+  return slots;
+}
+
+export interface ConfirmedBooking {
+  customer: Customer;
+  rule: ScheduleRule;
+  firstRoute: Route | null;
+  promoMessage?: string;
+}
+
+// Staff confirmation of a self-scheduled booking: the customer is created on the service type
+// for their number of dogs, with the card saved on the booking, and the schedule starts on the
+// requested date (or the same weekday next week if that date has passed)
+export async function confirmBookingSchedule(booking: BookingRequest, userId: string | null): Promise<ConfirmedBooking> {
+  if (booking.status !== "pending") {
+    throw new Error(`This booking has already been ${booking.status}`);
+  }
+  if (!booking.requestedStartDate) {
+    throw new Error("This booking didn't pick a start date");
+  }
+  const serviceType = suggestServiceType(await storage.getAllServiceTypes(), booking.numberOfDogs);
+  if (!serviceType) {
+    throw new Error("No weekly service type in the price book");
+  }
+
+  const day = dayOfWeek(booking.requestedStartDate);
+  const tomorrow = addDays(todayInTimeZone(), 1);
+  const dtStart = booking.requestedStartDate >= tomorrow
+    ? booking.requestedStartDate
+    : nextOccurrences({ frequency: "weekly", byDay: [day], dtStart: tomorrow }, tomorrow, 1)[0];
+
+  const { customer, promoMessage } = await createCustomerFromBooking(booking, serviceType, [day], userId);
+
+  const plan = booking.preferredServicePlan;
+  const { rule, firstRoute } = await startSchedule(customer, serviceType, {
+    frequency: plan === "biweekly" || plan === "one-time" ? plan : "weekly",
+    byDay: [day],
+    dtStart,
+    addons: [],
+    notes: booking.yardNotes || null,
+  });
+  if (plan === "new-start" && firstRoute) {
+    await storage.updateRoute(firstRoute.id, { serviceType: "new-start" });
+  }
+
+  await storage.updateBookingRequest(booking.id, { status: "completed", customerId: customer.id });
+  return { customer, rule, firstRoute, promoMessage };
+}
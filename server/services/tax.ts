@@ -0,0 +1,130 @@
+import { storage } from "../storage";
+import { todayInTimeZone } from "@shared/recurrence";
+import type { InsertInvoiceLineItem, InvoiceLineItem, TaxRate } from "@shared/schema";
+
+type TaxableLine = { kind: string; amount: string; taxable?: boolean };
+
+function toCents(amount: string | number): number {
+  return Math.round((typeof amount === "string" ? parseFloat(amount) : amount) * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Taxable lines net of taxable credits and discounts
+export function taxableCents(lines: TaxableLine[]): number {
+  return lines
+    .filter(line => line.taxable && line.kind !== "tax")
+    .reduce((sum, line) => sum + toCents(line.amount), 0);
+}
+
+// One tax line per rate on the taxable subtotal
+export function taxLines(lines: TaxableLine[], rates: TaxRate[]): Omit<InsertInvoiceLineItem, "invoiceId" | "sortOrder">[] {
+  const base = taxableCents(lines);
+  if (base <= 0) return [];
+
+  return rates
+    .map(rate => ({ rate, cents: Math.round(base * parseFloat(rate.rate) / 100) }))
+    .filter(({ cents }) => cents > 0)
+    .map(({ rate, cents }) => ({
+      kind: "tax" as const,
+      description: `${rate.name} (${parseFloat(rate.rate)}%)`,
+      serviceDate: null,
+      routeId: null,
+      quantity: "1",
+      unitPrice: fromCents(cents),
+      amount: fromCents(cents),
+      taxable: false,
+    }));
+}
+
+// ---------- Sales tax report ----------
+
+export interface SalesTaxAmounts {
+  taxableSales: number; // dollars
+  tax: number;
+  byRate: Record<string, number>; // tax line description -> dollars
+}
+
+export interface SalesTaxPeriod {
+  period: string; // YYYY-MM
+  billed: SalesTaxAmounts; // on invoices issued in the month
+  collected: SalesTaxAmounts; // on invoices paid in full in the month
+}
+
+export interface SalesTaxReport {
+  startDate: string;
+  endDate: string;
+  periods: SalesTaxPeriod[];
+  totals: { billed: SalesTaxAmounts; collected: SalesTaxAmounts };
+}
+
+function emptyAmounts(): SalesTaxAmounts {
+  return { taxableSales: 0, tax: 0, byRate: {} };
+}
+
+// Summed in cents, converted to dollars at the end
+function addLines(amounts: SalesTaxAmounts, lines: InvoiceLineItem[]) {
+  amounts.taxableSales += taxableCents(lines);
+  for (const line of lines) {
+    if (line.kind !== "tax") continue;
+    amounts.tax += toCents(line.amount);
+    amounts.byRate[line.description] = (amounts.byRate[line.description] || 0) + toCents(line.amount);
+  }
+}
+
+function toDollars(amounts: SalesTaxAmounts): SalesTaxAmounts {
+  const byRate: Record<string, number> = {};
+  for (const [name, cents] of Object.entries(amounts.byRate)) byRate[name] = cents / 100;
+  return { taxableSales: amounts.taxableSales / 100, tax: amounts.tax / 100, byRate };
+}
+
+// Sales tax by month between the dates (inclusive): billed on the invoices issued, and
+// collected on the invoices paid. Voided invoices are left out.
+export async function buildSalesTaxReport(startDate: string, endDate: string): Promise<SalesTaxReport> {
+  const invoices = (await storage.getAllInvoices()).filter(invoice => invoice.status !== "void");
+  const lines = await storage.getInvoiceLineItems(invoices.map(invoice => invoice.id));
+  const linesByInvoice = new Map<string, InvoiceLineItem[]>();
+  for (const line of lines) {
+    linesByInvoice.set(line.invoiceId, [...(linesByInvoice.get(line.invoiceId) || []), line]);
+  }
+
+  const periods = new Map<string, SalesTaxPeriod>();
+  const periodFor = (date: string) => {
+    const period = date.slice(0, 7);
+    if (!periods.has(period)) {
+      periods.set(period, { period, billed: emptyAmounts(), collected: emptyAmounts() });
+    }
+    return periods.get(period)!;
+  };
+  const inRange = (date: string) => date >= startDate && date <= endDate;
+  const totals = { billed: emptyAmounts(), collected: emptyAmounts() };
+
+  for (const invoice of invoices) {
+    const invoiceLines = linesByInvoice.get(invoice.id) || [];
+    if (!invoiceLines.some(line => line.taxable || line.kind === "tax")) continue;
+
+    const issued = todayInTimeZone(undefined, invoice.createdAt);
+    if (inRange(issued)) {
+      addLines(periodFor(issued).billed, invoiceLines);
+      addLines(totals.billed, invoiceLines);
+    }
+    if (invoice.status === "paid" && invoice.paidAt) {
+      const paid = todayInTimeZone(undefined, invoice.paidAt);
+      if (inRange(paid)) {
+        addLines(periodFor(paid).collected, invoiceLines);
+        addLines(totals.collected, invoiceLines);
+      }
+    }
+  }
+
+  return {
+    startDate,
+    endDate,
+    periods: Array.from(periods.values())
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map(period => ({ ...period, billed: toDollars(period.billed), collected: toDollars(period.collected) })),
+    totals: { billed: toDollars(totals.billed), collected: toDollars(totals.collected) },
+  };
+}
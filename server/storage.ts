@@ -9,6 +9,12 @@ import {
   type InsertJobHistory,
   type Message,
   type InsertMessage,
+  type MessageTemplate,
+  type MessageTemplateVersion,
+  type Conversation,
+  type InsertConversation,
+  type CannedReply,
+  type InsertCannedReply,
   type ScheduleRule,
   type InsertScheduleRule,
   type ReminderLog,
@@ -32,6 +38,24 @@ import {
   type Payment,
   type InsertPayment,
   type PaymentApplication,
+  type Refund,
+  type InsertRefund,
+  type ScheduleException,
+  type InsertScheduleException,
+  type JobPhoto,
+  type InsertJobPhoto,
+  type InvoiceLineItem,
+  type InsertInvoiceLineItem,
+  type BillingRun,
+  type InsertBillingRun,
+  type DunningCase,
+  type InsertDunningCase,
+  type PromoCode,
+  type InsertPromoCode,
+  type PromoRedemption,
+  type InsertPromoRedemption,
+  type Quote,
+  type InsertQuote,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
@@ -57,11 +81,12 @@ export interface IStorage {
   getAllRoutes(): Promise<Route[]>;
   getRoutesByDate(date: string): Promise<Route[]>;
   getRoutesByCustomerAndDateRange(customerId: string, startDate: string, endDate: string): Promise<Route[]>;
+  getRoutesByDateRange(startDate: string, endDate: string): Promise<Route[]>;
   getRoutesByScheduleRuleId(scheduleRuleId: string): Promise<Route[]>;
   getRoute(id: string): Promise<Route | undefined>;
   createRoute(route: InsertRoute): Promise<Route>;
   updateRoute(id: string, route: Partial<InsertRoute>): Promise<Route>;
-  updateRouteStatus(id: string, status: string): Promise<Route>;
+  updateRouteStatus(id: string, status: string, at?: Date): Promise<Route>;
   deleteRoute(id: string): Promise<void>;
   deleteFutureScheduledRoutes(customerId: string, fromDate: string): Promise<number>;
   deleteFutureScheduledRoutesByScheduleRuleId(scheduleRuleId: string): Promise<number>;
@@ -72,26 +97,86 @@ export interface IStorage {
   getAllInvoices(): Promise<Invoice[]>;
   getInvoicesByCustomer(customerId: string): Promise<Invoice[]>;
   getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoicesForBillingPeriod(period: string): Promise<Invoice[]>;
+  getOpenInvoices(): Promise<Invoice[]>;
+  getInvoicesByStripePaymentIntent(paymentIntentId: string): Promise<Invoice[]>;
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: string, invoice: Partial<InsertInvoice>): Promise<Invoice>;
   markInvoicePaid(id: string, paymentIntentId: string): Promise<Invoice>;
+  reopenInvoice(id: string, status: "unpaid" | "partial" | "overdue"): Promise<Invoice>;
+  voidInvoice(id: string, voidedBy: string, reason: string): Promise<Invoice>;
   deleteInvoice(id: string): Promise<void>;
 
+  // Invoice Line Items
+  getInvoiceLineItems(invoiceIds: string[]): Promise<InvoiceLineItem[]>;
+  getInvoiceLineItem(id: string): Promise<InvoiceLineItem | undefined>;
+  createInvoiceLineItems(items: InsertInvoiceLineItem[]): Promise<InvoiceLineItem[]>;
+  deleteInvoiceLineItem(id: string): Promise<void>;
+  getInvoicedRouteIds(routeIds: string[]): Promise<string[]>;
+
+  // Billing Runs
+  getBillingRuns(limit?: number): Promise<BillingRun[]>;
+  getBillingRun(id: string): Promise<BillingRun | undefined>;
+  getRunningBillingRuns(period: string): Promise<BillingRun[]>;
+  createBillingRun(run: InsertBillingRun): Promise<BillingRun>;
+  updateBillingRun(id: string, updates: Partial<InsertBillingRun>): Promise<BillingRun>;
+
+  // Dunning
+  getDunningCases(status?: string): Promise<DunningCase[]>;
+  getDunningCase(id: string): Promise<DunningCase | undefined>;
+  getDunningCaseByInvoice(invoiceId: string): Promise<DunningCase | undefined>;
+  getDueDunningCases(date: string): Promise<DunningCase[]>;
+  createDunningCase(dunningCase: InsertDunningCase): Promise<DunningCase>;
+  updateDunningCase(id: string, updates: Partial<InsertDunningCase>): Promise<DunningCase>;
+
   // Job History
   getAllJobHistory(): Promise<JobHistory[]>;
   getJobHistoryByCustomer(customerId: string): Promise<JobHistory[]>;
   createJobHistory(history: InsertJobHistory): Promise<JobHistory>;
   updateJobHistory(id: string, history: Partial<InsertJobHistory>): Promise<JobHistory>;
+  getJobHistory(id: string): Promise<JobHistory | undefined>;
+  getJobHistoryWithInlinePhotos(afterId: string | null, limit: number): Promise<JobHistory[]>;
+
+  // Job Photos
+  getJobPhotos(jobHistoryIds: string[]): Promise<JobPhoto[]>;
+  getJobPhoto(id: string): Promise<JobPhoto | undefined>;
+  createJobPhoto(photo: InsertJobPhoto): Promise<JobPhoto>;
+  updateJobPhoto(id: string, updates: Partial<InsertJobPhoto>): Promise<JobPhoto>;
+  deleteJobPhoto(id: string): Promise<void>;
 
   // Messages
   getAllMessages(): Promise<Message[]>;
   getMessagesByCustomer(customerId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessageStatus(externalMessageId: string, status: string): Promise<void>;
+  updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message>;
+  getQueuedMessages(dueBy: Date): Promise<Message[]>;
+
+  // Message templates
+  getMessageTemplates(): Promise<MessageTemplate[]>;
+  getMessageTemplate(key: string): Promise<MessageTemplate | undefined>;
+  saveMessageTemplate(key: string, body: string, userId: string | null): Promise<MessageTemplate>;
+  getMessageTemplateVersions(key: string): Promise<MessageTemplateVersion[]>;
   findCustomerByPhone(phone: string): Promise<Customer | undefined>;
   getUnreadMessageCount(): Promise<number>;
   markMessagesReadForCustomer(customerId: string): Promise<void>;
 
+  // Inbox: conversations, lead threads and canned replies
+  getLeadMessages(phone: string): Promise<Message[]>;
+  markLeadMessagesRead(phone: string): Promise<void>;
+  assignLeadMessagesToCustomer(phone: string, customerId: string): Promise<number>;
+  searchMessages(query: string, limit: number): Promise<Message[]>;
+  getAllConversations(): Promise<Conversation[]>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  getConversationByCustomer(customerId: string): Promise<Conversation | undefined>;
+  getLeadConversationByPhone(phone: string): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation>;
+  getCannedReplies(): Promise<CannedReply[]>;
+  createCannedReply(reply: InsertCannedReply, userId: string | null): Promise<CannedReply>;
+  updateCannedReply(id: string, updates: Partial<InsertCannedReply>): Promise<CannedReply>;
+  deleteCannedReply(id: string): Promise<void>;
+
   // Schedule Rules
   getAllScheduleRules(): Promise<ScheduleRule[]>;
   getScheduleRulesByCustomer(customerId: string): Promise<ScheduleRule[]>;
@@ -99,6 +184,13 @@ export interface IStorage {
   updateScheduleRule(id: string, rule: Partial<InsertScheduleRule>): Promise<ScheduleRule>;
   deleteScheduleRule(id: string): Promise<void>;
 
+  // Schedule Exceptions (vacation holds)
+  getAllScheduleExceptions(): Promise<ScheduleException[]>;
+  getScheduleExceptionsByCustomer(customerId: string): Promise<ScheduleException[]>;
+  getScheduleException(id: string): Promise<ScheduleException | undefined>;
+  createScheduleException(exception: InsertScheduleException): Promise<ScheduleException>;
+  updateScheduleException(id: string, updates: Partial<ScheduleException>): Promise<ScheduleException>;
+
   // Reminder Logs
   createReminderLog(log: InsertReminderLog): Promise<ReminderLog>;
   getReminderLogsByDate(serviceDate: string): Promise<ReminderLog[]>;
@@ -146,6 +238,12 @@ export interface IStorage {
   createAnnouncementRecipient(recipient: { announcementId: string; customerId: string; customerName: string; customerPhone: string; status?: string; externalMessageId?: string; errorMessage?: string; }): Promise<AnnouncementRecipient>;
   updateAnnouncementRecipient(id: string, updates: Partial<AnnouncementRecipient>): Promise<AnnouncementRecipient>;
   getAnnouncementRecipients(announcementId: string): Promise<AnnouncementRecipient[]>;
+  getAnnouncementsByStatus(status: string): Promise<Announcement[]>;
+  getDueAnnouncements(dueBy: Date): Promise<Announcement[]>;
+  createAnnouncementRecipients(recipients: { announcementId: string; customerId: string; customerName: string; customerPhone: string; }[]): Promise<number>;
+  getDueAnnouncementRecipients(announcementId: string, dueBy: Date, limit: number): Promise<AnnouncementRecipient[]>;
+  getAnnouncementRecipientByExternalMessageId(externalMessageId: string): Promise<AnnouncementRecipient | undefined>;
+  cancelPendingAnnouncementRecipients(announcementId: string): Promise<number>;
 
   // Field Payments
   getAllPayments(): Promise<Payment[]>;
@@ -155,6 +253,41 @@ export interface IStorage {
   updatePayment(id: string, updates: Partial<Payment>): Promise<Payment>;
   createPaymentApplication(paymentId: string, invoiceId: string, amount: string): Promise<PaymentApplication>;
   getPaymentApplicationsByPayment(paymentId: string): Promise<PaymentApplication[]>;
+  getPaymentApplicationsByPayments(paymentIds: string[]): Promise<PaymentApplication[]>;
+  getPaymentApplicationsByInvoice(invoiceId: string): Promise<PaymentApplication[]>;
+  getCompletedPaymentApplications(invoiceIds: string[]): Promise<PaymentApplication[]>;
+  updatePaymentApplication(id: string, amount: string): Promise<PaymentApplication>;
+  deletePaymentApplication(id: string): Promise<void>;
+  getPaymentByStripePaymentIntent(paymentIntentId: string): Promise<Payment | undefined>;
+
+  // Refunds
+  getRefundsByCustomer(customerId: string): Promise<Refund[]>;
+  getRefundsByPayment(paymentId: string): Promise<Refund[]>;
+  getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined>;
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  updateRefund(id: string, updates: Partial<InsertRefund>): Promise<Refund>;
+
+  // Promotions
+  getAllPromoCodes(): Promise<PromoCode[]>;
+  getPromoCode(id: string): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: string, updates: Partial<InsertPromoCode>): Promise<PromoCode>;
+  getCustomerByReferralCode(code: string): Promise<Customer | undefined>;
+  getPromoRedemptionsByCustomer(customerId: string): Promise<PromoRedemption[]>;
+  getPromoRedemptionsByPromoCode(promoCodeId: string): Promise<PromoRedemption[]>;
+  getUnpaidReferralRedemptions(): Promise<PromoRedemption[]>;
+  createPromoRedemption(redemption: InsertPromoRedemption): Promise<PromoRedemption>;
+  updatePromoRedemption(id: string, updates: Partial<InsertPromoRedemption>): Promise<PromoRedemption>;
+  getPromoDiscountLines(redemptionIds: string[]): Promise<InvoiceLineItem[]>;
+
+  // Quotes
+  getQuotesByBookingRequest(bookingRequestId: string): Promise<Quote[]>;
+  getQuote(id: string): Promise<Quote | undefined>;
+  getQuoteByToken(token: string): Promise<Quote | undefined>;
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  updateQuote(id: string, updates: Partial<InsertQuote>): Promise<Quote>;
+  updateQuoteIfStatus(id: string, status: string, updates: Partial<InsertQuote>): Promise<Quote | undefined>;
 }
 
 export class MemStorage implements IStorage {
@@ -223,6 +356,12 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getRoutesByDateRange(startDate: string, endDate: string): Promise<Route[]> {
+    return Array.from(this.routes.values()).filter(
+      (route) => route.date >= startDate && route.date <= endDate
+    );
+  }
+
   async getRoutesByScheduleRuleId(scheduleRuleId: string): Promise<Route[]> {
     return Array.from(this.routes.values()).filter(
       (route) => route.scheduleRuleId === scheduleRuleId
@@ -255,7 +394,7 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async updateRouteStatus(id: string, status: string): Promise<Route> {
+  async updateRouteStatus(id: string, status: string, at: Date = new Date()): Promise<Route> {
     const route = this.routes.get(id);
     if (!route) {
       throw new Error("Route not found");
@@ -263,7 +402,7 @@ export class MemStorage implements IStorage {
     const updated = {
       ...route,
       status,
-      completedAt: status === "completed" ? new Date() : route.completedAt,
+      completedAt: status === "completed" ? at : route.completedAt,
     };
     this.routes.set(id, updated);
     return updated;
@@ -365,6 +504,9 @@ export class MemStorage implements IStorage {
       id,
       paidAt: null,
       stripePaymentIntentId: null,
+      voidedAt: null,
+      voidedBy: null,
+      voidReason: null,
       createdAt: new Date(),
     };
     this.invoices.set(id, invoice);
@@ -461,6 +603,8 @@ export class MemStorage implements IStorage {
       status: "pending",
       customerId: null,
       adminNotes: null,
+      stripeCustomerId: null,
+      stripePaymentMethodId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -558,13 +702,19 @@ export class MemStorage implements IStorage {
   async createAnnouncementRecipient(_recipient: { announcementId: string; customerId: string; customerName: string; customerPhone: string; status?: string; externalMessageId?: string; errorMessage?: string; }): Promise<AnnouncementRecipient> { throw new Error("Not implemented"); }
   async updateAnnouncementRecipient(_id: string, _updates: Partial<AnnouncementRecipient>): Promise<AnnouncementRecipient> { throw new Error("Not implemented"); }
   async getAnnouncementRecipients(_announcementId: string): Promise<AnnouncementRecipient[]> { return []; }
+  async getAnnouncementsByStatus(_status: string): Promise<Announcement[]> { return []; }
+  async getDueAnnouncements(_dueBy: Date): Promise<Announcement[]> { return []; }
+  async createAnnouncementRecipients(_recipients: { announcementId: string; customerId: string; customerName: string; customerPhone: string; }[]): Promise<number> { throw new Error("Not implemented"); }
+  async getDueAnnouncementRecipients(_announcementId: string, _dueBy: Date, _limit: number): Promise<AnnouncementRecipient[]> { return []; }
+  async getAnnouncementRecipientByExternalMessageId(_externalMessageId: string): Promise<AnnouncementRecipient | undefined> { return undefined; }
+  async cancelPendingAnnouncementRecipients(_announcementId: string): Promise<number> { return 0; }
 }
 
 import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
 import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
 import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
 import { Pool as PgPool } from "pg";
-import { eq, and, desc, gte, lte, gt, sql, isNull, inArray } from "drizzle-orm";
+import { eq, and, or, desc, gte, lte, gt, sql, isNull, inArray, like } from "drizzle-orm";
 import * as schema from "@shared/schema";
 import ws from "ws";
 
@@ -706,6 +856,13 @@ export class DbStorage implements IStorage {
       );
   }
 
+  async getRoutesByDateRange(startDate: string, endDate: string): Promise<Route[]> {
+    return await this.db
+      .select()
+      .from(schema.routes)
+      .where(and(gte(schema.routes.date, startDate), lte(schema.routes.date, endDate)));
+  }
+
   async getRoutesByScheduleRuleId(scheduleRuleId: string): Promise<Route[]> {
     return await this.db
       .select()
@@ -739,10 +896,10 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async updateRouteStatus(id: string, status: string): Promise<Route> {
+  async updateRouteStatus(id: string, status: string, at: Date = new Date()): Promise<Route> {
     const updates: any = { status };
     if (status === "completed") {
-      updates.completedAt = new Date();
+      updates.completedAt = at;
     }
     const result = await this.db
       .update(schema.routes)
@@ -848,6 +1005,36 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  // Invoices the monthly run created for a YYYY-MM period, including ones from before
+  // billingPeriod was recorded (numbered INV-YYYYMM-n)
+  async getInvoicesForBillingPeriod(period: string): Promise<Invoice[]> {
+    return await this.db
+      .select()
+      .from(schema.invoices)
+      .where(
+        or(
+          eq(schema.invoices.billingPeriod, period),
+          like(schema.invoices.invoiceNumber, `INV-${period.replace("-", "")}-%`)
+        )
+      );
+  }
+
+  // Unpaid, partially paid and overdue invoices
+  async getOpenInvoices(): Promise<Invoice[]> {
+    return await this.db
+      .select()
+      .from(schema.invoices)
+      .where(inArray(schema.invoices.status, ["unpaid", "partial", "overdue"]));
+  }
+
+  // Invoices markInvoicePaid recorded this Stripe payment intent against
+  async getInvoicesByStripePaymentIntent(paymentIntentId: string): Promise<Invoice[]> {
+    return await this.db
+      .select()
+      .from(schema.invoices)
+      .where(eq(schema.invoices.stripePaymentIntentId, paymentIntentId));
+  }
+
   async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
     const result = await this.db
       .insert(schema.invoices)
@@ -880,6 +1067,32 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  // Back to open after a refund: the payment date no longer applies
+  async reopenInvoice(id: string, status: "unpaid" | "partial" | "overdue"): Promise<Invoice> {
+    const result = await this.db
+      .update(schema.invoices)
+      .set({ status, paidAt: null })
+      .where(eq(schema.invoices.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Invoice not found");
+    return result[0];
+  }
+
+  async voidInvoice(id: string, voidedBy: string, reason: string): Promise<Invoice> {
+    const result = await this.db
+      .update(schema.invoices)
+      .set({
+        status: "void",
+        voidedAt: new Date(),
+        voidedBy,
+        voidReason: reason,
+      })
+      .where(eq(schema.invoices.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Invoice not found");
+    return result[0];
+  }
+
   async deleteInvoice(id: string): Promise<void> {
     const result = await this.db
       .delete(schema.invoices)
@@ -888,6 +1101,138 @@ export class DbStorage implements IStorage {
     if (!result[0]) throw new Error("Invoice not found");
   }
 
+  // Invoice Line Items
+  async getInvoiceLineItems(invoiceIds: string[]): Promise<InvoiceLineItem[]> {
+    if (invoiceIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(schema.invoiceLineItems)
+      .where(inArray(schema.invoiceLineItems.invoiceId, invoiceIds))
+      .orderBy(schema.invoiceLineItems.sortOrder, schema.invoiceLineItems.createdAt);
+  }
+
+  async getInvoiceLineItem(id: string): Promise<InvoiceLineItem | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.invoiceLineItems)
+      .where(eq(schema.invoiceLineItems.id, id));
+    return result[0];
+  }
+
+  async createInvoiceLineItems(items: InsertInvoiceLineItem[]): Promise<InvoiceLineItem[]> {
+    if (items.length === 0) return [];
+    return await this.db.insert(schema.invoiceLineItems).values(items).returning();
+  }
+
+  // Visits already billed on an invoice that hasn't been voided
+  async getInvoicedRouteIds(routeIds: string[]): Promise<string[]> {
+    if (routeIds.length === 0) return [];
+    const result = await this.db
+      .selectDistinct({ routeId: schema.invoiceLineItems.routeId })
+      .from(schema.invoiceLineItems)
+      .innerJoin(schema.invoices, eq(schema.invoiceLineItems.invoiceId, schema.invoices.id))
+      .where(and(
+        inArray(schema.invoiceLineItems.routeId, routeIds),
+        sql`${schema.invoices.status} <> 'void'`
+      ));
+    return result.map(row => row.routeId!);
+  }
+
+  async deleteInvoiceLineItem(id: string): Promise<void> {
+    const result = await this.db
+      .delete(schema.invoiceLineItems)
+      .where(eq(schema.invoiceLineItems.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Line item not found");
+  }
+
+  // Billing Runs
+  async getBillingRuns(limit = 50): Promise<BillingRun[]> {
+    return await this.db
+      .select()
+      .from(schema.billingRuns)
+      .orderBy(desc(schema.billingRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getBillingRun(id: string): Promise<BillingRun | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.billingRuns)
+      .where(eq(schema.billingRuns.id, id));
+    return result[0];
+  }
+
+  async getRunningBillingRuns(period: string): Promise<BillingRun[]> {
+    return await this.db
+      .select()
+      .from(schema.billingRuns)
+      .where(and(eq(schema.billingRuns.period, period), eq(schema.billingRuns.status, "running")));
+  }
+
+  async createBillingRun(run: InsertBillingRun): Promise<BillingRun> {
+    const result = await this.db.insert(schema.billingRuns).values(run).returning();
+    return result[0];
+  }
+
+  async updateBillingRun(id: string, updates: Partial<InsertBillingRun>): Promise<BillingRun> {
+    const result = await this.db
+      .update(schema.billingRuns)
+      .set(updates)
+      .where(eq(schema.billingRuns.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Billing run not found");
+    return result[0];
+  }
+
+  // Dunning
+  async getDunningCases(status?: string): Promise<DunningCase[]> {
+    return await this.db
+      .select()
+      .from(schema.dunningCases)
+      .where(status ? eq(schema.dunningCases.status, status) : undefined)
+      .orderBy(desc(schema.dunningCases.createdAt));
+  }
+
+  async getDunningCase(id: string): Promise<DunningCase | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.dunningCases)
+      .where(eq(schema.dunningCases.id, id));
+    return result[0];
+  }
+
+  async getDunningCaseByInvoice(invoiceId: string): Promise<DunningCase | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.dunningCases)
+      .where(eq(schema.dunningCases.invoiceId, invoiceId));
+    return result[0];
+  }
+
+  // Active cases with a retry due on or before `date`
+  async getDueDunningCases(date: string): Promise<DunningCase[]> {
+    return await this.db
+      .select()
+      .from(schema.dunningCases)
+      .where(and(eq(schema.dunningCases.status, "active"), lte(schema.dunningCases.nextRetryDate, date)));
+  }
+
+  async createDunningCase(dunningCase: InsertDunningCase): Promise<DunningCase> {
+    const result = await this.db.insert(schema.dunningCases).values(dunningCase).returning();
+    return result[0];
+  }
+
+  async updateDunningCase(id: string, updates: Partial<InsertDunningCase>): Promise<DunningCase> {
+    const result = await this.db
+      .update(schema.dunningCases)
+      .set(updates)
+      .where(eq(schema.dunningCases.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Dunning case not found");
+    return result[0];
+  }
+
   // Job History
   async getAllJobHistory(): Promise<JobHistory[]> {
     return await this.db.select().from(schema.jobHistory);
@@ -918,6 +1263,56 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getJobHistory(id: string): Promise<JobHistory | undefined> {
+    const result = await this.db.select().from(schema.jobHistory).where(eq(schema.jobHistory.id, id));
+    return result[0];
+  }
+
+  // Jobs still holding legacy base64 photos, a page at a time in id order
+  async getJobHistoryWithInlinePhotos(afterId: string | null, limit: number): Promise<JobHistory[]> {
+    const hasPhotos = or(sql`${schema.jobHistory.photoBefore} IS NOT NULL`, sql`${schema.jobHistory.photoAfter} IS NOT NULL`);
+    return await this.db
+      .select()
+      .from(schema.jobHistory)
+      .where(afterId ? and(hasPhotos, gt(schema.jobHistory.id, afterId)) : hasPhotos)
+      .orderBy(schema.jobHistory.id)
+      .limit(limit);
+  }
+
+  // Job Photos
+  async getJobPhotos(jobHistoryIds: string[]): Promise<JobPhoto[]> {
+    if (jobHistoryIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(schema.jobPhotos)
+      .where(inArray(schema.jobPhotos.jobHistoryId, jobHistoryIds))
+      .orderBy(schema.jobPhotos.createdAt);
+  }
+
+  async getJobPhoto(id: string): Promise<JobPhoto | undefined> {
+    const result = await this.db.select().from(schema.jobPhotos).where(eq(schema.jobPhotos.id, id));
+    return result[0];
+  }
+
+  async createJobPhoto(photo: InsertJobPhoto): Promise<JobPhoto> {
+    const result = await this.db.insert(schema.jobPhotos).values(photo).returning();
+    return result[0];
+  }
+
+  async updateJobPhoto(id: string, updates: Partial<InsertJobPhoto>): Promise<JobPhoto> {
+    const result = await this.db
+      .update(schema.jobPhotos)
+      .set(updates)
+      .where(eq(schema.jobPhotos.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Photo not found");
+    return result[0];
+  }
+
+  async deleteJobPhoto(id: string): Promise<void> {
+    await this.db.delete(schema.jobPhotos).where(eq(schema.jobPhotos.id, id));
+  }
+
   // Messages
   async getAllMessages(): Promise<Message[]> {
     return await this.db.select().from(schema.messages).orderBy(schema.messages.sentAt);
@@ -939,6 +1334,66 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message> {
+    const result = await this.db
+      .update(schema.messages)
+      .set(updates)
+      .where(eq(schema.messages.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Message not found");
+    return result[0];
+  }
+
+  async getQueuedMessages(dueBy: Date): Promise<Message[]> {
+    return await this.db
+      .select()
+      .from(schema.messages)
+      .where(and(eq(schema.messages.status, "queued"), lte(schema.messages.sendAfter, dueBy)))
+      .orderBy(schema.messages.sendAfter);
+  }
+
+  async getMessageTemplates(): Promise<MessageTemplate[]> {
+    return await this.db.select().from(schema.messageTemplates);
+  }
+
+  async getMessageTemplate(key: string): Promise<MessageTemplate | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.messageTemplates)
+      .where(eq(schema.messageTemplates.key, key));
+    return result[0];
+  }
+
+  // Records the body as the next version and makes it current
+  async saveMessageTemplate(key: string, body: string, userId: string | null): Promise<MessageTemplate> {
+    const [latest] = await this.db
+      .select({ version: sql<number>`coalesce(max(${schema.messageTemplateVersions.version}), 0)` })
+      .from(schema.messageTemplateVersions)
+      .where(eq(schema.messageTemplateVersions.templateKey, key));
+    const version = Number(latest?.version ?? 0) + 1;
+
+    await this.db
+      .insert(schema.messageTemplateVersions)
+      .values({ templateKey: key, version, body, createdBy: userId });
+    const result = await this.db
+      .insert(schema.messageTemplates)
+      .values({ key, body, version, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: schema.messageTemplates.key,
+        set: { body, version, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getMessageTemplateVersions(key: string): Promise<MessageTemplateVersion[]> {
+    return await this.db
+      .select()
+      .from(schema.messageTemplateVersions)
+      .where(eq(schema.messageTemplateVersions.templateKey, key))
+      .orderBy(schema.messageTemplateVersions.version);
+  }
+
   async updateMessageStatus(externalMessageId: string, status: string): Promise<void> {
     await this.db
       .update(schema.messages)
@@ -1005,6 +1460,126 @@ export class DbStorage implements IStorage {
       ));
   }
 
+  // Inbox
+  async getLeadMessages(phone: string): Promise<Message[]> {
+    return await this.db
+      .select()
+      .from(schema.messages)
+      .where(and(eq(schema.messages.phone, phone), isNull(schema.messages.customerId)))
+      .orderBy(schema.messages.sentAt);
+  }
+
+  async markLeadMessagesRead(phone: string): Promise<void> {
+    await this.db
+      .update(schema.messages)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(schema.messages.phone, phone),
+        isNull(schema.messages.customerId),
+        eq(schema.messages.direction, 'inbound'),
+        isNull(schema.messages.readAt)
+      ));
+  }
+
+  async assignLeadMessagesToCustomer(phone: string, customerId: string): Promise<number> {
+    const result = await this.db
+      .update(schema.messages)
+      .set({ customerId })
+      .where(and(eq(schema.messages.phone, phone), isNull(schema.messages.customerId)))
+      .returning({ id: schema.messages.id });
+    return result.length;
+  }
+
+  // Postgres full-text search (messages_text_search_idx), best matches first
+  async searchMessages(query: string, limit: number): Promise<Message[]> {
+    const document = sql`to_tsvector('english', ${schema.messages.messageText})`;
+    const terms = sql`websearch_to_tsquery('english', ${query})`;
+    return await this.db
+      .select()
+      .from(schema.messages)
+      .where(sql`${document} @@ ${terms}`)
+      .orderBy(desc(sql`ts_rank(${document}, ${terms})`), desc(schema.messages.sentAt))
+      .limit(limit);
+  }
+
+  async getAllConversations(): Promise<Conversation[]> {
+    return await this.db
+      .select()
+      .from(schema.conversations)
+      .orderBy(desc(schema.conversations.lastMessageAt));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.conversations)
+      .where(eq(schema.conversations.id, id));
+    return result[0];
+  }
+
+  async getConversationByCustomer(customerId: string): Promise<Conversation | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.conversations)
+      .where(eq(schema.conversations.customerId, customerId));
+    return result[0];
+  }
+
+  async getLeadConversationByPhone(phone: string): Promise<Conversation | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.conversations)
+      .where(and(eq(schema.conversations.phone, phone), isNull(schema.conversations.customerId)));
+    return result[0];
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const result = await this.db
+      .insert(schema.conversations)
+      .values(conversation)
+      .returning();
+    return result[0];
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation> {
+    const result = await this.db
+      .update(schema.conversations)
+      .set(updates)
+      .where(eq(schema.conversations.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Conversation not found");
+    return result[0];
+  }
+
+  async getCannedReplies(): Promise<CannedReply[]> {
+    return await this.db
+      .select()
+      .from(schema.cannedReplies)
+      .orderBy(schema.cannedReplies.title);
+  }
+
+  async createCannedReply(reply: InsertCannedReply, userId: string | null): Promise<CannedReply> {
+    const result = await this.db
+      .insert(schema.cannedReplies)
+      .values({ ...reply, createdBy: userId })
+      .returning();
+    return result[0];
+  }
+
+  async updateCannedReply(id: string, updates: Partial<InsertCannedReply>): Promise<CannedReply> {
+    const result = await this.db
+      .update(schema.cannedReplies)
+      .set(updates)
+      .where(eq(schema.cannedReplies.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Canned reply not found");
+    return result[0];
+  }
+
+  async deleteCannedReply(id: string): Promise<void> {
+    await this.db.delete(schema.cannedReplies).where(eq(schema.cannedReplies.id, id));
+  }
+
   // Schedule Rules
   async getAllScheduleRules(): Promise<ScheduleRule[]> {
     return await this.db.select().from(schema.scheduleRules);
@@ -1039,6 +1614,48 @@ export class DbStorage implements IStorage {
     await this.db.delete(schema.scheduleRules).where(eq(schema.scheduleRules.id, id));
   }
 
+  // Schedule Exceptions (vacation holds)
+  async getAllScheduleExceptions(): Promise<ScheduleException[]> {
+    return await this.db
+      .select()
+      .from(schema.scheduleExceptions)
+      .orderBy(desc(schema.scheduleExceptions.createdAt));
+  }
+
+  async getScheduleExceptionsByCustomer(customerId: string): Promise<ScheduleException[]> {
+    return await this.db
+      .select()
+      .from(schema.scheduleExceptions)
+      .where(eq(schema.scheduleExceptions.customerId, customerId))
+      .orderBy(schema.scheduleExceptions.startDate);
+  }
+
+  async getScheduleException(id: string): Promise<ScheduleException | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.scheduleExceptions)
+      .where(eq(schema.scheduleExceptions.id, id));
+    return result[0];
+  }
+
+  async createScheduleException(insertException: InsertScheduleException): Promise<ScheduleException> {
+    const result = await this.db
+      .insert(schema.scheduleExceptions)
+      .values(insertException)
+      .returning();
+    return result[0];
+  }
+
+  async updateScheduleException(id: string, updates: Partial<ScheduleException>): Promise<ScheduleException> {
+    const result = await this.db
+      .update(schema.scheduleExceptions)
+      .set(updates)
+      .where(eq(schema.scheduleExceptions.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Schedule exception not found");
+    return result[0];
+  }
+
   // Reminder Logs
   async createReminderLog(insertLog: InsertReminderLog): Promise<ReminderLog> {
     const result = await this.db
@@ -1348,6 +1965,65 @@ export class DbStorage implements IStorage {
       .where(eq(schema.announcementRecipients.announcementId, announcementId));
   }
 
+  async getAnnouncementsByStatus(status: string): Promise<Announcement[]> {
+    return await this.db
+      .select()
+      .from(schema.announcements)
+      .where(eq(schema.announcements.status, status))
+      .orderBy(schema.announcements.scheduledFor);
+  }
+
+  async getDueAnnouncements(dueBy: Date): Promise<Announcement[]> {
+    return await this.db
+      .select()
+      .from(schema.announcements)
+      .where(and(eq(schema.announcements.status, "scheduled"), lte(schema.announcements.scheduledFor, dueBy)))
+      .orderBy(schema.announcements.scheduledFor);
+  }
+
+  async createAnnouncementRecipients(recipients: { announcementId: string; customerId: string; customerName: string; customerPhone: string; }[]): Promise<number> {
+    if (recipients.length === 0) return 0;
+    const result = await this.db
+      .insert(schema.announcementRecipients)
+      .values(recipients)
+      .returning({ id: schema.announcementRecipients.id });
+    return result.length;
+  }
+
+  // Pending recipients whose next attempt is due, first attempts before retries
+  async getDueAnnouncementRecipients(announcementId: string, dueBy: Date, limit: number): Promise<AnnouncementRecipient[]> {
+    return await this.db
+      .select()
+      .from(schema.announcementRecipients)
+      .where(and(
+        eq(schema.announcementRecipients.announcementId, announcementId),
+        eq(schema.announcementRecipients.status, "pending"),
+        or(isNull(schema.announcementRecipients.nextAttemptAt), lte(schema.announcementRecipients.nextAttemptAt, dueBy))
+      ))
+      .orderBy(schema.announcementRecipients.attempts, schema.announcementRecipients.customerName)
+      .limit(limit);
+  }
+
+  async getAnnouncementRecipientByExternalMessageId(externalMessageId: string): Promise<AnnouncementRecipient | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.announcementRecipients)
+      .where(eq(schema.announcementRecipients.externalMessageId, externalMessageId));
+    return result[0];
+  }
+
+  async cancelPendingAnnouncementRecipients(announcementId: string): Promise<number> {
+    const result = await this.db
+      .update(schema.announcementRecipients)
+      .set({ status: "cancelled", nextAttemptAt: null })
+      .where(and(
+        eq(schema.announcementRecipients.announcementId, announcementId),
+        eq(schema.announcementRecipients.status, "pending")
+      ))
+      .returning({ id: schema.announcementRecipients.id });
+    return result.length;
+  }
+
   // Field Payments
   async getAllPayments(): Promise<Payment[]> {
     return await this.db
@@ -1408,6 +2084,265 @@ export class DbStorage implements IStorage {
       .from(schema.paymentApplications)
       .where(eq(schema.paymentApplications.paymentId, paymentId));
   }
+
+  async getPaymentApplicationsByPayments(paymentIds: string[]): Promise<PaymentApplication[]> {
+    if (paymentIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(schema.paymentApplications)
+      .where(inArray(schema.paymentApplications.paymentId, paymentIds));
+  }
+
+  // Amounts applied to these invoices by completed payments
+  async getCompletedPaymentApplications(invoiceIds: string[]): Promise<PaymentApplication[]> {
+    if (invoiceIds.length === 0) return [];
+    const rows = await this.db
+      .select({ application: schema.paymentApplications })
+      .from(schema.paymentApplications)
+      .innerJoin(schema.payments, eq(schema.paymentApplications.paymentId, schema.payments.id))
+      .where(
+        and(
+          inArray(schema.paymentApplications.invoiceId, invoiceIds),
+          eq(schema.payments.status, "completed")
+        )
+      );
+    return rows.map(row => row.application);
+  }
+
+  async getPaymentApplicationsByInvoice(invoiceId: string): Promise<PaymentApplication[]> {
+    return await this.db
+      .select()
+      .from(schema.paymentApplications)
+      .where(eq(schema.paymentApplications.invoiceId, invoiceId));
+  }
+
+  async updatePaymentApplication(id: string, amount: string): Promise<PaymentApplication> {
+    const result = await this.db
+      .update(schema.paymentApplications)
+      .set({ amount })
+      .where(eq(schema.paymentApplications.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Payment application not found");
+    return result[0];
+  }
+
+  async deletePaymentApplication(id: string): Promise<void> {
+    await this.db
+      .delete(schema.paymentApplications)
+      .where(eq(schema.paymentApplications.id, id));
+  }
+
+  async getPaymentByStripePaymentIntent(paymentIntentId: string): Promise<Payment | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.payments)
+      .where(eq(schema.payments.stripePaymentIntentId, paymentIntentId));
+    return result[0];
+  }
+
+  // Refunds
+  async getRefundsByCustomer(customerId: string): Promise<Refund[]> {
+    return await this.db
+      .select()
+      .from(schema.refunds)
+      .where(eq(schema.refunds.customerId, customerId))
+      .orderBy(desc(schema.refunds.createdAt));
+  }
+
+  async getRefundsByPayment(paymentId: string): Promise<Refund[]> {
+    return await this.db
+      .select()
+      .from(schema.refunds)
+      .where(eq(schema.refunds.paymentId, paymentId));
+  }
+
+  async getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.refunds)
+      .where(eq(schema.refunds.stripeRefundId, stripeRefundId));
+    return result[0];
+  }
+
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    const result = await this.db
+      .insert(schema.refunds)
+      .values(refund)
+      .returning();
+    return result[0];
+  }
+
+  async updateRefund(id: string, updates: Partial<InsertRefund>): Promise<Refund> {
+    const result = await this.db
+      .update(schema.refunds)
+      .set(updates)
+      .where(eq(schema.refunds.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Refund not found");
+    return result[0];
+  }
+
+  // Promotions
+  async getAllPromoCodes(): Promise<PromoCode[]> {
+    return await this.db
+      .select()
+      .from(schema.promoCodes)
+      .orderBy(desc(schema.promoCodes.createdAt));
+  }
+
+  async getPromoCode(id: string): Promise<PromoCode | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.promoCodes)
+      .where(eq(schema.promoCodes.id, id));
+    return result[0];
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.promoCodes)
+      .where(eq(schema.promoCodes.code, code));
+    return result[0];
+  }
+
+  async createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode> {
+    const result = await this.db
+      .insert(schema.promoCodes)
+      .values(promoCode)
+      .returning();
+    return result[0];
+  }
+
+  async updatePromoCode(id: string, updates: Partial<InsertPromoCode>): Promise<PromoCode> {
+    const result = await this.db
+      .update(schema.promoCodes)
+      .set(updates)
+      .where(eq(schema.promoCodes.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Promo code not found");
+    return result[0];
+  }
+
+  async getCustomerByReferralCode(code: string): Promise<Customer | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.customers)
+      .where(eq(schema.customers.referralCode, code));
+    return result[0];
+  }
+
+  async getPromoRedemptionsByCustomer(customerId: string): Promise<PromoRedemption[]> {
+    return await this.db
+      .select()
+      .from(schema.promoRedemptions)
+      .where(eq(schema.promoRedemptions.customerId, customerId))
+      .orderBy(schema.promoRedemptions.createdAt);
+  }
+
+  async getPromoRedemptionsByPromoCode(promoCodeId: string): Promise<PromoRedemption[]> {
+    return await this.db
+      .select()
+      .from(schema.promoRedemptions)
+      .where(eq(schema.promoRedemptions.promoCodeId, promoCodeId));
+  }
+
+  // Referral redemptions with a credit still owed to the referrer
+  async getUnpaidReferralRedemptions(): Promise<PromoRedemption[]> {
+    return await this.db
+      .select()
+      .from(schema.promoRedemptions)
+      .where(and(
+        sql`${schema.promoRedemptions.referralCredit} IS NOT NULL`,
+        isNull(schema.promoRedemptions.referralPaymentId)
+      ));
+  }
+
+  async createPromoRedemption(redemption: InsertPromoRedemption): Promise<PromoRedemption> {
+    const result = await this.db
+      .insert(schema.promoRedemptions)
+      .values(redemption)
+      .returning();
+    return result[0];
+  }
+
+  async updatePromoRedemption(id: string, updates: Partial<InsertPromoRedemption>): Promise<PromoRedemption> {
+    const result = await this.db
+      .update(schema.promoRedemptions)
+      .set(updates)
+      .where(eq(schema.promoRedemptions.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Promo redemption not found");
+    return result[0];
+  }
+
+  // Discount lines that used these redemptions, on invoices that weren't voided
+  async getPromoDiscountLines(redemptionIds: string[]): Promise<InvoiceLineItem[]> {
+    if (redemptionIds.length === 0) return [];
+    const result = await this.db
+      .select({ line: schema.invoiceLineItems })
+      .from(schema.invoiceLineItems)
+      .innerJoin(schema.invoices, eq(schema.invoiceLineItems.invoiceId, schema.invoices.id))
+      .where(and(
+        inArray(schema.invoiceLineItems.promoRedemptionId, redemptionIds),
+        sql`${schema.invoices.status} <> 'void'`
+      ));
+    return result.map(row => row.line);
+  }
+
+  // Quotes
+  async getQuotesByBookingRequest(bookingRequestId: string): Promise<Quote[]> {
+    return await this.db
+      .select()
+      .from(schema.quotes)
+      .where(eq(schema.quotes.bookingRequestId, bookingRequestId))
+      .orderBy(desc(schema.quotes.createdAt));
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.quotes)
+      .where(eq(schema.quotes.id, id));
+    return result[0];
+  }
+
+  async getQuoteByToken(token: string): Promise<Quote | undefined> {
+    const result = await this.db
+      .select()
+      .from(schema.quotes)
+      .where(eq(schema.quotes.token, token));
+    return result[0];
+  }
+
+  async createQuote(quote: InsertQuote): Promise<Quote> {
+    const result = await this.db
+      .insert(schema.quotes)
+      .values(quote)
+      .returning();
+    return result[0];
+  }
+
+  async updateQuote(id: string, updates: Partial<InsertQuote>): Promise<Quote> {
+    const result = await this.db
+      .update(schema.quotes)
+      .set(updates)
+      .where(eq(schema.quotes.id, id))
+      .returning();
+    if (!result[0]) throw new Error("Quote not found");
+    return result[0];
+  }
+
+  // Only applies the update while the quote is still in the given status, so two requests
+  // racing on the same quote can't both move it on. Undefined when the status had changed.
+  async updateQuoteIfStatus(id: string, status: string, updates: Partial<InsertQuote>): Promise<Quote | undefined> {
+    const result = await this.db
+      .update(schema.quotes)
+      .set(updates)
+      .where(and(eq(schema.quotes.id, id), eq(schema.quotes.status, status)))
+      .returning();
+    return result[0];
+  }
 }
 
 export const storage = new DbStorage();
@@ -0,0 +1,206 @@
+import { format, parseISO } from "date-fns";
+
+// Editable customer and staff texts. Each template has a fixed set of {placeholders}; a body
+// that uses any other placeholder is rejected. Businesses edit the bodies in settings and every
+// save is kept as a version (see messageTemplates / messageTemplateVersions in schema.ts);
+// templates never edited use the default body below.
+
+export type TemplateVariableType = "text" | "url" | "money" | "date";
+
+export const templateVariables = {
+  name: { type: "text", label: "Customer name", sample: "Jamie Rivera" },
+  address: { type: "text", label: "Service address", sample: "123 Main St" },
+  phone: { type: "text", label: "Phone number", sample: "(775) 555-0142" },
+  businessName: { type: "text", label: "Business name", sample: "SillyDog Pooper Scooper" },
+  serviceDate: { type: "date", label: "Service date", sample: "2026-10-20" },
+  reviewUrl: { type: "url", label: "Review link", sample: "https://sillydog-app.onrender.com/review/abc123" },
+  invoiceNumber: { type: "text", label: "Invoice number", sample: "INV-1042" },
+  amount: { type: "money", label: "Amount", sample: "45" },
+  dueDate: { type: "date", label: "Due date", sample: "2026-11-01" },
+  invoiceUrl: { type: "url", label: "Invoice link", sample: "https://sillydog-app.onrender.com/api/invoices/abc/pdf" },
+  method: { type: "text", label: "Payment method", sample: "card" },
+  portalUrl: { type: "url", label: "Portal link", sample: "https://sillydog-app.onrender.com/portal/login" },
+  numberOfDogs: { type: "text", label: "Number of dogs", sample: "2" },
+  servicePlan: { type: "text", label: "Service plan", sample: "weekly" },
+} as const satisfies Record<string, { type: TemplateVariableType; label: string; sample: string }>;
+
+export type TemplateVariable = keyof typeof templateVariables;
+
+export interface TemplateDefinition {
+  name: string;
+  description: string;
+  variables: readonly TemplateVariable[];
+  defaultBody: string;
+}
+
+export const templateCatalog = {
+  on_my_way: {
+    name: "On My Way",
+    description: "Sent when you tap \"On My Way\" for a route",
+    variables: ["name", "address", "businessName"],
+    defaultBody: "Hi {name}! Your SillyDog technician is on the way to {address}. We'll be there shortly! 🐕",
+  },
+  service_complete: {
+    name: "Service Complete",
+    description: "Sent automatically when a service is marked complete",
+    variables: ["name", "address", "reviewUrl", "businessName"],
+    defaultBody: "Service complete at {address}! Your yard is all cleaned up. How did we do? Leave us a review: {reviewUrl}",
+  },
+  reminder: {
+    name: "Night-Before Reminder",
+    description: "Sent at 6 PM the day before service",
+    variables: ["name", "address", "serviceDate", "businessName"],
+    defaultBody: "Hi {name}! This is a reminder that SillyDog will be servicing your yard tomorrow ({serviceDate}). Thank you for choosing us!",
+  },
+  new_invoice: {
+    name: "New Invoice",
+    description: "Sent when an invoice is created and not paid by autopay",
+    variables: ["name", "invoiceNumber", "amount", "dueDate", "invoiceUrl", "businessName"],
+    defaultBody: "New invoice #{invoiceNumber} for {amount} is now available. Due date: {dueDate}. View it here: {invoiceUrl} Thank you!",
+  },
+  invoice_paid: {
+    name: "Invoice Paid",
+    description: "Receipt when an invoice is paid by card",
+    variables: ["name", "invoiceNumber", "amount", "businessName"],
+    defaultBody: "Payment received! Invoice #{invoiceNumber} for {amount} has been paid. Thank you!",
+  },
+  payment_received: {
+    name: "Payment Received",
+    description: "Receipt for a payment recorded on the account (card, check or cash)",
+    variables: ["name", "amount", "method", "businessName"],
+    defaultBody: "Payment of {amount} ({method}) received! Thank you for your payment. - {businessName}",
+  },
+  portal_invite: {
+    name: "Portal Invite",
+    description: "Invitation to a customer who hasn't set up the customer portal yet",
+    variables: ["name", "portalUrl", "businessName"],
+    defaultBody: "Hi {name}! You're invited to the SillyDog customer portal! Visit {portalUrl} to sign up. You'll be able to view your service schedule, pay invoices, and manage your account.",
+  },
+  portal_access: {
+    name: "Portal Link",
+    description: "Portal link for a customer who already has a portal account",
+    variables: ["name", "portalUrl", "businessName"],
+    defaultBody: "Hi {name}! Access your SillyDog customer portal anytime at {portalUrl}. Log in with your email address to view services, invoices, and manage your account.",
+  },
+  opt_in_invite: {
+    name: "SMS Opt-In Invitation",
+    description: "Asks a customer who hasn't opted in to reply START",
+    variables: ["name", "businessName"],
+    defaultBody: "Hi {name}! This is SillyDog Pooper Scooper Services. Reply START to receive service updates and reminders via text. Reply STOP anytime to opt out. Msg & data rates may apply.",
+  },
+  start_reply: {
+    name: "START Reply",
+    description: "Opt-in confirmation when a customer texts START or YES. Must match the carrier campaign.",
+    variables: ["businessName"],
+    defaultBody: "Thanks for subscribing to Silly Dog Pooper Scooper service notifications. You will receive appointment reminders, on-the-way alerts, and service updates. Message frequency may vary. Msg & data rates may apply. Consent is not a condition of service. Reply STOP to opt out, HELP for help.",
+  },
+  stop_reply: {
+    name: "STOP Reply",
+    description: "Opt-out confirmation when someone texts STOP or UNSUBSCRIBE. Must match the carrier campaign.",
+    variables: ["businessName"],
+    defaultBody: "Silly Dog Pooper Scooper: You are unsubscribed and will receive no further messages.",
+  },
+  help_reply: {
+    name: "HELP Reply",
+    description: "Sent when someone texts HELP. Must match the carrier campaign.",
+    variables: ["businessName"],
+    defaultBody: "Please contact us at https://sillydogpoopscoop.com or call/text 775-460-2666 for assistance.",
+  },
+  first_text_reply: {
+    name: "First Text Reply",
+    description: "Opt-in confirmation sent after a customer's first text",
+    variables: ["name", "businessName"],
+    defaultBody: "Thanks for texting Silly Dog Pooper Scooper! You will receive appointment reminders, on-the-way alerts, and service updates. Message frequency may vary. Msg & data rates may apply. Reply STOP to opt out, HELP for help.",
+  },
+  booking_alert: {
+    name: "New Booking Alert (staff)",
+    description: "Texted to the business number when a booking request comes in",
+    variables: ["name", "address", "numberOfDogs", "servicePlan", "phone"],
+    defaultBody: "NEW BOOKING REQUEST from {name}\n\nAddress: {address}\nDogs: {numberOfDogs}\nService: {servicePlan}\nPhone: {phone}\n\nView in admin dashboard to schedule.",
+  },
+} as const satisfies Record<string, TemplateDefinition>;
+
+export type MessageTemplateKey = keyof typeof templateCatalog;
+
+export const messageTemplateKeys = Object.keys(templateCatalog) as MessageTemplateKey[];
+
+export function isMessageTemplateKey(key: string): key is MessageTemplateKey {
+  return key in templateCatalog;
+}
+
+// The values a template can be rendered with; missing ones render empty
+export type TemplateValues<K extends MessageTemplateKey> = Partial<
+  Record<(typeof templateCatalog)[K]["variables"][number], string | number | null>
+>;
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// Placeholders used in a body, in order, without duplicates
+export function placeholdersIn(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER), match => match[1])));
+}
+
+// Placeholders in `body` that the template doesn't provide
+export function unknownPlaceholders(key: MessageTemplateKey, body: string): string[] {
+  const allowed: readonly string[] = templateCatalog[key].variables;
+  return placeholdersIn(body).filter(name => !allowed.includes(name));
+}
+
+function formatValue(variable: TemplateVariable, value: string | number): string {
+  switch (templateVariables[variable].type) {
+    case "money":
+      return `$${(typeof value === "number" ? value : parseFloat(value)).toFixed(2)}`;
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? format(parseISO(String(value)), "EEE, MMM d") : String(value);
+    default:
+      return String(value);
+  }
+}
+
+export function renderTemplate<K extends MessageTemplateKey>(key: K, body: string, values: TemplateValues<K>): string {
+  return body.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (!(templateCatalog[key].variables as readonly string[]).includes(name)) return placeholder;
+    const value = (values as Record<string, string | number | null | undefined>)[name];
+    return value === null || value === undefined || value === "" ? "" : formatValue(name as TemplateVariable, value);
+  });
+}
+
+// Sample values for previews
+export function sampleValues<K extends MessageTemplateKey>(key: K): TemplateValues<K> {
+  return Object.fromEntries(
+    templateCatalog[key].variables.map(variable => [variable, templateVariables[variable].sample])
+  ) as TemplateValues<K>;
+}
+
+// ---------- SMS segments ----------
+// Texts that only use the GSM-7 alphabet fit 160 characters in one segment (153 per segment
+// once split); anything else (emoji, curly quotes) is sent as UCS-2 at 70 (67 when split).
+
+const GSM_BASIC = "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM_EXTENDED = "\f^{}\\[~]|€"; // each takes two characters
+
+export interface SegmentCount {
+  encoding: "GSM-7" | "UCS-2";
+  characters: number; // as counted by the carrier
+  segments: number;
+}
+
+export function countSegments(text: string): SegmentCount {
+  let gsmLength = 0;
+  let gsm = true;
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) {
+      gsmLength += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      gsmLength += 2;
+    } else {
+      gsm = false;
+      break;
+    }
+  }
+  if (gsm) {
+    return { encoding: "GSM-7", characters: gsmLength, segments: gsmLength <= 160 ? (gsmLength === 0 ? 0 : 1) : Math.ceil(gsmLength / 153) };
+  }
+  const units = text.length; // UTF-16 code units
+  return { encoding: "UCS-2", characters: units, segments: units <= 70 ? 1 : Math.ceil(units / 67) };
+}
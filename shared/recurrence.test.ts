@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { expandOccurrences, nextOccurrences, occursOn, todayInTimeZone, type RecurrenceRule } from "./recurrence";
+
+// Run with TZ=America/Chicago (see the "test" script) so the DST cases cross a real
+// transition in the server's local timezone as well as the rule's.
+
+function rule(overrides: Partial<RecurrenceRule> & Pick<RecurrenceRule, "frequency">): RecurrenceRule {
+  return { byDay: [], dtStart: "2025-01-01", timezone: "America/Chicago", ...overrides };
+}
+
+describe("every N weeks", () => {
+  it("keeps a biweekly Monday across the start of DST", () => {
+    const biweekly = rule({ frequency: "biweekly", byDay: [1], dtStart: "2025-02-24" });
+    assert.deepEqual(expandOccurrences(biweekly, "2025-02-20", "2025-03-31"), ["2025-02-24", "2025-03-10", "2025-03-24"]);
+    assert.equal(occursOn(biweekly, "2025-03-17"), false);
+  });
+
+  it("keeps an every-3-weeks Thursday across the end of DST", () => {
+    const everyThree = rule({ frequency: "every-3-weeks", byDay: [4], dtStart: "2025-10-16" });
+    assert.deepEqual(expandOccurrences(everyThree, "2025-10-01", "2025-12-01"), ["2025-10-16", "2025-11-06", "2025-11-27"]);
+  });
+
+  it("lands every-4-weeks on the Sunday DST ends", () => {
+    const everyFour = rule({ frequency: "every-4-weeks", byDay: [0], dtStart: "2025-10-05" });
+    assert.deepEqual(nextOccurrences(everyFour, "2025-10-01", 3), ["2025-10-05", "2025-11-02", "2025-11-30"]);
+    assert.equal(occursOn(everyFour, "2025-11-09"), false);
+  });
+
+  it("anchors each weekday on its first occurrence on or after dtStart", () => {
+    const twoDays = rule({ frequency: "biweekly", byDay: [1, 4], dtStart: "2025-03-05" });
+    assert.deepEqual(expandOccurrences(twoDays, "2025-03-01", "2025-03-31"), ["2025-03-06", "2025-03-10", "2025-03-20", "2025-03-24"]);
+  });
+
+  it("has nothing before dtStart", () => {
+    const weekly = rule({ frequency: "weekly", byDay: [1], dtStart: "2025-03-10" });
+    assert.equal(occursOn(weekly, "2025-03-03"), false);
+    assert.deepEqual(expandOccurrences(weekly, "2025-03-01", "2025-03-16"), ["2025-03-10"]);
+  });
+});
+
+describe("monthly", () => {
+  it("finds the first weekday of each month", () => {
+    const firstThursday = rule({ frequency: "monthly", byDay: [4], bySetPos: 1, dtStart: "2025-04-01" });
+    assert.deepEqual(nextOccurrences(firstThursday, "2025-04-01", 3), ["2025-04-03", "2025-05-01", "2025-06-05"]);
+    assert.equal(occursOn(firstThursday, "2025-05-08"), false);
+  });
+
+  it("finds the last weekday when it is the month's final day", () => {
+    const lastWednesday = rule({ frequency: "monthly", byDay: [3], bySetPos: -1, dtStart: "2025-04-01" });
+    assert.deepEqual(nextOccurrences(lastWednesday, "2025-04-01", 3), ["2025-04-30", "2025-05-28", "2025-06-25"]);
+    assert.equal(occursOn(lastWednesday, "2025-04-23"), false);
+    assert.equal(occursOn(lastWednesday, "2025-12-31"), true);
+    assert.equal(occursOn(lastWednesday, "2025-12-24"), false);
+  });
+
+  it("handles February in leap and common years", () => {
+    const lastThursday = rule({ frequency: "monthly", byDay: [4], bySetPos: -1, dtStart: "2023-01-01" });
+    assert.deepEqual(expandOccurrences(lastThursday, "2023-02-01", "2023-02-28"), ["2023-02-23"]);
+    assert.deepEqual(expandOccurrences(lastThursday, "2024-02-01", "2024-02-29"), ["2024-02-29"]);
+    assert.equal(occursOn(lastThursday, "2024-02-22"), false);
+
+    const firstThursday = rule({ frequency: "monthly", byDay: [4], bySetPos: 1, dtStart: "2023-01-01" });
+    assert.deepEqual(expandOccurrences(firstThursday, "2024-02-01", "2024-02-29"), ["2024-02-01"]);
+    assert.deepEqual(expandOccurrences(firstThursday, "2023-02-01", "2023-02-28"), ["2023-02-02"]);
+  });
+
+  it("steps through 30- and 31-day months", () => {
+    const lastFriday = rule({ frequency: "monthly", byDay: [5], bySetPos: -1, dtStart: "2025-01-01" });
+    assert.deepEqual(nextOccurrences(lastFriday, "2025-01-01", 5), ["2025-01-31", "2025-02-28", "2025-03-28", "2025-04-25", "2025-05-30"]);
+  });
+
+  it("stops looking after maxDays", () => {
+    const lastFriday = rule({ frequency: "monthly", byDay: [5], bySetPos: -1, dtStart: "2025-01-01" });
+    assert.deepEqual(nextOccurrences(lastFriday, "2025-01-01", 5, 40), ["2025-01-31"]);
+  });
+});
+
+describe("specific dates", () => {
+  const dates = rule({
+    frequency: "specific-dates",
+    dtStart: "2025-05-01",
+    rDates: ["2025-06-10", "2025-05-01", "2025-06-10T00:00:00.000Z"],
+  });
+
+  it("sorts and de-duplicates the listed dates", () => {
+    assert.deepEqual(expandOccurrences(dates, "2025-01-01", "2025-12-31"), ["2025-05-01", "2025-06-10"]);
+    assert.deepEqual(expandOccurrences(dates, "2025-05-02", "2025-06-09"), []);
+  });
+
+  it("only occurs on the listed dates", () => {
+    assert.equal(occursOn(dates, "2025-06-10"), true);
+    assert.equal(occursOn(dates, "2025-06-11"), false);
+    assert.deepEqual(nextOccurrences(dates, "2025-05-02", 5), ["2025-06-10"]);
+  });
+});
+
+describe("todayInTimeZone", () => {
+  it("is still yesterday in Chicago just after midnight UTC", () => {
+    assert.equal(todayInTimeZone("America/Chicago", new Date("2025-01-15T05:30:00Z")), "2025-01-14");
+    assert.equal(todayInTimeZone("America/Chicago", new Date("2025-01-15T06:00:00Z")), "2025-01-15");
+    assert.equal(todayInTimeZone("UTC", new Date("2025-01-15T00:00:00Z")), "2025-01-15");
+  });
+
+  it("follows the daylight saving offset", () => {
+    assert.equal(todayInTimeZone("America/Chicago", new Date("2025-03-10T04:30:00Z")), "2025-03-09");
+    assert.equal(todayInTimeZone("America/Chicago", new Date("2025-03-10T05:30:00Z")), "2025-03-10");
+  });
+});
@@ -0,0 +1,231 @@
+import { formatInTimeZone } from "date-fns-tz";
+import type { BusinessClosure, ScheduleRule, scheduleFrequencies } from "./schema";
+
+// Schedule rules store calendar dates ("YYYY-MM-DD"), not instants. All date math
+// in this module is done on those calendar dates in UTC so that DST transitions
+// and the server's local timezone can never shift a service day.
+
+export const DEFAULT_TIMEZONE = "America/Chicago";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Frequencies that repeat every N weeks on the rule's byDay weekdays
+const WEEK_INTERVALS: Record<string, number> = {
+  weekly: 1,
+  biweekly: 2,
+  "every-3-weeks": 3,
+  "every-4-weeks": 4,
+};
+
+export type RecurrenceFrequency = typeof scheduleFrequencies[number];
+
+export type RecurrenceRule = Pick<ScheduleRule, "frequency" | "byDay" | "dtStart"> &
+  Partial<Pick<ScheduleRule, "timezone" | "bySetPos" | "rDates">>;
+
+// Normalize a stored date to "YYYY-MM-DD". Accepts plain dates and ISO timestamps
+// (older rows were saved as timestamps); the calendar date as written is kept.
+export function toDateString(value: string | Date): string {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid date: "${value}"`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function toUTCDate(date: string): Date {
+  const [year, month, day] = toDateString(date).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toUTCDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUTCDate(to).getTime() - toUTCDate(from).getTime()) / MS_PER_DAY);
+}
+
+// 0=Sunday ... 6=Saturday
+export function dayOfWeek(date: string): number {
+  return toUTCDate(date).getUTCDay();
+}
+
+// Current calendar date in the given timezone (e.g. the rule's timezone)
+export function todayInTimeZone(timezone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string {
+  return formatInTimeZone(now, timezone, "yyyy-MM-dd");
+}
+
+// Days in the month containing `date`
+function daysInMonth(date: string): number {
+  const d = toUTCDate(date);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+// Which occurrence of its weekday `date` is within its month: 1 = first, 2 = second, ...
+function weekdayPositionInMonth(date: string): number {
+  return Math.floor((toUTCDate(date).getUTCDate() - 1) / 7) + 1;
+}
+
+function isLastWeekdayOfMonth(date: string): boolean {
+  return toUTCDate(date).getUTCDate() + 7 > daysInMonth(date);
+}
+
+// First date on or after `from` that falls on `weekday`
+function nextWeekdayOnOrAfter(from: string, weekday: number): string {
+  const offset = (weekday - dayOfWeek(from) + 7) % 7;
+  return addDays(from, offset);
+}
+
+export function isRecurring(rule: RecurrenceRule): boolean {
+  return rule.frequency !== "one-time" && rule.frequency !== "new-start";
+}
+
+// Does the rule produce a service visit on `date`?
+export function occursOn(rule: RecurrenceRule, date: string): boolean {
+  const target = toDateString(date);
+  const start = toDateString(rule.dtStart);
+
+  if (rule.frequency === "one-time" || rule.frequency === "new-start") {
+    return target === start;
+  }
+
+  if (rule.frequency === "specific-dates") {
+    return (rule.rDates || []).some(d => toDateString(d) === target);
+  }
+
+  if (target < start) return false;
+
+  const weekday = dayOfWeek(target);
+  if (!rule.byDay || !rule.byDay.includes(weekday)) return false;
+
+  const intervalWeeks = WEEK_INTERVALS[rule.frequency];
+  if (intervalWeeks) {
+    // Each selected weekday is anchored on its first occurrence on or after dtStart
+    // and repeats every `intervalWeeks` weeks from there.
+    const firstOccurrence = nextWeekdayOnOrAfter(start, weekday);
+    const daysFromFirst = daysBetween(firstOccurrence, target);
+    return daysFromFirst >= 0 && daysFromFirst % (intervalWeeks * 7) === 0;
+  }
+
+  if (rule.frequency === "monthly") {
+    // e.g. bySetPos=1 with byDay=[2] is "first Tuesday"; bySetPos=-1 is "last"
+    const setPos = rule.bySetPos ?? 1;
+    if (setPos === -1) return isLastWeekdayOfMonth(target);
+    return weekdayPositionInMonth(target) === setPos;
+  }
+
+  return false;
+}
+
+// Expand a rule into its occurrences within [rangeStart, rangeEnd] (inclusive)
+export function expandOccurrences(rule: RecurrenceRule, rangeStart: string, rangeEnd: string): string[] {
+  const from = toDateString(rangeStart);
+  const to = toDateString(rangeEnd);
+  if (to < from) return [];
+
+  if (rule.frequency === "specific-dates") {
+    const dates = (rule.rDates || []).map(toDateString).filter(d => d >= from && d <= to);
+    return Array.from(new Set(dates)).sort();
+  }
+
+  if (!isRecurring(rule)) {
+    const start = toDateString(rule.dtStart);
+    return start >= from && start <= to ? [start] : [];
+  }
+
+  const occurrences: string[] = [];
+  const start = toDateString(rule.dtStart);
+  let current = start > from ? start : from;
+  while (current <= to) {
+    if (occursOn(rule, current)) {
+      occurrences.push(current);
+    }
+    current = addDays(current, 1);
+  }
+  return occurrences;
+}
+
+// Next `count` occurrences on or after `from`, looking ahead at most `maxDays`
+export function nextOccurrences(rule: RecurrenceRule, from: string, count: number, maxDays: number = 400): string[] {
+  const occurrences: string[] = [];
+  let current = toDateString(from);
+  for (let i = 0; i < maxDays && occurrences.length < count; i++) {
+    if (occursOn(rule, current)) {
+      occurrences.push(current);
+    }
+    current = addDays(current, 1);
+  }
+  return occurrences;
+}
+
+// Human-readable summary, e.g. "Every 3 weeks on Mon, Thu" or "First Tuesday of each month"
+export function describeRule(rule: RecurrenceRule): string {
+  const shortDays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const longDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  const days = (rule.byDay || []).map(d => shortDays[d]).join(", ");
+
+  switch (rule.frequency) {
+    case "weekly":
+      return `Weekly on ${days}`;
+    case "biweekly":
+      return `Every other week on ${days}`;
+    case "every-3-weeks":
+      return `Every 3 weeks on ${days}`;
+    case "every-4-weeks":
+      return `Every 4 weeks on ${days}`;
+    case "monthly": {
+      const positions: Record<number, string> = { 1: "First", 2: "Second", 3: "Third", 4: "Fourth", 5: "Fifth", [-1]: "Last" };
+      const setPos = rule.bySetPos ?? 1;
+      const weekdays = (rule.byDay || []).map(d => longDays[d]).join("/");
+      return `${positions[setPos] || "First"} ${weekdays} of each month`;
+    }
+    case "specific-dates":
+      return `On ${(rule.rDates || []).length} specific date(s)`;
+    default:
+      return `One-time on ${toDateString(rule.dtStart)}`;
+  }
+}
+
+// ========== BUSINESS CLOSURES ==========
+
+// Days a visit can be shifted onto (Mon-Fri)
+export const BUSINESS_DAYS = [1, 2, 3, 4, 5];
+
+export interface ClosureResolution {
+  date: string; // Date the visit should happen on (unchanged for 'skip')
+  closure: BusinessClosure | null; // Closure that affected the visit, if any
+  skip: boolean; // True if the visit should be recorded as skipped
+}
+
+function isOpenBusinessDay(date: string, closures: BusinessClosure[]): boolean {
+  return BUSINESS_DAYS.includes(dayOfWeek(date)) && !closures.some(c => c.date === date);
+}
+
+// Apply the closure calendar to a service date
+export function resolveClosure(date: string, closures: BusinessClosure[]): ClosureResolution {
+  const target = toDateString(date);
+  const closure = closures.find(c => c.date === target);
+  if (!closure) {
+    return { date: target, closure: null, skip: false };
+  }
+
+  if (closure.policy === "skip") {
+    return { date: target, closure, skip: true };
+  }
+
+  // Walk forward/back to the nearest open business day (two weeks at most)
+  const step = closure.policy === "previous_day" ? -1 : 1;
+  let candidate = addDays(target, step);
+  for (let i = 0; i < 14; i++) {
+    if (isOpenBusinessDay(candidate, closures)) {
+      return { date: candidate, closure, skip: false };
+    }
+    candidate = addDays(candidate, step);
+  }
+  return { date: target, closure, skip: true };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -22,7 +22,7 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: text("role").notNull().default("staff"), // 'admin', 'staff', 'customer'
+  role: text("role").notNull().default("staff"), // 'admin', 'staff', 'technician', 'customer'
   customerId: varchar("customer_id"), // Link to customers table for customer accounts
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -63,13 +63,48 @@ export const customers = pgTable("customers", {
   lat: decimal("lat", { precision: 10, scale: 7 }), // Latitude for geocoding
   lng: decimal("lng", { precision: 10, scale: 7 }), // Longitude for geocoding
   smsOptIn: boolean("sms_opt_in").notNull().default(true), // SMS reminder opt-in
+  notificationChannel: text("notification_channel").notNull().default("sms"), // see notificationChannels
   preferredDays: integer("preferred_days").array(), // Preferred service days (0=Sun, 1=Mon, etc.) - synced with schedule
+  billingPlan: text("billing_plan").notNull().default("per_visit"), // see billingPlans
+  billingTiming: text("billing_timing").notNull().default("arrears"), // see billingTimings
+  planPrice: decimal("plan_price", { precision: 10, scale: 2 }), // Flat monthly price, or the price of one package
+  packageVisits: integer("package_visits"), // Visits in one prepaid package
+  packageStartDate: text("package_start_date"), // YYYY-MM-DD; visits from this date on draw on prepaid packages
+  referralCode: text("referral_code").unique(), // Given out to refer friends; generated the first time it's shown
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // Free-form labels, e.g. for announcement segments
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// How a customer is billed each month:
+// per_visit - the service type's price for each completed visit
+// flat_monthly - planPrice per month however many visits there were
+// prepaid_package - packageVisits visits bought up front for planPrice; a new package is
+//   billed when the visits run out
+export const billingPlans = ["per_visit", "flat_monthly", "prepaid_package"] as const;
+export type BillingPlan = (typeof billingPlans)[number];
+
+// arrears - a month's billing run bills that month's service; a new prepaid package is
+//   billed once visits have been used beyond the last one
+// advance - a month's billing run bills next month's flat fee; a new prepaid package is
+//   billed as soon as the last prepaid visit is used
+export const billingTimings = ["arrears", "advance"] as const;
+export type BillingTiming = (typeof billingTimings)[number];
+
+// How a customer gets reminders, service updates, invoices and receipts. A customer on "sms"
+// who can't be texted (no opt-in or no phone) gets email instead, when they have an address.
+export const notificationChannels = ["sms", "email", "both"] as const;
+export type NotificationChannel = (typeof notificationChannels)[number];
+
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
   createdAt: true,
+}).extend({
+  notificationChannel: z.enum(notificationChannels).optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).transform(tags => Array.from(new Set(tags))).optional(),
+  billingPlan: z.enum(billingPlans).optional(),
+  billingTiming: z.enum(billingTimings).optional(),
+  planPrice: z.coerce.number().positive("Plan price must be greater than zero").max(100000).transform(price => price.toFixed(2)).nullable().optional(),
+  packageVisits: z.coerce.number().int().min(1, "A package needs at least one visit").max(1000).nullable().optional(),
 });
 
 export type Customer = typeof customers.$inferSelect;
@@ -81,6 +116,7 @@ export const routes = pgTable("routes", {
   date: text("date").notNull(), // YYYY-MM-DD format
   customerId: varchar("customer_id").notNull(),
   scheduleRuleId: varchar("schedule_rule_id").references(() => scheduleRules.id, { onDelete: "set null" }), // Links route to the schedule that created it (null for manual routes)
+  technicianId: varchar("technician_id").references(() => users.id, { onDelete: "set null" }), // Assigned technician (null = unassigned)
   scheduledTime: text("scheduled_time"), // HH:MM format
   status: text("status").notNull().default("scheduled"), // 'scheduled', 'in_route', 'completed', 'skipped'
   orderIndex: integer("order_index").notNull().default(0),
@@ -92,11 +128,12 @@ export const routes = pgTable("routes", {
   billable: boolean("billable").notNull().default(true), // If false, don't include in invoices
   skippedAt: timestamp("skipped_at"), // When route was skipped
   skippedBy: varchar("skipped_by"), // User ID who skipped
-  skipReason: text("skip_reason"), // 'customer_request', 'weather', 'no_access', 'vacation', 'other'
+  skipReason: text("skip_reason"), // 'customer_request', 'weather', 'no_access', 'vacation', 'holiday', 'other'
   skipNotes: text("skip_notes"), // Optional additional notes
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   scheduleRuleIdx: index("routes_schedule_rule_idx").on(table.scheduleRuleId),
+  technicianDateIdx: index("routes_technician_date_idx").on(table.technicianId, table.date),
 }));
 
 export const insertRouteSchema = createInsertSchema(routes).omit({
@@ -114,23 +151,186 @@ export const invoices = pgTable("invoices", {
   customerId: varchar("customer_id").notNull(),
   invoiceNumber: text("invoice_number").notNull().unique(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("unpaid"), // 'unpaid', 'paid', 'overdue'
+  status: text("status").notNull().default("unpaid"), // 'unpaid', 'partial', 'paid', 'overdue', 'void'
   dueDate: text("due_date").notNull(), // YYYY-MM-DD format
   paidAt: timestamp("paid_at"),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
   description: text("description"),
+  billingPeriod: text("billing_period"), // YYYY-MM for invoices from the monthly billing run
+  voidedAt: timestamp("voided_at"),
+  voidedBy: varchar("voided_by"), // User ID
+  voidReason: text("void_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // A customer is billed at most once per period, however many times the run is repeated.
+  // Voided invoices don't count, so the period can be billed again after a void.
+  customerPeriodIdx: uniqueIndex("invoices_customer_period_idx")
+    .on(table.customerId, table.billingPeriod)
+    .where(sql`${table.status} <> 'void'`),
+}));
 
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   id: true,
   createdAt: true,
   paidAt: true,
+  voidedAt: true,
+  voidedBy: true,
+  voidReason: true,
 });
 
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
+// Invoice Line Items - the invoice amount is the sum of its lines
+// Credits and discounts are stored as negative amounts
+// A "package" line's quantity is the number of prepaid visits it bought. "tax" lines are
+// derived from the taxable lines whenever the invoice's lines change (one per tax rate).
+export const invoiceLineItemKinds = ["service", "timed_service", "addon", "package", "credit", "discount", "fee", "late_fee", "other", "tax"] as const;
+export type InvoiceLineItemKind = (typeof invoiceLineItemKinds)[number];
+
+export const invoiceLineItems = pgTable("invoice_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().default("other"), // see invoiceLineItemKinds
+  description: text("description").notNull(),
+  serviceDate: text("service_date"), // YYYY-MM-DD for visit lines
+  routeId: varchar("route_id"), // Visit this line bills for
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // quantity × unitPrice, negative for credits/discounts
+  taxable: boolean("taxable").notNull().default(false), // Counts toward the invoice's sales tax
+  promoRedemptionId: varchar("promo_redemption_id"), // Discount line: the promotion it used
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index("invoice_line_items_invoice_idx").on(table.invoiceId),
+}));
+
+export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems, {
+  kind: z.enum(invoiceLineItemKinds),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
+
+// What the API returns for an invoice: the invoice with its lines
+export type InvoiceWithLineItems = Invoice & { lineItems: InvoiceLineItem[] };
+
+// A line entered by staff; the server works out the amount (and its sign)
+export const invoiceLineInputSchema = z.object({
+  kind: z.enum(invoiceLineItemKinds).default("other"),
+  description: z.string().trim().min(1, "Description is required"),
+  serviceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero").default(1),
+  unitPrice: z.coerce.number().nonnegative("Enter a positive price; credits and discounts are subtracted automatically"),
+  taxable: z.boolean().optional(),
+}).refine(line => line.kind !== "tax", {
+  message: "Sales tax is calculated from the taxable lines",
+  path: ["kind"],
+});
+
+export type InvoiceLineInput = z.infer<typeof invoiceLineInputSchema>;
+
+// Monthly billing runs
+export const billingRunStatuses = ["running", "completed", "completed_with_errors", "failed"] as const;
+export type BillingRunStatus = typeof billingRunStatuses[number];
+
+export const billingRunTriggers = ["scheduled", "manual", "retry"] as const;
+export type BillingRunTrigger = typeof billingRunTriggers[number];
+
+// What happened to one customer in a run. 'existing' means the period was already invoiced.
+export const billingOutcomeStatuses = ["invoiced", "existing", "skipped", "failed", "preview"] as const;
+export type BillingOutcomeStatus = typeof billingOutcomeStatuses[number];
+
+export const billingRunOutcomeSchema = z.object({
+  customerId: z.string(),
+  customerName: z.string(),
+  status: z.enum(billingOutcomeStatuses),
+  invoiceId: z.string().nullable().optional(),
+  amount: z.string().nullable().optional(),
+  visits: z.number().int().optional(),
+  charged: z.boolean().optional(),
+  message: z.string().nullable().optional(),
+});
+
+export type BillingRunOutcome = z.infer<typeof billingRunOutcomeSchema>;
+
+export const billingRuns = pgTable("billing_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  period: text("period").notNull(), // YYYY-MM
+  status: text("status").notNull().default("running"), // see billingRunStatuses
+  trigger: text("trigger").notNull().default("manual"), // see billingRunTriggers
+  triggeredBy: varchar("triggered_by"), // User who started a manual run or retry
+  retryOfRunId: varchar("retry_of_run_id"),
+  invoicedCount: integer("invoiced_count").notNull().default(0),
+  existingCount: integer("existing_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  chargedCount: integer("charged_count").notNull().default(0),
+  outcomes: jsonb("outcomes").$type<BillingRunOutcome[]>().notNull().default([]),
+  errors: jsonb("errors").$type<string[]>().notNull().default([]), // Run-level problems and warnings
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  periodIdx: index("billing_runs_period_idx").on(table.period),
+}));
+
+export const insertBillingRunSchema = createInsertSchema(billingRuns, {
+  status: z.enum(billingRunStatuses),
+  trigger: z.enum(billingRunTriggers),
+  outcomes: z.array(billingRunOutcomeSchema),
+  errors: z.array(z.string()),
+}).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type BillingRun = typeof billingRuns.$inferSelect;
+export type InsertBillingRun = z.infer<typeof insertBillingRunSchema>;
+
+// Dunning - follow-up on invoices whose autopay charge failed
+export const dunningStatuses = ["active", "recovered", "exhausted", "cancelled"] as const;
+export type DunningStatus = typeof dunningStatuses[number];
+
+export const dunningAttemptSchema = z.object({
+  at: z.string(), // ISO timestamp
+  succeeded: z.boolean(),
+  message: z.string().nullable(),
+});
+
+export type DunningAttempt = z.infer<typeof dunningAttemptSchema>;
+
+export const dunningCases = pgTable("dunning_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull(),
+  status: text("status").notNull().default("active"), // see dunningStatuses
+  failureCount: integer("failure_count").notNull().default(1), // Failed charges so far, including the original
+  nextRetryDate: text("next_retry_date"), // YYYY-MM-DD, null once the case is closed
+  lastError: text("last_error"),
+  attempts: jsonb("attempts").$type<DunningAttempt[]>().notNull().default([]),
+  schedulePaused: boolean("schedule_paused").notNull().default(false), // We paused the customer's schedules after the final failure
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  invoiceIdx: uniqueIndex("dunning_cases_invoice_idx").on(table.invoiceId),
+  statusRetryIdx: index("dunning_cases_status_retry_idx").on(table.status, table.nextRetryDate),
+}));
+
+export const insertDunningCaseSchema = createInsertSchema(dunningCases, {
+  status: z.enum(dunningStatuses),
+  attempts: z.array(dunningAttemptSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type DunningCase = typeof dunningCases.$inferSelect;
+export type InsertDunningCase = z.infer<typeof insertDunningCaseSchema>;
+
 // Job History
 export const jobHistory = pgTable("job_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -140,10 +340,22 @@ export const jobHistory = pgTable("job_history", {
   duration: integer("duration"), // in minutes
   calculatedCost: decimal("calculated_cost", { precision: 10, scale: 2 }), // For timer-based billing
   notes: text("notes"),
-  photoBefore: text("photo_before"), // base64 encoded image
-  photoAfter: text("photo_after"), // base64 encoded image
+  photoBefore: text("photo_before"), // Legacy base64 image - new photos go to jobPhotos (`npm run photos:migrate` moves old ones)
+  photoAfter: text("photo_after"), // Legacy base64 image - see photoBefore
   smsInRouteSent: boolean("sms_in_route_sent").notNull().default(false),
   smsCompleteSent: boolean("sms_complete_sent").notNull().default(false),
+  // Proof of service: device location when the tech started and completed the visit
+  checkInLat: decimal("check_in_lat", { precision: 10, scale: 7 }),
+  checkInLng: decimal("check_in_lng", { precision: 10, scale: 7 }),
+  checkInAccuracy: integer("check_in_accuracy"), // meters, as reported by the device
+  checkInDistanceFeet: integer("check_in_distance_feet"), // from the customer's geocoded address
+  checkOutLat: decimal("check_out_lat", { precision: 10, scale: 7 }),
+  checkOutLng: decimal("check_out_lng", { precision: 10, scale: 7 }),
+  checkOutAccuracy: integer("check_out_accuracy"),
+  checkOutDistanceFeet: integer("check_out_distance_feet"),
+  locationFlag: text("location_flag"), // null = verified, 'too_far', 'low_accuracy', 'no_location', 'no_customer_location'
+  locationReviewedAt: timestamp("location_reviewed_at"),
+  locationReviewedBy: varchar("location_reviewed_by"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -155,18 +367,72 @@ export const insertJobHistorySchema = createInsertSchema(jobHistory).omit({
 export type JobHistory = typeof jobHistory.$inferSelect;
 export type InsertJobHistory = z.infer<typeof insertJobHistorySchema>;
 
-// Messages
+// Job Photos - image files live in the photo store (local disk or S3), not in the database
+export const jobPhotoKinds = ["before", "after", "other"] as const;
+export type JobPhotoKind = (typeof jobPhotoKinds)[number];
+
+export const jobPhotos = pgTable("job_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobHistoryId: varchar("job_history_id").notNull().references(() => jobHistory.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().default("other"), // 'before', 'after', 'other'
+  caption: text("caption"),
+  storageKey: text("storage_key").notNull(), // Resized image in the photo store
+  thumbnailKey: text("thumbnail_key").notNull(),
+  contentType: text("content_type").notNull().default("image/jpeg"),
+  width: integer("width"),
+  height: integer("height"),
+  sizeBytes: integer("size_bytes"),
+  uploadedBy: varchar("uploaded_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  jobHistoryIdx: index("job_photos_job_history_idx").on(table.jobHistoryId),
+}));
+
+export const insertJobPhotoSchema = createInsertSchema(jobPhotos, {
+  kind: z.enum(jobPhotoKinds),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type JobPhoto = typeof jobPhotos.$inferSelect;
+export type InsertJobPhoto = z.infer<typeof insertJobPhotoSchema>;
+
+// What clients get for a photo: authenticated URLs instead of image data
+export interface JobPhotoLink {
+  id: string;
+  kind: string;
+  caption: string | null;
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Messages - every text sent or received. Outbound texts go through server/services/messaging.ts;
+// texts to staff or to people who aren't customers yet have no customerId.
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  customerId: varchar("customer_id").notNull(),
+  customerId: varchar("customer_id"),
+  phone: text("phone"), // The other end, E.164
   direction: text("direction").notNull(), // 'inbound', 'outbound'
   messageText: text("message_text").notNull(),
-  status: text("status").notNull().default("sent"), // 'sent', 'delivered', 'failed'
-  externalMessageId: text("external_message_id"), // Telnyx message ID for tracking delivery status
+  status: text("status").notNull().default("sent"), // 'queued', 'sent', 'delivered', 'failed', 'skipped' (opted out while queued)
+  provider: text("provider"), // see smsProviders
+  externalMessageId: text("external_message_id"), // Provider message ID for tracking delivery status
+  errorMessage: text("error_message"),
+  sendAfter: timestamp("send_after"), // Queued during quiet hours until this time
+  skipOptIn: boolean("skip_opt_in").notNull().default(false), // Sent without SMS opt-in (see SmsOptions.skipOptIn)
   readAt: timestamp("read_at"), // When admin read the inbound message (null = unread)
   sentAt: timestamp("sent_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  queuedIdx: index("messages_status_send_after_idx").on(table.status, table.sendAfter),
+  phoneIdx: index("messages_phone_idx").on(table.phone),
+  // Full-text search in the inbox
+  textSearchIdx: index("messages_text_search_idx").using("gin", sql`to_tsvector('english', ${table.messageText})`),
+}));
+
+export const smsProviders = ["telnyx", "twilio", "outbox"] as const;
+export type SmsProviderName = (typeof smsProviders)[number];
 
 export const insertMessageSchema = createInsertSchema(messages)
   .omit({
@@ -183,13 +449,127 @@ export const insertMessageSchema = createInsertSchema(messages)
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+// Conversations - inbox state for a thread: a customer's texts, or a lead's (a number that
+// isn't a customer yet; its texts are the messages with that phone and no customerId).
+// Customer threads get a row the first time they're opened or texted in.
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").unique().references(() => customers.id, { onDelete: "cascade" }), // null for leads
+  phone: text("phone").notNull(), // E.164
+  name: text("name"), // What staff call a lead until it's converted
+  status: text("status").notNull().default("open"), // see conversationStatuses
+  assignedTo: varchar("assigned_to").references(() => users.id, { onDelete: "set null" }),
+  bookingRequestId: varchar("booking_request_id").references(() => bookingRequests.id, { onDelete: "set null" }), // A lead turned into a booking
+  smsOptIn: boolean("sms_opt_in").notNull().default(true), // Leads only: false after they text STOP (customers use customers.smsOptIn)
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  phoneIdx: index("conversations_phone_idx").on(table.phone),
+}));
+
+export const conversationStatuses = ["open", "closed"] as const;
+export type ConversationStatus = (typeof conversationStatuses)[number];
+
+export const updateConversationSchema = z.object({
+  status: z.enum(conversationStatuses).optional(),
+  assignedTo: z.string().nullable().optional(),
+  name: z.string().trim().max(100).nullable().optional(),
+});
+
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = typeof conversations.$inferInsert;
+
+// Turning a lead's thread into a customer or a booking request; the phone is the lead's
+const leadDetailsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  address: z.string().trim().min(1, "Address is required"),
+  email: z.string().trim().email("Please enter a valid email address").or(z.literal("")).optional(),
+  numberOfDogs: z.coerce.number().int().min(1).max(20).default(1),
+  yardNotes: z.string().trim().optional(),
+});
+
+export const leadCustomerSchema = leadDetailsSchema.extend({
+  serviceTypeId: z.string().min(1, "Service type is required"),
+});
+
+export const leadBookingSchema = leadDetailsSchema.extend({
+  preferredServicePlan: z.enum(["weekly", "biweekly", "one-time"]).optional(),
+});
+
+export type LeadCustomer = z.infer<typeof leadCustomerSchema>;
+export type LeadBooking = z.infer<typeof leadBookingSchema>;
+
+// Canned replies - saved texts staff can drop into a conversation
+export const cannedReplies = pgTable("canned_replies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCannedReplySchema = createInsertSchema(cannedReplies).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required").max(60),
+  body: z.string().trim().min(1, "Reply text is required").max(1600),
+});
+
+export type CannedReply = typeof cannedReplies.$inferSelect;
+export type InsertCannedReply = z.infer<typeof insertCannedReplySchema>;
+
+// Message templates - the current body of each edited template (keys and placeholders are in
+// shared/messageTemplates.ts). Templates without a row use the default body.
+export const messageTemplates = pgTable("message_templates", {
+  key: text("key").primaryKey(), // see templateCatalog
+  body: text("body").notNull(),
+  version: integer("version").notNull().default(1),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Every saved body, oldest first
+export const messageTemplateVersions = pgTable("message_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateKey: text("template_key").notNull(),
+  version: integer("version").notNull(),
+  body: text("body").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  templateVersionIdx: uniqueIndex("message_template_versions_key_version_idx").on(table.templateKey, table.version),
+}));
+
+export const messageTemplateBodySchema = z.object({
+  body: z.string().trim().min(1, "Message can't be empty").max(1600, "Message is too long"),
+});
+
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type MessageTemplateVersion = typeof messageTemplateVersions.$inferSelect;
+
 // Schedule Rules (Recurring Scheduling)
+// Occurrences are expanded by shared/recurrence.ts
+export const scheduleFrequencies = [
+  "weekly",
+  "biweekly",
+  "every-3-weeks",
+  "every-4-weeks",
+  "monthly",
+  "specific-dates",
+  "one-time",
+  "new-start",
+] as const;
+
 export const scheduleRules = pgTable("schedule_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerId: varchar("customer_id").notNull(),
   serviceTypeId: varchar("service_type_id"), // Link to service_types table (price book)
-  frequency: text("frequency").notNull(), // 'weekly', 'biweekly', 'one-time', 'new-start'
+  frequency: text("frequency").notNull(), // 'weekly', 'biweekly', 'every-3-weeks', 'every-4-weeks', 'monthly', 'specific-dates', 'one-time', 'new-start'
   byDay: integer("by_day").array().notNull(), // Array of days: [1, 3, 5] for Mon/Wed/Fri
+  bySetPos: integer("by_set_pos"), // Monthly only: which weekday of the month (1-5, or -1 for last) - e.g. 1 + byDay [2] = first Tuesday
+  rDates: text("r_dates").array(), // Specific-dates only: YYYY-MM-DD service dates
   dtStart: text("dt_start").notNull(), // YYYY-MM-DD format - first service date
   windowStart: text("window_start").notNull(), // HH:MM format
   windowEnd: text("window_end").notNull(), // HH:MM format
@@ -203,11 +583,54 @@ export const scheduleRules = pgTable("schedule_rules", {
 export const insertScheduleRuleSchema = createInsertSchema(scheduleRules).omit({
   id: true,
   createdAt: true,
+}).extend({
+  frequency: z.enum(scheduleFrequencies),
+  bySetPos: z.number().int().min(-1).max(5).refine(n => n !== 0, "Must be 1-5 or -1 (last)").nullable().optional(),
+  rDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")).nullable().optional(),
 });
 
 export type ScheduleRule = typeof scheduleRules.$inferSelect;
 export type InsertScheduleRule = z.infer<typeof insertScheduleRuleSchema>;
 
+// Schedule Exceptions - vacation holds / date-range pauses for a customer's service
+export const scheduleExceptions = pgTable("schedule_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull(),
+  scheduleRuleId: varchar("schedule_rule_id").references(() => scheduleRules.id, { onDelete: "cascade" }), // Null = applies to all of the customer's schedules
+  startDate: text("start_date").notNull(), // YYYY-MM-DD format - first day on hold
+  endDate: text("end_date").notNull(), // YYYY-MM-DD format - last day on hold (service resumes the day after)
+  reason: text("reason").notNull().default("vacation"), // 'vacation', 'customer_request', 'other'
+  notes: text("notes"),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'cancelled'
+  requestedBy: text("requested_by").notNull().default("staff"), // 'staff', 'customer'
+  reviewedBy: varchar("reviewed_by"), // User ID who approved/rejected
+  reviewedAt: timestamp("reviewed_at"),
+  routesSkipped: integer("routes_skipped").notNull().default(0), // Existing routes auto-skipped when approved
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("schedule_exceptions_customer_idx").on(table.customerId),
+}));
+
+export const insertScheduleExceptionSchema = createInsertSchema(scheduleExceptions).omit({
+  id: true,
+  createdAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  routesSkipped: true,
+}).extend({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be YYYY-MM-DD"),
+  reason: z.enum(["vacation", "customer_request", "other"]).optional(),
+  status: z.enum(["pending", "approved", "rejected", "cancelled"]).optional(),
+  requestedBy: z.enum(["staff", "customer"]).optional(),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "End date must be on or after start date",
+  path: ["endDate"],
+});
+
+export type ScheduleException = typeof scheduleExceptions.$inferSelect;
+export type InsertScheduleException = z.infer<typeof insertScheduleExceptionSchema>;
+
 // Service Plan Pricing
 export const pricingRates = {
   weekly: {
@@ -253,6 +676,7 @@ export const serviceTypes = pgTable("service_types", {
   basePrice: decimal("base_price", { precision: 10, scale: 2 }).notNull(), // Base price for 1 dog OR hourly rate
   pricePerExtraDog: decimal("price_per_extra_dog", { precision: 10, scale: 2 }).notNull(), // Additional cost per dog
   isHourly: boolean("is_hourly").notNull().default(false), // True if this is an hourly service
+  taxable: boolean("taxable").notNull().default(false), // Sales tax applies to visits, monthly fees and packages
   active: boolean("active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -300,6 +724,11 @@ export const bookingRequests = pgTable("booking_requests", {
   numberOfDogs: integer("number_of_dogs").notNull().default(1),
   yardNotes: text("yard_notes"),
   preferredServicePlan: text("preferred_service_plan"), // 'weekly', 'biweekly', 'one-time'
+  promoCode: text("promo_code"), // Promo or referral code, redeemed when the booking is accepted
+  // Self-scheduling: the open day picked on the booking form; the visit recurs on its weekday
+  requestedStartDate: text("requested_start_date"), // YYYY-MM-DD
+  stripeCustomerId: text("stripe_customer_id"), // Card saved with the booking (SetupIntent)
+  stripePaymentMethodId: text("stripe_payment_method_id"),
   smsOptIn: boolean("sms_opt_in").notNull().default(false), // Customer consent to receive SMS notifications
   status: text("status").notNull().default("pending"), // 'pending', 'accepted', 'rejected'
   customerId: varchar("customer_id"), // Linked customer if converted
@@ -316,15 +745,76 @@ export const insertBookingRequestSchema = createInsertSchema(bookingRequests).om
   customerId: true,
   adminNotes: true,
   status: true,
+  stripeCustomerId: true,
+  stripePaymentMethodId: true,
 }).extend({
   phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, "Please enter a valid phone number"),
   email: z.string().email("Please enter a valid email address"),
   smsOptIn: z.boolean().optional().default(false), // Optional - consent not required for service
+  promoCode: z.string().trim().max(30).nullable().optional(),
+  requestedStartDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
 });
 
 export type BookingRequest = typeof bookingRequests.$inferSelect;
 export type InsertBookingRequest = z.infer<typeof insertBookingRequestSchema>;
 
+// Quotes - built by staff from the price book for a booking request and sent to the
+// customer as a public link (/quote/:token). Accepting it creates the customer, their
+// schedule rule and first visits; a cleanup price is invoiced against the first visit in
+// place of its regular price.
+export const quoteStatuses = ["draft", "sent", "accepted", "declined", "expired"] as const;
+export type QuoteStatus = (typeof quoteStatuses)[number];
+
+export const quoteFrequencies = ["weekly", "biweekly", "every-3-weeks", "every-4-weeks", "monthly", "one-time"] as const;
+export type QuoteFrequency = (typeof quoteFrequencies)[number];
+
+export const quotes = pgTable("quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingRequestId: varchar("booking_request_id").notNull().references(() => bookingRequests.id, { onDelete: "cascade" }),
+  token: varchar("token").notNull().unique(), // For the public accept link
+  serviceTypeId: varchar("service_type_id").notNull(),
+  frequency: text("frequency").notNull(), // see quoteFrequencies
+  serviceDays: integer("service_days").array().notNull(), // 0=Sun ... 6=Sat, best-fit days by default
+  pricePerVisit: decimal("price_per_visit", { precision: 10, scale: 2 }).notNull(), // The service type's price when quoted
+  cleanupPrice: decimal("cleanup_price", { precision: 10, scale: 2 }), // First visit, if it needs an initial cleanup
+  addons: text("addons").array(), // settings.serviceAddons keys, billed per visit
+  notes: text("notes"), // Shown to the customer
+  status: text("status").notNull().default("draft"), // see quoteStatuses
+  expiresOn: text("expires_on").notNull(), // YYYY-MM-DD, the last day it can be accepted
+  sentAt: timestamp("sent_at"),
+  respondedAt: timestamp("responded_at"), // Accepted or declined
+  customerId: varchar("customer_id"), // Created on acceptance
+  scheduleRuleId: varchar("schedule_rule_id"), // Created on acceptance
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  bookingRequestIdx: index("quotes_booking_request_idx").on(table.bookingRequestId),
+}));
+
+export const insertQuoteSchema = createInsertSchema(quotes, {
+  frequency: z.enum(quoteFrequencies),
+  status: z.enum(quoteStatuses),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What staff enter for a quote; the server fills in the price and the link
+export const quoteInputSchema = z.object({
+  serviceTypeId: z.string().min(1, "Choose a service type"),
+  frequency: z.enum(quoteFrequencies),
+  serviceDays: z.array(z.number().int().min(0).max(6)).max(7).optional(), // best-fit days when omitted
+  cleanupPrice: z.coerce.number().positive("Cleanup price must be greater than zero").max(10000).nullable().optional(),
+  addons: z.array(z.string()).optional(),
+  notes: z.string().trim().max(1000).optional(),
+  expiresOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(), // two weeks out when omitted
+});
+
+export type QuoteInput = z.infer<typeof quoteInputSchema>;
+
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+
 // Notifications (in-app alerts for admins)
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -384,6 +874,99 @@ export function calculateServicePrice(servicePlan: string, numberOfDogs: number)
   return 25.00; // default fallback
 }
 
+// Company closures (holidays, weather days) - stored on settings.businessClosures
+// 'skip' leaves the visit skipped (billable or not), the shift policies move it to another day
+export const closurePolicies = ["skip", "next_business_day", "previous_day"] as const;
+
+export const businessClosureSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  name: z.string().min(1, "Closure name is required"), // e.g., "Thanksgiving"
+  policy: z.enum(closurePolicies),
+  billable: z.boolean().default(false), // Only used by 'skip' - bill the skipped visit anyway
+});
+
+export type BusinessClosure = z.infer<typeof businessClosureSchema>;
+
+// Optional extras billed per visit - keys match scheduleRules.addons, stored on settings.serviceAddons
+export const serviceAddonSchema = z.object({
+  key: z.string().regex(/^[a-z0-9-]+$/, "Key must be lowercase letters, numbers and dashes"), // e.g., 'odor-spray'
+  name: z.string().min(1, "Add-on name is required"), // e.g., "Odor Spray"
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Price must be a dollar amount"), // per visit
+  taxable: z.boolean().optional(),
+});
+
+export type ServiceAddon = z.infer<typeof serviceAddonSchema>;
+
+// Sales tax rates - stored on settings.taxRates. Every rate applies to an invoice's taxable
+// lines (e.g. state plus city tax), each as its own tax line.
+export const taxRateSchema = z.object({
+  key: z.string().regex(/^[a-z0-9-]+$/, "Key must be lowercase letters, numbers and dashes"), // e.g., 'state'
+  name: z.string().min(1, "Tax name is required"), // e.g., "State sales tax"
+  rate: z.string().regex(/^\d{1,2}(\.\d{1,3})?$/, "Rate must be a percentage"), // e.g., "6.25"
+});
+
+export type TaxRate = z.infer<typeof taxRateSchema>;
+
+// Autopay retry schedule - stored on settings.dunningRetryDays / settings.dunningPauseSchedule
+export const dunningSettingsSchema = z.object({
+  // Days after the first failed charge to try the card again, e.g. [3, 7, 14]
+  retryDays: z.array(z.number().int().min(1).max(60)).min(1, "Add at least one retry day").max(6)
+    .transform(days => Array.from(new Set(days)).sort((a, b) => a - b)),
+  pauseSchedule: z.boolean(), // Pause the customer's schedules once the last retry fails
+});
+
+export type DunningSettings = z.infer<typeof dunningSettingsSchema>;
+
+// Late fees on overdue invoices - stored on settings.lateFee*
+export const lateFeeTypes = ["flat", "percent"] as const;
+export type LateFeeType = typeof lateFeeTypes[number];
+
+export const lateFeeSettingsSchema = z.object({
+  enabled: z.boolean(),
+  type: z.enum(lateFeeTypes),
+  amount: z.coerce.number().positive("Late fee must be greater than zero").max(10000), // dollars, or percent of the invoice
+  graceDays: z.coerce.number().int().min(0).max(90), // days past the due date before the fee is added
+}).refine(fee => fee.type !== "percent" || fee.amount <= 100, {
+  message: "Percentage late fee can't exceed 100%",
+  path: ["amount"],
+});
+
+export type LateFeeSettings = z.infer<typeof lateFeeSettingsSchema>;
+
+// Refer-a-friend rewards - stored on settings.referralCredit / settings.referralDiscount.
+// Referral codes are turned off while both are zero.
+export const referralSettingsSchema = z.object({
+  credit: z.coerce.number().min(0).max(1000), // dollars credited to the referrer
+  discount: z.coerce.number().min(0).max(1000), // dollars off the new customer's first invoice
+});
+
+export type ReferralSettings = z.infer<typeof referralSettingsSchema>;
+
+// Self-scheduling capacity - stored on settings.technicianDailyStops. The booking form only
+// offers days with room for another stop across all technicians.
+export const selfSchedulingSettingsSchema = z.object({
+  technicianDailyStops: z.coerce.number().int().min(1).max(200),
+});
+
+export type SelfSchedulingSettings = z.infer<typeof selfSchedulingSettingsSchema>;
+
+// Texts that aren't urgent wait until quiet hours end - stored on settings.quietHoursStart /
+// settings.quietHoursEnd (business time zone). Quiet hours are off while either is empty.
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM");
+
+export const quietHoursSchema = z.object({
+  start: timeOfDay.nullable(),
+  end: timeOfDay.nullable(),
+});
+
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+
+// Optional time (HH:MM) the techs leave for POST /api/routes/optimize and /api/routes/auto-split.
+// The optimizer uses its default start time when it's left out.
+export const routeStartTimeSchema = z.object({
+  startTime: timeOfDay.optional(),
+});
+
 // Business Settings
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default("default"), // Single row with id='default'
@@ -400,8 +983,35 @@ export const settings = pgTable("settings", {
   routeEndLat: decimal("route_end_lat", { precision: 10, scale: 7 }),
   routeEndLng: decimal("route_end_lng", { precision: 10, scale: 7 }),
   // SMS Message Templates (use {name} and {address} as placeholders)
+  // Legacy: replaced by the on_my_way and service_complete message templates, which start
+  // from these until they're first edited
   smsOnMyWayMessage: text("sms_on_my_way_message").default("Hi {name}! Your SillyDog technician is on the way to {address}. We'll be there shortly! 🐕"),
   smsServiceCompleteMessage: text("sms_service_complete_message").default("Service complete at {address}! Your yard is all cleaned up. How did we do? Leave us a review: {reviewUrl}"),
+  // Completions farther than this from the customer's address are flagged for review
+  geofenceRadiusFeet: integer("geofence_radius_feet").notNull().default(500),
+  // Company closure calendar
+  businessClosures: jsonb("business_closures").$type<BusinessClosure[]>().notNull().default([]),
+  // Priced add-ons that can be attached to schedule rules
+  serviceAddons: jsonb("service_addons").$type<ServiceAddon[]>().notNull().default([]),
+  // Sales tax on taxable invoice lines
+  taxRates: jsonb("tax_rates").$type<TaxRate[]>().notNull().default([]),
+  // Failed autopay follow-up
+  dunningRetryDays: jsonb("dunning_retry_days").$type<number[]>().notNull().default([3, 7, 14]),
+  dunningPauseSchedule: boolean("dunning_pause_schedule").notNull().default(false),
+  // Late fee added once to invoices still unpaid after the grace period
+  lateFeeEnabled: boolean("late_fee_enabled").notNull().default(false),
+  lateFeeType: text("late_fee_type").notNull().default("flat"), // see lateFeeTypes
+  lateFeeAmount: decimal("late_fee_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  lateFeeGraceDays: integer("late_fee_grace_days").notNull().default(0),
+  // Refer-a-friend: account credit for the referrer once the new customer's first invoice is
+  // paid, and dollars off the new customer's first invoice
+  referralCredit: decimal("referral_credit", { precision: 10, scale: 2 }).notNull().default("0"),
+  referralDiscount: decimal("referral_discount", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Self-scheduling: stops one technician can take on per day
+  technicianDailyStops: integer("technician_daily_stops").notNull().default(25),
+  // No texts between these times except urgent ones; the rest are queued until the end
+  quietHoursStart: text("quiet_hours_start"), // HH:MM, e.g. "21:00"
+  quietHoursEnd: text("quiet_hours_end"), // HH:MM, e.g. "08:00"
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
@@ -427,19 +1037,41 @@ export function calculateTimerBasedPrice(durationMinutes: number, servicePlan: s
   return Math.round(hours * 100 * 100) / 100; // Round to 2 decimal places
 }
 
-// Announcements - Bulk SMS broadcasts to customers
+// Who an announcement goes to, out of the active customers opted in to SMS. Each list that's
+// set narrows the audience (a customer has to match one entry); an empty segment is everyone.
+export const announcementSegmentSchema = z.object({
+  customerIds: z.array(z.string()).optional(),
+  serviceDays: z.array(z.number().int().min(0).max(6)).optional(), // 0=Sun; schedule days or preferred days
+  serviceTypeIds: z.array(z.string()).optional(),
+  cities: z.array(z.string().trim().min(1)).optional(), // matched against the address
+  zips: z.array(z.string().trim().regex(/^\d{5}$/, "ZIP codes have 5 digits")).optional(),
+  minBalance: z.number().positive().optional(), // dollars owed on open invoices
+  tags: z.array(z.string().trim().min(1)).optional(),
+});
+
+export type AnnouncementSegment = z.infer<typeof announcementSegmentSchema>;
+
+// Announcements - Bulk SMS broadcasts to customers. A background worker sends them (see
+// server/services/announcements.ts): 'scheduled' until scheduledFor, then 'sending' while
+// recipients are worked through, then 'completed' (or 'cancelled').
 export const announcements = pgTable("announcements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(), // Internal title for reference
   messageText: text("message_text").notNull(), // The SMS message content
   sentBy: varchar("sent_by").notNull(), // User ID who sent it
+  segment: jsonb("segment").$type<AnnouncementSegment>().notNull().default({}),
+  scheduledFor: timestamp("scheduled_for").defaultNow().notNull(), // When sending starts
   totalRecipients: integer("total_recipients").notNull().default(0),
   successfulSends: integer("successful_sends").notNull().default(0),
   failedSends: integer("failed_sends").notNull().default(0),
-  status: text("status").notNull().default("pending"), // 'pending', 'sending', 'completed', 'failed'
+  deliveredCount: integer("delivered_count").notNull().default(0), // Confirmed by carrier delivery receipts
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'sending', 'completed', 'cancelled'
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
-});
+}, (table) => ({
+  statusScheduledIdx: index("announcements_status_scheduled_for_idx").on(table.status, table.scheduledFor),
+}));
 
 export const insertAnnouncementSchema = createInsertSchema(announcements).omit({
   id: true,
@@ -449,8 +1081,12 @@ export const insertAnnouncementSchema = createInsertSchema(announcements).omit({
   successfulSends: true,
   failedSends: true,
   status: true,
+  deliveredCount: true,
+  startedAt: true,
 }).extend({
   sentBy: z.string().optional(), // Optional because it's set server-side from authenticated user
+  segment: announcementSegmentSchema.optional(),
+  scheduledFor: z.coerce.date().optional(), // Send now when missing
 });
 
 export type Announcement = typeof announcements.$inferSelect;
@@ -463,19 +1099,31 @@ export const announcementRecipients = pgTable("announcement_recipients", {
   customerId: varchar("customer_id").notNull(),
   customerName: text("customer_name").notNull(),
   customerPhone: text("customer_phone").notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'failed'
-  externalMessageId: text("external_message_id"), // Telnyx message ID
+  status: text("status").notNull().default("pending"), // 'pending', 'sent', 'delivered', 'failed', 'cancelled'
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }), // The text in the message log
+  externalMessageId: text("external_message_id"), // Provider message ID; matched by delivery receipts
   errorMessage: text("error_message"), // If failed, why
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // When a pending recipient is (re)tried; null = right away
   sentAt: timestamp("sent_at"),
-});
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => ({
+  announcementStatusIdx: index("announcement_recipients_announcement_status_idx").on(table.announcementId, table.status),
+  externalMessageIdx: index("announcement_recipients_external_message_id_idx").on(table.externalMessageId),
+}));
 
 export type AnnouncementRecipient = typeof announcementRecipients.$inferSelect;
 
-// Field Payments - Track all payments (card, check) taken in the field by staff
+// Field Payments - Track all payments (card, check) taken in the field by staff.
+// Account credits and balance adjustments posted by the office are recorded here too, so
+// anything not yet applied to an invoice is the customer's credit balance.
+export const paymentMethods = ["card", "check", "cash", "credit", "adjustment"] as const;
+export type PaymentMethod = (typeof paymentMethods)[number];
+
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerId: varchar("customer_id").notNull(),
-  paymentMethod: text("payment_method").notNull(), // 'card', 'check', 'cash'
+  paymentMethod: text("payment_method").notNull(), // see paymentMethods
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed', 'refunded'
   stripePaymentIntentId: text("stripe_payment_intent_id"), // For card payments
@@ -492,7 +1140,7 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({
   createdAt: true,
   processedAt: true,
 }).extend({
-  paymentMethod: z.enum(['card', 'check', 'cash']),
+  paymentMethod: z.enum(paymentMethods),
   status: z.enum(['pending', 'completed', 'failed', 'refunded']).optional(),
 });
 
@@ -509,3 +1157,104 @@ export const paymentApplications = pgTable("payment_applications", {
 });
 
 export type PaymentApplication = typeof paymentApplications.$inferSelect;
+
+// Refunds - Money returned on a payment: a Stripe refund for card payments, or a recorded
+// reversal for cash and check. Partly refunded payments stay 'completed'; the rest of the
+// payment still counts toward the customer's invoices.
+export const refundMethods = ["stripe", "reversal"] as const;
+export type RefundMethod = (typeof refundMethods)[number];
+
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull(),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  method: text("method").notNull(), // see refundMethods
+  status: text("status").notNull().default("succeeded"), // 'pending', 'succeeded', 'failed' (Stripe refund status)
+  stripeRefundId: text("stripe_refund_id").unique(),
+  reason: text("reason"),
+  createdBy: varchar("created_by"), // User ID; null when recorded from a Stripe webhook
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  method: z.enum(refundMethods),
+});
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+
+// Promo Codes - entered on the booking form or by the office. Redeeming one attaches it to
+// the customer; the discount comes off their next invoices as "discount" lines.
+// percent - discountValue percent off the next invoice
+// fixed - discountValue dollars off the next invoice
+// free_visit - discountValue visits billed at no charge, across as many invoices as it takes
+export const promoDiscountTypes = ["percent", "fixed", "free_visit"] as const;
+export type PromoDiscountType = (typeof promoDiscountTypes)[number];
+
+export const promoCodes = pgTable("promo_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // Upper case
+  description: text("description").notNull(), // e.g., "First cleanup free"
+  discountType: text("discount_type").notNull(), // see promoDiscountTypes
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
+  expiresOn: text("expires_on"), // YYYY-MM-DD, the last day it can be redeemed
+  maxRedemptions: integer("max_redemptions"), // null for unlimited
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9-]{3,20}$/, "Code must be 3-20 letters, numbers and dashes"),
+  description: z.string().trim().min(1, "Description is required"),
+  discountType: z.enum(promoDiscountTypes),
+  discountValue: z.coerce.number().positive("Discount must be greater than zero").max(10000).transform(value => value.toFixed(2)),
+  expiresOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+  maxRedemptions: z.coerce.number().int().min(1).nullable().optional(),
+}).refine(promo => promo.discountType !== "percent" || parseFloat(promo.discountValue) <= 100, {
+  message: "Percent off can't exceed 100%",
+  path: ["discountValue"],
+}).refine(promo => promo.discountType !== "free_visit" || Number.isInteger(parseFloat(promo.discountValue)), {
+  message: "Enter a whole number of free visits",
+  path: ["discountValue"],
+});
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+
+// Promo Redemptions - a promo or referral code applied to a customer. The discount is copied
+// from the code when it's redeemed; referral redemptions are a fixed discount of
+// settings.referralDiscount (possibly zero) and earn the referrer referralCredit once one of
+// the customer's invoices is paid. How much of a redemption has been used is read from the
+// discount lines that carry its id.
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull(),
+  code: text("code").notNull(), // As redeemed, for display
+  promoCodeId: varchar("promo_code_id").references(() => promoCodes.id), // Null for referral codes
+  discountType: text("discount_type").notNull(), // see promoDiscountTypes
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
+  referrerCustomerId: varchar("referrer_customer_id"), // Customer whose referral code this was
+  referralCredit: decimal("referral_credit", { precision: 10, scale: 2 }), // Owed to the referrer
+  referralPaymentId: varchar("referral_payment_id"), // The credit once it's been given
+  createdBy: varchar("created_by"), // User ID; null when redeemed from a booking request
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("promo_redemptions_customer_idx").on(table.customerId),
+}));
+
+export const insertPromoRedemptionSchema = createInsertSchema(promoRedemptions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  discountType: z.enum(promoDiscountTypes),
+});
+
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type InsertPromoRedemption = z.infer<typeof insertPromoRedemptionSchema>;